@@ -10,6 +10,7 @@ import ProtectedRoute from "@/components/ProtectedRoute";
 import NotFound from "@/pages/not-found";
 import Marketplace from "@/pages/marketplace";
 import ProductDetails from "@/pages/product-details";
+import Compare from "@/pages/compare";
 import UnifiedAuth from "@/pages/unified-auth";
 import CustomerDashboard from "@/pages/customer-dashboard";
 import SellerDashboard from "@/pages/seller-dashboard";
@@ -18,6 +19,9 @@ import AdminPanel from "@/pages/admin-panel";
 import POSSystem from "@/pages/pos-system";
 import Checkout from "@/pages/checkout";
 import Loyalty from "@/pages/loyalty";
+import OrderTracking from "@/pages/order-tracking";
+import Wishlist from "@/pages/wishlist";
+import TradeIn from "@/pages/trade-in";
 import Home from "@/pages/home";
 
 function Router() {
@@ -37,6 +41,7 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/marketplace" component={Marketplace} />
       <Route path="/product/:id" component={ProductDetails} />
+      <Route path="/compare" component={Compare} />
       
       {/* Auth route */}
       <Route path="/auth" component={UnifiedAuth} />
@@ -49,6 +54,9 @@ function Router() {
       <ProtectedRoute path="/pos-system" component={POSSystem} roles={["seller", "admin"]} />
       <ProtectedRoute path="/checkout" component={Checkout} roles={["customer", "seller", "admin"]} />
       <ProtectedRoute path="/loyalty" component={Loyalty} roles={["customer", "admin"]} />
+      <ProtectedRoute path="/orders" component={OrderTracking} roles={["customer", "admin"]} />
+      <ProtectedRoute path="/wishlist" component={Wishlist} roles={["customer", "admin"]} />
+      <ProtectedRoute path="/trade-in" component={TradeIn} roles={["customer", "admin"]} />
       
       {/* Fallback to 404 */}
       <Route component={NotFound} />
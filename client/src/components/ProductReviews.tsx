@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
-import { Star, StarIcon, User, Calendar, ShoppingBag } from "lucide-react";
+import { Star, StarIcon, User, Calendar, ShoppingBag, MessageSquare } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
@@ -19,15 +19,67 @@ interface Review {
   title?: string;
   comment?: string;
   isVerifiedPurchase: boolean;
+  sellerReply?: string | null;
+  sellerRepliedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
 interface ProductReviewsProps {
   productId: string;
+  // The seller's user account; they may reply to the reviews
+  sellerUserId?: string;
 }
 
-export default function ProductReviews({ productId }: ProductReviewsProps) {
+// The seller's answer under a review, or a box to write one
+function SellerReply({ review, canReply }: { review: Review; canReply: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reply, setReply] = useState("");
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/reviews/${review.id}/reply`, { reply });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products', review.productId, 'reviews'] });
+      setReply("");
+      toast({ title: "Reply posted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to post reply", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (review.sellerReply) {
+    return (
+      <div className="mt-3 ml-4 pl-3 border-l-2 border-slate-200">
+        <p className="text-xs font-medium text-gray-500 flex items-center gap-1">
+          <MessageSquare className="w-3 h-3" />
+          Seller reply
+        </p>
+        <p className="text-sm text-gray-700">{review.sellerReply}</p>
+      </div>
+    );
+  }
+  if (!canReply) return null;
+
+  return (
+    <div className="mt-3 flex gap-2">
+      <Textarea
+        placeholder="Reply to this review"
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        rows={2}
+      />
+      <Button size="sm" disabled={!reply.trim() || replyMutation.isPending} onClick={() => replyMutation.mutate()}>
+        Reply
+      </Button>
+    </div>
+  );
+}
+
+export default function ProductReviews({ productId, sellerUserId }: ProductReviewsProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -252,6 +304,8 @@ export default function ProductReviews({ productId }: ProductReviewsProps) {
                   {review.comment && (
                     <p className="text-gray-700 leading-relaxed">{review.comment}</p>
                   )}
+
+                  <SellerReply review={review} canReply={!!user && user.id === sellerUserId} />
                 </CardContent>
               </Card>
             ))
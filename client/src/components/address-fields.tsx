@@ -0,0 +1,70 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KUWAIT_GOVERNORATES } from "@shared/schema";
+import type { AddressDraft } from "@/lib/address";
+
+interface AddressFieldsProps {
+  value: AddressDraft;
+  onChange: (value: AddressDraft) => void;
+}
+
+export function AddressFields({ value, onChange }: AddressFieldsProps) {
+  const field = (name: Exclude<keyof AddressDraft, "governorate">, label: string, required = false) => (
+    <div>
+      <Label htmlFor={`address-${name}`}>{label}{required && " *"}</Label>
+      <Input
+        id={`address-${name}`}
+        value={value[name]}
+        onChange={(e) => onChange({ ...value, [name]: e.target.value })}
+        required={required}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {field("fullName", "Full Name", true)}
+        {field("phone", "Phone", true)}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="address-governorate">Governorate *</Label>
+          <Select
+            value={value.governorate}
+            onValueChange={(governorate) => onChange({ ...value, governorate: governorate as AddressDraft["governorate"] })}
+          >
+            <SelectTrigger id="address-governorate">
+              <SelectValue placeholder="Select governorate" />
+            </SelectTrigger>
+            <SelectContent>
+              {KUWAIT_GOVERNORATES.map((governorate) => (
+                <SelectItem key={governorate} value={governorate}>{governorate}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {field("area", "Area", true)}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {field("block", "Block", true)}
+        {field("street", "Street", true)}
+        {field("avenue", "Avenue")}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {field("building", "Building", true)}
+        {field("floor", "Floor")}
+        {field("apartment", "Apartment")}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {field("paciNumber", "PACI Number")}
+        {field("label", "Label (e.g. Home)")}
+      </div>
+    </div>
+  );
+}
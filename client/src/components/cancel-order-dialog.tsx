@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface CancelOrderDialogProps {
+  orderId: string;
+  // Order list to refresh once the order is cancelled
+  ordersQueryKey: unknown[];
+}
+
+export function CancelOrderDialog({ orderId, ordersQueryKey }: CancelOrderDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/orders/${orderId}/cancel`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ordersQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loyalty"] });
+      toast({ title: "Order cancelled", description: "Any payment taken will be refunded." });
+      setOpen(false);
+      setReason("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cancel order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-red-600">
+          Cancel Order
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Order #{orderId.slice(-8)}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`cancel-reason-${orderId}`}>Reason</Label>
+          <Textarea
+            id={`cancel-reason-${orderId}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Tell us why this order is being cancelled"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            disabled={!reason.trim() || cancelMutation.isPending}
+            onClick={() => cancelMutation.mutate()}
+          >
+            {cancelMutation.isPending ? "Cancelling..." : "Confirm Cancellation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import { Tag } from "lucide-react";
+
+export interface AppliedCoupon {
+  code: string;
+  description: string | null;
+  stackableWithLoyalty: boolean;
+  discount: number;
+}
+
+interface CouponFieldProps {
+  applied: AppliedCoupon | null;
+  onChange: (coupon: AppliedCoupon | null) => void;
+  // POS lines; checkout leaves this out and the customer's cart is priced
+  items?: { productId: string; quantity: number }[];
+  loyaltyPoints?: number;
+}
+
+export function CouponField({ applied, onChange, items, loyaltyPoints }: CouponFieldProps) {
+  const [code, setCode] = useState("");
+  const { t, formatCurrency } = useLanguage();
+  const { toast } = useToast();
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/promotions/apply", { code, items, loyaltyPoints });
+      return (await res.json()) as AppliedCoupon;
+    },
+    onSuccess: (coupon) => {
+      onChange(coupon);
+      setCode("");
+    },
+    onError: (error) => {
+      toast({ title: t("operation_failed"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between rounded-md border border-dashed p-2 text-sm">
+        <div className="flex items-center gap-2">
+          <Tag className="h-4 w-4 text-green-600" />
+          <span className="font-medium">{applied.code}</span>
+          <span className="text-green-600">-{formatCurrency(applied.discount)}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+          {t("remove")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        placeholder={t("coupon_code")}
+        value={code}
+        onChange={(e) => setCode(e.target.value.toUpperCase())}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        disabled={!code.trim() || applyMutation.isPending}
+        onClick={() => applyMutation.mutate()}
+      >
+        {t("apply_coupon")}
+      </Button>
+    </div>
+  );
+}
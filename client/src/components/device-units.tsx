@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Search, Smartphone, Trash2 } from "lucide-react";
+import type { DeviceUnit, Product, ProductVariant } from "@shared/schema";
+
+interface DeviceUnitLookupResult {
+  unit: DeviceUnit;
+  product: Product;
+  sales: {
+    orderId: string;
+    orderStatus: string;
+    isPosOrder: boolean;
+    soldAt: string | null;
+    returned: boolean;
+    customer: { id: string; name: string | null; email: string | null; phone: string | null };
+  }[];
+}
+
+const EMPTY_UNIT = { imei1: "", imei2: "", serialNumber: "", color: "", storage: "", variantId: "" };
+
+const variantLabel = (variant: ProductVariant) => Object.values(variant.options).join(" / ");
+
+// The handsets registered against a product. Each unit added puts one more in stock.
+export function DeviceUnitsDialog({ product }: { product: Product }) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_UNIT);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const unitsKey = [`/api/products/${product.id}/units`];
+
+  const { data: units = [], isLoading } = useQuery<DeviceUnit[]>({
+    queryKey: unitsKey,
+    enabled: open,
+  });
+  // A product sold in variants registers each handset against one of them
+  const { data: variantData } = useQuery<{ variants: ProductVariant[] }>({
+    queryKey: [`/api/products/${product.id}/variants`],
+    enabled: open,
+  });
+  const variants = variantData?.variants ?? [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: unitsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/products/${product.id}/variants`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sellers", "products"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/products/${product.id}/units`, {
+        units: [
+          {
+            imei1: form.imei1,
+            imei2: form.imei2.trim() || null,
+            serialNumber: form.serialNumber.trim() || null,
+            color: form.color.trim() || null,
+            storage: form.storage.trim() || null,
+            variantId: form.variantId || null,
+          },
+        ],
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Unit added" });
+      // Keep the colour, storage and variant for the next handset of the same batch
+      setForm({ ...EMPTY_UNIT, color: form.color, storage: form.storage, variantId: form.variantId });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add unit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/device-units/${id}`);
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Failed to remove unit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const inStock = units.filter((unit) => unit.status === "in_stock").length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="IMEI units">
+          <Smartphone className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{product.name} units</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-6 gap-2 items-end">
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="unit-imei1">IMEI 1</Label>
+            <Input id="unit-imei1" value={form.imei1} onChange={(e) => setForm({ ...form, imei1: e.target.value })} />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="unit-imei2">IMEI 2</Label>
+            <Input id="unit-imei2" value={form.imei2} onChange={(e) => setForm({ ...form, imei2: e.target.value })} />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="unit-serial">Serial number</Label>
+            <Input
+              id="unit-serial"
+              value={form.serialNumber}
+              onChange={(e) => setForm({ ...form, serialNumber: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="unit-color">Color</Label>
+            <Input id="unit-color" value={form.color} onChange={(e) => setForm({ ...form, color: e.target.value })} />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="unit-storage">Storage</Label>
+            <Input
+              id="unit-storage"
+              placeholder="128GB"
+              value={form.storage}
+              onChange={(e) => setForm({ ...form, storage: e.target.value })}
+            />
+          </div>
+          {variants.length > 0 && (
+            <div className="space-y-1 col-span-2">
+              <Label>Variant</Label>
+              <Select value={form.variantId} onValueChange={(variantId) => setForm({ ...form, variantId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  {variants.map((variant) => (
+                    <SelectItem key={variant.id} value={variant.id}>{variantLabel(variant)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button
+            className="col-span-2"
+            disabled={!form.imei1.trim() || (variants.length > 0 && !form.variantId) || addMutation.isPending}
+            onClick={() => addMutation.mutate()}
+          >
+            Add Unit
+          </Button>
+        </div>
+
+        <p className="text-sm text-slate-500">
+          {inStock} in stock of {units.length} registered
+        </p>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading units...</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>IMEI</TableHead>
+                  <TableHead>Serial</TableHead>
+                  <TableHead>Color / Storage</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {units.map((unit) => (
+                  <TableRow key={unit.id}>
+                    <TableCell className="font-mono text-xs">
+                      <p>{unit.imei1}</p>
+                      {unit.imei2 && <p className="text-slate-500">{unit.imei2}</p>}
+                    </TableCell>
+                    <TableCell className="text-xs">{unit.serialNumber ?? "—"}</TableCell>
+                    <TableCell className="text-xs">
+                      {[unit.color, unit.storage].filter(Boolean).join(" / ") || "—"}
+                      {unit.variantId && (
+                        <p className="text-slate-500">
+                          {(() => {
+                            const variant = variants.find((candidate) => candidate.id === unit.variantId);
+                            return variant ? variantLabel(variant) : null;
+                          })()}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={unit.status === "in_stock" ? "default" : "outline"}>
+                        {unit.status === "in_stock" ? "In stock" : `Sold #${unit.orderId?.slice(-8)}`}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {unit.status === "in_stock" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(unit.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Find out which order and customer got a handset, for warranty claims and theft reports
+export function DeviceUnitLookup() {
+  const [query, setQuery] = useState("");
+  const [submitted, setSubmitted] = useState("");
+
+  const { data: result, error, isFetching } = useQuery<DeviceUnitLookupResult>({
+    queryKey: [`/api/device-units/lookup?q=${encodeURIComponent(submitted)}`],
+    enabled: !!submitted,
+    retry: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>IMEI Lookup</CardTitle>
+        <CardDescription>Find the order and customer a handset was sold to</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSubmitted(query.trim());
+          }}
+        >
+          <Input placeholder="IMEI or serial number" value={query} onChange={(e) => setQuery(e.target.value)} />
+          <Button type="submit" disabled={!query.trim() || isFetching}>
+            <Search className="h-4 w-4 mr-2" />
+            Look up
+          </Button>
+        </form>
+
+        {submitted && error && <p className="text-sm text-slate-500">No unit found with that IMEI or serial number</p>}
+
+        {result && (
+          <div className="space-y-3">
+            <div className="text-sm">
+              <p className="font-medium">{result.product.name}</p>
+              <p className="font-mono text-xs text-slate-500">
+                {[result.unit.imei1, result.unit.imei2, result.unit.serialNumber].filter(Boolean).join(" · ")}
+              </p>
+              <Badge variant={result.unit.status === "in_stock" ? "default" : "outline"} className="mt-1">
+                {result.unit.status === "in_stock" ? "In stock" : "Sold"}
+              </Badge>
+            </div>
+            {result.sales.length === 0 ? (
+              <p className="text-sm text-slate-500">This unit has never been sold</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.sales.map((sale) => (
+                    <TableRow key={sale.orderId}>
+                      <TableCell>
+                        #{sale.orderId.slice(-8)}
+                        {sale.isPosOrder && <Badge variant="outline" className="ml-2">POS</Badge>}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {sale.soldAt ? new Date(sale.soldAt).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <p>{sale.customer.name ?? "Walk-in customer"}</p>
+                        <p className="text-slate-500">{[sale.customer.phone, sale.customer.email].filter(Boolean).join(" · ")}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{sale.returned ? "returned" : sale.orderStatus}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
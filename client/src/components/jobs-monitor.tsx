@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RotateCcw, Trash2 } from "lucide-react";
+import type { DeadLetterJob, JobOverview, JobStatus } from "@shared/schema";
+
+const STATUSES: JobStatus[] = ["queued", "running", "completed", "failed"];
+
+const STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+const formatTime = (value: Date | string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+// The background job queue: what is waiting, running and done, the schedules
+// that feed it, and the jobs that used up their retries
+export function JobsMonitor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<JobStatus | "all">("all");
+
+  const { data: overview } = useQuery<JobOverview>({
+    queryKey: ["/api/admin/jobs", { status: status === "all" ? undefined : status }],
+    refetchInterval: 5000,
+  });
+  const { data: deadLetters = [] } = useQuery<DeadLetterJob[]>({
+    queryKey: ["/api/admin/jobs/dead-letters"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs/dead-letters"] });
+  };
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/admin/jobs/dead-letters/${id}/retry`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Job queued again" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to retry job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/jobs/dead-letters/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Failed to delete job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-4 gap-4">
+        {STATUSES.map((jobStatus) => (
+          <Card key={jobStatus}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-slate-600 capitalize">{jobStatus}</p>
+              <p className="text-2xl font-bold">{overview?.counts[jobStatus] ?? 0}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Jobs</CardTitle>
+            <CardDescription>
+              {overview ? `Stored in ${overview.backend}, ${overview.mode === "inline" ? "run inline" : "run by the worker"}` : ""}
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as JobStatus | "all")}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Jobs</SelectItem>
+              {STATUSES.map((jobStatus) => (
+                <SelectItem key={jobStatus} value={jobStatus} className="capitalize">
+                  {jobStatus}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Run at</TableHead>
+                <TableHead>Finished</TableHead>
+                <TableHead>Last error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview?.jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="font-mono text-xs">{job.name}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[job.status]} className="capitalize">
+                      {job.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {job.attempts} / {job.maxAttempts}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatTime(job.runAt)}</TableCell>
+                  <TableCell className="text-sm">{formatTime(job.completedAt)}</TableCell>
+                  <TableCell className="text-sm text-red-600 max-w-xs truncate">{job.lastError ?? ""}</TableCell>
+                </TableRow>
+              ))}
+              {overview?.jobs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-slate-500">
+                    No jobs
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dead Letters</CardTitle>
+          <CardDescription>Jobs that failed every attempt. Retrying queues them again with fresh attempts.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Failed</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deadLetters.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-mono text-xs">{entry.name}</TableCell>
+                  <TableCell>{entry.attempts}</TableCell>
+                  <TableCell className="text-sm">{formatTime(entry.failedAt)}</TableCell>
+                  <TableCell className="text-sm text-red-600 max-w-sm truncate">{entry.error}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" disabled={retryMutation.isPending} onClick={() => retryMutation.mutate(entry.id)}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {deadLetters.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-slate-500">
+                    No failed jobs
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Cron</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview?.schedules.map((schedule) => (
+                <TableRow key={schedule.name}>
+                  <TableCell className="font-mono text-xs">{schedule.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{schedule.cron}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
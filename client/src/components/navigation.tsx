@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,18 +6,23 @@ import { Badge } from "@/components/ui/badge";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { LanguageToggle } from "@/components/language-toggle";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Smartphone, Search, ShoppingCart, User, Menu, LogOut, Package, Plus, Minus, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { CartItem, Product } from "@shared/schema";
+import type { CartItem, Product, ProductSuggestion, ProductVariant } from "@shared/schema";
 
 interface CartItemWithProduct extends CartItem {
   product: Product;
+  variant?: ProductVariant | null;
 }
 
+// A line of a product sold in variants is priced by its variant
+const linePrice = (item: CartItemWithProduct) => parseFloat(item.variant?.price ?? item.product?.price ?? "0");
+
 function CartItemComponent({ item }: { item: CartItemWithProduct }) {
   const { formatCurrency } = useLanguage();
   const { toast } = useToast();
@@ -74,7 +79,10 @@ function CartItemComponent({ item }: { item: CartItemWithProduct }) {
       </div>
       <div className="flex-1 min-w-0">
         <p className="font-medium text-sm truncate">{item.product?.name || 'Product'}</p>
-        <p className="text-xs text-slate-500">{formatCurrency(parseFloat(item.product?.price || "0"))}</p>
+        {item.variant && (
+          <p className="text-xs text-slate-500 truncate">{Object.values(item.variant.options).join(" / ")}</p>
+        )}
+        <p className="text-xs text-slate-500">{formatCurrency(linePrice(item))}</p>
       </div>
       <div className="flex items-center space-x-1">
         <Button
@@ -108,9 +116,22 @@ function CartItemComponent({ item }: { item: CartItemWithProduct }) {
 export function Navigation() {
   const { user, isAuthenticated } = useAuth();
   const { t, isRTL } = useLanguage();
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [suggestQuery, setSuggestQuery] = useState("");
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  // Offer matching listings once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSuggestQuery(searchQuery.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data: suggestions = [] } = useQuery<ProductSuggestion[]>({
+    queryKey: [`/api/products/autocomplete?q=${encodeURIComponent(suggestQuery)}`],
+    enabled: suggestQuery.length >= 2,
+  });
 
   const { data: cartItems = [] } = useQuery<CartItemWithProduct[]>({
     queryKey: ["/api/cart/detailed"],
@@ -197,9 +218,36 @@ export function Navigation() {
                 placeholder={t('search')}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
                 className={isRTL ? "pr-10" : "pl-10"}
               />
               <Search className={`absolute ${isRTL ? 'right-3' : 'left-3'} top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4`} />
+              {showSuggestions && suggestQuery.length >= 2 && suggestions.length > 0 && (
+                <div className="absolute z-50 mt-1 w-full rounded-md border bg-white dark:bg-slate-800 shadow-lg">
+                  {suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion.id}
+                      type="button"
+                      className="flex w-full items-center gap-3 px-3 py-2 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700"
+                      // Before the input's blur hides the list
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        setShowSuggestions(false);
+                        setLocation(`/product/${suggestion.id}`);
+                      }}
+                    >
+                      {suggestion.imageUrl ? (
+                        <img src={suggestion.imageUrl} alt="" className="h-8 w-8 rounded object-cover" />
+                      ) : (
+                        <Package className="h-8 w-8 p-1 text-slate-400" />
+                      )}
+                      <span className="flex-1 truncate">{suggestion.name}</span>
+                      {suggestion.brand && <span className="text-xs text-slate-500">{suggestion.brand}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </form>
 
@@ -208,6 +256,7 @@ export function Navigation() {
             {/* Language Toggle */}
             <LanguageToggle />
             <ThemeToggle />
+            {isAuthenticated && <NotificationBell />}
             {/* Cart */}
             {isAuthenticated && (
               <Sheet open={isCartOpen} onOpenChange={setIsCartOpen}>
@@ -243,7 +292,7 @@ export function Navigation() {
                           <div className="flex justify-between items-center mb-4">
                             <span className="font-semibold">Total:</span>
                             <span className="font-bold text-lg">
-                              {cartItems.reduce((total, item) => total + (item.quantity * parseFloat(item.product?.price || "0")), 0).toLocaleString('en-KW', { style: 'currency', currency: 'KWD' })}
+                              {cartItems.reduce((total, item) => total + (item.quantity * linePrice(item)), 0).toLocaleString('en-KW', { style: 'currency', currency: 'KWD' })}
                             </span>
                           </div>
                           <Link href="/checkout">
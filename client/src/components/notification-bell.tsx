@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { io } from "socket.io-client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ListPager } from "@/components/list-pager";
+import { useAuth } from "@/hooks/useAuth";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Bell, CheckCheck } from "lucide-react";
+import type { Notification, Page } from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+// Where a notification leads when clicked, if anywhere
+function notificationLink(notification: Notification): string | null {
+  switch (notification.type) {
+    case "order_status":
+      return "/orders";
+    case "price_drop":
+    case "back_in_stock":
+    case "review_reply":
+      return notification.relatedId ? `/product/${notification.relatedId}` : null;
+    case "promotion":
+      return "/wishlist";
+    case "repair_update":
+    case "trade_in_accepted":
+    case "trade_in_rejected":
+    case "warranty_claim_resolved":
+    case "warranty_claim_rejected":
+      return "/customer-dashboard";
+    default:
+      if (notification.sellerId) return "/seller-dashboard";
+      // Sent to neither a customer nor a shop, so to the admins
+      return notification.userId ? null : "/admin-panel";
+  }
+}
+
+// Refresh the notification center, and show a toast, as the server pushes
+// new notifications
+function useLiveNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+    const token = localStorage.getItem("authToken");
+    const socket = io("/", { auth: { token } });
+
+    socket.on("notification", (notification: Notification) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/notifications/unread-count"] });
+      toast({ title: notification.title, description: notification.message });
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [user, queryClient, toast]);
+}
+
+// The bell in the navigation bar: unread count, and the signed-in user's
+// notifications a page at a time
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [offset, setOffset] = useState(0);
+  useLiveNotifications();
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/users/me/notifications/unread-count"],
+  });
+  const { data: page } = useQuery<Page<Notification>>({
+    queryKey: ["/api/users/me/notifications", { limit: PAGE_SIZE, offset }],
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users/me/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users/me/notifications/unread-count"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("PUT", `/api/users/me/notifications/${id}/read`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/users/me/notifications/read-all");
+    },
+    onSuccess: invalidate,
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.isRead) markReadMutation.mutate(notification.id);
+    const link = notificationLink(notification);
+    if (link) {
+      setOpen(false);
+      setLocation(link);
+    }
+  };
+
+  const unreadCount = unread?.count ?? 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 bg-accent text-accent-foreground min-w-[1.25rem] h-5 flex items-center justify-center text-xs">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-semibold">Notifications</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+          >
+            <CheckCheck className="h-4 w-4 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {page?.items.map((notification) => (
+            <button
+              key={notification.id}
+              type="button"
+              className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-slate-50 dark:hover:bg-slate-800 ${
+                notification.isRead ? "" : "bg-blue-50 dark:bg-slate-800/60"
+              }`}
+              onClick={() => openNotification(notification)}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className={`text-sm ${notification.isRead ? "" : "font-semibold"}`}>{notification.title}</p>
+                {!notification.isRead && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-600" />}
+              </div>
+              <p className="text-sm text-slate-600 dark:text-slate-400">{notification.message}</p>
+              <p className="text-xs text-slate-400 mt-1">
+                {notification.createdAt ? new Date(notification.createdAt).toLocaleString() : ""}
+              </p>
+            </button>
+          ))}
+          {page?.items.length === 0 && <p className="px-4 py-8 text-center text-sm text-slate-500">No notifications yet</p>}
+        </div>
+        {page && (
+          <div className="px-4 pb-3">
+            <ListPager offset={offset} limit={PAGE_SIZE} total={page.total} onOffsetChange={setOffset} />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Bell } from "lucide-react";
+import type { NotificationLanguage, NotificationPreferences } from "@shared/schema";
+
+// How the signed-in customer hears about orders, repairs and wishlist alerts
+// outside the app: by email, by text message, and in which language
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<NotificationPreferences>({
+    emailNotifications: true,
+    smsNotifications: false,
+    phoneNumber: null,
+    preferredLanguage: "en",
+  });
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/users/me/notification-preferences"],
+  });
+
+  useEffect(() => {
+    if (preferences) setForm(preferences);
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/users/me/notification-preferences", {
+        ...form,
+        phoneNumber: form.phoneNumber?.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/notification-preferences"] });
+      toast({ title: "Notification preferences saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save preferences", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Bell className="h-5 w-5" />
+          <span>Notifications</span>
+        </CardTitle>
+        <CardDescription>Get updates by email or text message as well as in the app</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="notify-email">Email</Label>
+          <Switch
+            id="notify-email"
+            checked={form.emailNotifications}
+            onCheckedChange={(checked) => setForm({ ...form, emailNotifications: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="notify-sms">Text messages</Label>
+          <Switch
+            id="notify-sms"
+            checked={form.smsNotifications}
+            onCheckedChange={(checked) => setForm({ ...form, smsNotifications: checked })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="notify-phone">Mobile number</Label>
+          <Input
+            id="notify-phone"
+            type="tel"
+            placeholder="+965 5000 0000"
+            value={form.phoneNumber ?? ""}
+            onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Language</Label>
+          <Select
+            value={form.preferredLanguage}
+            onValueChange={(value) => setForm({ ...form, preferredLanguage: value as NotificationLanguage })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="en">English</SelectItem>
+              <SelectItem value="ar">العربية</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          size="sm"
+          disabled={(form.smsNotifications && !form.phoneNumber?.trim()) || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+        >
+          Save Preferences
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { Badge } from "@/components/ui/badge";
+import { useQuery } from "@tanstack/react-query";
+import type { OrderStatusHistory } from "@shared/schema";
+
+interface OrderTimelineProps {
+  orderId: string;
+}
+
+const statusColors: Record<string, string> = {
+  pending: "bg-slate-400",
+  processing: "bg-blue-500",
+  shipped: "bg-amber-500",
+  delivered: "bg-green-500",
+  cancelled: "bg-red-500",
+};
+
+export function OrderTimeline({ orderId }: OrderTimelineProps) {
+  const { data: history = [], isLoading } = useQuery<OrderStatusHistory[]>({
+    queryKey: ["/api/orders", orderId, "history"],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-slate-500">No status changes yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${statusColors[entry.toStatus] || "bg-slate-400"}`}
+          />
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="capitalize">
+              {entry.toStatus}
+            </Badge>
+            <span className="text-xs text-slate-500">
+              {new Date(entry.createdAt!).toLocaleString()}
+            </span>
+          </div>
+          <p className="text-sm text-slate-600 mt-1">
+            {entry.changedByRole === "system" ? "Updated automatically" : `By ${entry.changedByRole}`}
+            {entry.note ? ` — ${entry.note}` : ""}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,443 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Plus, Trash2 } from "lucide-react";
+import type { CommissionRate, Payout, PayoutBatch } from "@shared/schema";
+
+interface SellerOption {
+  sellerId: string;
+  businessName: string;
+}
+
+interface SellerBalance extends SellerOption {
+  payoutIban: string | null;
+  payoutAccountName: string | null;
+  balance: number;
+}
+
+type PayoutLine = Payout & Omit<SellerBalance, "sellerId" | "balance">;
+
+const ALL_SELLERS = "all";
+
+function useApprovedSellers() {
+  return useQuery<SellerOption[]>({
+    queryKey: ["/api/sellers/approved"],
+  });
+}
+
+// Commission model: a global default plus per-seller and per-category overrides
+export function CommissionRatesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: rates = [], isLoading } = useQuery<CommissionRate[]>({
+    queryKey: ["/api/admin/commission-rates"],
+  });
+  const { data: sellers = [] } = useApprovedSellers();
+  const [form, setForm] = useState({ sellerId: ALL_SELLERS, category: "", rate: "" });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/commission-rates", {
+        sellerId: form.sellerId === ALL_SELLERS ? null : form.sellerId,
+        category: form.category.trim() || null,
+        rate: form.rate,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/commission-rates"] });
+      toast({ title: "Commission rate saved" });
+      setForm({ sellerId: ALL_SELLERS, category: "", rate: "" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save commission rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/commission-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/commission-rates"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete commission rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const sellerName = (sellerId: string | null) =>
+    sellerId ? sellers.find((seller) => seller.sellerId === sellerId)?.businessName ?? sellerId : "All sellers";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Commission Rates</CardTitle>
+        <CardDescription>
+          Charged on the pre-tax sale. The most specific rate applies: seller and category, seller, category, then the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Seller</Label>
+            <Select value={form.sellerId} onValueChange={(sellerId) => setForm({ ...form, sellerId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SELLERS}>All sellers</SelectItem>
+                {sellers.map((seller) => (
+                  <SelectItem key={seller.sellerId} value={seller.sellerId}>{seller.businessName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="commission-category">Category</Label>
+            <Input
+              id="commission-category"
+              placeholder="All categories"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="commission-rate">Rate (%)</Label>
+            <Input
+              id="commission-rate"
+              type="number"
+              min={0}
+              max={100}
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value })}
+            />
+          </div>
+          <Button disabled={!form.rate || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            Save Rate
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading commission rates...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Seller</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell>{sellerName(rate.sellerId)}</TableCell>
+                  <TableCell>{rate.category ?? "All categories"}</TableCell>
+                  <TableCell>
+                    {parseFloat(rate.rate)}%
+                    {!rate.sellerId && !rate.category && <Badge variant="outline" className="ml-2">Default</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {(rate.sellerId || rate.category) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(rate.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Seller balances, manual adjustments and payout batches
+export function PayoutsManager() {
+  const { formatCurrency } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openBatchId, setOpenBatchId] = useState<string | null>(null);
+
+  const { data: balances = [], isLoading: balancesLoading } = useQuery<SellerBalance[]>({
+    queryKey: ["/api/admin/seller-balances"],
+  });
+  const { data: batches = [] } = useQuery<PayoutBatch[]>({
+    queryKey: ["/api/admin/payout-batches"],
+  });
+  const { data: batchPayouts = [] } = useQuery<PayoutLine[]>({
+    queryKey: ["/api/admin/payout-batches", openBatchId, "payouts"],
+    enabled: !!openBatchId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/seller-balances"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/payout-batches"] });
+  };
+
+  const createBatchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/payout-batches", {});
+      return (await res.json()) as PayoutBatch;
+    },
+    onSuccess: (batch) => {
+      refresh();
+      setOpenBatchId(batch.id);
+      toast({ title: "Payout batch created", description: formatCurrency(batch.total) });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create payout batch", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async ({ id, reference }: { id: string; reference: string }) => {
+      return await apiRequest("PUT", `/api/admin/payout-batches/${id}/paid`, { reference });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Payout batch marked paid" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to mark batch paid", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleExport = async (batch: PayoutBatch) => {
+    const res = await apiRequest("GET", `/api/admin/payout-batches/${batch.id}/export`);
+    const blob = await res.blob();
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `payout-batch-${batch.id.slice(-8)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleMarkPaid = (batch: PayoutBatch) => {
+    const reference = window.prompt("Bank transfer reference");
+    if (reference?.trim()) {
+      markPaidMutation.mutate({ id: batch.id, reference: reference.trim() });
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Seller Balances</CardTitle>
+            <CardDescription>What the platform owes each seller, after commission and refunds</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <AdjustmentDialog onRecorded={refresh} />
+            <Button
+              size="sm"
+              disabled={createBatchMutation.isPending || !balances.some((seller) => seller.balance > 0)}
+              onClick={() => createBatchMutation.mutate()}
+            >
+              Create Payout Batch
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {balancesLoading ? (
+            <p className="text-sm text-slate-500">Loading balances...</p>
+          ) : balances.length === 0 ? (
+            <p className="text-sm text-slate-500">No seller sales recorded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Seller</TableHead>
+                  <TableHead>Payout account</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {balances.map((seller) => (
+                  <TableRow key={seller.sellerId}>
+                    <TableCell>{seller.businessName}</TableCell>
+                    <TableCell className="text-xs">
+                      {seller.payoutIban ? (
+                        <>
+                          <p>{seller.payoutAccountName}</p>
+                          <p className="text-slate-500">{seller.payoutIban}</p>
+                        </>
+                      ) : (
+                        <Badge variant="outline">No bank details</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${seller.balance < 0 ? "text-red-600" : ""}`}>
+                      {formatCurrency(seller.balance)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payout Batches</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {batches.length === 0 ? (
+            <p className="text-sm text-slate-500">No payout batches yet</p>
+          ) : (
+            <div className="space-y-3">
+              {batches.map((batch) => (
+                <div key={batch.id} className="border rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <button
+                      type="button"
+                      className="text-left"
+                      onClick={() => setOpenBatchId(openBatchId === batch.id ? null : batch.id)}
+                    >
+                      <p className="font-medium">
+                        Batch #{batch.id.slice(-8)} · {formatCurrency(batch.total)}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        Created {new Date(batch.createdAt!).toLocaleString()}
+                        {batch.paidAt && ` · Paid ${new Date(batch.paidAt).toLocaleString()} (${batch.reference})`}
+                      </p>
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={batch.status === "paid" ? "default" : "outline"}>{batch.status}</Badge>
+                      <Button variant="outline" size="sm" onClick={() => handleExport(batch)}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export
+                      </Button>
+                      {batch.status === "pending" && (
+                        <Button size="sm" disabled={markPaidMutation.isPending} onClick={() => handleMarkPaid(batch)}>
+                          Mark Paid
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {openBatchId === batch.id && (
+                    <Table className="mt-3">
+                      <TableBody>
+                        {batchPayouts.map((payout) => (
+                          <TableRow key={payout.id}>
+                            <TableCell>{payout.businessName}</TableCell>
+                            <TableCell className="text-xs text-slate-500">{payout.payoutIban ?? "No bank details"}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(payout.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+function AdjustmentDialog({ onRecorded }: { onRecorded: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState({ sellerId: "", amount: "", description: "" });
+  const { data: sellers = [] } = useApprovedSellers();
+  const { toast } = useToast();
+
+  const adjustmentMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/ledger/adjustments", {
+        sellerId: form.sellerId,
+        amount: parseFloat(form.amount),
+        description: form.description,
+      });
+    },
+    onSuccess: () => {
+      onRecorded();
+      toast({ title: "Adjustment recorded" });
+      setOpen(false);
+      setForm({ sellerId: "", amount: "", description: "" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to record adjustment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          Adjustment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ledger Adjustment</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Seller</Label>
+            <Select value={form.sellerId} onValueChange={(sellerId) => setForm({ ...form, sellerId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a seller" />
+              </SelectTrigger>
+              <SelectContent>
+                {sellers.map((seller) => (
+                  <SelectItem key={seller.sellerId} value={seller.sellerId}>{seller.businessName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-amount">Amount (negative to charge the seller)</Label>
+            <Input
+              id="adjustment-amount"
+              type="number"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-description">Reason</Label>
+            <Input
+              id="adjustment-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!form.sellerId || !parseFloat(form.amount) || !form.description.trim() || adjustmentMutation.isPending}
+            onClick={() => adjustmentMutation.mutate()}
+          >
+            Record Adjustment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,26 +1,31 @@
-import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Heart, Star } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useWishlist } from "@/hooks/useWishlist";
 import { useLanguage } from "@/contexts/LanguageContext";
 import type { Product } from "@shared/schema";
 
 interface ProductCardProps {
   product: Product;
   onClick?: () => void;
+  // Offered where listings can be picked for the compare view
+  compareSelected?: boolean;
+  onCompareToggle?: () => void;
 }
 
-export function ProductCard({ product, onClick }: ProductCardProps) {
+export function ProductCard({ product, onClick, compareSelected, onCompareToggle }: ProductCardProps) {
   const { isAuthenticated } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { formatCurrency } = useLanguage();
-  const [isWishlisted, setIsWishlisted] = useState(false);
+  const { formatCurrency, t } = useLanguage();
+  const wishlist = useWishlist();
+  const isWishlisted = wishlist.isWishlisted(product.id);
 
   const addToCartMutation = useMutation({
     mutationFn: async () => {
@@ -60,15 +65,7 @@ export function ProductCard({ product, onClick }: ProductCardProps) {
 
   const handleWishlistToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!isAuthenticated) {
-      toast({
-        title: "Sign in required",
-        description: "Please sign in to save items to your wishlist.",
-        variant: "destructive",
-      });
-      return;
-    }
-    setIsWishlisted(!isWishlisted);
+    wishlist.toggle(product.id);
   };
 
   const discountPercentage = product.originalPrice 
@@ -166,6 +163,16 @@ export function ProductCard({ product, onClick }: ProductCardProps) {
             : "Add to Cart"
           }
         </Button>
+
+        {onCompareToggle && (
+          <label
+            className="flex items-center justify-center gap-2 mt-3 text-sm text-slate-600 cursor-pointer"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Checkbox checked={!!compareSelected} onCheckedChange={onCompareToggle} />
+            {t("compare")}
+          </label>
+        )}
       </CardContent>
     </Card>
   );
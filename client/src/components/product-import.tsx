@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, FileSpreadsheet, Upload } from "lucide-react";
+import type { ProductImport, ProductSheetFormat } from "@shared/schema";
+
+const STATUS_VARIANTS: Record<ProductImport["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+const isActive = (productImport: ProductImport) => ["pending", "running"].includes(productImport.status);
+
+async function uploadSheet(file: File, dryRun: boolean): Promise<ProductImport> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("dryRun", String(dryRun));
+
+  const token = localStorage.getItem("authToken");
+  const response = await fetch("/api/sellers/products/import", {
+    method: "POST",
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: formData,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message ?? response.statusText);
+  }
+  return await response.json();
+}
+
+async function downloadCatalog(format: ProductSheetFormat) {
+  const res = await apiRequest("GET", `/api/sellers/products/export?format=${format}`);
+  const blob = await res.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `products-export.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
+
+function ImportSummary({ productImport }: { productImport: ProductImport }) {
+  const verb = productImport.dryRun ? "would be" : "were";
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">{productImport.fileName}</p>
+          <p className="text-sm text-slate-600">
+            {productImport.dryRun ? "Dry run · " : ""}
+            {productImport.processedRows} of {productImport.totalRows} rows checked
+          </p>
+        </div>
+        <Badge variant={STATUS_VARIANTS[productImport.status]} className="capitalize">
+          {productImport.status}
+        </Badge>
+      </div>
+      {productImport.status === "completed" && (
+        <p className="text-sm">
+          {productImport.createdCount} products {verb} created and {productImport.updatedCount} {verb} updated
+          {!productImport.dryRun && productImport.createdCount + productImport.updatedCount > 0 && ", pending approval"}.
+        </p>
+      )}
+      {productImport.failureReason && <p className="text-sm text-red-600">{productImport.failureReason}</p>}
+      {productImport.errors.length > 0 && (
+        <div className="max-h-64 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead className="w-32">SKU</TableHead>
+                <TableHead>Problems</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {productImport.errors.map((error) => (
+                <TableRow key={error.row}>
+                  <TableCell>{error.row}</TableCell>
+                  <TableCell className="font-mono text-xs">{error.sku ?? "—"}</TableCell>
+                  <TableCell className="text-sm text-red-600">
+                    {error.messages.map((message) => (
+                      <div key={message}>{message}</div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Bulk import of the seller's products from a sheet, and export of the
+// catalog in the same columns
+export function ProductImportDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+
+  // Refreshed every few seconds while an import is still running
+  const { data: imports = [] } = useQuery<ProductImport[]>({
+    queryKey: ["/api/sellers/products/imports"],
+    refetchInterval: (query) => (query.state.data?.some(isActive) ? 2000 : false),
+  });
+  const latest = imports[0];
+
+  // Once an import is done, the product list shows what it changed
+  const [watching, setWatching] = useState<string | null>(null);
+  useEffect(() => {
+    if (latest && watching === latest.id && !isActive(latest)) {
+      setWatching(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/products"] });
+    }
+  }, [latest, watching, queryClient]);
+
+  const importMutation = useMutation({
+    mutationFn: () => uploadSheet(file!, dryRun),
+    onSuccess: (productImport) => {
+      setWatching(productImport.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/products/imports"] });
+      toast({ title: dryRun ? "Checking your file" : "Import started" });
+    },
+    onError: (error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: downloadCatalog,
+    onError: (error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Import / Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import &amp; Export Products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with one product per row. Rows are matched to your products by SKU: new SKUs are
+            created and existing ones updated, and both go to the admin for approval. Export your catalog for the
+            column layout.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate("csv")}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" size="sm" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate("xlsx")}>
+              <Download className="h-4 w-4 mr-2" />
+              Export XLSX
+            </Button>
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-4">
+            <div>
+              <Label htmlFor="product-sheet">Product file</Label>
+              <Input
+                id="product-sheet"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="dry-run" checked={dryRun} onCheckedChange={(checked) => setDryRun(checked === true)} />
+              <Label htmlFor="dry-run" className="font-normal">
+                Dry run: check every row without saving
+              </Label>
+            </div>
+            <Button disabled={!file || importMutation.isPending || (latest && isActive(latest))} onClick={() => importMutation.mutate()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {dryRun ? "Check File" : "Import Products"}
+            </Button>
+          </div>
+
+          {latest && <ImportSummary productImport={latest} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { productSpecFields, type ProductSpecField, type ProductSpecs } from "@shared/schema";
+
+// "6.1 in", "Yes", or a dash for a spec the seller left out
+export function formatSpecValue(field: ProductSpecField, value: ProductSpecs[string] | undefined): string {
+  if (value === undefined || value === "") return "—";
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  return field.unit ? `${value} ${field.unit}` : String(value);
+}
+
+// Spec values as the product form edits them: every value is text
+export const toSpecForm = (specs: ProductSpecs): Record<string, string> =>
+  Object.fromEntries(Object.entries(specs).map(([key, value]) => [key, String(value)]));
+
+interface ProductSpecsFieldsProps {
+  category: string;
+  specs: Record<string, string>;
+  onChange: (specs: Record<string, string>) => void;
+}
+
+// The specifications of the chosen category in the seller's product form
+export function ProductSpecsFields({ category, specs, onChange }: ProductSpecsFieldsProps) {
+  const fields = productSpecFields[category] ?? [];
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm">Specifications</h4>
+      <div className="grid grid-cols-2 gap-4">
+        {fields.map((field) => (
+          <div key={field.key}>
+            <Label htmlFor={`spec-${field.key}`}>
+              {field.label}
+              {field.unit && ` (${field.unit})`}
+            </Label>
+            {field.type === "boolean" ? (
+              <Select
+                value={specs[field.key] ?? ""}
+                onValueChange={(value) => onChange({ ...specs, [field.key]: value })}
+              >
+                <SelectTrigger id={`spec-${field.key}`}>
+                  <SelectValue placeholder="Not specified" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="true">Yes</SelectItem>
+                  <SelectItem value="false">No</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={`spec-${field.key}`}
+                type={field.type === "number" ? "number" : "text"}
+                step="any"
+                min="0"
+                value={specs[field.key] ?? ""}
+                onChange={(e) => onChange({ ...specs, [field.key]: e.target.value })}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// The filled-in specifications of one product
+export function ProductSpecsTable({ category, specs }: { category: string; specs: ProductSpecs }) {
+  const fields = (productSpecFields[category] ?? []).filter((field) => specs[field.key] !== undefined);
+  if (fields.length === 0) return null;
+
+  return (
+    <dl className="divide-y rounded-lg border text-sm">
+      {fields.map((field) => (
+        <div key={field.key} className="flex justify-between px-4 py-2">
+          <dt className="text-slate-600">{field.label}</dt>
+          <dd className="font-medium text-slate-900">{formatSpecValue(field, specs[field.key])}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
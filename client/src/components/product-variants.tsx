@@ -0,0 +1,303 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import type { Product, ProductOption, ProductVariant } from "@shared/schema";
+
+interface ProductVariantsData {
+  options: ProductOption[];
+  variants: ProductVariant[];
+}
+
+const EMPTY_VARIANT = { sku: "", price: "", stock: "" };
+
+// Values are edited as a comma-separated list: "Black, Blue, Silver"
+const toOptionRows = (options: ProductOption[]) =>
+  options.map((option) => ({ name: option.name, values: option.values.join(", ") }));
+
+// The options (Color, Storage, ...) a product is sold in and a variant for each
+// combination on offer, with its own SKU, price and stock
+export function ProductVariantsDialog({ product }: { product: Product }) {
+  const [open, setOpen] = useState(false);
+  const [optionRows, setOptionRows] = useState<{ name: string; values: string }[]>([]);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [form, setForm] = useState(EMPTY_VARIANT);
+  const [adjustments, setAdjustments] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const variantsKey = [`/api/products/${product.id}/variants`];
+
+  const { data, isLoading } = useQuery<ProductVariantsData>({
+    queryKey: variantsKey,
+    enabled: open,
+  });
+  const options = data?.options ?? [];
+  const variants = data?.variants ?? [];
+
+  useEffect(() => {
+    if (data) setOptionRows(toOptionRows(data.options));
+  }, [data]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: variantsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/sellers", "products"] });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveOptionsMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/products/${product.id}/options`, {
+        options: optionRows.map((row) => ({
+          name: row.name,
+          values: row.values.split(",").map((value) => value.trim()).filter(Boolean),
+        })),
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      setSelection({});
+      toast({ title: "Options saved" });
+    },
+    onError: onError("Failed to save options"),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/products/${product.id}/variants`, {
+        options: selection,
+        sku: form.sku.trim() || null,
+        price: form.price,
+        stock: parseInt(form.stock) || 0,
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Variant added" });
+      setForm(EMPTY_VARIANT);
+    },
+    onError: onError("Failed to add variant"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<ProductVariant, "price" | "isActive">> }) => {
+      return await apiRequest("PUT", `/api/products/${product.id}/variants/${id}`, updates);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update variant"),
+  });
+
+  const stockMutation = useMutation({
+    mutationFn: async ({ id, quantityChange }: { id: string; quantityChange: number }) => {
+      return await apiRequest("POST", `/api/products/${product.id}/stock`, {
+        quantityChange,
+        reason: "Stock adjustment",
+        variantId: id,
+      });
+    },
+    onSuccess: (_, { id }) => {
+      refresh();
+      setAdjustments((current) => ({ ...current, [id]: "" }));
+    },
+    onError: onError("Failed to update stock"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/products/${product.id}/variants/${id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to remove variant"),
+  });
+
+  const canAdd = options.length > 0 && options.every((option) => selection[option.name]) && !!form.price;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Variants">
+          <Layers className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{product.name} variants</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm">Options</h4>
+          {optionRows.map((row, index) => (
+            <div key={index} className="grid grid-cols-7 gap-2">
+              <Input
+                className="col-span-2"
+                placeholder="Color"
+                value={row.name}
+                onChange={(e) => setOptionRows(optionRows.map((other, i) => (i === index ? { ...other, name: e.target.value } : other)))}
+              />
+              <Input
+                className="col-span-4"
+                placeholder="Black, Blue, Silver"
+                value={row.values}
+                onChange={(e) => setOptionRows(optionRows.map((other, i) => (i === index ? { ...other, values: e.target.value } : other)))}
+              />
+              <Button variant="ghost" size="sm" onClick={() => setOptionRows(optionRows.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={optionRows.length >= 3}
+              onClick={() => setOptionRows([...optionRows, { name: "", values: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Option
+            </Button>
+            <Button size="sm" disabled={saveOptionsMutation.isPending} onClick={() => saveOptionsMutation.mutate()}>
+              Save Options
+            </Button>
+          </div>
+        </div>
+
+        {options.length > 0 && (
+          <div className="grid grid-cols-6 gap-2 items-end">
+            {options.map((option) => (
+              <div key={option.id} className="space-y-1">
+                <Label>{option.name}</Label>
+                <Select
+                  value={selection[option.name] ?? ""}
+                  onValueChange={(value) => setSelection({ ...selection, [option.name]: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {option.values.map((value) => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="variant-sku">SKU</Label>
+              <Input id="variant-sku" value={form.sku} onChange={(e) => setForm({ ...form, sku: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="variant-price">Price</Label>
+              <Input
+                id="variant-price"
+                type="number"
+                step="0.01"
+                value={form.price}
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="variant-stock">Opening stock</Label>
+              <Input
+                id="variant-stock"
+                type="number"
+                min="0"
+                value={form.stock}
+                onChange={(e) => setForm({ ...form, stock: e.target.value })}
+              />
+            </div>
+            <Button disabled={!canAdd || addMutation.isPending} onClick={() => addMutation.mutate()}>
+              Add Variant
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading variants...</p>
+        ) : variants.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            This product is sold as a single item. Add its options, then a variant for each combination you sell.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variants.map((variant) => (
+                <TableRow key={variant.id}>
+                  <TableCell className="font-medium">{Object.values(variant.options).join(" / ")}</TableCell>
+                  <TableCell className="font-mono text-xs">{variant.sku ?? "—"}</TableCell>
+                  <TableCell>
+                    <Input
+                      className="w-24"
+                      type="number"
+                      step="0.01"
+                      defaultValue={variant.price}
+                      onBlur={(e) => {
+                        if (e.target.value && parseFloat(e.target.value) !== parseFloat(variant.price)) {
+                          updateMutation.mutate({ id: variant.id, updates: { price: e.target.value } });
+                        }
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="w-8">{variant.stock}</span>
+                      <Input
+                        className="w-20"
+                        type="number"
+                        placeholder="±"
+                        value={adjustments[variant.id] ?? ""}
+                        onChange={(e) => setAdjustments({ ...adjustments, [variant.id]: e.target.value })}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!parseInt(adjustments[variant.id] ?? "") || stockMutation.isPending}
+                        onClick={() => stockMutation.mutate({ id: variant.id, quantityChange: parseInt(adjustments[variant.id]) })}
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={variant.isActive}
+                      onCheckedChange={(isActive) => updateMutation.mutate({ id: variant.id, updates: { isActive } })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(variant.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus } from "lucide-react";
+import type { Promotion } from "@shared/schema";
+
+const EMPTY_PROMOTION = {
+  code: "",
+  description: "",
+  discountType: "percentage" as Promotion["discountType"],
+  value: "",
+  minBasket: "",
+  scope: "all" as Promotion["scope"],
+  scopeValues: "",
+  usageLimit: "",
+  perUserLimit: "",
+  stackableWithLoyalty: true,
+  startsAt: "",
+  endsAt: "",
+};
+
+const scopeLabels: Record<Promotion["scope"], string> = {
+  all: "All products",
+  category: "Categories",
+  brand: "Brands",
+  product: "Product IDs",
+};
+
+// Promotion codes for the signed-in seller's products, or platform-wide for admins
+export function PromotionsManager() {
+  const { formatCurrency } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: promotions = [], isLoading } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/promotions/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update promotion", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatDiscount = (promotion: Promotion) =>
+    promotion.discountType === "percentage" ? `${parseFloat(promotion.value)}%` : formatCurrency(promotion.value);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Promotions</CardTitle>
+        <CreatePromotionDialog />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading promotions...</p>
+        ) : promotions.length === 0 ? (
+          <p className="text-sm text-slate-500">No promotions yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Used</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map((promotion) => (
+                <TableRow key={promotion.id}>
+                  <TableCell>
+                    <p className="font-medium">{promotion.code}</p>
+                    {promotion.description && <p className="text-xs text-slate-500">{promotion.description}</p>}
+                  </TableCell>
+                  <TableCell>
+                    {formatDiscount(promotion)}
+                    {promotion.minBasket && (
+                      <p className="text-xs text-slate-500">Min. {formatCurrency(promotion.minBasket)}</p>
+                    )}
+                    {!promotion.stackableWithLoyalty && (
+                      <Badge variant="outline" className="mt-1">No points</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {scopeLabels[promotion.scope]}
+                    {promotion.scopeValues.length > 0 && (
+                      <p className="text-xs text-slate-500">{promotion.scopeValues.join(", ")}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {promotion.usageCount}{promotion.usageLimit !== null && ` / ${promotion.usageLimit}`}
+                    {promotion.perUserLimit !== null && (
+                      <p className="text-xs text-slate-500">{promotion.perUserLimit} per customer</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {promotion.startsAt ? new Date(promotion.startsAt).toLocaleDateString() : "Now"}
+                    {" – "}
+                    {promotion.endsAt ? new Date(promotion.endsAt).toLocaleDateString() : "No end"}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={promotion.isActive}
+                      disabled={toggleMutation.isPending}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: promotion.id, isActive })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CreatePromotionDialog() {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_PROMOTION);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const optionalNumber = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+      return await apiRequest("POST", "/api/promotions", {
+        code: form.code,
+        description: form.description || null,
+        discountType: form.discountType,
+        value: form.value,
+        minBasket: form.minBasket || null,
+        scope: form.scope,
+        scopeValues: form.scope === "all"
+          ? []
+          : form.scopeValues.split(",").map((value) => value.trim()).filter(Boolean),
+        usageLimit: optionalNumber(form.usageLimit),
+        perUserLimit: optionalNumber(form.perUserLimit),
+        stackableWithLoyalty: form.stackableWithLoyalty,
+        startsAt: form.startsAt || null,
+        endsAt: form.endsAt || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({ title: "Promotion created" });
+      setOpen(false);
+      setForm(EMPTY_PROMOTION);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create promotion", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const field = (name: keyof typeof EMPTY_PROMOTION, label: string, type = "text") => (
+    <div className="space-y-2">
+      <Label htmlFor={`promotion-${name}`}>{label}</Label>
+      <Input
+        id={`promotion-${name}`}
+        type={type}
+        value={form[name] as string}
+        onChange={(e) => setForm({ ...form, [name]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          New Promotion
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Promotion</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {field("code", "Code")}
+            {field("description", "Description")}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Discount Type</Label>
+              <Select
+                value={form.discountType}
+                onValueChange={(discountType) => setForm({ ...form, discountType: discountType as Promotion["discountType"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {field("value", form.discountType === "percentage" ? "Percent off" : "Amount off", "number")}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select
+                value={form.scope}
+                onValueChange={(scope) => setForm({ ...form, scope: scope as Promotion["scope"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(scopeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.scope !== "all" && field("scopeValues", `${scopeLabels[form.scope]} (comma separated)`)}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {field("minBasket", "Minimum basket", "number")}
+            {field("usageLimit", "Total uses", "number")}
+            {field("perUserLimit", "Uses per customer", "number")}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {field("startsAt", "Starts", "date")}
+            {field("endsAt", "Ends", "date")}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="promotion-stackable"
+              checked={form.stackableWithLoyalty}
+              onCheckedChange={(stackableWithLoyalty) => setForm({ ...form, stackableWithLoyalty })}
+            />
+            <Label htmlFor="promotion-stackable">Can be combined with loyalty points</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!form.code.trim() || !form.value || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            Create Promotion
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
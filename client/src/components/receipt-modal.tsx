@@ -2,7 +2,7 @@ import React from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Receipt } from "@/components/receipt";
 import { useLanguage } from "@/contexts/LanguageContext";
-import type { Order } from '@shared/schema';
+import type { Order, OrderItemUnit } from '@shared/schema';
 
 interface ReceiptModalProps {
   open: boolean;
@@ -28,6 +28,18 @@ interface ReceiptModalProps {
       quantity: number;
       price: number;
       total: number;
+      discount?: number;
+      promotionCode?: string;
+      taxRate?: number;
+      tax?: number;
+      taxIncluded?: boolean;
+      units?: OrderItemUnit[];
+    }>;
+    subOrders?: Array<{
+      id: string;
+      businessName: string;
+      total: string;
+      status: string;
     }>;
     paymentMethod: string;
     amountReceived?: number;
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Printer, Download } from 'lucide-react';
-import type { Order } from '@shared/schema';
+import type { Order, OrderItem, OrderItemUnit, Warranty } from '@shared/schema';
 
 interface ReceiptData {
   order: Order;
@@ -23,10 +23,25 @@ interface ReceiptData {
     email?: string;
   };
   items: Array<{
+    productId?: string;
     name: string;
     quantity: number;
     price: number;
     total: number;
+    discount?: number;
+    promotionCode?: string;
+    taxRate?: number;
+    tax?: number;
+    taxIncluded?: boolean;
+    units?: OrderItemUnit[];
+    warranty?: OrderItem['warranty'];
+  }>;
+  warranties?: Array<Pick<Warranty, 'id' | 'productId' | 'unitId' | 'imei' | 'provider' | 'months'> & { expiresAt: string }>;
+  subOrders?: Array<{
+    id: string;
+    businessName: string;
+    total: string;
+    status: string;
   }>;
   paymentMethod: string;
   amountReceived?: number;
@@ -68,8 +83,17 @@ export function Receipt({ data, onPrint, onDownload }: ReceiptProps) {
     }
   };
 
-  const subtotal = data.items.reduce((sum, item) => sum + item.total, 0);
+  const subtotal = data.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const discount = data.items.reduce((sum, item) => sum + (item.discount ?? 0), 0);
   const total = parseFloat(data.order.total);
+  const tax = parseFloat(data.order.taxTotal);
+  const taxIncluded = data.items.every((item) => item.taxIncluded);
+
+  // Registered on delivery or at the till; until then only the terms are shown
+  const warrantyUntil = (productId?: string) => {
+    const warranty = data.warranties?.find((candidate) => candidate.productId === productId);
+    return warranty ? new Date(warranty.expiresAt).toLocaleDateString(language === 'ar' ? 'ar-KW' : 'en-KW') : undefined;
+  };
 
   return (
     <div className="max-w-md mx-auto">
@@ -147,6 +171,28 @@ export function Receipt({ data, onPrint, onDownload }: ReceiptProps) {
                   <p className="text-muted-foreground">
                     {item.quantity} x {formatCurrency(item.price)}
                   </p>
+                  {item.discount ? (
+                    <p className="text-green-600">
+                      {t('discount')} ({item.promotionCode}): -{formatCurrency(item.discount)}
+                    </p>
+                  ) : null}
+                  {item.tax ? (
+                    <p className="text-muted-foreground">
+                      {t('tax')} {item.taxRate}%{item.taxIncluded ? ` (${t('tax_included')})` : ''}: {formatCurrency(item.tax)}
+                    </p>
+                  ) : null}
+                  {item.units?.map((unit) => (
+                    <p key={unit.id} className="text-muted-foreground font-mono">
+                      {t('imei')}: {[unit.imei1, unit.imei2].filter(Boolean).join(' / ')}
+                      {unit.serialNumber ? ` · ${t('serial_number')}: ${unit.serialNumber}` : ''}
+                    </p>
+                  ))}
+                  {item.warranty ? (
+                    <p className="text-muted-foreground">
+                      {t('warranty')}: {item.warranty.months} {t('months')} ({t(item.warranty.provider === 'manufacturer' ? 'manufacturer_warranty' : 'seller_warranty')})
+                      {warrantyUntil(item.productId) ? ` · ${t('valid_until')} ${warrantyUntil(item.productId)}` : ''}
+                    </p>
+                  ) : null}
                 </div>
                 <p className="font-medium">{formatCurrency(item.total)}</p>
               </div>
@@ -154,6 +200,29 @@ export function Receipt({ data, onPrint, onDownload }: ReceiptProps) {
           </div>
         </div>
 
+        {/* Per-seller sub-orders for multi-vendor checkouts */}
+        {data.subOrders && data.subOrders.length > 0 && (
+          <>
+            <Separator className="my-4" />
+            <div className="mb-4">
+              <h3 className="font-semibold mb-2">{t('sold_by')}</h3>
+              <div className="space-y-1">
+                {data.subOrders.map((subOrder) => (
+                  <div key={subOrder.id} className="flex justify-between text-xs">
+                    <div className="flex-1">
+                      <p className="font-medium">{subOrder.businessName}</p>
+                      <p className="text-muted-foreground">
+                        {t('order_id')}: {subOrder.id.slice(-8)}
+                      </p>
+                    </div>
+                    <p className="font-medium">{formatCurrency(subOrder.total)}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
         <Separator className="my-4" />
 
         {/* Totals */}
@@ -162,6 +231,23 @@ export function Receipt({ data, onPrint, onDownload }: ReceiptProps) {
             <span>{t('subtotal')}</span>
             <span>{formatCurrency(subtotal)}</span>
           </div>
+
+          {discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>{t('discount')}</span>
+              <span>-{formatCurrency(discount)}</span>
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <span>{t('net_amount')}</span>
+            <span>{formatCurrency(total - tax)}</span>
+          </div>
+
+          <div className="flex justify-between">
+            <span>{t('tax')}{taxIncluded && tax > 0 ? ` (${t('tax_included')})` : ''}</span>
+            <span>{formatCurrency(tax)}</span>
+          </div>
           
           <div className="flex justify-between font-bold text-base">
             <span>{t('total')}</span>
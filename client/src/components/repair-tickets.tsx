@@ -0,0 +1,556 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { io } from "socket.io-client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import { Trash2, Wrench } from "lucide-react";
+import type { Product, ProductVariant, RepairPart, RepairTicket, RepairTicketHistory } from "@shared/schema";
+
+type RepairStatus = RepairTicket["status"];
+
+interface RepairTicketDetail extends RepairTicket {
+  parts: RepairPart[];
+  history: RepairTicketHistory[];
+}
+
+const STATUS_LABELS: Record<RepairStatus, string> = {
+  received: "Received",
+  diagnosed: "Awaiting approval",
+  approved: "Approved",
+  declined: "Declined",
+  in_repair: "In repair",
+  ready: "Ready for pickup",
+  collected: "Collected",
+  cancelled: "Cancelled",
+};
+
+const ticketRef = (ticket: RepairTicket) => `#${ticket.id.slice(-8)}`;
+
+// Refresh repair tickets whenever the server pushes a status change
+function useRepairTicketUpdates() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+    const token = localStorage.getItem("authToken");
+    const socket = io("/", { auth: { token } });
+
+    socket.on("repair_ticket", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/repair-tickets"] });
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [user, queryClient]);
+}
+
+const EMPTY_INTAKE = { customerName: "", customerPhone: "", customerEmail: "", brand: "", model: "", imei: "", faultDescription: "" };
+
+// Book a device in at the counter
+function NewRepairTicketDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_INTAKE);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/repair-tickets", {
+        ...form,
+        customerPhone: form.customerPhone.trim() || null,
+        customerEmail: form.customerEmail.trim() || null,
+        imei: form.imei.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/repair-tickets"] });
+      toast({ title: "Repair ticket created" });
+      setForm(EMPTY_INTAKE);
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create repair ticket", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const field = (key: keyof typeof EMPTY_INTAKE, label: string, placeholder?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`repair-${key}`}>{label}</Label>
+      <Input
+        id={`repair-${key}`}
+        placeholder={placeholder}
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Wrench className="h-4 w-4 mr-2" />
+          New Repair
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Book a Device In</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          {field("customerName", "Customer name")}
+          {field("customerPhone", "Customer phone")}
+          {field("customerEmail", "Customer account email", "Optional, to follow the repair online")}
+          {field("imei", "IMEI", "Optional")}
+          {field("brand", "Brand")}
+          {field("model", "Model")}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="repair-faultDescription">Fault description</Label>
+          <Textarea
+            id="repair-faultDescription"
+            value={form.faultDescription}
+            onChange={(e) => setForm({ ...form, faultDescription: e.target.value })}
+          />
+        </div>
+        <Button
+          className="w-full"
+          disabled={
+            !form.customerName.trim() || !form.brand.trim() || !form.model.trim() || !form.faultDescription.trim() || createMutation.isPending
+          }
+          onClick={() => createMutation.mutate()}
+        >
+          Create Ticket
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// A ticket at the counter: diagnosis, the customer's answer, parts and status
+function RepairTicketDialog({ ticket }: { ticket: RepairTicket }) {
+  const { formatCurrency } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [diagnosis, setDiagnosis] = useState("");
+  const [quotedAmount, setQuotedAmount] = useState("");
+  const [partId, setPartId] = useState("");
+  const [partVariantId, setPartVariantId] = useState("");
+  const [partQuantity, setPartQuantity] = useState("1");
+
+  const { data: detail } = useQuery<RepairTicketDetail>({
+    queryKey: ["/api/repair-tickets", ticket.id],
+    enabled: open,
+  });
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/sellers", "products"],
+    enabled: open,
+  });
+  // A part sold in variants comes out of the stock of one of them
+  const { data: variantData } = useQuery<{ variants: ProductVariant[] }>({
+    queryKey: [`/api/products/${partId}/variants`],
+    enabled: open && !!partId,
+  });
+  const partVariants = partId ? (variantData?.variants ?? []) : [];
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/repair-tickets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sellers", "products"] });
+    toast({ title });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Failed to update repair", description: error.message, variant: "destructive" });
+  };
+
+  const diagnoseMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/repair-tickets/${ticket.id}/diagnosis`, { diagnosis, quotedAmount });
+    },
+    onSuccess: onSuccess("Quote sent to the customer"),
+    onError,
+  });
+
+  const quoteMutation = useMutation({
+    mutationFn: async (approved: boolean) => {
+      return await apiRequest("PUT", `/api/repair-tickets/${ticket.id}/quote`, { approved });
+    },
+    onSuccess: onSuccess("Customer decision recorded"),
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: RepairStatus) => {
+      return await apiRequest("PUT", `/api/repair-tickets/${ticket.id}/status`, { status });
+    },
+    onSuccess: onSuccess("Repair updated"),
+    onError,
+  });
+
+  const addPartMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/repair-tickets/${ticket.id}/parts`, {
+        productId: partId,
+        variantId: partVariantId || undefined,
+        quantity: parseInt(partQuantity, 10),
+      });
+    },
+    onSuccess: () => {
+      onSuccess("Part used")();
+      setPartId("");
+      setPartVariantId("");
+      setPartQuantity("1");
+    },
+    onError,
+  });
+
+  const removePartMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/repair-tickets/${ticket.id}/parts/${id}`);
+    },
+    onSuccess: onSuccess("Part returned to stock"),
+    onError,
+  });
+
+  const canUseParts = ticket.status === "approved" || ticket.status === "in_repair";
+  // Warranty repairs carry no charge, so there is nothing to bill at the POS
+  const isFree = parseFloat(ticket.quotedAmount ?? "0") === 0;
+  const isBusy = diagnoseMutation.isPending || quoteMutation.isPending || statusMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Open
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {ticket.brand} {ticket.model} · {ticketRef(ticket)}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="text-sm space-y-1">
+          <p>
+            {ticket.customerName}
+            {ticket.customerPhone && ` · ${ticket.customerPhone}`}
+          </p>
+          {ticket.imei && <p className="font-mono text-xs">IMEI {ticket.imei}</p>}
+          <p className="text-slate-600">{ticket.faultDescription}</p>
+          {ticket.diagnosis && (
+            <p>
+              Diagnosis: {ticket.diagnosis} · Quote {formatCurrency(ticket.quotedAmount ?? 0)}
+            </p>
+          )}
+        </div>
+
+        {ticket.status === "received" && (
+          <div className="space-y-2">
+            <Label htmlFor={`repair-diagnosis-${ticket.id}`}>Diagnosis</Label>
+            <Textarea id={`repair-diagnosis-${ticket.id}`} value={diagnosis} onChange={(e) => setDiagnosis(e.target.value)} />
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="Quoted amount"
+                value={quotedAmount}
+                onChange={(e) => setQuotedAmount(e.target.value)}
+              />
+              <Button
+                disabled={!diagnosis.trim() || !quotedAmount || diagnoseMutation.isPending}
+                onClick={() => diagnoseMutation.mutate()}
+              >
+                Send Quote
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {ticket.status === "diagnosed" && (
+          <div className="flex gap-2">
+            <Button disabled={isBusy} onClick={() => quoteMutation.mutate(true)}>
+              Customer Approved
+            </Button>
+            <Button variant="outline" disabled={isBusy} onClick={() => quoteMutation.mutate(false)}>
+              Customer Declined
+            </Button>
+          </div>
+        )}
+
+        {canUseParts && (
+          <div className="space-y-2">
+            <Label>Use a part from inventory</Label>
+            <div className="flex gap-2">
+              <Select
+                value={partId}
+                onValueChange={(productId) => {
+                  setPartId(productId);
+                  setPartVariantId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.stock} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {partVariants.length > 0 && (
+                <Select value={partVariantId} onValueChange={setPartVariantId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a variant" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {partVariants.map((variant) => (
+                      <SelectItem key={variant.id} value={variant.id}>
+                        {Object.values(variant.options).join(" / ")} ({variant.stock} in stock)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                type="number"
+                min="1"
+                className="w-20"
+                value={partQuantity}
+                onChange={(e) => setPartQuantity(e.target.value)}
+              />
+              <Button
+                disabled={
+                  !partId ||
+                  (partVariants.length > 0 && !partVariantId) ||
+                  !(parseInt(partQuantity, 10) > 0) ||
+                  addPartMutation.isPending
+                }
+                onClick={() => addPartMutation.mutate()}
+              >
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {detail && detail.parts.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Part</TableHead>
+                <TableHead>Qty</TableHead>
+                <TableHead>Unit price</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detail.parts.map((part) => (
+                <TableRow key={part.id}>
+                  <TableCell>{part.name}</TableCell>
+                  <TableCell>{part.quantity}</TableCell>
+                  <TableCell>{formatCurrency(part.unitPrice)}</TableCell>
+                  <TableCell>
+                    {canUseParts && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={removePartMutation.isPending}
+                        onClick={() => removePartMutation.mutate(part.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {ticket.status === "approved" && (
+            <Button disabled={isBusy} onClick={() => statusMutation.mutate("in_repair")}>
+              Start Repair
+            </Button>
+          )}
+          {ticket.status === "in_repair" && (
+            <Button disabled={isBusy} onClick={() => statusMutation.mutate("ready")}>
+              Mark Ready for Pickup
+            </Button>
+          )}
+          {(ticket.status === "declined" || (ticket.status === "ready" && isFree)) && (
+            <Button disabled={isBusy} onClick={() => statusMutation.mutate("collected")}>
+              Returned to Customer
+            </Button>
+          )}
+          {(ticket.status === "received" || ticket.status === "diagnosed" || ticket.status === "approved") && (
+            <Button variant="destructive" disabled={isBusy} onClick={() => statusMutation.mutate("cancelled")}>
+              Cancel Repair
+            </Button>
+          )}
+        </div>
+        {ticket.status === "ready" && !isFree && (
+          <p className="text-sm text-slate-500">Bill this repair from the POS when the customer collects the device.</p>
+        )}
+
+        {detail && (
+          <div className="border-t pt-4 space-y-1">
+            {detail.history.map((entry) => (
+              <p key={entry.id} className="text-xs text-slate-500">
+                {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ""} · {STATUS_LABELS[entry.toStatus]}
+                {entry.note && ` · ${entry.note}`}
+              </p>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The seller's repair counter
+export function SellerRepairTickets() {
+  const { formatCurrency } = useLanguage();
+  const { data: tickets = [], isLoading } = useQuery<RepairTicket[]>({ queryKey: ["/api/repair-tickets"] });
+  useRepairTicketUpdates();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Repairs</CardTitle>
+          <CardDescription>Devices booked in for repair at your shop</CardDescription>
+        </div>
+        <NewRepairTicketDialog />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading repairs...</p>
+        ) : tickets.length === 0 ? (
+          <p className="text-sm text-slate-500">No repair tickets yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ticket</TableHead>
+                <TableHead>Device</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Quote</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tickets.map((ticket) => (
+                <TableRow key={ticket.id}>
+                  <TableCell className="font-mono text-xs">{ticketRef(ticket)}</TableCell>
+                  <TableCell>
+                    {ticket.brand} {ticket.model}
+                  </TableCell>
+                  <TableCell>{ticket.customerName}</TableCell>
+                  <TableCell>{ticket.quotedAmount ? formatCurrency(ticket.quotedAmount) : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={ticket.status === "ready" ? "default" : "outline"}>{STATUS_LABELS[ticket.status]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <RepairTicketDialog ticket={ticket} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// The customer's repairs, with the quote to answer once the device is diagnosed
+export function CustomerRepairTickets() {
+  const { formatCurrency } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: tickets = [] } = useQuery<RepairTicket[]>({ queryKey: ["/api/repair-tickets"] });
+  useRepairTicketUpdates();
+
+  const quoteMutation = useMutation({
+    mutationFn: async ({ id, approved }: { id: string; approved: boolean }) => {
+      return await apiRequest("PUT", `/api/repair-tickets/${id}/quote`, { approved });
+    },
+    onSuccess: (_response, { approved }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/repair-tickets"] });
+      toast({ title: approved ? "Repair approved" : "Repair declined" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to answer the quote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (tickets.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Wrench className="h-5 w-5" />
+          <span>My Repairs</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tickets.map((ticket) => (
+          <div key={ticket.id} className="p-4 bg-slate-50 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-medium text-slate-900">
+                  {ticket.brand} {ticket.model}
+                </h4>
+                <p className="text-sm text-slate-600">Ticket {ticketRef(ticket)}</p>
+              </div>
+              <Badge variant={ticket.status === "ready" ? "default" : "outline"}>{STATUS_LABELS[ticket.status]}</Badge>
+            </div>
+            {ticket.diagnosis && (
+              <p className="text-sm">
+                {ticket.diagnosis} · {formatCurrency(ticket.quotedAmount ?? 0)}
+              </p>
+            )}
+            {ticket.status === "diagnosed" && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={quoteMutation.isPending}
+                  onClick={() => quoteMutation.mutate({ id: ticket.id, approved: true })}
+                >
+                  Approve Quote
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={quoteMutation.isPending}
+                  onClick={() => quoteMutation.mutate({ id: ticket.id, approved: false })}
+                >
+                  Decline
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import type { RestockSuggestion } from "@shared/schema";
+
+const PERIODS = [7, 30, 90];
+
+// The seller's products by days of stock left at their recent sales rate,
+// with how many to reorder for those running low
+export function RestockSuggestions() {
+  const [days, setDays] = useState(30);
+  const { data: suggestions = [], isLoading } = useQuery<RestockSuggestion[]>({
+    queryKey: ["/api/sellers/products/restock-suggestions", { days }],
+  });
+
+  const toReorder = suggestions.filter((suggestion) => suggestion.suggestedQuantity > 0).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Restock Suggestions</CardTitle>
+          <CardDescription>
+            {toReorder > 0 ? `${toReorder} products to reorder` : "Nothing needs reordering"}, based on sales over the last {days} days
+          </CardDescription>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period} value={String(period)}>
+                Last {period} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading report...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+                <TableHead className="text-right">Sold</TableHead>
+                <TableHead className="text-right">Per day</TableHead>
+                <TableHead className="text-right">Days left</TableHead>
+                <TableHead className="text-right">Reorder</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map((suggestion) => (
+                <TableRow key={suggestion.productId}>
+                  <TableCell>
+                    <p className="font-medium">{suggestion.name}</p>
+                    {suggestion.sku && <p className="text-xs text-slate-500 font-mono">{suggestion.sku}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {suggestion.stock < suggestion.reorderThreshold ? (
+                      <Badge variant="destructive">{suggestion.stock}</Badge>
+                    ) : (
+                      suggestion.stock
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{suggestion.unitsSold}</TableCell>
+                  <TableCell className="text-right">{suggestion.dailySales}</TableCell>
+                  <TableCell className="text-right">{suggestion.daysOfStockLeft ?? "—"}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {suggestion.suggestedQuantity > 0 ? suggestion.suggestedQuantity : ""}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {suggestions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-slate-500">
+                    No active products
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import type { LedgerEntry, Payout, PayoutAccount, PayoutBatch } from "@shared/schema";
+
+interface SellerStatement {
+  balance: number;
+  entries: LedgerEntry[];
+  payouts: (Payout & Pick<PayoutBatch, "status" | "reference" | "paidAt">)[];
+  payoutAccount: { payoutIban: string | null; payoutAccountName: string | null };
+}
+
+const entryLabels: Record<LedgerEntry["type"], string> = {
+  sale: "Sale",
+  commission: "Commission",
+  refund: "Refund",
+  adjustment: "Adjustment",
+  payout: "Payout",
+};
+
+// The signed-in seller's balance, ledger statement and payouts
+export function SellerPayouts() {
+  const { formatCurrency } = useLanguage();
+  const { data: statement, isLoading } = useQuery<SellerStatement>({
+    queryKey: ["/api/sellers/statement"],
+  });
+
+  if (isLoading || !statement) {
+    return <p className="text-sm text-slate-500">Loading statement...</p>;
+  }
+
+  // Running balance, oldest first; shown newest first
+  let running = 0;
+  const lines = statement.entries
+    .map((entry) => {
+      running += parseFloat(entry.credit) - parseFloat(entry.debit);
+      return { ...entry, runningBalance: running };
+    })
+    .reverse();
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Balance</CardTitle>
+            <CardDescription>Sales less commission and refunds, not yet paid out</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-3xl font-bold ${statement.balance < 0 ? "text-red-600" : ""}`}>
+              {formatCurrency(statement.balance)}
+            </p>
+          </CardContent>
+        </Card>
+        <PayoutAccountCard account={statement.payoutAccount} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {lines.length === 0 ? (
+            <p className="text-sm text-slate-500">No transactions yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => {
+                  const amount = parseFloat(line.credit) - parseFloat(line.debit);
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell className="text-xs">{new Date(line.createdAt!).toLocaleDateString()}</TableCell>
+                      <TableCell>{entryLabels[line.type]}</TableCell>
+                      <TableCell className="text-xs">{line.description}</TableCell>
+                      <TableCell className={`text-right ${amount < 0 ? "text-red-600" : "text-green-600"}`}>
+                        {amount < 0 ? "-" : "+"}{formatCurrency(Math.abs(amount))}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.runningBalance)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payouts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {statement.payouts.length === 0 ? (
+            <p className="text-sm text-slate-500">No payouts yet</p>
+          ) : (
+            <div className="space-y-2">
+              {statement.payouts.map((payout) => (
+                <div key={payout.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                  <div>
+                    <p className="font-medium">{formatCurrency(payout.amount)}</p>
+                    <p className="text-xs text-slate-500">
+                      {payout.paidAt
+                        ? `Paid ${new Date(payout.paidAt).toLocaleDateString()} · Ref ${payout.reference}`
+                        : `Scheduled ${new Date(payout.createdAt!).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <Badge variant={payout.status === "paid" ? "default" : "outline"}>{payout.status}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function PayoutAccountCard({ account }: { account: SellerStatement["payoutAccount"] }) {
+  const [form, setForm] = useState<PayoutAccount>({ payoutIban: "", payoutAccountName: "" });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setForm({ payoutIban: account.payoutIban ?? "", payoutAccountName: account.payoutAccountName ?? "" });
+  }, [account.payoutIban, account.payoutAccountName]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/sellers/payout-account", form);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/statement"] });
+      toast({ title: "Payout account saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save payout account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payout Account</CardTitle>
+        <CardDescription>Payouts are sent by bank transfer to this account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="payout-account-name">Account name</Label>
+          <Input
+            id="payout-account-name"
+            value={form.payoutAccountName}
+            onChange={(e) => setForm({ ...form, payoutAccountName: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="payout-iban">IBAN</Label>
+          <Input
+            id="payout-iban"
+            placeholder="KW81CBKU0000000000001234560101"
+            value={form.payoutIban}
+            onChange={(e) => setForm({ ...form, payoutIban: e.target.value })}
+          />
+        </div>
+        <Button
+          size="sm"
+          disabled={!form.payoutIban.trim() || !form.payoutAccountName.trim() || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+        >
+          Save Account
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
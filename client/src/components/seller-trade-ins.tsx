@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import { Trash2 } from "lucide-react";
+import type { TradeIn, TradeInPrice } from "@shared/schema";
+
+type Condition = TradeIn["condition"];
+
+// Traded-in devices are never graded as new
+const TRADE_IN_CONDITIONS: { value: Condition; label: string }[] = [
+  { value: "like_new", label: "Like new" },
+  { value: "good", label: "Good" },
+  { value: "fair", label: "Fair" },
+];
+const conditionLabel = (condition: Condition) =>
+  TRADE_IN_CONDITIONS.find((option) => option.value === condition)?.label ?? condition;
+
+const deviceName = (device: Pick<TradeIn, "brand" | "model" | "storage">) =>
+  [device.brand, device.model, device.storage].filter(Boolean).join(" ");
+
+const EMPTY_PRICE = { brand: "", model: "", storage: "", condition: "like_new" as Condition, price: "" };
+
+// The seller's buy-back prices, one per model, storage size and condition
+function TradeInPricesManager() {
+  const { formatCurrency } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_PRICE);
+
+  const { data: prices = [] } = useQuery<TradeInPrice[]>({ queryKey: ["/api/sellers/trade-in-prices"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/sellers/trade-in-prices", {
+        ...form,
+        storage: form.storage.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/trade-in-prices"] });
+      toast({ title: "Trade-in price saved" });
+      setForm({ ...EMPTY_PRICE, brand: form.brand, model: form.model, storage: form.storage });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save price", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/sellers/trade-in-prices/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/trade-in-prices"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete price", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trade-in Pricing</CardTitle>
+        <CardDescription>
+          What you pay for a device in each condition. Leave storage empty to price every size without its own row.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-6 gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="trade-in-price-brand">Brand</Label>
+            <Input id="trade-in-price-brand" value={form.brand} onChange={(e) => setForm({ ...form, brand: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-in-price-model">Model</Label>
+            <Input id="trade-in-price-model" value={form.model} onChange={(e) => setForm({ ...form, model: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-in-price-storage">Storage</Label>
+            <Input
+              id="trade-in-price-storage"
+              placeholder="Any"
+              value={form.storage}
+              onChange={(e) => setForm({ ...form, storage: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Condition</Label>
+            <Select value={form.condition} onValueChange={(condition) => setForm({ ...form, condition: condition as Condition })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRADE_IN_CONDITIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-in-price-amount">Price</Label>
+            <Input
+              id="trade-in-price-amount"
+              type="number"
+              step="0.01"
+              value={form.price}
+              onChange={(e) => setForm({ ...form, price: e.target.value })}
+            />
+          </div>
+          <Button
+            disabled={!form.brand.trim() || !form.model.trim() || !form.price || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            Save Price
+          </Button>
+        </div>
+
+        {prices.length === 0 ? (
+          <p className="text-sm text-slate-500">No trade-in prices yet. Customers will not see offers from you.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>Storage</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prices.map((price) => (
+                <TableRow key={price.id}>
+                  <TableCell>
+                    {price.brand} {price.model}
+                  </TableCell>
+                  <TableCell>{price.storage ?? "Any"}</TableCell>
+                  <TableCell>{conditionLabel(price.condition)}</TableCell>
+                  <TableCell>{formatCurrency(price.price)}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(price.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Inspect a submitted device: confirm or change its grade and amount, or reject it
+function InspectTradeInDialog({ tradeIn }: { tradeIn: TradeIn }) {
+  const { formatCurrency } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [condition, setCondition] = useState<Condition>(tradeIn.condition);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const resolveMutation = useMutation({
+    mutationFn: async (action: "accept" | "reject") => {
+      return await apiRequest("PUT", `/api/sellers/trade-ins/${tradeIn.id}/${action}`, {
+        condition: action === "accept" && condition !== tradeIn.condition ? condition : undefined,
+        amount: action === "accept" && amount ? parseFloat(amount) : undefined,
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: (_response, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/trade-ins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/statement"] });
+      toast({ title: action === "accept" ? "Trade-in accepted" : "Trade-in rejected" });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update trade-in", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { answers } = tradeIn;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm">Inspect</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{deviceName(tradeIn)}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-4 gap-2">
+          {tradeIn.photos.map((photo) => (
+            <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+              <img src={photo} alt="Trade-in device" className="h-24 w-full object-cover rounded border" />
+            </a>
+          ))}
+        </div>
+
+        <div className="text-sm space-y-1">
+          {tradeIn.imei && <p className="font-mono text-xs">IMEI {tradeIn.imei}</p>}
+          <p>
+            Screen: {answers.screen} · Body: {answers.body} · Functions: {answers.allFunctionsWork ? "all working" : "faulty"}
+            {answers.batteryHealth != null && ` · Battery: ${answers.batteryHealth}%`}
+          </p>
+          <p className="text-slate-500">
+            Quoted {formatCurrency(tradeIn.quotedAmount)} as {conditionLabel(tradeIn.condition)}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>Inspected condition</Label>
+            <Select value={condition} onValueChange={(value) => setCondition(value as Condition)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRADE_IN_CONDITIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`trade-in-amount-${tradeIn.id}`}>Amount (optional)</Label>
+            <Input
+              id={`trade-in-amount-${tradeIn.id}`}
+              type="number"
+              step="0.01"
+              placeholder="From your pricing"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`trade-in-note-${tradeIn.id}`}>Note to the customer</Label>
+          <Textarea id={`trade-in-note-${tradeIn.id}`} value={note} onChange={(e) => setNote(e.target.value)} />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="destructive" disabled={resolveMutation.isPending} onClick={() => resolveMutation.mutate("reject")}>
+            Reject
+          </Button>
+          <Button disabled={resolveMutation.isPending} onClick={() => resolveMutation.mutate("accept")}>
+            Accept
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Put an accepted device up for sale as a used product
+function ListTradeInDialog({ tradeIn }: { tradeIn: TradeIn }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [price, setPrice] = useState("");
+  const [description, setDescription] = useState("");
+
+  const listMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/sellers/trade-ins/${tradeIn.id}/listing`, {
+        price,
+        category: "smartphones",
+        description: description.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers/trade-ins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers", "products"] });
+      toast({ title: "Listing submitted", description: "The product will go live once approved." });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to list device", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          List for Sale
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>List {deviceName(tradeIn)}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor={`listing-price-${tradeIn.id}`}>Selling price</Label>
+            <Input
+              id={`listing-price-${tradeIn.id}`}
+              type="number"
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`listing-description-${tradeIn.id}`}>Description</Label>
+            <Textarea
+              id={`listing-description-${tradeIn.id}`}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <Button className="w-full" disabled={!price || listMutation.isPending} onClick={() => listMutation.mutate()}>
+            Submit Listing
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Trade-ins sent to the signed-in seller, and the pricing grid that quotes them
+export function SellerTradeIns() {
+  const { formatCurrency } = useLanguage();
+  const { data: tradeIns = [], isLoading } = useQuery<TradeIn[]>({ queryKey: ["/api/sellers/trade-ins"] });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Trade-ins</CardTitle>
+          <CardDescription>Inspect devices customers send you and pay them out</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-slate-500">Loading trade-ins...</p>
+          ) : tradeIns.length === 0 ? (
+            <p className="text-sm text-slate-500">No trade-ins yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Credit</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tradeIns.map((tradeIn) => (
+                  <TableRow key={tradeIn.id}>
+                    <TableCell>
+                      <p className="font-medium">{deviceName(tradeIn)}</p>
+                      <p className="text-xs text-slate-500">
+                        {tradeIn.createdAt ? new Date(tradeIn.createdAt).toLocaleDateString() : ""}
+                      </p>
+                    </TableCell>
+                    <TableCell>{conditionLabel(tradeIn.condition)}</TableCell>
+                    <TableCell>{formatCurrency(tradeIn.offeredAmount ?? tradeIn.quotedAmount)}</TableCell>
+                    <TableCell className="text-xs">
+                      {tradeIn.creditMethod === "store_credit" ? "Store credit" : "Order discount"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={tradeIn.status === "submitted" ? "secondary" : "outline"}>{tradeIn.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {tradeIn.status === "submitted" && <InspectTradeInDialog tradeIn={tradeIn} />}
+                      {tradeIn.status === "accepted" && !tradeIn.productId && <ListTradeInDialog tradeIn={tradeIn} />}
+                      {tradeIn.productId && <Badge variant="outline">Listed</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <TradeInPricesManager />
+    </div>
+  );
+}
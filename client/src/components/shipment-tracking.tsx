@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Truck } from "lucide-react";
+import type { Shipment, ShipmentEvent } from "@shared/schema";
+
+type ShipmentWithEvents = Shipment & { events: ShipmentEvent[] };
+
+const statusLabels: Record<string, string> = {
+  label_created: "Label created",
+  picked_up: "Picked up",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+};
+
+interface ShipmentTrackingProps {
+  orderId: string;
+  // Sellers can post tracking updates for couriers without an integration
+  canUpdate?: boolean;
+}
+
+export function ShipmentTracking({ orderId, canUpdate = false }: ShipmentTrackingProps) {
+  const { data: shipments = [], isLoading } = useQuery<ShipmentWithEvents[]>({
+    queryKey: ["/api/orders", orderId, "shipments"],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading shipments...</p>;
+  }
+
+  if (shipments.length === 0) {
+    return <p className="text-sm text-slate-500">Not shipped yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {shipments.map((shipment) => (
+        <div key={shipment.id} className="rounded-lg border p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <Truck className="h-4 w-4 text-slate-600" />
+              <span className="text-sm font-medium">{shipment.carrier}</span>
+              <span className="text-sm text-slate-500">#{shipment.trackingNumber}</span>
+            </div>
+            <Badge variant={shipment.status === "delivered" ? "default" : "secondary"}>
+              {statusLabels[shipment.status]}
+            </Badge>
+          </div>
+          <ol className="space-y-2">
+            {shipment.events.map((event) => (
+              <li key={event.id} className="text-sm">
+                <span className="font-medium">{statusLabels[event.status]}</span>
+                <span className="text-slate-500"> — {new Date(event.occurredAt).toLocaleString()}</span>
+                {(event.description || event.location) && (
+                  <p className="text-slate-600">
+                    {[event.description, event.location].filter(Boolean).join(", ")}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+          {canUpdate && shipment.carrier === "manual" && shipment.status !== "delivered" && (
+            <ShipmentUpdateForm orderId={orderId} shipment={shipment} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ShipmentUpdateForm({ orderId, shipment }: { orderId: string; shipment: Shipment }) {
+  const [status, setStatus] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/shipments/${shipment.id}/events`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "shipments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers", "orders"] });
+      setStatus("");
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update shipment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2 mt-3">
+      <Select value={status} onValueChange={setStatus}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Tracking update" />
+        </SelectTrigger>
+        <SelectContent>
+          {["picked_up", "in_transit", "out_for_delivery", "delivered"].map((value) => (
+            <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" disabled={!status || updateMutation.isPending} onClick={() => updateMutation.mutate()}>
+        Add Update
+      </Button>
+    </div>
+  );
+}
+
+export function AddShipmentDialog({ orderId }: { orderId: string }) {
+  const [open, setOpen] = useState(false);
+  const [carrier, setCarrier] = useState("");
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: carriers = [] } = useQuery<{ name: string; displayName: string }[]>({
+    queryKey: ["/api/carriers"],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/orders/${orderId}/shipments`, {
+        carrier,
+        trackingNumber: trackingNumber || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "shipments"] });
+      toast({ title: "Shipment created" });
+      setOpen(false);
+      setCarrier("");
+      setTrackingNumber("");
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create shipment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Truck className="h-4 w-4 mr-2" />
+          Add Shipment
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Ship Order #{orderId.slice(-8)}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Carrier</Label>
+            <Select value={carrier} onValueChange={setCarrier}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a carrier" />
+              </SelectTrigger>
+              <SelectContent>
+                {carriers.map((option) => (
+                  <SelectItem key={option.name} value={option.name}>{option.displayName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {carrier === "manual" && (
+            <div className="space-y-2">
+              <Label htmlFor={`tracking-${orderId}`}>Tracking Number</Label>
+              <Input
+                id={`tracking-${orderId}`}
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!carrier || (carrier === "manual" && !trackingNumber.trim()) || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            Create Shipment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
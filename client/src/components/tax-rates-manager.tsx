@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import type { TaxRate } from "@shared/schema";
+
+const EMPTY_TAX_RATE = {
+  category: "",
+  rate: "",
+  pricesIncludeTax: false,
+  effectiveFrom: "",
+};
+
+// Rates come newest first, so the first one already in force for a category is current
+function rateStatus(taxRate: TaxRate, taxRates: TaxRate[], now: Date) {
+  const effectiveFrom = new Date(taxRate.effectiveFrom);
+  if (effectiveFrom > now) {
+    return "scheduled";
+  }
+  const key = taxRate.category?.toLowerCase() ?? null;
+  const current = taxRates.find(
+    (other) => (other.category?.toLowerCase() ?? null) === key && new Date(other.effectiveFrom) <= now,
+  );
+  return current?.id === taxRate.id ? "current" : "superseded";
+}
+
+// Platform tax rates: a standard rate plus optional per-category overrides, each
+// change added as a new dated rate so past orders keep the tax they were charged
+export function TaxRatesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: taxRates = [], isLoading } = useQuery<TaxRate[]>({
+    queryKey: ["/api/admin/tax-rates"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/tax-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete tax rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Tax Rates</CardTitle>
+          <CardDescription>
+            Applied to online and POS orders. Categories without their own rate use the standard rate.
+          </CardDescription>
+        </div>
+        <CreateTaxRateDialog />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading tax rates...</p>
+        ) : taxRates.length === 0 ? (
+          <p className="text-sm text-slate-500">No tax rates yet, so orders are not taxed</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Prices</TableHead>
+                <TableHead>Effective from</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {taxRates.map((taxRate) => {
+                const status = rateStatus(taxRate, taxRates, now);
+                return (
+                  <TableRow key={taxRate.id}>
+                    <TableCell>{taxRate.category ?? "Standard rate"}</TableCell>
+                    <TableCell>{parseFloat(taxRate.rate)}%</TableCell>
+                    <TableCell>{taxRate.pricesIncludeTax ? "Include tax" : "Exclude tax"}</TableCell>
+                    <TableCell className="text-xs">{new Date(taxRate.effectiveFrom).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={status === "current" ? "default" : "outline"}>
+                        {status === "current" ? "In force" : status === "scheduled" ? "Scheduled" : "Superseded"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {status === "scheduled" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(taxRate.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CreateTaxRateDialog() {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_TAX_RATE);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/tax-rates", {
+        category: form.category.trim() || null,
+        rate: form.rate,
+        pricesIncludeTax: form.pricesIncludeTax,
+        // Left blank, the rate takes effect straight away
+        effectiveFrom: form.effectiveFrom ? new Date(form.effectiveFrom).toISOString() : new Date().toISOString(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+      toast({ title: "Tax rate saved" });
+      setOpen(false);
+      setForm(EMPTY_TAX_RATE);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save tax rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          New Rate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Tax Rate</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax-rate-category">Category</Label>
+              <Input
+                id="tax-rate-category"
+                placeholder="Standard rate"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-rate-rate">Rate (%)</Label>
+              <Input
+                id="tax-rate-rate"
+                type="number"
+                min={0}
+                max={100}
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tax-rate-effective">Effective from</Label>
+            <Input
+              id="tax-rate-effective"
+              type="datetime-local"
+              value={form.effectiveFrom}
+              onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="tax-rate-inclusive"
+              checked={form.pricesIncludeTax}
+              onCheckedChange={(pricesIncludeTax) => setForm({ ...form, pricesIncludeTax })}
+            />
+            <Label htmlFor="tax-rate-inclusive">Product prices already include this tax</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!form.rate || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            Save Rate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
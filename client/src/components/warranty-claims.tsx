@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { FileUpload } from "@/components/file-upload";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { apiRequest } from "@/lib/queryClient";
+import { Search, ShieldCheck } from "lucide-react";
+import type { Warranty, WarrantyClaim } from "@shared/schema";
+
+type ClaimOutcome = NonNullable<WarrantyClaim["outcome"]>;
+
+interface SellerWarrantyClaim extends WarrantyClaim {
+  warranty?: Warranty;
+}
+
+const OUTCOME_LABELS: Record<ClaimOutcome, string> = {
+  repair: "Repair",
+  replace: "Replacement",
+  refund: "Refund",
+};
+
+const orderRef = (orderId: string) => `#${orderId.slice(-8)}`;
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleDateString();
+
+const isInForce = (warranty: Warranty) => !warranty.voidedAt && new Date(warranty.expiresAt).getTime() > Date.now();
+
+function ClaimStatusBadge({ claim }: { claim: WarrantyClaim }) {
+  if (claim.status === "resolved") {
+    return <Badge>{OUTCOME_LABELS[claim.outcome!]}</Badge>;
+  }
+  return <Badge variant={claim.status === "rejected" ? "destructive" : "outline"}>{claim.status === "rejected" ? "Rejected" : "Submitted"}</Badge>;
+}
+
+// Describe the fault with photos; filed by the customer, or by the seller at the counter
+function FileWarrantyClaimDialog({ warranty }: { warranty: Warranty }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [description, setDescription] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+
+  const fileMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/warranties/${warranty.id}/claims`, { description, photos });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warranty-claims"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers", "warranty-claims"] });
+      toast({ title: "Warranty claim filed" });
+      setDescription("");
+      setPhotos([]);
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to file claim", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          File Claim
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Warranty Claim: {warranty.productName}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label htmlFor={`claim-${warranty.id}`}>What is wrong with the device?</Label>
+          <Textarea id={`claim-${warranty.id}`} value={description} onChange={(e) => setDescription(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Photos of the fault</Label>
+          <FileUpload
+            accept="image/*"
+            maxFiles={8}
+            label="Upload photos"
+            currentFiles={photos}
+            onFilesUploaded={(urls) => setPhotos([...photos, ...urls].slice(0, 8))}
+            onFileRemoved={(url) => setPhotos(photos.filter((photo) => photo !== url))}
+          />
+        </div>
+        <Button className="w-full" disabled={!description.trim() || fileMutation.isPending} onClick={() => fileMutation.mutate()}>
+          Submit Claim
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Settle a claim with a repair, replacement or refund, or turn it down
+function ResolveWarrantyClaimDialog({ claim }: { claim: SellerWarrantyClaim }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [outcome, setOutcome] = useState<ClaimOutcome>("repair");
+  const [note, setNote] = useState("");
+
+  const resolveMutation = useMutation({
+    mutationFn: async (action: "resolve" | "reject") => {
+      return await apiRequest("PUT", `/api/sellers/warranty-claims/${claim.id}/${action}`, {
+        outcome,
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: (_response, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers", "warranty-claims"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/repair-tickets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers", "products"] });
+      toast({ title: action === "resolve" ? "Warranty claim resolved" : "Warranty claim rejected" });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update claim", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          {claim.status === "submitted" ? "Resolve" : "View"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>
+            {claim.warranty?.productName ?? "Warranty claim"} · order {orderRef(claim.orderId)}
+          </DialogTitle>
+        </DialogHeader>
+        {claim.warranty?.imei && <p className="text-sm font-mono text-slate-600">IMEI {claim.warranty.imei}</p>}
+        <p className="text-sm">{claim.description}</p>
+        {claim.photos.length > 0 && (
+          <div className="grid grid-cols-4 gap-2">
+            {claim.photos.map((photo) => (
+              <a key={photo} href={photo} target="_blank" rel="noreferrer">
+                <img src={photo} alt="Claim photo" className="h-20 w-full object-cover rounded" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {claim.status === "submitted" ? (
+          <div className="border-t pt-4 space-y-3">
+            <div className="space-y-1">
+              <Label>Outcome</Label>
+              <Select value={outcome} onValueChange={(value) => setOutcome(value as ClaimOutcome)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="repair">Repair free of charge</SelectItem>
+                  <SelectItem value="replace">Send a replacement</SelectItem>
+                  <SelectItem value="refund">Refund the item</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`resolution-${claim.id}`}>Note to the customer</Label>
+              <Textarea id={`resolution-${claim.id}`} value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+            <div className="flex gap-2">
+              <Button disabled={resolveMutation.isPending} onClick={() => resolveMutation.mutate("resolve")}>
+                Resolve Claim
+              </Button>
+              <Button variant="destructive" disabled={resolveMutation.isPending} onClick={() => resolveMutation.mutate("reject")}>
+                Reject
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="border-t pt-4 space-y-1 text-sm">
+            <ClaimStatusBadge claim={claim} />
+            {claim.resolutionNote && <p>{claim.resolutionNote}</p>}
+            {claim.repairTicketId && <p className="text-slate-600">Repair ticket #{claim.repairTicketId.slice(-8)}</p>}
+            {claim.replacementOrderId && <p className="text-slate-600">Replacement order {orderRef(claim.replacementOrderId)}</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Find a sold item by IMEI or order to file a claim for a walk-in customer
+function WarrantyLookup() {
+  const [search, setSearch] = useState("");
+  const [submitted, setSubmitted] = useState("");
+  const byImei = /^\d{15}$/.test(submitted);
+
+  const { data: warranties = [], isFetched } = useQuery<Warranty[]>({
+    queryKey: ["/api/sellers", "warranties", submitted],
+    queryFn: async () => {
+      const params = new URLSearchParams(byImei ? { imei: submitted } : { orderId: submitted });
+      const response = await apiRequest("GET", `/api/sellers/warranties?${params}`);
+      return response.json();
+    },
+    enabled: submitted !== "",
+  });
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSubmitted(search.trim());
+        }}
+      >
+        <Input placeholder="IMEI or order ID" value={search} onChange={(e) => setSearch(e.target.value)} />
+        <Button type="submit" variant="outline" disabled={!search.trim()}>
+          <Search className="h-4 w-4 mr-2" />
+          Look Up
+        </Button>
+      </form>
+      {isFetched && warranties.length === 0 && <p className="text-sm text-slate-500">No warranty found.</p>}
+      {warranties.map((warranty) => (
+        <div key={warranty.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg text-sm">
+          <div>
+            <p className="font-medium">{warranty.productName}</p>
+            <p className="text-slate-600">
+              Order {orderRef(warranty.orderId)}
+              {warranty.imei ? ` · IMEI ${warranty.imei}` : ""} · until {formatDate(warranty.expiresAt)}
+            </p>
+          </div>
+          {isInForce(warranty) ? <FileWarrantyClaimDialog warranty={warranty} /> : <Badge variant="outline">Not in force</Badge>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SellerWarrantyClaims() {
+  const { data: claims = [] } = useQuery<SellerWarrantyClaim[]>({ queryKey: ["/api/sellers", "warranty-claims"] });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Warranty Claims</CardTitle>
+        <CardDescription>Settle claims with a repair, replacement or refund against the original order</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <WarrantyLookup />
+        {claims.length === 0 ? (
+          <p className="text-sm text-slate-500">No warranty claims yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Filed</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {claims.map((claim) => (
+                <TableRow key={claim.id}>
+                  <TableCell>{formatDate(claim.createdAt!)}</TableCell>
+                  <TableCell>{claim.warranty?.productName ?? "—"}</TableCell>
+                  <TableCell className="font-mono text-xs">{orderRef(claim.orderId)}</TableCell>
+                  <TableCell>
+                    <ClaimStatusBadge claim={claim} />
+                  </TableCell>
+                  <TableCell>
+                    <ResolveWarrantyClaimDialog claim={claim} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// The customer's warranties, with a claim to file on any still in force
+export function CustomerWarranties() {
+  const { formatCurrency } = useLanguage();
+  const { data: warranties = [] } = useQuery<Warranty[]>({ queryKey: ["/api/warranties"] });
+  const { data: claims = [] } = useQuery<WarrantyClaim[]>({ queryKey: ["/api/warranty-claims"] });
+
+  if (warranties.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>My Warranties</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {warranties.map((warranty) => {
+          const warrantyClaims = claims.filter((claim) => claim.warrantyId === warranty.id);
+          const hasOpenClaim = warrantyClaims.some((claim) => claim.status === "submitted");
+          return (
+            <div key={warranty.id} className="p-4 bg-slate-50 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium text-slate-900">{warranty.productName}</h4>
+                  <p className="text-sm text-slate-600">
+                    {warranty.months} months {warranty.provider} warranty ·{" "}
+                    {warranty.voidedAt ? "refunded" : `until ${formatDate(warranty.expiresAt)}`}
+                  </p>
+                </div>
+                {isInForce(warranty) && !hasOpenClaim && <FileWarrantyClaimDialog warranty={warranty} />}
+              </div>
+              {warrantyClaims.map((claim) => (
+                <div key={claim.id} className="flex items-center justify-between text-sm border-t pt-2">
+                  <span className="text-slate-600">
+                    Claim filed {formatDate(claim.createdAt!)}
+                    {claim.refundAmount ? ` · ${formatCurrency(claim.refundAmount)} refunded` : ""}
+                    {claim.resolutionNote ? ` · ${claim.resolutionNote}` : ""}
+                  </span>
+                  <ClaimStatusBadge claim={claim} />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { Product, WishlistItem } from "@shared/schema";
+
+export type WishlistEntry = WishlistItem & { product: Product };
+
+export function useWishlist() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: items = [], isLoading } = useQuery<WishlistEntry[]>({
+    queryKey: ["/api/wishlist"],
+    enabled: isAuthenticated,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      if (items.some((item) => item.productId === productId)) {
+        return await apiRequest("DELETE", `/api/wishlist/${productId}`);
+      }
+      return await apiRequest("POST", "/api/wishlist", { productId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update your wishlist. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (productId: string) => {
+    if (!isAuthenticated) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to save items to your wishlist.",
+        variant: "destructive",
+      });
+      return;
+    }
+    toggleMutation.mutate(productId);
+  };
+
+  return {
+    items,
+    isLoading,
+    isWishlisted: (productId: string) => items.some((item) => item.productId === productId),
+    toggle,
+  };
+}
@@ -0,0 +1,54 @@
+import type { Address, ShippingAddress } from "@shared/schema";
+
+// Form state for an address: every field is a string while it is being edited
+export type AddressDraft = Record<Exclude<keyof ShippingAddress, "governorate">, string> & {
+  governorate: ShippingAddress["governorate"] | "";
+};
+
+export const EMPTY_ADDRESS: AddressDraft = {
+  label: "",
+  fullName: "",
+  phone: "",
+  governorate: "",
+  area: "",
+  block: "",
+  street: "",
+  avenue: "",
+  building: "",
+  floor: "",
+  apartment: "",
+  paciNumber: "",
+};
+
+// Optional fields left blank are sent as missing rather than empty strings
+export function toShippingAddress(draft: AddressDraft) {
+  return Object.fromEntries(
+    Object.entries(draft).map(([key, value]) => [key, value.trim() || undefined]),
+  );
+}
+
+// Kuwait addresses go from the building up to the governorate
+export function formatAddress(address: Address | ShippingAddress): string {
+  return [
+    address.apartment && `Apt ${address.apartment}`,
+    address.floor && `Floor ${address.floor}`,
+    `Building ${address.building}`,
+    `Street ${address.street}`,
+    address.avenue && `Avenue ${address.avenue}`,
+    `Block ${address.block}`,
+    address.area,
+    address.governorate,
+  ].filter(Boolean).join(", ");
+}
+
+// Orders placed before the address book have a free-form address
+export function formatOrderAddress(value: unknown): string {
+  if (!value || typeof value !== "object") {
+    return String(value ?? "");
+  }
+  if ("governorate" in value) {
+    return formatAddress(value as ShippingAddress);
+  }
+  const legacy = value as { street?: string; city?: string; country?: string };
+  return [legacy.street, legacy.city, legacy.country].filter(Boolean).join(", ");
+}
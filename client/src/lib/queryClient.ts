@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { Page } from "@shared/schema";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -27,15 +28,47 @@ export async function apiRequest(
   return res;
 }
 
+// A trailing object in the key is sent as the query string, so
+// ["/api/orders", { offset: 25 }] fetches /api/orders?offset=25 and is still
+// refreshed along with ["/api/orders"]. An infinite query's page param is
+// added to it: { cursor } or { offset } of the next page.
+function queryUrl(queryKey: readonly unknown[], pageParam?: unknown): string {
+  const last = queryKey[queryKey.length - 1];
+  const hasParams = typeof last === "object" && last !== null && !Array.isArray(last);
+  const path = (hasParams ? queryKey.slice(0, -1) : queryKey).join("/");
+  const params = new URLSearchParams();
+  const values = { ...(hasParams ? last : {}), ...(typeof pageParam === "object" ? pageParam : {}) };
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  }
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+// Every item of a cursor-paged list, following nextCursor a page at a time,
+// for views that need all of it rather than the first page
+export async function fetchAllPages<T>(path: string, params: Record<string, unknown> = {}): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const res = await apiRequest("GET", queryUrl([path, { ...params, limit: 100, cursor }]));
+    const page: Page<T> = await res.json();
+    items.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return items;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
-  async ({ queryKey }) => {
+  async (context) => {
     const token = localStorage.getItem('authToken');
+    const { pageParam } = context as { pageParam?: unknown };
     
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryUrl(context.queryKey, pageParam), {
       headers: token ? { "Authorization": `Bearer ${token}` } : {},
     });
 
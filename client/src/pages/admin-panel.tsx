@@ -41,7 +41,13 @@ import {
   Edit,
 } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
-import type { User, Product } from "@shared/schema";
+import { PromotionsManager } from "@/components/promotions-manager";
+import { TaxRatesManager } from "@/components/tax-rates-manager";
+import { CommissionRatesManager, PayoutsManager } from "@/components/payouts-manager";
+import { DeviceUnitLookup } from "@/components/device-units";
+import { ListPager } from "@/components/list-pager";
+import { JobsMonitor } from "@/components/jobs-monitor";
+import type { Order, Page, Payment, Product, ProductSearchResult, User } from "@shared/schema";
 import {
   Select,
   SelectContent,
@@ -100,6 +106,9 @@ interface SellerWithDocuments {
   createdAt: string;
 }
 
+// Rows per page of the users, deliveries and payments lists
+const ADMIN_PAGE_SIZE = 25;
+
 export default function AdminPanel() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -117,6 +126,9 @@ export default function AdminPanel() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [userDetailsOpen, setUserDetailsOpen] = useState(false);
   const [userRoleFilter, setUserRoleFilter] = useState<string>("all");
+  const [usersOffset, setUsersOffset] = useState(0);
+  const [ordersOffset, setOrdersOffset] = useState(0);
+  const [paymentsOffset, setPaymentsOffset] = useState(0);
   const [settings, setSettings] = useState<AdminSettings>({
     notification_email: "",
   });
@@ -153,23 +165,28 @@ export default function AdminPanel() {
     queryKey: ["/api/analytics/platform"],
   });
 
-  const { data: notifications = [], isLoading: notificationsLoading } =
-    useQuery<Notification[]>({
+  const { data: notificationPage, isLoading: notificationsLoading } =
+    useQuery<Page<Notification>>({
       queryKey: ["/api/notifications"],
     });
+  const notifications = notificationPage?.items ?? [];
 
   const { data: pendingProducts = [], isLoading: pendingProductsLoading } =
     useQuery({
       queryKey: ["/api/products/pending"],
     });
 
-  const { data: users = [], isLoading: usersLoading } = useQuery({
-    queryKey: ["/api/users"],
-  });
-
-  const { data: customers = [], isLoading: customersLoading } = useQuery({
-    queryKey: ["/api/admin/customers"],
+  const { data: usersPage, isLoading: usersLoading } = useQuery<Page<User>>({
+    queryKey: [
+      "/api/users",
+      {
+        limit: ADMIN_PAGE_SIZE,
+        offset: usersOffset,
+        role: userRoleFilter === "all" ? undefined : userRoleFilter,
+      },
+    ],
   });
+  const users = usersPage?.items ?? [];
 
   const { data: pendingSellers = [], isLoading: pendingSellersLoading } =
     useQuery({
@@ -199,17 +216,21 @@ export default function AdminPanel() {
   }, [adminSettings]);
 
   // Delivery and accounting data
-  const { data: orders = [], isLoading: ordersLoading } = useQuery({
-    queryKey: ["/api/orders"],
+  const { data: ordersPage, isLoading: ordersLoading } = useQuery<Page<Order>>({
+    queryKey: ["/api/orders", { limit: ADMIN_PAGE_SIZE, offset: ordersOffset }],
   });
+  const orders = ordersPage?.items ?? [];
 
-  const { data: payments = [], isLoading: paymentsLoading } = useQuery({
-    queryKey: ["/api/admin/payments"],
+  const { data: paymentsPage, isLoading: paymentsLoading } = useQuery<Page<Payment>>({
+    queryKey: ["/api/admin/payments", { limit: ADMIN_PAGE_SIZE, offset: paymentsOffset }],
   });
+  const payments = paymentsPage?.items ?? [];
 
-  const { data: allProducts = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  // Products and categories for the report filters
+  const { data: reportProducts } = useQuery<ProductSearchResult>({
+    queryKey: ["/api/products/search", { limit: 100, sort: "newest" }],
   });
+  const allProducts = reportProducts?.products ?? [];
 
   const { data: orderReports = [], isLoading: orderReportsLoading } = useQuery({
     queryKey: ["/api/analytics/orders", reportFilters],
@@ -251,11 +272,8 @@ export default function AdminPanel() {
     });
 
   const categories = useMemo(
-    () =>
-      Array.from(
-        new Set((allProducts as Product[]).map((p: Product) => p.category)),
-      ),
-    [allProducts],
+    () => (reportProducts?.facets.category ?? []).map((facet) => facet.value),
+    [reportProducts],
   );
 
   const handleExportRevenue = async () => {
@@ -556,11 +574,6 @@ export default function AdminPanel() {
     }
   };
 
-  const filteredUsers =
-    userRoleFilter === "all"
-      ? users
-      : (users as User[]).filter((u: User) => u.role === userRoleFilter);
-
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
       <Navigation />
@@ -602,7 +615,7 @@ export default function AdminPanel() {
           onValueChange={setActiveTab}
           className="space-y-6"
         >
-          <TabsList className="grid w-full grid-cols-9">
+          <TabsList className="grid w-full grid-cols-11">
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="products">Products</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
@@ -611,6 +624,8 @@ export default function AdminPanel() {
             <TabsTrigger value="deliveries">Deliveries</TabsTrigger>
             <TabsTrigger value="accounting">Accounting</TabsTrigger>
             <TabsTrigger value="reports">Reports</TabsTrigger>
+            <TabsTrigger value="promotions">Promotions</TabsTrigger>
+            <TabsTrigger value="jobs">Jobs</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
           </TabsList>
 
@@ -921,6 +936,8 @@ export default function AdminPanel() {
                 )}
               </CardContent>
             </Card>
+
+            <DeviceUnitLookup />
           </TabsContent>
 
           {/* Users Tab */}
@@ -934,7 +951,10 @@ export default function AdminPanel() {
                   </div>
                   <Select
                     value={userRoleFilter}
-                    onValueChange={setUserRoleFilter}
+                    onValueChange={(role) => {
+                      setUserRoleFilter(role);
+                      setUsersOffset(0);
+                    }}
                   >
                     <SelectTrigger className="w-48">
                       <SelectValue />
@@ -960,7 +980,7 @@ export default function AdminPanel() {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {(filteredUsers as User[]).map((user: User) => (
+                    {users.map((user: User) => (
                       <div key={user.id} className="p-4 border rounded-lg">
                         <div className="flex items-center justify-between">
                           <div>
@@ -998,6 +1018,12 @@ export default function AdminPanel() {
                     ))}
                   </div>
                 )}
+                <ListPager
+                  offset={usersOffset}
+                  limit={ADMIN_PAGE_SIZE}
+                  total={usersPage?.total ?? 0}
+                  onOffsetChange={setUsersOffset}
+                />
               </CardContent>
             </Card>
           </TabsContent>
@@ -1527,6 +1553,12 @@ export default function AdminPanel() {
                     ))}
                   </div>
                 )}
+                <ListPager
+                  offset={ordersOffset}
+                  limit={ADMIN_PAGE_SIZE}
+                  total={ordersPage?.total ?? 0}
+                  onOffsetChange={setOrdersOffset}
+                />
               </CardContent>
             </Card>
           </TabsContent>
@@ -1564,8 +1596,17 @@ export default function AdminPanel() {
                     ))}
                   </div>
                 )}
+                <ListPager
+                  offset={paymentsOffset}
+                  limit={ADMIN_PAGE_SIZE}
+                  total={paymentsPage?.total ?? 0}
+                  onOffsetChange={setPaymentsOffset}
+                />
               </CardContent>
             </Card>
+
+            <PayoutsManager />
+            <CommissionRatesManager />
           </TabsContent>
 
           {/* Reports Tab */}
@@ -1734,6 +1775,15 @@ export default function AdminPanel() {
             </div>
           </TabsContent>
 
+          {/* Promotions Tab */}
+          <TabsContent value="promotions" className="space-y-6">
+            <PromotionsManager />
+          </TabsContent>
+
+          <TabsContent value="jobs" className="space-y-6">
+            <JobsMonitor />
+          </TabsContent>
+
           {/* Settings Tab */}
           <TabsContent value="settings" className="space-y-6">
             <Card>
@@ -1782,6 +1832,8 @@ export default function AdminPanel() {
                 )}
               </CardContent>
             </Card>
+
+            <TaxRatesManager />
           </TabsContent>
         </Tabs>
       </div>
@@ -5,16 +5,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { ShoppingCart, CreditCard, Truck, Package, CheckCircle } from "lucide-react";
-import type { CartItem, Product } from "@shared/schema";
+import { shippingAddressSchema, type Address, type CartItem, type OrderQuote, type Product, type ProductVariant } from "@shared/schema";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { AddressFields } from "@/components/address-fields";
+import { CouponField, type AppliedCoupon } from "@/components/coupon-field";
+import { EMPTY_ADDRESS, formatAddress, toShippingAddress, type AddressDraft } from "@/lib/address";
 
   export default function Checkout() {
   const { user, isAuthenticated } = useAuth();
@@ -27,18 +30,20 @@ import { useLanguage } from "@/contexts/LanguageContext";
     queryKey: ["/api/loyalty"],
     enabled: isAuthenticated,
   });
+  const { data: storeCredit } = useQuery<{ balance: number }>({
+    queryKey: ["/api/store-credit"],
+    enabled: isAuthenticated,
+  });
   const [pointsToRedeem, setPointsToRedeem] = useState(0);
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
+  const canRedeemPoints = !coupon || coupon.stackableWithLoyalty;
   
   const [step, setStep] = useState<"shipping" | "payment" | "confirmation">("shipping");
   const [paymentMethod, setPaymentMethod] = useState("card");
-  const [shippingAddress, setShippingAddress] = useState({
-    fullName: "",
-    street: "",
-    city: "",
-    state: "",
-    zipCode: "",
-    country: "",
-  });
+  // A saved address id, or "new" to enter one at checkout
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [newAddress, setNewAddress] = useState<AddressDraft>(EMPTY_ADDRESS);
+  const [saveNewAddress, setSaveNewAddress] = useState(true);
   const [paymentDetails, setPaymentDetails] = useState({
     cardNumber: "",
     expiryDate: "",
@@ -52,8 +57,16 @@ import { useLanguage } from "@/contexts/LanguageContext";
     return null;
   }
 
+  const { data: savedAddresses = [] } = useQuery<Address[]>({
+    queryKey: ["/api/addresses"],
+  });
+  // Preselect the default address until the customer picks another
+  const addressChoice = selectedAddressId
+    ?? savedAddresses.find((address) => address.isDefault)?.id
+    ?? "new";
+
   // Fetch cart items with product details
-  const { data: cartItems = [], isLoading } = useQuery<(CartItem & { product: Product })[]>({
+  const { data: cartItems = [], isLoading } = useQuery<(CartItem & { product: Product; variant?: ProductVariant | null })[]>({
     queryKey: ["/api/cart/detailed"],
     queryFn: async () => {
       const cartResponse = await fetch("/api/cart");
@@ -72,42 +85,72 @@ import { useLanguage } from "@/contexts/LanguageContext";
     },
   });
 
+  // Tax is priced by the server, on the same lines and rates the order will use
+  const { data: quote } = useQuery<OrderQuote>({
+    queryKey: ["/api/orders/quote", cartItems, coupon?.code],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/orders/quote", { couponCode: coupon?.code });
+      return await res.json();
+    },
+    enabled: cartItems.length > 0,
+  });
+
   // Order creation mutation
   const createOrderMutation = useMutation({
     mutationFn: async () => {
       const orderItems = cartItems.map(item => ({
         productId: item.product.id,
+        variantId: item.variantId ?? undefined,
         productName: item.product.name,
         quantity: item.quantity,
-        price: parseFloat(item.product.price),
+        price: parseFloat(item.variant?.price ?? item.product.price),
         sellerId: item.product.sellerId,
       }));
 
       const total = calculateTotal();
 
-      if (pointsToRedeem > 0) {
-        await apiRequest("POST", "/api/loyalty/redeem", { points: pointsToRedeem });
+      // The order keeps a copy of the address, saved or not
+      let addressId = addressChoice === "new" ? undefined : addressChoice;
+      if (addressChoice === "new" && saveNewAddress) {
+        const addressRes = await apiRequest("POST", "/api/addresses", toShippingAddress(newAddress));
+        addressId = (await addressRes.json()).id;
       }
 
       // Create order
       const orderRes = await apiRequest("POST", "/api/orders", {
         total: total.toString(),
-        shippingAddress,
+        ...(addressId ? { addressId } : { shippingAddress: toShippingAddress(newAddress) }),
         items: orderItems,
+        couponCode: coupon?.code,
+        loyaltyPoints: pointsToRedeem,
       });
       const order = await orderRes.json();
 
+      // Points are only spent once the order (and any coupon on it) is accepted
+      if (pointsToRedeem > 0) {
+        await apiRequest("POST", "/api/loyalty/redeem", { points: pointsToRedeem });
+      }
+
       // Process payment
-      await apiRequest("POST", "/api/payments", {
+      const paymentRes = await apiRequest("POST", "/api/payments", {
         orderId: order.id,
-        amount: total.toString(),
-          method: paymentMethod,
-        });
+        method: paymentMethod,
+      });
+      const payment = await paymentRes.json();
+
+      // Hosted gateways (KNET) take the customer to their payment page
+      if (payment.redirectUrl) {
+        window.location.href = payment.redirectUrl;
+      } else if (payment.status === "failed") {
+        throw new Error("Your payment was declined. Please try another payment method.");
+      }
 
-        return order;
+      return order;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/store-credit"] });
       setStep("confirmation");
       toast({ 
         title: "Order placed successfully!",
@@ -125,7 +168,7 @@ import { useLanguage } from "@/contexts/LanguageContext";
 
   const calculateSubtotal = () => {
     return cartItems.reduce((sum, item) => 
-      sum + (parseFloat(item.product.price) * item.quantity), 0
+      sum + (parseFloat(item.variant?.price ?? item.product.price) * item.quantity), 0
     );
   };
 
@@ -135,32 +178,35 @@ import { useLanguage } from "@/contexts/LanguageContext";
     return subtotal >= 15 ? 0 : 2.0;
   };
 
-  const calculateTax = () => {
-    // 8.5% tax rate
-    return calculateSubtotal() * 0.085;
-  };
+  const calculateDiscount = () => coupon?.discount ?? 0;
+
+  const calculateTax = () => quote?.tax ?? 0;
+
+  // Prices may already include tax, so the goods total comes from the quote
+  const calculateGoodsTotal = () => quote?.gross ?? calculateSubtotal() - calculateDiscount();
+  const taxIncluded = !!quote && quote.items.every((item) => item.taxIncluded);
 
   const calculateTotal = () => {
-    return Math.max(
-      0,
-      calculateSubtotal() + calculateShipping() + calculateTax() - pointsToRedeem,
-    );
+    return Math.max(0, calculateGoodsTotal() + calculateShipping() - pointsToRedeem);
   };
 
   const maxRedeem = Math.min(
     loyalty?.balance || 0,
-    Math.floor(calculateSubtotal() + calculateShipping() + calculateTax()),
+    Math.floor(calculateGoodsTotal() + calculateShipping()),
   );
 
   const handleContinueToPayment = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!shippingAddress.fullName || !shippingAddress.street || !shippingAddress.city) {
-      toast({
-        title: "Missing shipping information",
-        description: "Please fill in all required shipping fields.",
-        variant: "destructive",
-      });
-      return;
+    if (addressChoice === "new") {
+      const parsed = shippingAddressSchema.safeParse(toShippingAddress(newAddress));
+      if (!parsed.success) {
+        toast({
+          title: "Missing shipping information",
+          description: parsed.error.errors[0].message,
+          variant: "destructive",
+        });
+        return;
+      }
     }
     setStep("payment");
   };
@@ -265,73 +311,49 @@ import { useLanguage } from "@/contexts/LanguageContext";
                 </CardHeader>
                 <CardContent>
                   <form onSubmit={handleContinueToPayment} className="space-y-4">
-                    <div>
-                      <Label htmlFor="fullName">Full Name *</Label>
-                      <Input
-                        id="fullName"
-                        value={shippingAddress.fullName}
-                        onChange={(e) => setShippingAddress({...shippingAddress, fullName: e.target.value})}
-                        required
-                      />
-                    </div>
-                    
-                    <div>
-                      <Label htmlFor="street">Street Address *</Label>
-                      <Input
-                        id="street"
-                        value={shippingAddress.street}
-                        onChange={(e) => setShippingAddress({...shippingAddress, street: e.target.value})}
-                        required
-                      />
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <Label htmlFor="city">City *</Label>
-                        <Input
-                          id="city"
-                          value={shippingAddress.city}
-                          onChange={(e) => setShippingAddress({...shippingAddress, city: e.target.value})}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="state">State</Label>
-                        <Input
-                          id="state"
-                          value={shippingAddress.state}
-                          onChange={(e) => setShippingAddress({...shippingAddress, state: e.target.value})}
-                        />
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <Label htmlFor="zipCode">ZIP Code</Label>
-                        <Input
-                          id="zipCode"
-                          value={shippingAddress.zipCode}
-                          onChange={(e) => setShippingAddress({...shippingAddress, zipCode: e.target.value})}
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="country">Country</Label>
-                        <Select 
-                          value={shippingAddress.country} 
-                          onValueChange={(value) => setShippingAddress({...shippingAddress, country: value})}
+                    <RadioGroup value={addressChoice} onValueChange={setSelectedAddressId} className="space-y-2">
+                      {savedAddresses.map((address) => (
+                        <Label
+                          key={address.id}
+                          htmlFor={`address-option-${address.id}`}
+                          className="flex items-start gap-3 rounded-lg border p-4 cursor-pointer font-normal"
                         >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select country" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="US">United States</SelectItem>
-                            <SelectItem value="CA">Canada</SelectItem>
-                            <SelectItem value="UK">United Kingdom</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    </div>
-                    
+                          <RadioGroupItem value={address.id} id={`address-option-${address.id}`} className="mt-1" />
+                          <div>
+                            <p className="font-medium">
+                              {address.label || address.fullName}
+                              {address.isDefault && <span className="ml-2 text-xs text-slate-500">Default</span>}
+                            </p>
+                            <p className="text-sm text-slate-600">{formatAddress(address)}</p>
+                            <p className="text-sm text-slate-500">{address.fullName} • {address.phone}</p>
+                          </div>
+                        </Label>
+                      ))}
+                      {savedAddresses.length > 0 && (
+                        <Label
+                          htmlFor="address-option-new"
+                          className="flex items-center gap-3 rounded-lg border p-4 cursor-pointer font-normal"
+                        >
+                          <RadioGroupItem value="new" id="address-option-new" />
+                          <span className="font-medium">Use a new address</span>
+                        </Label>
+                      )}
+                    </RadioGroup>
+
+                    {addressChoice === "new" && (
+                      <>
+                        <AddressFields value={newAddress} onChange={setNewAddress} />
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="saveAddress"
+                            checked={saveNewAddress}
+                            onCheckedChange={(checked) => setSaveNewAddress(checked === true)}
+                          />
+                          <Label htmlFor="saveAddress" className="font-normal">Save to my address book</Label>
+                        </div>
+                      </>
+                    )}
+
                     <Button type="submit" className="w-full">
                       Continue to Payment
                     </Button>
@@ -362,6 +384,14 @@ import { useLanguage } from "@/contexts/LanguageContext";
                           <RadioGroupItem value="bank_transfer" id="bank_transfer" />
                           <Label htmlFor="bank_transfer">Bank Transfer</Label>
                         </div>
+                        {(storeCredit?.balance ?? 0) >= calculateTotal() && (
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="store_credit" id="store_credit" />
+                            <Label htmlFor="store_credit">
+                              Store Credit ({formatCurrency(storeCredit?.balance ?? 0)} available)
+                            </Label>
+                          </div>
+                        )}
                       </RadioGroup>
                     </div>
 
@@ -479,10 +509,13 @@ import { useLanguage } from "@/contexts/LanguageContext";
                       </div>
                       <div className="flex-1">
                         <p className="font-medium text-sm">{item.product.name}</p>
+                        {item.variant && (
+                          <p className="text-xs text-slate-500">{Object.values(item.variant.options).join(" / ")}</p>
+                        )}
                         <p className="text-xs text-slate-500">Qty: {item.quantity}</p>
                       </div>
                       <span className="font-medium">
-                        {formatCurrency(parseFloat(item.product.price) * item.quantity)}
+                        {formatCurrency(parseFloat(item.variant?.price ?? item.product.price) * item.quantity)}
                       </span>
                     </div>
                   ))}
@@ -495,15 +528,22 @@ import { useLanguage } from "@/contexts/LanguageContext";
                     <span>Subtotal:</span>
                     <span>{formatCurrency(calculateSubtotal())}</span>
                   </div>
+                  <CouponField applied={coupon} onChange={setCoupon} loyaltyPoints={pointsToRedeem} />
+                  {coupon && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>Discount ({coupon.code}):</span>
+                      <span>-{formatCurrency(coupon.discount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span>Shipping:</span>
                     <span>{formatCurrency(calculateShipping())}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span>Tax:</span>
+                    <span>Tax{taxIncluded && calculateTax() > 0 ? " (included)" : ""}:</span>
                     <span>{formatCurrency(calculateTax())}</span>
                   </div>
-                  {loyalty && (
+                  {loyalty && canRedeemPoints && (
                     <div className="flex justify-between items-center text-sm">
                       <span>Redeem Points ({loyalty.balance}):</span>
                       <Input
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Navigation } from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatSpecValue } from "@/components/product-specs";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Columns3, X } from "lucide-react";
+import type { ProductComparison, ProductSpecs } from "@shared/schema";
+
+// Listings side by side, one column each, from /compare?ids=a,b,c
+export default function Compare() {
+  const [, setLocation] = useLocation();
+  const { t, formatCurrency } = useLanguage();
+  const [ids, setIds] = useState(() =>
+    (new URLSearchParams(window.location.search).get("ids") ?? "").split(",").filter(Boolean),
+  );
+
+  const { data, isLoading, error } = useQuery<ProductComparison>({
+    queryKey: ["/api/products/compare", { ids: ids.join(",") }],
+    enabled: ids.length >= 2,
+  });
+  const products = data?.products ?? [];
+
+  const removeProduct = (id: string) => {
+    const remaining = ids.filter((other) => other !== id);
+    setIds(remaining);
+    window.history.replaceState(null, "", `/compare?ids=${remaining.join(",")}`);
+  };
+
+  // Rows where the listings differ are the ones worth reading
+  const differs = (values: (ProductSpecs[string] | undefined)[]) => new Set(values.map(String)).size > 1;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">{t("compare_products")}</h1>
+
+        {ids.length < 2 ? (
+          <div className="text-center py-12">
+            <Columns3 className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+            <p className="text-slate-600 mb-4">Choose at least two products in the marketplace to compare them</p>
+            <Button onClick={() => setLocation("/marketplace")}>Browse Products</Button>
+          </div>
+        ) : isLoading ? (
+          <p className="text-slate-600">Loading comparison...</p>
+        ) : error ? (
+          <p className="text-red-600">{(error as Error).message}</p>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-48"></TableHead>
+                  {products.map((product) => (
+                    <TableHead key={product.id} className="align-top py-4">
+                      <div className="space-y-2">
+                        <div className="flex justify-end">
+                          <Button variant="ghost" size="sm" onClick={() => removeProduct(product.id)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        {product.imageUrl && (
+                          <img src={product.imageUrl} alt={product.name} className="h-32 w-32 object-cover rounded-lg" />
+                        )}
+                        <button
+                          className="block text-left font-semibold text-slate-900 hover:underline"
+                          onClick={() => setLocation(`/product/${product.id}`)}
+                        >
+                          {product.name}
+                        </button>
+                        <p className="text-lg font-bold text-slate-900">{formatCurrency(product.price)}</p>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="text-slate-600">Brand</TableCell>
+                  {products.map((product) => (
+                    <TableCell key={product.id}>{product.brand ?? "—"}</TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="text-slate-600">Condition</TableCell>
+                  {products.map((product) => (
+                    <TableCell key={product.id}>
+                      <Badge variant="outline" className="capitalize">{product.condition.replace("_", " ")}</Badge>
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={products.length + 1} className="bg-slate-50 font-semibold">
+                    {t("specifications")}
+                  </TableCell>
+                </TableRow>
+                {data?.fields.map((field) => {
+                  const values = products.map((product) => product.specs[field.key]);
+                  return (
+                    <TableRow key={field.key} className={differs(values) ? "bg-amber-50/60" : undefined}>
+                      <TableCell className="text-slate-600">{field.label}</TableCell>
+                      {products.map((product, index) => (
+                        <TableCell key={product.id} className="font-medium">
+                          {formatSpecValue(field, values[index])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
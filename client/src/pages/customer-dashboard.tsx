@@ -1,10 +1,17 @@
+import { useState } from "react";
 import { Navigation } from "@/components/navigation";
+import { OrderTimeline } from "@/components/order-timeline";
+import { CancelOrderDialog } from "@/components/cancel-order-dialog";
+import { CustomerRepairTickets } from "@/components/repair-tickets";
+import { CustomerWarranties } from "@/components/warranty-claims";
+import { NotificationPreferencesCard } from "@/components/notification-preferences";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
-import { Package, ShoppingBag, Heart, User, Star } from "lucide-react";
+import { fetchAllPages } from "@/lib/queryClient";
+import { Package, ShoppingBag, Heart, User, Star, Smartphone } from "lucide-react";
 import type { Order } from "@shared/schema";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useLocation } from "wouter";
@@ -13,9 +20,13 @@ export default function CustomerDashboard() {
   const { user } = useAuth();
   const { formatCurrency } = useLanguage();
   const [, setLocation] = useLocation();
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
 
+  // All of the customer's orders, newest first, so the totals cover every one;
+  // only the latest are listed here and the full history is on the orders page
   const { data: orders = [] } = useQuery<Order[]>({
-    queryKey: ["/api/orders"],
+    queryKey: ["/api/orders", { all: true }],
+    queryFn: () => fetchAllPages<Order>("/api/orders"),
   });
 
     const getStatusBadge = (status: string) => {
@@ -56,7 +67,7 @@ export default function CustomerDashboard() {
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           {/* Recent Orders */}
-          <div className="md:col-span-2">
+          <div className="md:col-span-2 space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
@@ -77,34 +88,57 @@ export default function CustomerDashboard() {
                 ) : (
                   <div className="space-y-4">
                     {orders.slice(0, 5).map((order) => (
-                      <div key={order.id} className="flex items-center justify-between p-4 bg-slate-50 rounded-lg">
-                        <div className="flex items-center space-x-4">
-                          <div className="w-12 h-12 bg-slate-200 rounded-lg flex items-center justify-center">
-                            <Package className="h-6 w-6 text-slate-600" />
+                      <div key={order.id} className="p-4 bg-slate-50 rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-4">
+                            <div className="w-12 h-12 bg-slate-200 rounded-lg flex items-center justify-center">
+                              <Package className="h-6 w-6 text-slate-600" />
+                            </div>
+                            <div>
+                              <h4 className="font-medium text-slate-900">
+                                Order #{order.id.slice(-8)}
+                              </h4>
+                              <p className="text-sm text-slate-600">
+                                {Array.isArray(order.items) 
+                                  ? `${order.items.length} items` 
+                                  : "Multiple items"} • ${order.total}
+                              </p>
+                            </div>
                           </div>
-                          <div>
-                            <h4 className="font-medium text-slate-900">
-                              Order #{order.id.slice(-8)}
-                            </h4>
-                            <p className="text-sm text-slate-600">
-                              {Array.isArray(order.items) 
-                                ? `${order.items.length} items` 
-                                : "Multiple items"} • ${order.total}
+                          <div className="text-right">
+                            {getStatusBadge(order.status)}
+                            <p className="text-sm text-slate-500 mt-1">
+                              {formatDate(order.createdAt!)}
                             </p>
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="px-0 h-auto"
+                              onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                            >
+                              {expandedOrderId === order.id ? "Hide timeline" : "View timeline"}
+                            </Button>
                           </div>
                         </div>
-                        <div className="text-right">
-                          {getStatusBadge(order.status)}
-                          <p className="text-sm text-slate-500 mt-1">
-                            {formatDate(order.createdAt!)}
-                          </p>
-                        </div>
+                        {expandedOrderId === order.id && (
+                          <div className="border-t mt-4 pt-4 space-y-4">
+                            <OrderTimeline orderId={order.id} />
+                            {/* Customers can cancel until the order ships */}
+                            {(order.status === "pending" || order.status === "processing") && (
+                              <CancelOrderDialog orderId={order.id} ordersQueryKey={["/api/orders"]} />
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            <CustomerRepairTickets />
+
+            <CustomerWarranties />
           </div>
 
           {/* Account Summary */}
@@ -134,6 +168,8 @@ export default function CustomerDashboard() {
               </CardContent>
             </Card>
 
+            <NotificationPreferencesCard />
+
             <Card>
               <CardHeader>
                 <CardTitle>Quick Actions</CardTitle>
@@ -163,6 +199,14 @@ export default function CustomerDashboard() {
                   <Star className="h-4 w-4 mr-2" />
                   Loyalty Points
                 </Button>
+                <Button
+                  className="w-full"
+                  variant="outline"
+                  onClick={() => setLocation("/trade-in")}
+                >
+                  <Smartphone className="h-4 w-4 mr-2" />
+                  Trade In a Device
+                </Button>
                 <Button
                   className="w-full"
                   variant="outline"
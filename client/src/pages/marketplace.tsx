@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,22 +12,24 @@ import { Separator } from "@/components/ui/separator";
 import { Navigation } from "@/components/navigation";
 import { ProductCard } from "@/components/product-card";
 import { useLanguage } from "@/contexts/LanguageContext";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useWishlist } from "@/hooks/useWishlist";
 import { apiRequest } from "@/lib/queryClient";
 import { Smartphone, Headphones, Battery, Shield, MapPin, Building2, Phone, Star, ShoppingCart, Heart, Calendar, Package, Shield as ShieldIcon } from "lucide-react";
-import type { Product } from "@shared/schema";
+import { productSpecFields, type Product, type ProductSearchResult } from "@shared/schema";
+
+// Listings loaded per scroll
+const SEARCH_PAGE_SIZE = 24;
 
 const categories = [
-  { name: "smartphones", icon: Smartphone, count: 450 },
-  { name: "audio", icon: Headphones, count: 180 },
-  { name: "accessories", icon: Battery, count: 320 },
-  { name: "protection", icon: Shield, count: 200 },
+  { name: "smartphones", icon: Smartphone },
+  { name: "audio", icon: Headphones },
+  { name: "accessories", icon: Battery },
+  { name: "protection", icon: Shield },
 ];
 
-const brands = ["Apple", "Samsung", "Google", "OnePlus", "Xiaomi"];
-
 export default function Marketplace() {
   const [, setLocation] = useLocation();
   const { isAuthenticated } = useAuth();
@@ -40,29 +42,63 @@ export default function Marketplace() {
     minPrice: "",
     maxPrice: "",
     condition: "",
-    search: "",
+    // The search box in the navigation bar lands here with ?search=
+    search: new URLSearchParams(window.location.search).get("search") ?? "",
   });
   const [sortBy, setSortBy] = useState("featured");
+  // Spec key -> minimum, or "true"; only those of the chosen category are sent
+  const [specFilters, setSpecFilters] = useState<Record<string, string>>({});
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [productModalOpen, setProductModalOpen] = useState(false);
-  const [wishlist, setWishlist] = useState<string[]>(() => {
-    const stored = localStorage.getItem("wishlist");
-    return stored ? JSON.parse(stored) : [];
-  });
+  const wishlist = useWishlist();
 
-  const isWishlisted = selectedProduct ? wishlist.includes(selectedProduct.id) : false;
+  const isWishlisted = selectedProduct ? wishlist.isWishlisted(selectedProduct.id) : false;
 
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products", filters],
-    queryFn: async () => {
-      const params = new URLSearchParams();
+  const specFields = (productSpecFields[filters.category] ?? []).filter((field) => field.filter);
+  const activeSpecFilters = Object.fromEntries(
+    Object.entries(specFilters).filter(([key, value]) => value && specFields.some((field) => field.key === key)),
+  );
+
+  const { data: searchPages, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/products/search", filters, activeSpecFilters, sortBy],
+    queryFn: async ({ pageParam }): Promise<ProductSearchResult> => {
+      const params = new URLSearchParams({
+        sort: sortBy === "featured" ? "relevance" : sortBy,
+        limit: String(SEARCH_PAGE_SIZE),
+        offset: String(pageParam),
+      });
       Object.entries(filters).forEach(([key, value]) => {
-        if (value && value !== "all") params.append(key, value);
+        if (value && value !== "all") params.append(key === "search" ? "q" : key, value);
       });
-      const response = await fetch(`/api/products?${params}`);
+      Object.entries(activeSpecFilters).forEach(([key, value]) => params.append(`spec[${key}]`, value));
+      const response = await fetch(`/api/products/search?${params}`);
       return response.json();
     },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((count, page) => count + page.products.length, 0);
+      return lastPage.products.length > 0 && loaded < lastPage.total ? loaded : undefined;
+    },
   });
+  // Facets, the total and any suggestion come with every page; the first one's are used
+  const searchResult = searchPages?.pages[0];
+  const products = searchPages?.pages.flatMap((page) => page.products) ?? [];
+  const facets = searchResult?.facets;
+
+  // Load the next listings as the end of the grid scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  const facetCount = (facet: "category" | "condition", value: string) =>
+    facets?.[facet].find((entry) => entry.value === value)?.count ?? 0;
 
   // Fetch detailed product with seller info
   const { data: productDetails } = useQuery({
@@ -115,27 +151,25 @@ export default function Marketplace() {
       condition: "all",
       search: "",
     });
+    setSpecFilters({});
+  };
+
+  const handleCompareToggle = (productId: string) => {
+    if (compareIds.includes(productId)) {
+      setCompareIds(compareIds.filter((id) => id !== productId));
+    } else if (compareIds.length >= 4) {
+      toast({ title: "Compare up to 4 products at a time", variant: "destructive" });
+    } else {
+      setCompareIds([...compareIds, productId]);
+    }
   };
 
   const handleApplyFilters = () => {
-    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products/search"] });
   };
 
   const handleWishlistToggle = (productId: string) => {
-    if (!isAuthenticated) {
-      toast({
-        title: "Sign in required",
-        description: "Please sign in to save items to your wishlist.",
-        variant: "destructive",
-      });
-      return;
-    }
-    setWishlist(prev => {
-      const exists = prev.includes(productId);
-      const updated = exists ? prev.filter(id => id !== productId) : [...prev, productId];
-      localStorage.setItem("wishlist", JSON.stringify(updated));
-      return updated;
-    });
+    wishlist.toggle(productId);
   };
 
   const handleProductClick = (product: Product) => {
@@ -209,7 +243,7 @@ export default function Marketplace() {
                     <category.icon className="h-8 w-8 text-primary" />
                   </div>
                   <h3 className="font-semibold text-slate-900">{category.name}</h3>
-                  <p className="text-sm text-slate-500 mt-1">{category.count}+ products</p>
+                  <p className="text-sm text-slate-500 mt-1">{facetCount("category", category.name)} products</p>
                 </div>
               </div>
             ))}
@@ -253,6 +287,26 @@ placeholder={t("max_price")}
                         onChange={(e) => handleFilterChange("maxPrice", e.target.value)}
                       />
                     </div>
+                    <div className="mt-2 space-y-1">
+                      {facets?.price.filter((bucket) => bucket.count > 0).map((bucket) => (
+                        <button
+                          key={bucket.min}
+                          className="flex w-full justify-between text-sm text-slate-600 hover:text-primary"
+                          onClick={() => setFilters((prev) => ({
+                            ...prev,
+                            minPrice: String(bucket.min),
+                            maxPrice: bucket.max === null ? "" : String(bucket.max),
+                          }))}
+                        >
+                          <span>
+                            {bucket.max === null
+                              ? `${formatCurrency(bucket.min)}+`
+                              : `${formatCurrency(bucket.min)} - ${formatCurrency(bucket.max)}`}
+                          </span>
+                          <span className="text-slate-400">{bucket.count}</span>
+                        </button>
+                      ))}
+                    </div>
                   </div>
 
                   {/* Brand Filter */}
@@ -261,7 +315,7 @@ placeholder={t("max_price")}
 {t("brand")}
                     </label>
                     <div className="space-y-2">
-                      {brands.map((brand) => (
+                      {facets?.brand.map(({ value: brand, count }) => (
                         <div key={brand} className="flex items-center space-x-2">
                           <Checkbox
                             id={brand}
@@ -270,9 +324,10 @@ placeholder={t("max_price")}
                               handleFilterChange("brand", checked ? brand : "")
                             }
                           />
-                          <label htmlFor={brand} className="text-sm text-slate-700">
+                          <label htmlFor={brand} className="flex-1 text-sm text-slate-700">
                             {brand}
                           </label>
+                          <span className="text-sm text-slate-400">{count}</span>
                         </div>
                       ))}
                     </div>
@@ -289,14 +344,61 @@ placeholder={t("max_price")}
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Conditions</SelectItem>
-                        <SelectItem value="new">New</SelectItem>
-                        <SelectItem value="like_new">Like New</SelectItem>
-                        <SelectItem value="good">Good</SelectItem>
-                        <SelectItem value="fair">Fair</SelectItem>
+                        <SelectItem value="new">New ({facetCount("condition", "new")})</SelectItem>
+                        <SelectItem value="like_new">Like New ({facetCount("condition", "like_new")})</SelectItem>
+                        <SelectItem value="good">Good ({facetCount("condition", "good")})</SelectItem>
+                        <SelectItem value="fair">Fair ({facetCount("condition", "fair")})</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
+                  {/* Specification Filters */}
+                  {specFields.length > 0 && (
+                    <div className="mb-6 space-y-3">
+                      <label className="block text-sm font-medium text-slate-700">
+                        {t("specifications")}
+                      </label>
+                      {specFields.map((field) =>
+                        field.type === "boolean" ? (
+                          <div key={field.key} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`spec-${field.key}`}
+                              checked={specFilters[field.key] === "true"}
+                              onCheckedChange={(checked) =>
+                                setSpecFilters((prev) => ({ ...prev, [field.key]: checked ? "true" : "" }))
+                              }
+                            />
+                            <label htmlFor={`spec-${field.key}`} className="text-sm text-slate-700">
+                              {field.label}
+                            </label>
+                          </div>
+                        ) : (
+                          <div key={field.key}>
+                            <span className="text-sm text-slate-600">{field.label}</span>
+                            <Select
+                              value={specFilters[field.key] || "any"}
+                              onValueChange={(value) =>
+                                setSpecFilters((prev) => ({ ...prev, [field.key]: value === "any" ? "" : value }))
+                              }
+                            >
+                              <SelectTrigger className="mt-1">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="any">Any</SelectItem>
+                                {Array.isArray(field.filter) && field.filter.map((step) => (
+                                  <SelectItem key={step} value={String(step)}>
+                                    {step} {field.unit}+
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ),
+                      )}
+                    </div>
+                  )}
+
                   <Button className="w-full" onClick={handleApplyFilters}>
                     {t("apply_filters")}
                   </Button>
@@ -309,9 +411,9 @@ placeholder={t("max_price")}
               <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-4">
                 <h2 className="text-2xl font-bold text-slate-900">
 {filters.category ? `${filters.category} Products` : t("all_products")}
-                  {products.length > 0 && (
+                  {!!searchResult?.total && (
                     <span className="text-lg font-normal text-slate-600 ml-2">
-                      ({products.length})
+                      ({searchResult.total})
                     </span>
                   )}
                 </h2>
@@ -348,6 +450,19 @@ placeholder={t("max_price")}
                 </div>
               )}
 
+              {searchResult?.suggestion && (
+                <p className="mb-6 text-slate-600">
+                  {t("did_you_mean")}{" "}
+                  <button
+                    className="font-medium text-primary hover:underline"
+                    onClick={() => handleFilterChange("search", searchResult.suggestion!)}
+                  >
+                    {searchResult.suggestion}
+                  </button>
+                  ?
+                </p>
+              )}
+
               {/* Products Grid */}
               {isLoading ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -367,8 +482,13 @@ placeholder={t("max_price")}
                       key={product.id}
                       product={product}
                       onClick={() => handleProductClick(product)}
+                      compareSelected={compareIds.includes(product.id)}
+                      onCompareToggle={() => handleCompareToggle(product.id)}
                     />
                   ))}
+                  <div ref={loadMoreRef} className="col-span-full text-center text-sm text-slate-500">
+                    {isFetchingNextPage && t("loading")}
+                  </div>
                 </div>
               ) : (
                 <div className="text-center py-12">
@@ -389,6 +509,25 @@ placeholder={t("max_price")}
         </div>
       </section>
 
+      {compareIds.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 rounded-full bg-slate-900 px-5 py-3 text-white shadow-lg">
+          <span className="text-sm">
+            {t("compare")} ({compareIds.length}/4)
+          </span>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={compareIds.length < 2}
+            onClick={() => setLocation(`/compare?ids=${compareIds.join(",")}`)}
+          >
+            {t("compare_products")}
+          </Button>
+          <Button size="sm" variant="ghost" className="text-white hover:text-slate-900" onClick={() => setCompareIds([])}>
+            Clear
+          </Button>
+        </div>
+      )}
+
       {/* Product Detail Modal */}
       <Dialog open={productModalOpen} onOpenChange={setProductModalOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] p-0">
@@ -0,0 +1,77 @@
+import { Navigation } from "@/components/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Package } from "lucide-react";
+import type { Order, Page } from "@shared/schema";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { OrderTimeline } from "@/components/order-timeline";
+import { ShipmentTracking } from "@/components/shipment-tracking";
+
+export default function OrderTracking() {
+  const { formatCurrency } = useLanguage();
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/orders", { limit: 10 }],
+    initialPageParam: {} as { cursor?: string },
+    getNextPageParam: (lastPage: Page<Order>) => (lastPage.nextCursor ? { cursor: lastPage.nextCursor } : undefined),
+  });
+  const orders = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Orders still on their way first
+  const activeOrders = orders.filter((order) => order.status === "processing" || order.status === "shipped");
+  const otherOrders = orders.filter((order) => !activeOrders.includes(order));
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">Track Orders</h1>
+
+        {isLoading ? (
+          <p className="text-slate-600">Loading orders...</p>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-12">
+            <Package className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+            <p className="text-slate-600">No orders yet</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {[...activeOrders, ...otherOrders].map((order) => (
+              <Card key={order.id}>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span>Order #{order.id.slice(-8)}</span>
+                    <Badge variant="outline" className="capitalize">{order.status}</Badge>
+                  </CardTitle>
+                  <p className="text-sm text-slate-500">
+                    {new Date(order.createdAt!).toLocaleDateString()} • {formatCurrency(order.total)}
+                  </p>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <h4 className="text-sm font-medium text-slate-900 mb-3">Shipments</h4>
+                    <ShipmentTracking orderId={order.id} />
+                  </div>
+                  <div>
+                    <h4 className="text-sm font-medium text-slate-900 mb-3">Order History</h4>
+                    <OrderTimeline orderId={order.id} />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            {hasNextPage && (
+              <div className="text-center">
+                <Button variant="outline" disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+                  {isFetchingNextPage ? "Loading..." : "Load more orders"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
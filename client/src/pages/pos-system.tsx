@@ -1,24 +1,34 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Navigation } from "@/components/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ReceiptModal } from "@/components/receipt-modal";
+import { CouponField, type AppliedCoupon } from "@/components/coupon-field";
 import { useAuth } from "@/hooks/useAuth";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Search, Plus, Minus, Trash2, CreditCard, DollarSign, Package, Receipt as ReceiptIcon } from "lucide-react";
-import type { Product, Order } from "@shared/schema";
+import { apiRequest, fetchAllPages } from "@/lib/queryClient";
+import { Search, Plus, Minus, Trash2, CreditCard, DollarSign, Package, Wrench, Receipt as ReceiptIcon } from "lucide-react";
+import type { DeviceUnit, Product, ProductVariant, Order, OrderQuote, RepairTicket } from "@shared/schema";
 
 interface POSCartItem {
   product: Product;
+  variant?: ProductVariant; // set for products sold in variants
   quantity: number;
+  units: DeviceUnit[]; // handsets scanned for this line; the server assigns any others
 }
 
+// Each variant of a product is a line of its own, priced and stocked by the variant
+const lineKey = (item: POSCartItem) => item.variant?.id ?? item.product.id;
+const linePrice = (item: POSCartItem) => parseFloat(item.variant?.price ?? item.product.price);
+const lineStock = (item: Pick<POSCartItem, "product" | "variant">) => item.variant?.stock ?? item.product.stock;
+const variantLabel = (variant: ProductVariant) => Object.values(variant.options).join(" / ");
+
 export default function POSSystem() {
   const { user } = useAuth();
   const { t, formatCurrency, isRTL } = useLanguage();
@@ -32,17 +42,55 @@ export default function POSSystem() {
   const [receiptModalOpen, setReceiptModalOpen] = useState(false);
   const [currentOrder, setCurrentOrder] = useState<Order | null>(null);
   const [currentReceiptData, setCurrentReceiptData] = useState<any>(null);
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
+  const [repairTickets, setRepairTickets] = useState<RepairTicket[]>([]);
+  const [variantPicker, setVariantPicker] = useState<{ product: Product; variants: ProductVariant[] } | null>(null);
+
+  // A coupon is priced against the basket, so any change to the basket drops it
+  useEffect(() => setCoupon(null), [posCart, repairTickets]);
 
   // Fetch seller's products for POS
   const { data: products = [] } = useQuery<Product[]>({
     queryKey: ["/api/products", { seller: true }],
     queryFn: async () => {
-      const allProducts = await fetch("/api/products").then(r => r.json());
+      // Every page, so products past the first hundred can still be rung up
+      const allProducts = await fetchAllPages<Product>("/api/products");
       // In a real app, we'd filter by seller ID from the authenticated user
       return allProducts.filter((p: Product) => p.isActive);
     },
   });
 
+  // Repairs the seller has finished, billed here as a service line at pickup
+  const { data: readyRepairs = [] } = useQuery<RepairTicket[]>({
+    queryKey: ["/api/repair-tickets", { status: "ready" }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/repair-tickets?status=ready");
+      return await res.json();
+    },
+    enabled: user?.role === "seller",
+  });
+  const unbilledRepairs = readyRepairs.filter(
+    (ticket) => parseFloat(ticket.quotedAmount ?? "0") > 0 && !repairTickets.some((added) => added.id === ticket.id),
+  );
+
+  // Tax is priced by the server the same way as for online orders
+  const quoteItems = posCart.map((item) => ({ productId: item.product.id, variantId: item.variant?.id, quantity: item.quantity }));
+  const repairTicketIds = repairTickets.map((ticket) => ticket.id);
+  const hasItems = posCart.length > 0 || repairTickets.length > 0;
+  const { data: quote } = useQuery<OrderQuote>({
+    queryKey: ["/api/orders/quote", quoteItems, repairTicketIds, coupon?.code],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/orders/quote", {
+        items: quoteItems,
+        repairTicketIds,
+        couponCode: coupon?.code,
+      });
+      return await res.json();
+    },
+    enabled: hasItems,
+  });
+  const taxIncluded = !!quote && quote.items.every((item) => item.taxIncluded);
+
   // Filter products based on search
   const filteredProducts = products.filter(product =>
     product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -53,21 +101,27 @@ export default function POSSystem() {
   const createPOSOrderMutation = useMutation({
     mutationFn: async ({ 
       items, 
+      repairTicketIds,
       total, 
       paymentMethod, 
       amountReceived,
+      couponCode,
     }: {
       items: POSCartItem[];
+      repairTicketIds: string[];
       total: number;
       paymentMethod: string;
       amountReceived?: number;
+      couponCode?: string;
     }) => {
       const orderItems = items.map(item => ({
         productId: item.product.id,
+        variantId: item.variant?.id,
         productName: item.product.name,
         quantity: item.quantity,
-        price: parseFloat(item.product.price),
-        total: item.quantity * parseFloat(item.product.price),
+        price: linePrice(item),
+        total: item.quantity * linePrice(item),
+        unitIds: item.units.map((unit) => unit.id),
       }));
 
       // Create order
@@ -75,14 +129,15 @@ export default function POSSystem() {
           total: total.toString(),
           isPosOrder: true,
           items: orderItems,
+          repairTicketIds,
+          couponCode,
         });
         const order = await orderRes.json();
 
         // Process payment with metadata
         const changeAmount = amountReceived ? amountReceived - total : 0;
-        await apiRequest("POST", "/api/payments", {
+        const paymentRes = await apiRequest("POST", "/api/payments", {
           orderId: order.id,
-          amount: total.toString(),
           method: paymentMethod,
           metadata: {
             amountReceived,
@@ -91,6 +146,10 @@ export default function POSSystem() {
             customerPhone,
           },
         });
+        const payment = await paymentRes.json();
+        if (payment.status === "failed") {
+          throw new Error(t('operation_failed'));
+        }
 
         return order;
     },
@@ -104,6 +163,8 @@ export default function POSSystem() {
       
       // Reset form
       setPOSCart([]);
+      setRepairTickets([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/repair-tickets"] });
       setCustomerName("");
       setCustomerPhone("");
       setAmountReceived("");
@@ -143,27 +204,32 @@ export default function POSSystem() {
     );
   }
 
-  const addToPOSCart = (product: Product) => {
-    const existing = posCart.find(item => item.product.id === product.id);
+  const addToPOSCart = (product: Product, unit?: DeviceUnit, variant?: ProductVariant) => {
+    const key = variant?.id ?? product.id;
+    const stock = lineStock({ product, variant });
+    const existing = posCart.find(item => lineKey(item) === key);
     if (existing) {
-      if (existing.quantity < product.stock) {
+      if (unit && existing.units.some((scanned) => scanned.id === unit.id)) {
+        return;
+      }
+      if (existing.quantity < stock) {
         setPOSCart(cart =>
           cart.map(item =>
-            item.product.id === product.id
-              ? { ...item, quantity: item.quantity + 1 }
+            lineKey(item) === key
+              ? { ...item, quantity: item.quantity + 1, units: unit ? [...item.units, unit] : item.units }
               : item
           )
         );
       } else {
         toast({
           title: t('insufficient_stock'),
-          description: `${t('only')} ${product.stock} ${t('items_available')}`,
+          description: `${t('only')} ${stock} ${t('items_available')}`,
           variant: "destructive",
         });
       }
     } else {
-      if (product.stock > 0) {
-        setPOSCart(cart => [...cart, { product, quantity: 1 }]);
+      if (stock > 0) {
+        setPOSCart(cart => [...cart, { product, variant, quantity: 1, units: unit ? [unit] : [] }]);
       } else {
         toast({
           title: t('out_of_stock'),
@@ -174,41 +240,85 @@ export default function POSSystem() {
     }
   };
 
-  const updateQuantity = (productId: string, change: number) => {
+  // A product sold in variants is added once the cashier picks which one
+  const selectProduct = async (product: Product) => {
+    const res = await apiRequest("GET", `/api/products/${product.id}/variants`);
+    const { variants }: { variants: ProductVariant[] } = await res.json();
+    const active = variants.filter((variant) => variant.isActive);
+    if (active.length > 0) {
+      setVariantPicker({ product, variants: active });
+    } else {
+      addToPOSCart(product);
+    }
+  };
+
+  const updateQuantity = (key: string, change: number) => {
     setPOSCart(cart =>
       cart.map(item => {
-        if (item.product.id === productId) {
+        if (lineKey(item) === key) {
           const newQuantity = item.quantity + change;
           if (newQuantity <= 0) {
             return null;
           }
-          if (newQuantity > item.product.stock) {
+          if (newQuantity > lineStock(item)) {
             toast({
               title: t('insufficient_stock'),
-              description: `${t('only')} ${item.product.stock} ${t('items_available')}`,
+              description: `${t('only')} ${lineStock(item)} ${t('items_available')}`,
               variant: "destructive",
             });
             return item;
           }
-          return { ...item, quantity: newQuantity };
+          // Dropping a unit drops the handset scanned last
+          return { ...item, quantity: newQuantity, units: item.units.slice(0, newQuantity) };
         }
         return item;
       }).filter(Boolean) as POSCartItem[]
     );
   };
 
-  const removeFromCart = (productId: string) => {
-    setPOSCart(cart => cart.filter(item => item.product.id !== productId));
+  // A scanned IMEI or serial number adds that exact handset to the sale;
+  // anything else stays a product search
+  const scanUnit = async () => {
+    const code = searchQuery.trim();
+    if (!code) return;
+    let scanned: { unit: DeviceUnit; product: Product };
+    try {
+      const res = await apiRequest("GET", `/api/device-units/lookup?q=${encodeURIComponent(code)}`);
+      scanned = await res.json();
+    } catch {
+      return;
+    }
+    const { unit, product } = scanned;
+    if (unit.status !== "in_stock") {
+      toast({ title: t('unit_not_available'), description: code, variant: "destructive" });
+      return;
+    }
+    let variant: ProductVariant | undefined;
+    if (unit.variantId) {
+      const variantsRes = await apiRequest("GET", `/api/products/${product.id}/variants`);
+      const { variants }: { variants: ProductVariant[] } = await variantsRes.json();
+      variant = variants.find((candidate) => candidate.id === unit.variantId);
+    }
+    addToPOSCart(products.find((candidate) => candidate.id === product.id) ?? product, unit, variant);
+    setSearchQuery("");
   };
 
-  const calculateTotal = () => {
+  const removeFromCart = (key: string) => {
+    setPOSCart(cart => cart.filter(item => lineKey(item) !== key));
+  };
+
+  const calculateSubtotal = () => {
     return posCart.reduce((sum, item) => 
-      sum + (parseFloat(item.product.price) * item.quantity), 0
-    );
+      sum + (linePrice(item) * item.quantity), 0
+    ) + repairTickets.reduce((sum, ticket) => sum + parseFloat(ticket.quotedAmount ?? "0"), 0);
+  };
+
+  const calculateTotal = () => {
+    return Math.max(0, quote?.gross ?? calculateSubtotal() - (coupon?.discount ?? 0));
   };
 
   const processPayment = (method: string) => {
-    if (posCart.length === 0) {
+    if (!hasItems) {
       toast({
         title: t('empty_cart_action'),
         description: t('add_items_to_cart'),
@@ -219,8 +329,10 @@ export default function POSSystem() {
 
     createPOSOrderMutation.mutate({
       items: posCart,
+      repairTicketIds,
       total: calculateTotal(),
       paymentMethod: method,
+      couponCode: coupon?.code,
     });
   };
 
@@ -238,7 +350,7 @@ export default function POSSystem() {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Product Selection */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
@@ -248,6 +360,9 @@ export default function POSSystem() {
                       placeholder={t('scan_or_search')}
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") scanUnit();
+                      }}
                       className={`${isRTL ? 'pr-10' : 'pl-10'}`}
                     />
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
@@ -260,7 +375,7 @@ export default function POSSystem() {
                     <Card 
                       key={product.id} 
                       className="cursor-pointer hover:shadow-md transition-shadow"
-                      onClick={() => addToPOSCart(product)}
+                      onClick={() => selectProduct(product)}
                     >
                       <CardContent className="p-4">
                         <div className="aspect-square bg-slate-200 rounded-md mb-3 flex items-center justify-center">
@@ -294,6 +409,32 @@ export default function POSSystem() {
                 )}
               </CardContent>
             </Card>
+
+            {unbilledRepairs.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t('repairs_ready')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {unbilledRepairs.map((ticket) => (
+                    <div key={ticket.id} className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium text-sm">
+                          #{ticket.id.slice(-8)} · {ticket.brand} {ticket.model}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {ticket.customerName} · {formatCurrency(ticket.quotedAmount ?? 0)}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => setRepairTickets((added) => [...added, ticket])}>
+                        <Wrench className="h-3 w-3 mr-2" />
+                        {t('add_to_sale')}
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Cart & Checkout */}
@@ -304,22 +445,30 @@ export default function POSSystem() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3 mb-6">
-                  {posCart.length === 0 ? (
+                  {!hasItems ? (
                     <p className="text-slate-500 text-center py-4">{t('cart_empty')}</p>
                   ) : (
                     posCart.map((item) => (
-                      <div key={item.product.id} className="flex items-center justify-between">
+                      <div key={lineKey(item)} className="flex items-center justify-between">
                         <div className="flex-1">
                           <p className="font-medium text-sm">{item.product.name}</p>
+                          {item.variant && (
+                            <p className="text-xs text-slate-500">{variantLabel(item.variant)}</p>
+                          )}
                           <p className="text-xs text-slate-500">
-                            {formatCurrency(parseFloat(item.product.price))} × {item.quantity}
+                            {formatCurrency(linePrice(item))} × {item.quantity}
                           </p>
+                          {item.units.map((unit) => (
+                            <p key={unit.id} className="text-xs text-slate-500 font-mono">
+                              {t('imei')}: {unit.imei1}
+                            </p>
+                          ))}
                         </div>
                         <div className="flex items-center space-x-2">
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => updateQuantity(item.product.id, -1)}
+                            onClick={() => updateQuantity(lineKey(item), -1)}
                           >
                             <Minus className="h-3 w-3" />
                           </Button>
@@ -327,14 +476,14 @@ export default function POSSystem() {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => updateQuantity(item.product.id, 1)}
+                            onClick={() => updateQuantity(lineKey(item), 1)}
                           >
                             <Plus className="h-3 w-3" />
                           </Button>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => removeFromCart(item.product.id)}
+                            onClick={() => removeFromCart(lineKey(item))}
                           >
                             <Trash2 className="h-3 w-3 text-red-600" />
                           </Button>
@@ -342,6 +491,25 @@ export default function POSSystem() {
                       </div>
                     ))
                   )}
+                  {repairTickets.map((ticket) => (
+                    <div key={ticket.id} className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <p className="font-medium text-sm">
+                          {ticket.brand} {ticket.model}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {t('repair_service')} #{ticket.id.slice(-8)} · {formatCurrency(ticket.quotedAmount ?? 0)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRepairTickets((added) => added.filter((item) => item.id !== ticket.id))}
+                      >
+                        <Trash2 className="h-3 w-3 text-red-600" />
+                      </Button>
+                    </div>
+                  ))}
                 </div>
 
                 <Separator className="my-4" />
@@ -349,11 +517,24 @@ export default function POSSystem() {
                 <div className="space-y-2 mb-6">
                   <div className="flex justify-between text-sm">
                     <span>{t('subtotal')}:</span>
-                    <span>{formatCurrency(total)}</span>
+                    <span>{formatCurrency(calculateSubtotal())}</span>
                   </div>
+                  {posCart.length > 0 && (
+                    <CouponField
+                      applied={coupon}
+                      onChange={setCoupon}
+                      items={quoteItems}
+                    />
+                  )}
+                  {coupon && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>{t('discount')} ({coupon.code}):</span>
+                      <span>-{formatCurrency(coupon.discount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
-                    <span>{t('tax')}:</span>
-                    <span>{formatCurrency(0)}</span>
+                    <span>{t('tax')}{taxIncluded && (quote?.tax ?? 0) > 0 ? ` (${t('tax_included')})` : ''}:</span>
+                    <span>{formatCurrency(quote?.tax ?? 0)}</span>
                   </div>
                   <Separator />
                   <div className="flex justify-between items-center text-lg font-bold">
@@ -381,7 +562,7 @@ export default function POSSystem() {
                   <Button 
                     className="w-full bg-secondary hover:bg-secondary/90"
                     onClick={() => processPayment("cash")}
-                    disabled={createPOSOrderMutation.isPending || posCart.length === 0}
+                    disabled={createPOSOrderMutation.isPending || !hasItems}
                   >
                     <DollarSign className="h-4 w-4 mr-2" />
                     {t('cash_payment')}
@@ -389,16 +570,19 @@ export default function POSSystem() {
                   <Button 
                     className="w-full"
                     onClick={() => processPayment("card")}
-                    disabled={createPOSOrderMutation.isPending || posCart.length === 0}
+                    disabled={createPOSOrderMutation.isPending || !hasItems}
                   >
                     <CreditCard className="h-4 w-4 mr-2" />
                     {t('card_payment')}
                   </Button>
-                  {posCart.length > 0 && (
+                  {hasItems && (
                     <Button 
                       variant="outline" 
                       className="w-full"
-                      onClick={() => setPOSCart([])}
+                      onClick={() => {
+                        setPOSCart([]);
+                        setRepairTickets([]);
+                      }}
                     >
                       {t('clear_cart')}
                     </Button>
@@ -409,6 +593,33 @@ export default function POSSystem() {
           </div>
         </div>
         
+        <Dialog open={!!variantPicker} onOpenChange={(open) => !open && setVariantPicker(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t('choose_options')} · {variantPicker?.product.name}</DialogTitle>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-3">
+              {variantPicker?.variants.map((variant) => (
+                <Button
+                  key={variant.id}
+                  variant="outline"
+                  className="h-auto flex-col items-start py-3"
+                  disabled={variant.stock === 0}
+                  onClick={() => {
+                    addToPOSCart(variantPicker.product, undefined, variant);
+                    setVariantPicker(null);
+                  }}
+                >
+                  <span className="font-medium">{variantLabel(variant)}</span>
+                  <span className="text-xs text-slate-500">
+                    {formatCurrency(parseFloat(variant.price))} · {t('stock')}: {variant.stock}
+                  </span>
+                </Button>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Receipt Modal */}
         <ReceiptModal
           open={receiptModalOpen}
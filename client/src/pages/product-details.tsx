@@ -13,6 +13,10 @@ import { apiRequest } from "@/lib/queryClient";
 import ChatWidget from "@/components/chat-widget";
 import { useRecommendations } from "@/hooks/useRecommendations";
 import { ProductCard } from "@/components/product-card";
+import { ProductSpecsTable } from "@/components/product-specs";
+import type { ProductOption, ProductVariant } from "@shared/schema";
+
+type DetailsVariant = ProductVariant & { images: string[] };
 
 export default function ProductDetails() {
   const [, params] = useRoute("/product/:id");
@@ -21,6 +25,7 @@ export default function ProductDetails() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedImage, setSelectedImage] = useState(0);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
 
   const productId = params?.id;
 
@@ -34,13 +39,15 @@ export default function ProductDetails() {
   });
 
   const addToCartMutation = useMutation({
-    mutationFn: async (data: { productId: string; quantity: number }) => {
+    mutationFn: async (data: { productId: string; variantId?: string; quantity: number }) => {
       const response = await fetch('/api/cart', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
       });
-      return await response.json();
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message);
+      return result;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
@@ -49,10 +56,10 @@ export default function ProductDetails() {
         description: "Product has been added to your cart",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to add product to cart",
+        description: error.message || "Failed to add product to cart",
         variant: "destructive",
       });
     },
@@ -70,10 +77,30 @@ export default function ProductDetails() {
 
     addToCartMutation.mutate({
       productId,
+      variantId: selectedVariant?.id,
       quantity: 1,
     });
   };
 
+  const options: ProductOption[] = product?.options ?? [];
+  const variants: DetailsVariant[] = product?.variants ?? [];
+  const hasVariants = variants.length > 0;
+  const selectedVariant = hasVariants
+    ? variants.find((variant) => options.every((option) => variant.options[option.name] === selectedOptions[option.name]))
+    : undefined;
+
+  // A value can be picked when some variant has it alongside the values already chosen
+  const isAvailable = (name: string, value: string) =>
+    variants.some((variant) =>
+      variant.options[name] === value &&
+      options.every((option) => option.name === name || !selectedOptions[option.name] || variant.options[option.name] === selectedOptions[option.name]),
+    );
+
+  const selectOption = (name: string, value: string) => {
+    setSelectedOptions((current) => ({ ...current, [name]: value }));
+    setSelectedImage(0);
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -111,9 +138,13 @@ export default function ProductDetails() {
     );
   }
 
-  const images = product.images && product.images.length > 0 
+  const images = selectedVariant && selectedVariant.images.length > 0
+    ? selectedVariant.images
+    : product.images && product.images.length > 0 
     ? product.images 
     : ['/api/placeholder/600/600'];
+  const price = selectedVariant?.price ?? product.price;
+  const stock: number = selectedVariant ? selectedVariant.stock : product.stock;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -181,18 +212,43 @@ export default function ProductDetails() {
 
             <div className="space-y-2">
               <div className="text-3xl font-bold text-blue-600">
-                {parseFloat(product.price).toFixed(3)} KWD
+                {hasVariants && !selectedVariant && <span className="text-base font-normal text-gray-500 mr-2">From</span>}
+                {parseFloat(price).toFixed(3)} KWD
               </div>
-              {product.stock > 0 ? (
+              {stock > 0 ? (
                 <div className="text-green-600">
                   <Package className="w-4 h-4 inline mr-1" />
-                  {product.stock} in stock
+                  {stock} in stock
                 </div>
               ) : (
                 <div className="text-red-600">Out of stock</div>
               )}
             </div>
 
+            {options.map((option) => (
+              <div key={option.id}>
+                <h3 className="font-semibold mb-2">
+                  {option.name}
+                  {selectedOptions[option.name] && (
+                    <span className="ml-2 font-normal text-gray-500">{selectedOptions[option.name]}</span>
+                  )}
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {option.values.map((value) => (
+                    <Button
+                      key={value}
+                      variant={selectedOptions[option.name] === value ? 'default' : 'outline'}
+                      size="sm"
+                      disabled={!isAvailable(option.name, value)}
+                      onClick={() => selectOption(option.name, value)}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
             <div className="space-y-4">
               <div>
                 <h3 className="font-semibold mb-2">Product Details</h3>
@@ -211,7 +267,7 @@ export default function ProductDetails() {
                   </div>
                   <div>
                     <span className="text-gray-500">Stock:</span>
-                    <span className="ml-2 font-medium">{product.stock} units</span>
+                    <span className="ml-2 font-medium">{stock} units</span>
                   </div>
                 </div>
               </div>
@@ -222,16 +278,23 @@ export default function ProductDetails() {
                   <p className="text-gray-700 leading-relaxed">{product.description}</p>
                 </div>
               )}
+
+              {product.specs && Object.keys(product.specs).length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2">Specifications</h3>
+                  <ProductSpecsTable category={product.category} specs={product.specs} />
+                </div>
+              )}
             </div>
 
             <Button 
               onClick={handleAddToCart}
-              disabled={product.stock === 0 || addToCartMutation.isPending}
+              disabled={stock === 0 || (hasVariants && !selectedVariant) || addToCartMutation.isPending}
               className="w-full"
               size="lg"
             >
               <ShoppingCart className="w-5 h-5 mr-2" />
-              {product.stock === 0 ? 'Out of Stock' : 'Add to Cart'}
+              {stock === 0 ? 'Out of Stock' : hasVariants && !selectedVariant ? 'Choose Options' : 'Add to Cart'}
             </Button>
           </div>
         </div>
@@ -307,7 +370,7 @@ export default function ProductDetails() {
         )}
 
         {/* Product Reviews */}
-        <ProductReviews productId={productId!} />
+        <ProductReviews productId={productId!} sellerUserId={product.seller?.userId} />
       </div>
     </div>
   );
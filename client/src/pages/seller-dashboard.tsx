@@ -17,7 +17,21 @@ import { apiRequest } from "@/lib/queryClient";
 import { Package, Clock, Star, Plus, Edit, Trash2, BarChart3, Bell, CheckCircle, XCircle, AlertCircle, ShoppingCart } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { FileUpload } from "@/components/file-upload";
-import type { Product, Order, Seller } from "@shared/schema";
+import { OrderTimeline } from "@/components/order-timeline";
+import { CancelOrderDialog } from "@/components/cancel-order-dialog";
+import { AddShipmentDialog, ShipmentTracking } from "@/components/shipment-tracking";
+import { formatOrderAddress } from "@/lib/address";
+import { PromotionsManager } from "@/components/promotions-manager";
+import { SellerPayouts } from "@/components/seller-payouts";
+import { SellerTradeIns } from "@/components/seller-trade-ins";
+import { SellerRepairTickets } from "@/components/repair-tickets";
+import { SellerWarrantyClaims } from "@/components/warranty-claims";
+import { DeviceUnitLookup, DeviceUnitsDialog } from "@/components/device-units";
+import { ProductVariantsDialog } from "@/components/product-variants";
+import { ProductSpecsFields, toSpecForm } from "@/components/product-specs";
+import { ProductImportDialog } from "@/components/product-import";
+import { RestockSuggestions } from "@/components/restock-suggestions";
+import type { Product, Order, Seller, Notification, NotificationLanguage, Page } from "@shared/schema";
 import ChatWidget from "@/components/chat-widget";
 
 export default function SellerDashboard() {
@@ -29,6 +43,7 @@ export default function SellerDashboard() {
   const [productStatusFilter, setProductStatusFilter] = useState("all");
   const [orderStatusFilter, setOrderStatusFilter] = useState("all");
   const [orderCategoryFilter, setOrderCategoryFilter] = useState("all");
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
   const [isAddProductOpen, setIsAddProductOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
 
@@ -40,9 +55,14 @@ export default function SellerDashboard() {
     price: "",
     originalPrice: "",
     stock: "",
+    reorderThreshold: "5",
+    reorderQuantity: "10",
     condition: "new",
     imageUrl: "",
     sku: "",
+    warrantyMonths: "0",
+    warrantyProvider: "seller",
+    specs: {} as Record<string, string>,
   });
 
   const [productImages, setProductImages] = useState<string[]>([]);
@@ -59,6 +79,7 @@ export default function SellerDashboard() {
     emailNotifications: true,
     smsNotifications: true,
     lowStockAlerts: true,
+    preferredLanguage: "en" as NotificationLanguage,
   });
 
   // For simplified implementation, the seller is the current user
@@ -101,10 +122,11 @@ export default function SellerDashboard() {
   });
 
   // Fetch seller notifications
-  const { data: notifications = [] } = useQuery({
-    queryKey: ["/api/sellers", "notifications"],
+  const { data: notificationPage } = useQuery<Page<Notification>>({
+    queryKey: ["/api/sellers", "notifications", { limit: 50 }],
     enabled: !!seller?.id,
   });
+  const notifications = notificationPage?.items ?? [];
 
   const { data: sellerSettings } = useQuery({
     queryKey: ["/api/sellers", "settings"],
@@ -190,6 +212,31 @@ export default function SellerDashboard() {
     },
   });
 
+  const updateOrderStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      return await apiRequest("PUT", `/api/orders/${id}`, { status });
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers", "orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", id, "history"] });
+      toast({ title: "Order status updated" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update order status",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Next step a seller can move each order to
+  const nextOrderStatus: Record<string, { status: string; label: string } | undefined> = {
+    pending: { status: "processing", label: "Start Processing" },
+    processing: { status: "shipped", label: "Mark Shipped" },
+    shipped: { status: "delivered", label: "Mark Delivered" },
+  };
+
   const resetProductForm = () => {
     setProductForm({
       name: "",
@@ -199,9 +246,14 @@ export default function SellerDashboard() {
       price: "",
       originalPrice: "",
       stock: "",
+      reorderThreshold: "5",
+      reorderQuantity: "10",
       condition: "new",
       imageUrl: "",
       sku: "",
+      warrantyMonths: "0",
+      warrantyProvider: "seller",
+      specs: {},
     });
     setProductImages([]);
     setImageIdMap({});
@@ -234,7 +286,7 @@ export default function SellerDashboard() {
     },
   });
 
-  const toggleNotification = (key: keyof typeof notificationSettings) => {
+  const toggleNotification = (key: "emailNotifications" | "smsNotifications" | "lowStockAlerts") => {
     setNotificationSettings((prev) => ({ ...prev, [key]: !prev[key] }));
   };
 
@@ -248,9 +300,14 @@ export default function SellerDashboard() {
       price: product.price,
       originalPrice: product.originalPrice || "",
       stock: product.stock.toString(),
+      reorderThreshold: product.reorderThreshold.toString(),
+      reorderQuantity: product.reorderQuantity.toString(),
       condition: product.condition,
       imageUrl: product.imageUrl || "",
       sku: product.sku || "",
+      warrantyMonths: product.warrantyMonths.toString(),
+      warrantyProvider: product.warrantyProvider,
+      specs: toSpecForm(product.specs),
     });
     try {
       const images: any[] = await apiRequest("GET", `/api/products/${product.id}/images`);
@@ -435,7 +492,7 @@ export default function SellerDashboard() {
         <Card>
           <CardContent className="p-6">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-6">
+              <TabsList className="grid w-full grid-cols-11">
                 <TabsTrigger value="products">Inventory</TabsTrigger>
                 <TabsTrigger value="notifications" className="relative">
                   <Bell className="h-4 w-4 mr-1" />
@@ -448,6 +505,11 @@ export default function SellerDashboard() {
                 </TabsTrigger>
                 <TabsTrigger value="orders">Sales</TabsTrigger>
                 <TabsTrigger value="analytics">Reports</TabsTrigger>
+                <TabsTrigger value="promotions">Promotions</TabsTrigger>
+                <TabsTrigger value="payouts">Payouts</TabsTrigger>
+                <TabsTrigger value="trade-ins">Trade-ins</TabsTrigger>
+                <TabsTrigger value="repairs">Repairs</TabsTrigger>
+                <TabsTrigger value="warranty">Warranty</TabsTrigger>
                 <TabsTrigger value="pos">POS System</TabsTrigger>
                 <TabsTrigger value="settings">Settings</TabsTrigger>
               </TabsList>
@@ -467,6 +529,7 @@ export default function SellerDashboard() {
                         <SelectItem value="rejected">Rejected</SelectItem>
                       </SelectContent>
                     </Select>
+                    <ProductImportDialog />
                   </div>
                   <Dialog open={isAddProductOpen || !!editingProduct} onOpenChange={(open) => {
                     if (!open) {
@@ -522,7 +585,7 @@ export default function SellerDashboard() {
                             <Label htmlFor="category">Category</Label>
                             <Select 
                               value={productForm.category} 
-                              onValueChange={(value) => setProductForm({...productForm, category: value})}
+                              onValueChange={(value) => setProductForm({...productForm, category: value, specs: {}})}
                             >
                               <SelectTrigger>
                                 <SelectValue placeholder="Select category" />
@@ -588,6 +651,64 @@ export default function SellerDashboard() {
                           </div>
                         </div>
 
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="reorderThreshold">Low-stock alert below</Label>
+                            <Input
+                              id="reorderThreshold"
+                              type="number"
+                              min="0"
+                              value={productForm.reorderThreshold}
+                              onChange={(e) => setProductForm({...productForm, reorderThreshold: e.target.value})}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="reorderQuantity">Reorder quantity</Label>
+                            <Input
+                              id="reorderQuantity"
+                              type="number"
+                              min="1"
+                              value={productForm.reorderQuantity}
+                              onChange={(e) => setProductForm({...productForm, reorderQuantity: e.target.value})}
+                            />
+                          </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="warrantyMonths">Warranty (months)</Label>
+                            <Input
+                              id="warrantyMonths"
+                              type="number"
+                              min="0"
+                              max="120"
+                              value={productForm.warrantyMonths}
+                              onChange={(e) => setProductForm({...productForm, warrantyMonths: e.target.value})}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="warrantyProvider">Warranty provider</Label>
+                            <Select
+                              value={productForm.warrantyProvider}
+                              onValueChange={(value) => setProductForm({...productForm, warrantyProvider: value})}
+                            >
+                              <SelectTrigger id="warrantyProvider">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="seller">Seller</SelectItem>
+                                <SelectItem value="manufacturer">Manufacturer</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+
+                        <ProductSpecsFields
+                          category={productForm.category}
+                          specs={productForm.specs}
+                          onChange={(specs) => setProductForm({...productForm, specs})}
+                        />
+
                         <div className="grid grid-cols-1 gap-4">
                           <div>
                             <Label htmlFor="sku">SKU</Label>
@@ -710,6 +831,8 @@ export default function SellerDashboard() {
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
+                              <ProductVariantsDialog product={product} />
+                              <DeviceUnitsDialog product={product} />
                               <Button 
                                 variant="ghost" 
                                 size="sm"
@@ -877,18 +1000,77 @@ export default function SellerDashboard() {
                             <div className="border-t pt-4 mt-4">
                               <p className="text-sm font-medium text-slate-900 mb-1">Shipping Address:</p>
                               <p className="text-sm text-slate-600">
-                                {typeof order.shippingAddress === 'object' 
-                                  ? `${order.shippingAddress.street || ''}, ${order.shippingAddress.city || ''}, ${order.shippingAddress.country || ''}`
-                                  : order.shippingAddress
-                                }
+                                {formatOrderAddress(order.shippingAddress)}
                               </p>
                             </div>
                           )}
+
+                          <div className="border-t pt-4 mt-4 flex items-center justify-between">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                            >
+                              <Clock className="h-4 w-4 mr-2" />
+                              {expandedOrderId === order.id ? "Hide Timeline" : "View Timeline"}
+                            </Button>
+                            <div className="flex items-center gap-2">
+                              {(order.status === "processing" || order.status === "shipped") && (
+                                <AddShipmentDialog orderId={order.id} />
+                              )}
+                              {/* Sellers can cancel any order that has not been delivered */}
+                              {nextOrderStatus[order.status] && (
+                                <>
+                                  <CancelOrderDialog orderId={order.id} ordersQueryKey={["/api/sellers", "orders"]} />
+                                  <Button
+                                    size="sm"
+                                    disabled={updateOrderStatusMutation.isPending}
+                                    onClick={() => updateOrderStatusMutation.mutate({
+                                      id: order.id,
+                                      status: nextOrderStatus[order.status]!.status,
+                                    })}
+                                  >
+                                    {nextOrderStatus[order.status]!.label}
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                          {expandedOrderId === order.id && (
+                            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+                              <OrderTimeline orderId={order.id} />
+                              <ShipmentTracking orderId={order.id} canUpdate />
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
                     ))
                   )}
                 </div>
+
+                <div className="mt-6">
+                  <DeviceUnitLookup />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="promotions" className="mt-6">
+                <PromotionsManager />
+              </TabsContent>
+
+              <TabsContent value="payouts" className="mt-6">
+                <SellerPayouts />
+              </TabsContent>
+
+              <TabsContent value="trade-ins" className="mt-6">
+                <SellerTradeIns />
+              </TabsContent>
+
+              <TabsContent value="repairs" className="mt-6">
+                <SellerRepairTickets />
+              </TabsContent>
+
+              <TabsContent value="warranty" className="mt-6">
+                <SellerWarrantyClaims />
               </TabsContent>
 
               <TabsContent value="pos" className="mt-6">
@@ -1008,6 +1190,8 @@ export default function SellerDashboard() {
                       </div>
                     </CardContent>
                   </Card>
+
+                  <RestockSuggestions />
                 </div>
               </TabsContent>
 
@@ -1205,6 +1389,27 @@ export default function SellerDashboard() {
                             {t(notificationSettings.lowStockAlerts ? "enabled" : "disabled")}
                           </Button>
                         </div>
+
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <Label>{t("notification_language")}</Label>
+                            <p className="text-sm text-muted-foreground">{t("notification_language_help")}</p>
+                          </div>
+                          <Select
+                            value={notificationSettings.preferredLanguage}
+                            onValueChange={(value) =>
+                              setNotificationSettings((prev) => ({ ...prev, preferredLanguage: value as NotificationLanguage }))
+                            }
+                          >
+                            <SelectTrigger className="w-[120px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="en">English</SelectItem>
+                              <SelectItem value="ar">العربية</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                       <div className="flex justify-end pt-2">
                         <Button
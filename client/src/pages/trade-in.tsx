@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { Navigation } from "@/components/navigation";
+import { FileUpload } from "@/components/file-upload";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Smartphone, X } from "lucide-react";
+import type { StoreCreditTransaction, TradeIn, TradeInAnswers } from "@shared/schema";
+
+interface TradeInQuote {
+  condition: TradeIn["condition"] | null;
+  offers: { sellerId: string; businessName: string; condition: TradeIn["condition"]; amount: number }[];
+}
+
+const CONDITION_LABELS: Record<TradeIn["condition"], string> = {
+  new: "New",
+  like_new: "Like new",
+  good: "Good",
+  fair: "Fair",
+};
+
+const STATUS_VARIANTS: Record<TradeIn["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  submitted: "secondary",
+  accepted: "default",
+  rejected: "destructive",
+  cancelled: "outline",
+};
+
+const EMPTY_DEVICE = { brand: "", model: "", storage: "", imei: "" };
+const EMPTY_ANSWERS: TradeInAnswers = {
+  powersOn: true,
+  screen: "flawless",
+  body: "flawless",
+  allFunctionsWork: true,
+  batteryHealth: null,
+};
+
+export default function TradeInPage() {
+  const { formatCurrency } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [device, setDevice] = useState(EMPTY_DEVICE);
+  const [answers, setAnswers] = useState<TradeInAnswers>(EMPTY_ANSWERS);
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [quote, setQuote] = useState<TradeInQuote | null>(null);
+  const [sellerId, setSellerId] = useState("");
+  const [creditMethod, setCreditMethod] = useState<TradeIn["creditMethod"]>("store_credit");
+
+  const { data: tradeIns = [] } = useQuery<TradeIn[]>({ queryKey: ["/api/trade-ins"] });
+  const { data: storeCredit } = useQuery<{ balance: number; transactions: StoreCreditTransaction[] }>({
+    queryKey: ["/api/store-credit"],
+  });
+
+  const deviceDetails = () => ({
+    brand: device.brand,
+    model: device.model,
+    storage: device.storage.trim() || null,
+    answers,
+  });
+
+  // Any change to the device or its answers invalidates the quote
+  const updateDevice = (updates: Partial<typeof EMPTY_DEVICE>) => {
+    setDevice({ ...device, ...updates });
+    setQuote(null);
+  };
+  const updateAnswers = (updates: Partial<TradeInAnswers>) => {
+    setAnswers({ ...answers, ...updates });
+    setQuote(null);
+  };
+
+  const quoteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/trade-ins/quote", deviceDetails());
+      return (await response.json()) as TradeInQuote;
+    },
+    onSuccess: (result) => {
+      setQuote(result);
+      setSellerId(result.offers[0]?.sellerId ?? "");
+    },
+    onError: (error) => {
+      toast({ title: "Could not get a quote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/trade-ins", {
+        ...deviceDetails(),
+        sellerId,
+        imei: device.imei.trim() || null,
+        photos,
+        creditMethod,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trade-ins"] });
+      toast({ title: "Trade-in submitted", description: "The seller will inspect your device and confirm the offer." });
+      setDevice(EMPTY_DEVICE);
+      setAnswers(EMPTY_ANSWERS);
+      setPhotos([]);
+      setQuote(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to submit trade-in", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/trade-ins/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trade-ins"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to cancel trade-in", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-slate-900">Trade In Your Device</h1>
+          <div className="text-right">
+            <p className="text-sm text-slate-500">Store credit</p>
+            <p className="text-2xl font-bold">{formatCurrency(storeCredit?.balance ?? 0)}</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Device</CardTitle>
+            <CardDescription>Tell us about the phone to get offers from our sellers</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="trade-in-brand">Brand</Label>
+                <Input id="trade-in-brand" placeholder="Apple" value={device.brand} onChange={(e) => updateDevice({ brand: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="trade-in-model">Model</Label>
+                <Input id="trade-in-model" placeholder="iPhone 13" value={device.model} onChange={(e) => updateDevice({ model: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="trade-in-storage">Storage</Label>
+                <Input id="trade-in-storage" placeholder="128GB" value={device.storage} onChange={(e) => updateDevice({ storage: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="trade-in-imei">IMEI (optional)</Label>
+                <Input id="trade-in-imei" value={device.imei} onChange={(e) => setDevice({ ...device, imei: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label>Screen</Label>
+                <Select value={answers.screen} onValueChange={(screen) => updateAnswers({ screen: screen as TradeInAnswers["screen"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flawless">No scratches</SelectItem>
+                    <SelectItem value="scratched">Light scratches</SelectItem>
+                    <SelectItem value="cracked">Cracked</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Body</Label>
+                <Select value={answers.body} onValueChange={(body) => updateAnswers({ body: body as TradeInAnswers["body"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flawless">No marks</SelectItem>
+                    <SelectItem value="scratched">Light scratches</SelectItem>
+                    <SelectItem value="dented">Dents or cracks</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="trade-in-battery">Battery health % (optional)</Label>
+                <Input
+                  id="trade-in-battery"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={answers.batteryHealth ?? ""}
+                  onChange={(e) => updateAnswers({ batteryHealth: e.target.value ? parseInt(e.target.value) : null })}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="trade-in-powers-on"
+                  checked={answers.powersOn}
+                  onCheckedChange={(checked) => updateAnswers({ powersOn: checked === true })}
+                />
+                <Label htmlFor="trade-in-powers-on">The phone turns on</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="trade-in-functions"
+                  checked={answers.allFunctionsWork}
+                  onCheckedChange={(checked) => updateAnswers({ allFunctionsWork: checked === true })}
+                />
+                <Label htmlFor="trade-in-functions">Buttons, cameras, speakers and Face ID / fingerprint all work</Label>
+              </div>
+            </div>
+
+            <Button
+              disabled={!device.brand.trim() || !device.model.trim() || quoteMutation.isPending}
+              onClick={() => quoteMutation.mutate()}
+            >
+              <Smartphone className="h-4 w-4 mr-2" />
+              Get Offers
+            </Button>
+          </CardContent>
+        </Card>
+
+        {quote && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Offers</CardTitle>
+              {quote.condition && <CardDescription>Graded as {CONDITION_LABELS[quote.condition]}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {!quote.condition ? (
+                <p className="text-sm text-slate-500">We can only take phones that turn on.</p>
+              ) : quote.offers.length === 0 ? (
+                <p className="text-sm text-slate-500">No seller buys this device in its condition yet.</p>
+              ) : (
+                <>
+                  <RadioGroup value={sellerId} onValueChange={setSellerId}>
+                    {quote.offers.map((offer) => (
+                      <div key={offer.sellerId} className="flex items-center justify-between border rounded-lg p-3">
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value={offer.sellerId} id={`offer-${offer.sellerId}`} />
+                          <Label htmlFor={`offer-${offer.sellerId}`}>{offer.businessName}</Label>
+                        </div>
+                        <span className="font-semibold">{formatCurrency(offer.amount)}</span>
+                      </div>
+                    ))}
+                  </RadioGroup>
+
+                  <div className="space-y-2">
+                    <Label>Receive the credit as</Label>
+                    <RadioGroup
+                      value={creditMethod}
+                      onValueChange={(method) => setCreditMethod(method as TradeIn["creditMethod"])}
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="store_credit" id="credit-store" />
+                        <Label htmlFor="credit-store">Store credit, usable at checkout</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="order_discount" id="credit-discount" />
+                        <Label htmlFor="credit-discount">A discount code for a new order from this seller</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Photos of the device</Label>
+                    <FileUpload
+                      accept="image/*"
+                      maxFiles={8}
+                      label="Upload photos"
+                      currentFiles={photos}
+                      onFilesUploaded={(urls) => setPhotos([...photos, ...urls].slice(0, 8))}
+                      onFileRemoved={(url) => setPhotos(photos.filter((photo) => photo !== url))}
+                    />
+                  </div>
+
+                  <Button
+                    disabled={!sellerId || photos.length === 0 || submitMutation.isPending}
+                    onClick={() => submitMutation.mutate()}
+                  >
+                    Submit Trade-in
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>My Trade-ins</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tradeIns.length === 0 ? (
+              <p className="text-sm text-slate-500">No trade-ins yet</p>
+            ) : (
+              <div className="space-y-3">
+                {tradeIns.map((tradeIn) => (
+                  <div key={tradeIn.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {[tradeIn.brand, tradeIn.model, tradeIn.storage].filter(Boolean).join(" ")}
+                      </p>
+                      <p className="text-slate-500">
+                        {CONDITION_LABELS[tradeIn.condition]} ·{" "}
+                        {formatCurrency(tradeIn.offeredAmount ?? tradeIn.quotedAmount)}
+                        {tradeIn.inspectionNote && ` · ${tradeIn.inspectionNote}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={STATUS_VARIANTS[tradeIn.status]}>{tradeIn.status}</Badge>
+                      {tradeIn.status === "submitted" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Cancel trade-in"
+                          disabled={cancelMutation.isPending}
+                          onClick={() => cancelMutation.mutate(tradeIn.id)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {!!storeCredit?.transactions.length && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Store Credit History</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {storeCredit.transactions.map((tx) => (
+                <div key={tx.id} className="flex justify-between text-sm">
+                  <span>{tx.description || tx.type}</span>
+                  <span className={parseFloat(tx.amount) > 0 ? "text-green-600" : "text-red-600"}>
+                    {formatCurrency(tx.amount)}
+                  </span>
+                  <span className="text-slate-500">
+                    {tx.createdAt ? new Date(tx.createdAt).toLocaleDateString() : ""}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useLocation } from "wouter";
+import { Navigation } from "@/components/navigation";
+import { ProductCard } from "@/components/product-card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Heart } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useWishlist } from "@/hooks/useWishlist";
+
+export default function Wishlist() {
+  const [, setLocation] = useLocation();
+  const { formatCurrency } = useLanguage();
+  const { items, isLoading } = useWishlist();
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-8">My Wishlist</h1>
+
+        {isLoading ? (
+          <p className="text-slate-600">Loading wishlist...</p>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <Heart className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+            <p className="text-slate-600 mb-4">Your wishlist is empty</p>
+            <Button onClick={() => setLocation("/marketplace")}>Browse Products</Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {items.map((item) => (
+              <div key={item.id} className="space-y-2">
+                <ProductCard product={item.product} onClick={() => setLocation(`/product/${item.product.id}`)} />
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-500">Saved at {formatCurrency(item.savedPrice)}</span>
+                  {parseFloat(item.product.price) < parseFloat(item.savedPrice) && (
+                    <Badge className="bg-green-600">Price dropped</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
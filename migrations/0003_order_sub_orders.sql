@@ -0,0 +1,6 @@
+-- 0003_order_sub_orders.sql
+-- Multi-vendor checkouts create a parent order plus one sub-order per seller.
+ALTER TABLE orders
+  ADD COLUMN parent_order_id VARCHAR REFERENCES orders(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_orders_parent_order_id ON orders(parent_order_id);
@@ -0,0 +1,23 @@
+-- 0004_return_requests.sql
+-- Customer return requests (RMA) against delivered seller orders.
+CREATE TYPE return_status AS ENUM ('requested', 'inspecting', 'approved', 'rejected');
+
+CREATE TABLE return_requests (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_id VARCHAR NOT NULL REFERENCES users(id),
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id),
+  items JSONB NOT NULL,
+  reason TEXT NOT NULL,
+  status return_status NOT NULL DEFAULT 'requested',
+  refund_amount DECIMAL(10, 2) NOT NULL,
+  resolution_note TEXT,
+  payment_id VARCHAR REFERENCES payments(id),
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_return_requests_order_id ON return_requests(order_id);
+CREATE INDEX idx_return_requests_customer_id ON return_requests(customer_id);
+CREATE INDEX idx_return_requests_seller_id ON return_requests(seller_id);
@@ -0,0 +1,14 @@
+-- 0005_order_status_history.sql
+-- Timeline of order status changes: who moved an order, from what, to what.
+CREATE TABLE order_status_history (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  changed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_role VARCHAR NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_status_history_order_id ON order_status_history(order_id);
@@ -0,0 +1,4 @@
+-- 0006_order_cancellation_reason.sql
+-- Reason given by the customer, seller or admin who cancelled an order.
+ALTER TABLE orders
+  ADD COLUMN cancellation_reason TEXT;
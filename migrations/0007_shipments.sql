@@ -0,0 +1,30 @@
+-- 0007_shipments.sql
+-- Shipments for seller orders and the carrier tracking events behind them.
+CREATE TYPE shipment_status AS ENUM ('label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered');
+
+CREATE TABLE shipments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id),
+  carrier VARCHAR NOT NULL,
+  tracking_number VARCHAR NOT NULL,
+  status shipment_status NOT NULL DEFAULT 'label_created',
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_shipments_order_id ON shipments(order_id);
+CREATE INDEX idx_shipments_status ON shipments(status);
+
+CREATE TABLE shipment_events (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id VARCHAR NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  status shipment_status NOT NULL,
+  description TEXT,
+  location VARCHAR,
+  occurred_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_shipment_events_shipment_id ON shipment_events(shipment_id);
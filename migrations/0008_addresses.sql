@@ -0,0 +1,24 @@
+-- 0008_addresses.sql
+-- Saved Kuwait delivery addresses per user, with at most one default each.
+CREATE TABLE addresses (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  label VARCHAR,
+  full_name VARCHAR NOT NULL,
+  phone VARCHAR NOT NULL,
+  governorate VARCHAR NOT NULL,
+  area VARCHAR NOT NULL,
+  block VARCHAR NOT NULL,
+  street VARCHAR NOT NULL,
+  avenue VARCHAR,
+  building VARCHAR NOT NULL,
+  floor VARCHAR,
+  apartment VARCHAR,
+  paci_number VARCHAR,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_addresses_user_id ON addresses(user_id);
+CREATE UNIQUE INDEX idx_addresses_user_default ON addresses(user_id) WHERE is_default;
@@ -0,0 +1,17 @@
+-- 0009_wishlists.sql
+-- Server-side wishlists and customer-addressed notifications for their alerts.
+CREATE TABLE wishlists (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  saved_price DECIMAL(10, 2) NOT NULL,
+  last_alerted_price DECIMAL(10, 2),
+  last_known_stock INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, product_id)
+);
+
+CREATE INDEX idx_wishlists_product_id ON wishlists(product_id);
+
+ALTER TABLE notifications ADD COLUMN user_id VARCHAR REFERENCES users(id) ON DELETE CASCADE;
+CREATE INDEX idx_notifications_user_id ON notifications(user_id);
@@ -0,0 +1,39 @@
+-- 0010_promotions.sql
+-- Promotion codes set up by admins and sellers, and the orders that used them.
+CREATE TYPE discount_type AS ENUM ('percentage', 'fixed');
+CREATE TYPE promotion_scope AS ENUM ('all', 'category', 'brand', 'product');
+
+CREATE TABLE promotions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR NOT NULL UNIQUE,
+  description TEXT,
+  seller_id VARCHAR REFERENCES sellers(id),
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  discount_type discount_type NOT NULL,
+  value DECIMAL(10, 2) NOT NULL,
+  min_basket DECIMAL(10, 2),
+  scope promotion_scope NOT NULL DEFAULT 'all',
+  scope_values JSONB NOT NULL DEFAULT '[]',
+  usage_limit INTEGER,
+  per_user_limit INTEGER,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  stackable_with_loyalty BOOLEAN NOT NULL DEFAULT TRUE,
+  starts_at TIMESTAMP,
+  ends_at TIMESTAMP,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_promotions_seller_id ON promotions(seller_id);
+
+CREATE TABLE promotion_redemptions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id VARCHAR NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  discount DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_promotion_redemptions_promotion_user ON promotion_redemptions(promotion_id, user_id);
@@ -0,0 +1,15 @@
+-- 0011_tax_rates.sql
+-- Dated tax rates per product category, and the tax charged on each order.
+CREATE TABLE tax_rates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  category VARCHAR,
+  rate DECIMAL(5, 2) NOT NULL,
+  prices_include_tax BOOLEAN NOT NULL DEFAULT FALSE,
+  effective_from TIMESTAMP NOT NULL,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_tax_rates_category_effective ON tax_rates(category, effective_from);
+
+ALTER TABLE orders ADD COLUMN tax_total DECIMAL(10, 2) NOT NULL DEFAULT 0;
@@ -0,0 +1,63 @@
+-- 0012_commissions_and_payouts.sql
+-- Commission rates, the seller ledger and payout batches.
+CREATE TYPE ledger_account AS ENUM ('clearing', 'seller_payable', 'commission_revenue', 'adjustments', 'payouts_in_transit');
+CREATE TYPE ledger_entry_type AS ENUM ('sale', 'commission', 'refund', 'adjustment', 'payout');
+CREATE TYPE payout_batch_status AS ENUM ('pending', 'paid');
+
+ALTER TABLE sellers ADD COLUMN payout_iban VARCHAR;
+ALTER TABLE sellers ADD COLUMN payout_account_name VARCHAR;
+
+CREATE TABLE commission_rates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id VARCHAR REFERENCES sellers(id) ON DELETE CASCADE,
+  category VARCHAR,
+  rate DECIMAL(5, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One rate per seller/category combination, NULLs included
+CREATE UNIQUE INDEX idx_commission_rates_scope ON commission_rates(COALESCE(seller_id, ''), COALESCE(LOWER(category), ''));
+
+-- Platform-wide default until an admin changes it
+INSERT INTO commission_rates (rate) VALUES (10.00);
+
+CREATE TABLE payout_batches (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  status payout_batch_status NOT NULL DEFAULT 'pending',
+  total DECIMAL(10, 2) NOT NULL,
+  reference VARCHAR,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE payouts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id VARCHAR NOT NULL REFERENCES payout_batches(id) ON DELETE CASCADE,
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id),
+  amount DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_payouts_batch_id ON payouts(batch_id);
+CREATE INDEX idx_payouts_seller_id ON payouts(seller_id);
+
+CREATE TABLE ledger_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id VARCHAR NOT NULL,
+  type ledger_entry_type NOT NULL,
+  account ledger_account NOT NULL,
+  seller_id VARCHAR REFERENCES sellers(id),
+  order_id VARCHAR REFERENCES orders(id) ON DELETE SET NULL,
+  payout_id VARCHAR REFERENCES payouts(id) ON DELETE SET NULL,
+  debit DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  credit DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  description TEXT,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX idx_ledger_entries_seller_account ON ledger_entries(seller_id, account);
+CREATE INDEX idx_ledger_entries_order_id ON ledger_entries(order_id);
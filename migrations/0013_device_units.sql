@@ -0,0 +1,25 @@
+-- 0013_device_units.sql
+-- Serialized inventory: one row per handset, identified by IMEI and serial number.
+CREATE TYPE device_unit_status AS ENUM ('in_stock', 'sold');
+
+CREATE TABLE device_units (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  imei1 VARCHAR(15) NOT NULL UNIQUE,
+  imei2 VARCHAR(15) UNIQUE,
+  serial_number VARCHAR,
+  color VARCHAR,
+  storage VARCHAR,
+  status device_unit_status NOT NULL DEFAULT 'in_stock',
+  order_id VARCHAR REFERENCES orders(id) ON DELETE SET NULL,
+  sold_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_device_units_product_status ON device_units(product_id, status, created_at);
+CREATE INDEX idx_device_units_order ON device_units(order_id);
+CREATE INDEX idx_device_units_serial ON device_units(UPPER(serial_number));
+
+-- Finds the orders that sold a unit, through the units recorded on their items
+CREATE INDEX idx_orders_items ON orders USING GIN (items jsonb_path_ops);
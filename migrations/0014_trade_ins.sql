@@ -0,0 +1,63 @@
+-- 0014_trade_ins.sql
+-- Device trade-ins priced from seller grids, and the store credit they can pay out.
+CREATE TYPE trade_in_status AS ENUM ('submitted', 'accepted', 'rejected', 'cancelled');
+CREATE TYPE trade_in_credit_method AS ENUM ('store_credit', 'order_discount');
+ALTER TYPE payment_method ADD VALUE 'store_credit';
+
+ALTER TABLE users ADD COLUMN store_credit DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE trade_in_prices (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  brand VARCHAR NOT NULL,
+  model VARCHAR NOT NULL,
+  storage VARCHAR,
+  condition product_condition NOT NULL,
+  price DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One price per seller, model, storage and condition, NULL storage included
+CREATE UNIQUE INDEX idx_trade_in_prices_scope
+  ON trade_in_prices(seller_id, LOWER(brand), LOWER(model), COALESCE(LOWER(storage), ''), condition);
+
+CREATE TABLE trade_ins (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id),
+  brand VARCHAR NOT NULL,
+  model VARCHAR NOT NULL,
+  storage VARCHAR,
+  imei VARCHAR(15),
+  answers JSONB NOT NULL,
+  condition product_condition NOT NULL,
+  photos JSONB NOT NULL DEFAULT '[]',
+  quoted_amount DECIMAL(10, 2) NOT NULL,
+  offered_amount DECIMAL(10, 2),
+  credit_method trade_in_credit_method NOT NULL,
+  status trade_in_status NOT NULL DEFAULT 'submitted',
+  inspection_note TEXT,
+  inspected_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  inspected_at TIMESTAMP,
+  promotion_id VARCHAR REFERENCES promotions(id) ON DELETE SET NULL,
+  product_id VARCHAR REFERENCES products(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_trade_ins_customer ON trade_ins(customer_id, created_at);
+CREATE INDEX idx_trade_ins_seller_status ON trade_ins(seller_id, status);
+
+CREATE TABLE store_credit_transactions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL,
+  type VARCHAR NOT NULL,
+  description TEXT,
+  trade_in_id VARCHAR REFERENCES trade_ins(id) ON DELETE SET NULL,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_store_credit_transactions_user ON store_credit_transactions(user_id, created_at);
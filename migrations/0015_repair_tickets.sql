@@ -0,0 +1,53 @@
+-- 0015_repair_tickets.sql
+-- Repair counter tickets, the parts they use and their status history.
+CREATE TYPE repair_status AS ENUM (
+  'received', 'diagnosed', 'approved', 'declined', 'in_repair', 'ready', 'collected', 'cancelled'
+);
+
+CREATE TABLE repair_tickets (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  customer_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  customer_name VARCHAR NOT NULL,
+  customer_phone VARCHAR NOT NULL,
+  brand VARCHAR NOT NULL,
+  model VARCHAR NOT NULL,
+  imei VARCHAR(15),
+  fault_description TEXT NOT NULL,
+  diagnosis TEXT,
+  quoted_amount DECIMAL(10, 2),
+  status repair_status NOT NULL DEFAULT 'received',
+  order_id VARCHAR REFERENCES orders(id) ON DELETE SET NULL,
+  received_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  collected_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_repair_tickets_seller_status ON repair_tickets(seller_id, status, created_at);
+CREATE INDEX idx_repair_tickets_customer ON repair_tickets(customer_id, created_at);
+CREATE INDEX idx_repair_tickets_imei ON repair_tickets(imei);
+
+CREATE TABLE repair_parts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id VARCHAR NOT NULL REFERENCES repair_tickets(id) ON DELETE CASCADE,
+  product_id VARCHAR NOT NULL REFERENCES products(id),
+  name VARCHAR NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_repair_parts_ticket ON repair_parts(ticket_id);
+
+CREATE TABLE repair_ticket_history (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id VARCHAR NOT NULL REFERENCES repair_tickets(id) ON DELETE CASCADE,
+  from_status repair_status,
+  to_status repair_status NOT NULL,
+  changed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_repair_ticket_history_ticket ON repair_ticket_history(ticket_id, created_at);
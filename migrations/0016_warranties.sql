@@ -0,0 +1,56 @@
+-- 0016_warranties.sql
+-- Product warranty terms, the warranties registered for items sold, and claims against them.
+CREATE TYPE warranty_provider AS ENUM ('seller', 'manufacturer');
+CREATE TYPE warranty_claim_status AS ENUM ('submitted', 'resolved', 'rejected');
+CREATE TYPE warranty_claim_outcome AS ENUM ('repair', 'replace', 'refund');
+
+ALTER TABLE products ADD COLUMN warranty_months INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE products ADD COLUMN warranty_provider warranty_provider NOT NULL DEFAULT 'seller';
+
+CREATE TABLE warranties (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id VARCHAR NOT NULL REFERENCES products(id),
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id),
+  customer_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  product_name VARCHAR NOT NULL,
+  unit_id VARCHAR REFERENCES device_units(id) ON DELETE SET NULL,
+  imei VARCHAR(15),
+  provider warranty_provider NOT NULL,
+  months INTEGER NOT NULL,
+  starts_at TIMESTAMP NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  voided_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_warranties_order ON warranties(order_id);
+CREATE INDEX idx_warranties_customer ON warranties(customer_id, expires_at);
+CREATE INDEX idx_warranties_seller_imei ON warranties(seller_id, imei);
+
+CREATE TABLE warranty_claims (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  warranty_id VARCHAR NOT NULL REFERENCES warranties(id) ON DELETE CASCADE,
+  order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id),
+  customer_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  photos JSONB NOT NULL DEFAULT '[]',
+  status warranty_claim_status NOT NULL DEFAULT 'submitted',
+  outcome warranty_claim_outcome,
+  resolution_note TEXT,
+  repair_ticket_id VARCHAR REFERENCES repair_tickets(id) ON DELETE SET NULL,
+  replacement_order_id VARCHAR REFERENCES orders(id) ON DELETE SET NULL,
+  refund_amount DECIMAL(10, 2),
+  payment_id VARCHAR REFERENCES payments(id),
+  filed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  resolved_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- At most one open claim per warranty
+CREATE UNIQUE INDEX idx_warranty_claims_open ON warranty_claims(warranty_id) WHERE status = 'submitted';
+CREATE INDEX idx_warranty_claims_seller_status ON warranty_claims(seller_id, status);
+CREATE INDEX idx_warranty_claims_customer ON warranty_claims(customer_id, created_at);
@@ -0,0 +1,35 @@
+-- 0017_product_variants.sql
+-- Variants of a single listing (color, storage, model), each with its own SKU, price and stock.
+CREATE TABLE product_options (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name VARCHAR NOT NULL,
+  values JSONB NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_product_options_product ON product_options(product_id, position);
+
+CREATE TABLE product_variants (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  options JSONB NOT NULL,
+  sku VARCHAR UNIQUE,
+  price DECIMAL(10, 2) NOT NULL,
+  stock INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- A combination of option values is sold once per listing
+CREATE UNIQUE INDEX idx_product_variants_options ON product_variants(product_id, options);
+
+ALTER TABLE product_images ADD COLUMN variant_id VARCHAR REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE device_units ADD COLUMN variant_id VARCHAR REFERENCES product_variants(id);
+ALTER TABLE cart ADD COLUMN variant_id VARCHAR REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE inventory_logs ADD COLUMN variant_id VARCHAR REFERENCES product_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_product_images_variant ON product_images(variant_id);
+CREATE INDEX idx_device_units_variant_status ON device_units(variant_id, status, created_at);
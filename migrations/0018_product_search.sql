@@ -0,0 +1,36 @@
+-- 0018_product_search.sql
+-- Full-text product search: ranked matches in English and Arabic, typo suggestions and autocomplete.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Fold the spellings Arabic shoppers type interchangeably: diacritics and
+-- tatweel dropped, alef forms to bare alef, alef maqsura to yaa, taa marbuta to haa.
+CREATE OR REPLACE FUNCTION normalize_arabic(input TEXT) RETURNS TEXT
+LANGUAGE SQL IMMUTABLE PARALLEL SAFE AS $$
+  SELECT lower(translate(regexp_replace(coalesce(input, ''), '[\u064B-\u0652\u0640]', '', 'g'), 'أإآٱىة', 'اااايه'))
+$$;
+
+-- English stems for English listings, plain normalized words for Arabic and model names
+CREATE OR REPLACE FUNCTION product_search_vector(name TEXT, brand TEXT, description TEXT) RETURNS TSVECTOR
+LANGUAGE SQL IMMUTABLE PARALLEL SAFE AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A')
+      || setweight(to_tsvector('simple'::regconfig, normalize_arabic(name)), 'A')
+      || setweight(to_tsvector('simple'::regconfig, normalize_arabic(brand)), 'B')
+      || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'C')
+      || setweight(to_tsvector('simple'::regconfig, normalize_arabic(description)), 'D')
+$$;
+
+CREATE INDEX idx_products_search ON products USING GIN (product_search_vector(name, brand, description));
+CREATE INDEX idx_products_name_trgm ON products USING GIN (normalize_arabic(name) gin_trgm_ops);
+
+-- The words of live listings, for "did you mean" suggestions. Refreshed by the server.
+CREATE MATERIALIZED VIEW product_search_terms AS
+  SELECT word, ndoc
+  FROM ts_stat($$
+    SELECT to_tsvector('simple'::regconfig, normalize_arabic(name) || ' ' || normalize_arabic(brand))
+    FROM products
+    WHERE is_active AND status = 'approved'
+  $$)
+  WHERE length(word) > 2;
+
+CREATE UNIQUE INDEX idx_product_search_terms_word ON product_search_terms(word);
+CREATE INDEX idx_product_search_terms_trgm ON product_search_terms USING GIN (word gin_trgm_ops);
@@ -0,0 +1,6 @@
+-- 0019_product_specs.sql
+-- Structured specifications per category (see productSpecFields), for comparing and filtering listings.
+ALTER TABLE products ADD COLUMN specs JSONB NOT NULL DEFAULT '{}';
+
+-- Serves the marketplace's spec filters (@> for yes/no specs, @? for "at least")
+CREATE INDEX idx_products_specs ON products USING GIN (specs jsonb_path_ops);
@@ -0,0 +1,22 @@
+-- 0020_product_imports.sql
+-- Bulk product import from a seller's CSV or XLSX file, tracked while it runs in the background.
+CREATE TYPE product_import_status AS ENUM ('pending', 'running', 'completed', 'failed');
+
+CREATE TABLE product_imports (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id VARCHAR NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  file_name VARCHAR NOT NULL,
+  format VARCHAR NOT NULL,
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  status product_import_status NOT NULL DEFAULT 'pending',
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+  failure_reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_product_imports_seller ON product_imports(seller_id, created_at DESC);
@@ -0,0 +1,33 @@
+-- 0021_jobs.sql
+-- Background job queue with retries, scheduled runs and a dead-letter table.
+CREATE TYPE job_status AS ENUM ('queued', 'running', 'completed', 'failed');
+
+CREATE TABLE jobs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status job_status NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  last_error TEXT,
+  dedupe_key VARCHAR UNIQUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+-- The worker claims the oldest due job; stalled running jobs are reclaimed
+CREATE INDEX idx_jobs_due ON jobs(run_at) WHERE status = 'queued';
+CREATE INDEX idx_jobs_running ON jobs(locked_at) WHERE status = 'running';
+CREATE INDEX idx_jobs_status_created ON jobs(status, created_at DESC);
+
+CREATE TABLE dead_letter_jobs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id VARCHAR NOT NULL,
+  name VARCHAR NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  error TEXT NOT NULL,
+  failed_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,6 @@
+-- 0022_notification_preferences.sql
+-- Per-user channels and language for email and SMS delivery of notifications.
+ALTER TABLE users ADD COLUMN phone_number VARCHAR;
+ALTER TABLE users ADD COLUMN preferred_language VARCHAR NOT NULL DEFAULT 'en';
+ALTER TABLE users ADD COLUMN email_notifications BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE users ADD COLUMN sms_notifications BOOLEAN NOT NULL DEFAULT FALSE;
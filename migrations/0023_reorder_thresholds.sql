@@ -0,0 +1,5 @@
+-- 0023_reorder_thresholds.sql
+-- Per-product low-stock threshold and reorder quantity, and an index for the sales history the restock report reads.
+ALTER TABLE products ADD COLUMN reorder_threshold INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE products ADD COLUMN reorder_quantity INTEGER NOT NULL DEFAULT 10;
+CREATE INDEX idx_inventory_logs_product_created ON inventory_logs(product_id, created_at);
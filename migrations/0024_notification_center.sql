@@ -0,0 +1,7 @@
+-- 0024_notification_center.sql
+-- Seller replies to reviews, and indexes for each user's and seller's notification list.
+ALTER TABLE reviews ADD COLUMN seller_reply TEXT;
+ALTER TABLE reviews ADD COLUMN seller_replied_at TIMESTAMP;
+CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_seller_created ON notifications(seller_id, created_at DESC);
+DROP INDEX IF EXISTS idx_notifications_user_id;
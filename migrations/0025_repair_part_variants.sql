@@ -0,0 +1,3 @@
+-- 0025_repair_part_variants.sql
+-- The variant a repair part was taken from, so it goes back to the same stock.
+ALTER TABLE repair_parts ADD COLUMN variant_id VARCHAR REFERENCES product_variants(id);
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { orders, payments } = vi.hoisted(() => ({
+  orders: new Map<string, any>(),
+  payments: new Map<string, any>(),
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getOrder: vi.fn(async (id: string) => orders.get(id)),
+    getSubOrders: vi.fn(async (id: string) => Array.from(orders.values()).filter((o) => o.parentOrderId === id)),
+    updateOrder: vi.fn(async (id: string, updates: any) => {
+      const order = { ...orders.get(id), ...updates };
+      orders.set(id, order);
+      return order;
+    }),
+    updateOrderStatus: vi.fn(async (id: string, fromStatus: string, toStatus: string) => {
+      if (orders.get(id)?.status !== fromStatus) return undefined;
+      const order = { ...orders.get(id), status: toStatus };
+      orders.set(id, order);
+      return order;
+    }),
+    getPaymentsByOrderId: vi.fn(async (orderId: string) =>
+      Array.from(payments.values()).filter((p) => p.orderId === orderId)),
+    updatePayment: vi.fn(async (id: string, updates: any) => {
+      const payment = { ...payments.get(id), ...updates };
+      payments.set(id, payment);
+      return payment;
+    }),
+    releaseCancelledOrders: vi.fn(async () => {}),
+    debitLoyaltyPoints: vi.fn(async (_userId: string, points: number) => points),
+  },
+}));
+
+vi.mock('../ledger', () => ({ recordRefund: vi.fn(async () => {}) }));
+
+import { storage } from '../storage';
+import { recordRefund } from '../ledger';
+import { cancelOrder } from '../cancellation';
+import { OrderTransitionError } from '../errors';
+
+const customer = { userId: 'c1', role: 'customer' as const };
+const phone = { productId: 'p1', name: 'Phone', quantity: 2, price: 100, total: 200, sellerId: 's1' };
+const case_ = { productId: 'p2', name: 'Case', quantity: 1, price: 10, total: 10, sellerId: 's2' };
+
+describe('order cancellation', () => {
+  beforeEach(() => {
+    orders.clear();
+    payments.clear();
+    vi.clearAllMocks();
+  });
+
+  it('restocks, refunds and claws back points for a paid order', async () => {
+    orders.set('o1', { id: 'o1', customerId: 'c1', sellerId: 's1', parentOrderId: null, status: 'processing', total: '200', items: [phone] });
+    payments.set('pay1', {
+      id: 'pay1', orderId: 'o1', amount: '200', status: 'completed', transactionId: 'SBX_CAP_pay1',
+      metadata: { provider: 'sandbox' },
+    });
+
+    const cancelled = await cancelOrder(orders.get('o1'), customer, 'Ordered by mistake');
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.cancellationReason).toBe('Ordered by mistake');
+    expect(storage.releaseCancelledOrders).toHaveBeenCalledWith([expect.objectContaining({ id: 'o1' })], 'Ordered by mistake', 'o1');
+    expect(payments.get('pay1').status).toBe('refunded');
+    expect(storage.debitLoyaltyPoints).toHaveBeenCalledWith('c1', 200, expect.any(String));
+    expect(recordRefund).toHaveBeenCalledWith(expect.objectContaining({ id: 'o1' }), 200, expect.any(String));
+  });
+
+  it('voids the pending payment when a whole multi-vendor checkout is cancelled', async () => {
+    orders.set('o1', { id: 'o1', customerId: 'c1', sellerId: null, parentOrderId: null, status: 'pending', total: '210', items: [phone, case_] });
+    orders.set('o1-s1', { id: 'o1-s1', customerId: 'c1', sellerId: 's1', parentOrderId: 'o1', status: 'pending', total: '200', items: [phone] });
+    orders.set('o1-s2', { id: 'o1-s2', customerId: 'c1', sellerId: 's2', parentOrderId: 'o1', status: 'pending', total: '10', items: [case_] });
+    payments.set('pay1', { id: 'pay1', orderId: 'o1', amount: '210', status: 'pending', metadata: {} });
+
+    await cancelOrder(orders.get('o1'), customer, 'Found it cheaper');
+
+    expect(orders.get('o1-s1').status).toBe('cancelled');
+    expect(orders.get('o1-s2').status).toBe('cancelled');
+    expect(storage.releaseCancelledOrders).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'o1-s1' }), expect.objectContaining({ id: 'o1-s2' })],
+      'Found it cheaper',
+      'o1',
+    );
+    expect(payments.get('pay1')).toMatchObject({ status: 'failed', metadata: { voided: true } });
+    expect(recordRefund).not.toHaveBeenCalled();
+    expect(storage.debitLoyaltyPoints).not.toHaveBeenCalled();
+  });
+
+  it('does not let customers cancel once an order has shipped', async () => {
+    orders.set('o1', { id: 'o1', customerId: 'c1', sellerId: 's1', parentOrderId: null, status: 'shipped', total: '200', items: [phone] });
+
+    await expect(cancelOrder(orders.get('o1'), customer, 'Too slow')).rejects.toBeInstanceOf(OrderTransitionError);
+    expect(storage.releaseCancelledOrders).not.toHaveBeenCalled();
+  });
+
+  it('keeps the promotion code used while part of a multi-vendor checkout goes ahead', async () => {
+    orders.set('o1', { id: 'o1', customerId: 'c1', sellerId: null, parentOrderId: null, status: 'processing', total: '210', items: [phone, case_] });
+    orders.set('o1-s1', { id: 'o1-s1', customerId: 'c1', sellerId: 's1', parentOrderId: 'o1', status: 'processing', total: '200', items: [phone] });
+    orders.set('o1-s2', { id: 'o1-s2', customerId: 'c1', sellerId: 's2', parentOrderId: 'o1', status: 'processing', total: '10', items: [case_] });
+
+    await cancelOrder(orders.get('o1-s2'), customer, 'Changed my mind');
+    expect(storage.releaseCancelledOrders).toHaveBeenLastCalledWith([expect.objectContaining({ id: 'o1-s2' })], 'Changed my mind', undefined);
+
+    await cancelOrder(orders.get('o1-s1'), customer, 'Changed my mind');
+    expect(orders.get('o1').status).toBe('cancelled');
+    expect(storage.releaseCancelledOrders).toHaveBeenLastCalledWith([expect.objectContaining({ id: 'o1-s1' })], 'Changed my mind', 'o1');
+  });
+});
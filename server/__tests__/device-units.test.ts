@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { units, orders, returns, payments } = vi.hoisted(() => ({
+  units: [] as any[],
+  orders: [] as any[],
+  returns: [] as any[],
+  payments: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    findDeviceUnit: vi.fn(async (identifier: string) =>
+      units.find((u) => u.imei1 === identifier || u.imei2 === identifier || u.serialNumber === identifier)),
+    addDeviceUnits: vi.fn(async (productId: string, added: any[]) => added.map((u, i) => ({ id: `new${i}`, productId, ...u }))),
+    getProduct: vi.fn(async (id: string) => ({ id, name: 'Phone', sellerId: 's1' })),
+    getProductVariants: vi.fn(async () => []),
+    getDeviceUnitOrders: vi.fn(async (unitId: string) =>
+      orders.filter((o) => o.items.some((item: any) => item.units?.some((u: any) => u.id === unitId)))),
+    getReturnRequests: vi.fn(async ({ orderId }: any) => returns.filter((r) => r.orderId === orderId)),
+    getUser: vi.fn(async (id: string) => ({ id, firstName: 'Sara', lastName: 'Ali', email: `${id}@example.com` })),
+    getPaymentsByOrderId: vi.fn(async (orderId: string) => payments.filter((p) => p.orderId === orderId)),
+  },
+}));
+
+import { storage } from '../storage';
+import { addDeviceUnits, lookupDeviceUnit } from '../device-units';
+import { DeviceUnitError } from '../errors';
+import { insertDeviceUnitSchema } from '@shared/schema';
+
+const unit = { id: 'u1', productId: 'p1', imei1: '490154203237518', imei2: null, serialNumber: 'SN1', status: 'sold', orderId: 'o2' };
+const sold = { productId: 'p1', name: 'Phone', quantity: 1, price: 100, total: 100, sellerId: 's1', units: [unit] };
+
+describe('device units', () => {
+  beforeEach(() => {
+    units.length = 0;
+    orders.length = 0;
+    returns.length = 0;
+    payments.length = 0;
+    vi.clearAllMocks();
+    units.push(unit);
+  });
+
+  it('accepts only Luhn-valid 15-digit IMEIs', () => {
+    expect(insertDeviceUnitSchema.parse({ imei1: '35693803 564380-9' }).imei1).toBe('356938035643809');
+    expect(insertDeviceUnitSchema.safeParse({ imei1: '490154203237519' }).success).toBe(false);
+    expect(insertDeviceUnitSchema.safeParse({ imei1: '356938035643809', imei2: '356938035643809' }).success).toBe(false);
+  });
+
+  it('rejects IMEIs that are already registered or repeated in the batch', async () => {
+    await expect(addDeviceUnits('p1', [{ imei1: '490154203237518' }])).rejects.toBeInstanceOf(DeviceUnitError);
+    await expect(addDeviceUnits('p1', [{ imei1: '356938035643809' }, { imei1: '356938035643809' }]))
+      .rejects.toThrow('IMEI 356938035643809 is already registered');
+    expect(storage.addDeviceUnits).not.toHaveBeenCalled();
+
+    await addDeviceUnits('p1', [{ imei1: '356938035643809' }]);
+    expect(storage.addDeviceUnits).toHaveBeenCalledWith('p1', [{ imei1: '356938035643809' }]);
+  });
+
+  it('lists every sale of a unit with the customer, including returned and walk-in sales', async () => {
+    orders.push(
+      { id: 'o2', customerId: 'cashier', parentOrderId: null, status: 'delivered', isPosOrder: true, items: [sold], createdAt: new Date('2026-03-01') },
+      { id: 'o1', customerId: 'c1', parentOrderId: null, status: 'delivered', isPosOrder: false, items: [sold], createdAt: new Date('2026-01-01'),
+        shippingAddress: { fullName: 'Sara Ali', phone: '+96550000000' } },
+    );
+    returns.push({ id: 'r1', orderId: 'o1', status: 'approved', items: [sold] });
+    payments.push({ id: 'pay2', orderId: 'o2', metadata: { customerName: 'Walk-in buyer', customerPhone: '+96560000000' } });
+
+    const result = await lookupDeviceUnit('SN1');
+
+    expect(result?.unit.id).toBe('u1');
+    expect(result?.sales).toEqual([
+      expect.objectContaining({ orderId: 'o2', returned: false, customer: { id: 'cashier', name: 'Walk-in buyer', email: null, phone: '+96560000000' } }),
+      expect.objectContaining({ orderId: 'o1', returned: true, customer: { id: 'c1', name: 'Sara Ali', email: 'c1@example.com', phone: '+96550000000' } }),
+    ]);
+    expect(await lookupDeviceUnit('000000000000000')).toBeUndefined();
+  });
+});
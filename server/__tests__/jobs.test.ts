@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Job } from '@shared/schema';
+
+vi.mock('../storage', () => ({
+  storage: {
+    createDeadLetterJob: vi.fn(async (entry: any) => ({ id: 'dl1', ...entry })),
+    deleteDeadLetterJob: vi.fn(),
+  },
+}));
+
+import { storage } from '../storage';
+import {
+  cronMatches,
+  defineJob,
+  enqueueJob,
+  enqueueScheduledJobs,
+  parseCron,
+  retryDelay,
+  runClaimedJob,
+  runDueJobs,
+  scheduleJob,
+  setJobBackend,
+  type JobBackend,
+  type NewJob,
+} from '../jobs';
+
+// Keeps jobs in an array, as a stand-in for Postgres or Redis
+function memoryBackend() {
+  const jobs: Job[] = [];
+  const update = async (job: Job, updates: Partial<Job>) => Object.assign(jobs.find((other) => other.id === job.id)!, updates);
+  const backend: JobBackend = {
+    name: 'memory',
+    async enqueue(newJob: NewJob) {
+      if (newJob.dedupeKey && jobs.some((job) => job.dedupeKey === newJob.dedupeKey)) return null;
+      const job = {
+        id: `j${jobs.length + 1}`,
+        status: 'queued',
+        attempts: 0,
+        lockedAt: null,
+        lastError: null,
+        createdAt: new Date(),
+        completedAt: null,
+        ...newJob,
+        dedupeKey: newJob.dedupeKey ?? null,
+      } as Job;
+      jobs.push(job);
+      return job;
+    },
+    async claim() {
+      const job = jobs.find((other) => other.status === 'queued' && other.runAt <= new Date());
+      return job ? update(job, { status: 'running', attempts: job.attempts + 1 }) : null;
+    },
+    complete: (job) => update(job, { status: 'completed' }),
+    retry: (job, runAt, error) => update(job, { status: 'queued', runAt, lastError: error }),
+    fail: (job, error) => update(job, { status: 'failed', lastError: error }),
+    list: async () => jobs,
+    counts: async () => ({ queued: 0, running: 0, completed: 0, failed: 0 }),
+    prune: async () => 0,
+  };
+  return { backend, jobs };
+}
+
+let calls = 0;
+defineJob('flaky', async () => {
+  calls++;
+  if (calls < 3) throw new Error(`attempt ${calls} failed`);
+});
+defineJob('broken', async () => {
+  throw new Error('always fails');
+}, { maxAttempts: 2, backoffMs: 1000 });
+
+describe('background jobs', () => {
+  afterEach(() => {
+    calls = 0;
+    delete process.env.JOB_MODE;
+    vi.clearAllMocks();
+  });
+
+  it('reads five-field cron expressions', () => {
+    const everyFive = parseCron('*/5 * * * *');
+    expect(cronMatches(everyFive, new Date(2026, 0, 5, 10, 15))).toBe(true);
+    expect(cronMatches(everyFive, new Date(2026, 0, 5, 10, 16))).toBe(false);
+
+    const weekdayMornings = parseCron('0 8-10 * * 1-5');
+    expect(cronMatches(weekdayMornings, new Date(2026, 0, 5, 9, 0))).toBe(true); // a Monday
+    expect(cronMatches(weekdayMornings, new Date(2026, 0, 4, 9, 0))).toBe(false); // a Sunday
+
+    // Either day field matches when both are given
+    const firstOrSunday = parseCron('0 0 1 * 7');
+    expect(cronMatches(firstOrSunday, new Date(2026, 0, 4, 0, 0))).toBe(true);
+    expect(cronMatches(firstOrSunday, new Date(2026, 1, 1, 0, 0))).toBe(true);
+    expect(cronMatches(firstOrSunday, new Date(2026, 0, 5, 0, 0))).toBe(false);
+
+    expect(() => parseCron('* * *')).toThrow('Invalid cron expression');
+    expect(() => parseCron('61 * * * *')).toThrow('Invalid cron expression');
+  });
+
+  it('runs jobs inline under test, retrying until they pass', async () => {
+    const job = await enqueueJob('flaky');
+    expect(job).toMatchObject({ status: 'completed', attempts: 3 });
+
+    const failed = await enqueueJob('broken');
+    expect(failed).toMatchObject({ status: 'failed', attempts: 2, lastError: 'always fails' });
+    await expect(enqueueJob('missing')).rejects.toThrow('Job "missing" is not defined');
+  });
+
+  it('retries with exponential backoff, then moves the job to the dead-letter table', async () => {
+    process.env.JOB_MODE = 'queue';
+    const { backend, jobs } = memoryBackend();
+    setJobBackend(backend);
+
+    await enqueueJob('broken', { orderId: 'o1' });
+    const before = Date.now();
+    expect(await runDueJobs()).toBe(1);
+    expect(jobs[0]).toMatchObject({ status: 'queued', attempts: 1, lastError: 'always fails' });
+    expect(jobs[0].runAt.getTime()).toBeGreaterThanOrEqual(before + 1000);
+
+    const retried = await runClaimedJob(backend, { ...jobs[0], attempts: 2 });
+    expect(retried.status).toBe('failed');
+    expect(storage.createDeadLetterJob).toHaveBeenCalledWith({
+      jobId: 'j1',
+      name: 'broken',
+      payload: { orderId: 'o1' },
+      attempts: 2,
+      error: 'always fails',
+    });
+
+    expect(retryDelay(1000, 1)).toBe(1000);
+    expect(retryDelay(1000, 4)).toBe(8000);
+    expect(retryDelay(30000, 20)).toBe(60 * 60 * 1000);
+  });
+
+  it('queues each scheduled run once', async () => {
+    process.env.JOB_MODE = 'queue';
+    const { backend, jobs } = memoryBackend();
+    setJobBackend(backend);
+    scheduleJob('flaky', '0 * * * *', { source: 'schedule' });
+
+    const onTheHour = new Date(2026, 0, 5, 10, 0, 12);
+    expect(await enqueueScheduledJobs(onTheHour)).toBe(1);
+    expect(await enqueueScheduledJobs(new Date(2026, 0, 5, 10, 0, 48))).toBe(0);
+    expect(await enqueueScheduledJobs(new Date(2026, 0, 5, 10, 1))).toBe(0);
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({ name: 'flaky', payload: { source: 'schedule' } });
+  });
+});
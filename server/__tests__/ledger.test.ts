@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { orders, entries, rates } = vi.hoisted(() => ({
+  orders: new Map<string, any>(),
+  entries: [] as any[],
+  rates: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getSubOrders: vi.fn(async (id: string) => Array.from(orders.values()).filter((o) => o.parentOrderId === id)),
+    getCommissionRates: vi.fn(async () => rates),
+    getLedgerEntries: vi.fn(async ({ orderId }: any) => entries.filter((e) => e.orderId === orderId)),
+    postLedgerTransaction: vi.fn(async (postings: any[]) => {
+      const posted = postings.map((p) => ({ debit: '0', credit: '0', ...p }));
+      entries.push(...posted);
+      return posted;
+    }),
+  },
+}));
+
+import { findCommissionRate, recordRefund, recordSale } from '../ledger';
+
+const rate = (sellerId: string | null, category: string | null, value: string) => ({ id: `${sellerId}-${category}`, sellerId, category, rate: value });
+
+// What the platform owes the seller: credits less debits on seller_payable
+const payable = (sellerId: string) =>
+  entries
+    .filter((e) => e.account === 'seller_payable' && e.sellerId === sellerId)
+    .reduce((sum, e) => sum + parseFloat(e.credit) - parseFloat(e.debit), 0);
+
+describe('seller ledger', () => {
+  beforeEach(() => {
+    orders.clear();
+    entries.length = 0;
+    rates.length = 0;
+    rates.push(rate(null, null, '10.00'), rate(null, 'Accessories', '20.00'), rate('s2', null, '5.00'));
+  });
+
+  it('picks the most specific commission rate', () => {
+    rates.push(rate('s2', 'accessories', '8.00'));
+    expect(findCommissionRate(rates, 's1', 'Phones')).toBe(10);
+    expect(findCommissionRate(rates, 's1', 'accessories')).toBe(20);
+    expect(findCommissionRate(rates, 's2', 'Phones')).toBe(5);
+    expect(findCommissionRate(rates, 's2', 'Accessories')).toBe(8);
+    expect(findCommissionRate([], 's1', 'Phones')).toBe(0);
+  });
+
+  it('credits each seller once with the sale less commission on the pre-tax amount', async () => {
+    orders.set('o1', { id: 'o1', sellerId: null, parentOrderId: null, total: '215' });
+    orders.set('o1-s1', {
+      id: 'o1-s1', sellerId: 's1', parentOrderId: 'o1', total: '210',
+      items: [{ category: 'Phones', total: 210, tax: 10 }],
+    });
+    orders.set('o1-s2', { id: 'o1-s2', sellerId: 's2', parentOrderId: 'o1', total: '5', items: [{ category: 'Accessories', total: 5 }] });
+
+    await recordSale(orders.get('o1'));
+    await recordSale(orders.get('o1'));
+
+    expect(payable('s1')).toBe(190); // 210 less 10% of 200
+    expect(payable('s2')).toBeCloseTo(4.75); // the seller's own 5% beats the category's 20%
+    const debits = entries.reduce((sum, e) => sum + parseFloat(e.debit), 0);
+    const credits = entries.reduce((sum, e) => sum + parseFloat(e.credit), 0);
+    expect(debits).toBeCloseTo(credits);
+  });
+
+  it('charges refunds back with their share of commission, never beyond the sale', async () => {
+    orders.set('o1', { id: 'o1', sellerId: 's1', parentOrderId: null, total: '200', items: [{ category: 'Phones', total: 200 }] });
+    await recordSale(orders.get('o1'));
+    expect(payable('s1')).toBe(180);
+
+    await recordRefund(orders.get('o1'), 50, 'Return r1');
+    expect(payable('s1')).toBe(135); // 50 refunded, 5 commission handed back
+
+    await recordRefund(orders.get('o1'), 500, 'Order cancelled');
+    expect(payable('s1')).toBeCloseTo(0);
+
+    // Unpaid orders never recorded a sale, so there is nothing to charge back
+    orders.set('o2', { id: 'o2', sellerId: 's1', parentOrderId: null, total: '20', items: [] });
+    await recordRefund(orders.get('o2'), 20, 'Order cancelled');
+    expect(entries.filter((e) => e.orderId === 'o2')).toHaveLength(0);
+  });
+});
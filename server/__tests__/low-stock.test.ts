@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Product } from '@shared/schema';
+
+const { products, sellers, notifications } = vi.hoisted(() => ({
+  products: new Map<string, any>(),
+  sellers: new Map<string, any>(),
+  notifications: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getProduct: vi.fn(async (id: string) => products.get(id)),
+    getSeller: vi.fn(async (id: string) => sellers.get(id)),
+    createNotification: vi.fn(async (notification: any) => {
+      notifications.push(notification);
+      return notification;
+    }),
+  },
+}));
+
+import { restockSuggestions, sendLowStockAlert } from '../low-stock';
+
+const product = (overrides: Partial<Product>) =>
+  ({
+    id: 'p1',
+    sellerId: 's1',
+    name: 'Phone',
+    sku: null,
+    stock: 3,
+    reorderThreshold: 5,
+    reorderQuantity: 10,
+    isActive: true,
+    ...overrides,
+  }) as Product;
+
+describe('low-stock alerts', () => {
+  beforeEach(() => {
+    products.clear();
+    sellers.clear();
+    notifications.length = 0;
+    products.set('p1', product({}));
+    sellers.set('s1', { id: 's1', lowStockAlerts: true });
+  });
+
+  it('notifies the seller when stock is below the threshold', async () => {
+    expect(await sendLowStockAlert('p1')).toBe(true);
+    expect(notifications).toEqual([
+      expect.objectContaining({
+        type: 'low_stock',
+        sellerId: 's1',
+        relatedId: 'p1',
+        metadata: { productName: 'Phone', stock: 3, reorderThreshold: 5, reorderQuantity: 10 },
+      }),
+    ]);
+  });
+
+  it('respects the seller toggle and skips products restocked since', async () => {
+    sellers.set('s1', { id: 's1', lowStockAlerts: false });
+    expect(await sendLowStockAlert('p1')).toBe(false);
+
+    sellers.set('s1', { id: 's1', lowStockAlerts: true });
+    products.set('p1', product({ stock: 5 }));
+    expect(await sendLowStockAlert('p1')).toBe(false);
+    expect(notifications).toHaveLength(0);
+  });
+});
+
+describe('restock suggestions', () => {
+  it('estimates days of stock left from sales and orders the urgent products first', () => {
+    const suggestions = restockSuggestions(
+      [
+        product({ id: 'slow', stock: 50 }),
+        product({ id: 'fast', stock: 20, reorderQuantity: 5 }),
+        product({ id: 'unsold', stock: 2 }),
+        product({ id: 'idle', stock: 8 }),
+      ],
+      new Map([
+        ['slow', 30],
+        ['fast', 60],
+      ]),
+      { days: 30, coverDays: 14 },
+    );
+
+    expect(suggestions.map((suggestion) => suggestion.productId)).toEqual(['fast', 'unsold', 'slow', 'idle']);
+    // Two a day with 20 left: order 14 days of sales on top of the threshold
+    expect(suggestions[0]).toMatchObject({ dailySales: 2, daysOfStockLeft: 10, suggestedQuantity: 28 - 20 + 5 });
+    // Below the threshold with no sales: the reorder quantity
+    expect(suggestions[1]).toMatchObject({ daysOfStockLeft: null, suggestedQuantity: 10 });
+    expect(suggestions[2]).toMatchObject({ dailySales: 1, daysOfStockLeft: 50, suggestedQuantity: 0 });
+    expect(suggestions[3]).toMatchObject({ unitsSold: 0, suggestedQuantity: 0 });
+  });
+});
@@ -3,12 +3,16 @@ import express from 'express';
 import request from 'supertest';
 import bcrypt from 'bcrypt';
 
-vi.mock('../storage', () => {
+vi.mock('../storage', async () => {
+  const { InsufficientStockError } = await import('../errors');
   const users = new Map<string, any>();
   const sellers = new Map<string, any>();
   const products = new Map<string, any>();
   const carts = new Map<string, any[]>();
   const orders = new Map<string, any>();
+  const statusHistory: any[] = [];
+  const addresses = new Map<string, any>();
+  const reviews = new Map<string, any>();
   let productSeq = 1;
   let orderSeq = 1;
 
@@ -55,9 +59,15 @@ vi.mock('../storage', () => {
       async getProduct(id: string) {
         return products.get(id);
       },
+      async getProductVariants(_productId: string) {
+        return [];
+      },
       async createNotification(_n: any) {
         return {};
       },
+      async getTaxRates() {
+        return [];
+      },
       async getCartItems(userId: string) {
         return carts.get(userId) || [];
       },
@@ -77,6 +87,29 @@ vi.mock('../storage', () => {
         orders.set(id, order);
         return order;
       },
+      async placeOrder(data: any, subOrders: any[] = []) {
+        const sellerOrders = subOrders.length > 0 ? subOrders : [data];
+        const lines = sellerOrders.flatMap((o: any) => o.items);
+        const shortages = lines
+          .filter((item: any) => (products.get(item.productId)?.stock ?? 0) < item.quantity)
+          .map((item: any) => ({
+            productId: item.productId,
+            name: item.name,
+            available: products.get(item.productId)?.stock ?? 0,
+            requested: item.quantity,
+          }));
+        if (shortages.length > 0) throw new InsufficientStockError(shortages);
+
+        const order = { id: `o${orderSeq++}`, ...data };
+        orders.set(order.id, order);
+        const created = subOrders.map((sub) => {
+          const subOrder = { id: `o${orderSeq++}`, ...sub, parentOrderId: order.id };
+          orders.set(subOrder.id, subOrder);
+          return subOrder;
+        });
+        for (const item of lines) products.get(item.productId).stock -= item.quantity;
+        return { order, subOrders: created };
+      },
       async updateProductStock(productId: string, qty: number) {
         const p = products.get(productId);
         if (p) p.stock += qty;
@@ -84,17 +117,58 @@ vi.mock('../storage', () => {
       async getOrder(id: string) {
         return orders.get(id);
       },
+      async getOrders() {
+        return Array.from(orders.values());
+      },
       async updateOrder(id: string, updates: any) {
         const order = orders.get(id);
         if (order) Object.assign(order, updates);
         return order;
       },
+      async getSubOrders(parentOrderId: string) {
+        return Array.from(orders.values()).filter((o) => o.parentOrderId === parentOrderId);
+      },
+      async updateOrderStatus(id: string, fromStatus: string, toStatus: string, changedBy: any, note?: string) {
+        const order = orders.get(id);
+        if (!order || order.status !== fromStatus) return undefined;
+        order.status = toStatus;
+        statusHistory.push({ orderId: id, fromStatus, toStatus, changedBy: changedBy.userId, changedByRole: changedBy.role, note });
+        return order;
+      },
+      async getOrderStatusHistory(orderId: string) {
+        return statusHistory.filter((entry) => entry.orderId === orderId);
+      },
+      async createAddress(userId: string, data: any) {
+        const address = { id: `a${addresses.size + 1}`, userId, isDefault: addresses.size === 0, ...data };
+        addresses.set(address.id, address);
+        return address;
+      },
+      async getAddress(id: string) {
+        return addresses.get(id);
+      },
+      async createReview(data: any) {
+        const review = { id: `r${reviews.size + 1}`, sellerReply: null, ...data };
+        reviews.set(review.id, review);
+        return review;
+      },
+      async getReview(id: string) {
+        return reviews.get(id);
+      },
+      async updateReview(id: string, updates: any) {
+        return Object.assign(reviews.get(id), updates);
+      },
+      async deleteReview(id: string) {
+        reviews.delete(id);
+      },
       reset() {
         users.clear();
+        addresses.clear();
+        reviews.clear();
         sellers.clear();
         products.clear();
         carts.clear();
         orders.clear();
+        statusHistory.length = 0;
         productSeq = 1;
         orderSeq = 1;
       },
@@ -209,13 +283,41 @@ describe('marketplace flows', () => {
     expect(orderRes.status).toBe(200);
     const orderId = orderRes.body.id;
 
-    const updateRes = await request(app)
+    const skipRes = await request(app)
       .put(`/api/orders/${orderId}`)
       .set('Authorization', `Bearer ${sellerToken}`)
       .send({ status: 'shipped' });
+    expect(skipRes.status).toBe(409);
+
+    await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send({ status: 'processing' });
+    const updateRes = await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send({ status: 'shipped', note: 'Sent with Aramex' });
     expect(updateRes.status).toBe(200);
     expect(updateRes.body.status).toBe('shipped');
 
+    const customerDeliverRes = await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ status: 'delivered' });
+    expect(customerDeliverRes.status).toBe(403);
+
+    const tamperRes = await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ total: '0.01' });
+    expect(tamperRes.status).toBe(400);
+
+    const historyRes = await request(app)
+      .get(`/api/orders/${orderId}/history`)
+      .set('Authorization', `Bearer ${customerToken}`);
+    expect(historyRes.body.map((entry: any) => entry.toStatus)).toEqual(['processing', 'shipped']);
+    expect(historyRes.body[1]).toMatchObject({ changedByRole: 'seller', note: 'Sent with Aramex' });
+
     const product = await storage.getProduct(productId);
     expect(product.stock).toBe(3);
   });
@@ -259,5 +361,236 @@ describe('marketplace flows', () => {
     const cartItems = await storage.getCartItems(customerId);
     expect(cartItems.length).toBe(0);
   });
-});
 
+  it('splits a multi-vendor cart into per-seller sub-orders', async () => {
+    const adminToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'testadmin', password: 'admin123' })).body.token;
+
+    const secondSellerUser = await storage.createUser({
+      email: 'seller2@example.com',
+      password: 'sellerpass',
+      firstName: 'Other',
+      lastName: 'Seller',
+      role: 'seller',
+    });
+    await storage.createSeller({
+      userId: secondSellerUser.id,
+      businessName: 'Second Seller',
+    });
+
+    const productIds: string[] = [];
+    for (const [userId, email, name, price] of [
+      [sellerId, 'seller@example.com', 'Phone', 100],
+      [secondSellerUser.id, 'seller2@example.com', 'Case', 10],
+    ] as const) {
+      await request(app)
+        .put(`/api/sellers/${userId}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      const token = (await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'sellerpass' })).body.token;
+      const productRes = await request(app)
+        .post('/api/products')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name, category: 'phones', price, stock: 5, condition: 'new' });
+      productIds.push(productRes.body.id);
+    }
+
+    const customerToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'cust@example.com', password: 'custpass' })).body.token;
+    await request(app)
+      .post('/api/cart')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ productId: productIds[0], quantity: 1 });
+    await request(app)
+      .post('/api/cart')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ productId: productIds[1], quantity: 2 });
+
+    const orderRes = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({});
+    expect(orderRes.status).toBe(200);
+    expect(orderRes.body.sellerId).toBeNull();
+    expect(orderRes.body.total).toBe('120');
+    expect(orderRes.body.subOrders).toHaveLength(2);
+
+    const [first, second] = orderRes.body.subOrders;
+    const firstSeller = await storage.getSellerByUserId(sellerId);
+    const secondSeller = await storage.getSellerByUserId(secondSellerUser.id);
+    expect(first.sellerId).toBe(firstSeller.sellerId);
+    expect(first.total).toBe('100');
+    expect(second.sellerId).toBe(secondSeller.sellerId);
+    expect(second.total).toBe('20');
+    expect(second.parentOrderId).toBe(orderRes.body.id);
+
+    expect((await storage.getProduct(productIds[1])).stock).toBe(3);
+
+    // The export lists the sub-orders in place of the parent, so the sale is counted once
+    const exportRes = await request(app)
+      .get('/api/export/orders')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(exportRes.status).toBe(200);
+    const rows = exportRes.text.trim().split('\n').slice(1);
+    expect(rows.map((row) => row.split(',')[0]).sort()).toEqual([first.id, second.id].sort());
+    const gross = rows.reduce((sum, row) => sum + parseFloat(row.split(',')[5].replace(/"/g, '')), 0);
+    expect(gross).toBe(120);
+  });
+
+  it('keeps customers from ringing up till sales or paying in cash', async () => {
+    const customerToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'cust@example.com', password: 'custpass' })).body.token;
+
+    const posRes = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ isPosOrder: true, items: [{ productId: 'p1', quantity: 1 }] });
+    expect(posRes.status).toBe(403);
+
+    const cashRes = await request(app)
+      .post('/api/payments')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ orderId: 'o1', method: 'cash' });
+    expect(cashRes.status).toBe(403);
+  });
+
+  it('lets only the author edit a review, and never its seller reply', async () => {
+    const login = async (email: string, password: string) =>
+      (await request(app).post('/api/auth/login').send({ email, password })).body.token;
+    const customerToken = await login('cust@example.com', 'custpass');
+    const sellerToken = await login('seller@example.com', 'sellerpass');
+    const review = await storage.createReview({ userId: customerId, productId: 'p1', rating: 2, title: 'Meh' });
+
+    const otherRes = await request(app)
+      .put(`/api/reviews/${review.id}`)
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send({ rating: 5 });
+    expect(otherRes.status).toBe(403);
+    const deleteRes = await request(app)
+      .delete(`/api/reviews/${review.id}`)
+      .set('Authorization', `Bearer ${sellerToken}`);
+    expect(deleteRes.status).toBe(403);
+
+    const ownRes = await request(app)
+      .put(`/api/reviews/${review.id}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ rating: 4, sellerReply: 'Thanks!', userId: sellerId });
+    expect(ownRes.status).toBe(200);
+    expect(ownRes.body).toMatchObject({ rating: 4, title: 'Meh', sellerReply: null, userId: customerId });
+  });
+
+  it('rejects an order with a per-item error when stock is insufficient', async () => {
+    const adminToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'testadmin', password: 'admin123' })).body.token;
+    await request(app)
+      .put(`/api/sellers/${sellerId}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    const sellerToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'seller@example.com', password: 'sellerpass' })).body.token;
+    const productRes = await request(app)
+      .post('/api/products')
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send({ name: 'Phone', category: 'phones', price: 100, stock: 1, condition: 'new' });
+    const productId = productRes.body.id;
+
+    const customerToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'cust@example.com', password: 'custpass' })).body.token;
+    await request(app)
+      .post('/api/cart')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ productId, quantity: 2 });
+
+    const orderRes = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({});
+    expect(orderRes.status).toBe(400);
+    expect(orderRes.body.items).toEqual([
+      { productId, name: 'Phone', available: 1, requested: 2 },
+    ]);
+    expect((await storage.getProduct(productId)).stock).toBe(1);
+    expect((await storage.getCartItems(customerId)).length).toBe(1);
+  });
+
+  it('ships to a copy of a saved address', async () => {
+    const adminToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'testadmin', password: 'admin123' })).body.token;
+    await request(app)
+      .put(`/api/sellers/${sellerId}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    const sellerToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'seller@example.com', password: 'sellerpass' })).body.token;
+    const productRes = await request(app)
+      .post('/api/products')
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send({ name: 'Phone', category: 'phones', price: 100, stock: 5, condition: 'new' });
+
+    const customerToken = (await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'cust@example.com', password: 'custpass' })).body.token;
+
+    const invalidRes = await request(app)
+      .post('/api/addresses')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ fullName: 'Cust Omer', phone: '123', governorate: 'Dubai', area: 'Salmiya', block: '10', street: '5', building: '12' });
+    expect(invalidRes.status).toBe(400);
+
+    const addressRes = await request(app)
+      .post('/api/addresses')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({
+        label: 'Home',
+        fullName: 'Cust Omer',
+        phone: '+96551234567',
+        governorate: 'Hawalli',
+        area: 'Salmiya',
+        block: '10',
+        street: 'Salem Al Mubarak',
+        building: '12',
+        paciNumber: '12345678',
+      });
+    expect(addressRes.status).toBe(201);
+    expect(addressRes.body.isDefault).toBe(true);
+
+    await request(app)
+      .post('/api/cart')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ productId: productRes.body.id, quantity: 1 });
+    const orderRes = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ addressId: addressRes.body.id });
+    expect(orderRes.status).toBe(200);
+    expect(orderRes.body.shippingAddress).toEqual({
+      label: 'Home',
+      fullName: 'Cust Omer',
+      phone: '+96551234567',
+      governorate: 'Hawalli',
+      area: 'Salmiya',
+      block: '10',
+      street: 'Salem Al Mubarak',
+      building: '12',
+      paciNumber: '12345678',
+    });
+
+    // Later address book edits leave the order's copy alone
+    (await storage.getAddress(addressRes.body.id)).street = 'Hamad Al Mubarak';
+    expect((await storage.getOrder(orderRes.body.id)).shippingAddress.street).toBe('Salem Al Mubarak');
+
+    const sellerAddress = await storage.createAddress(sellerId, { fullName: 'Sell Er' });
+    const foreignRes = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ addressId: sellerAddress.id });
+    expect(foreignRes.status).toBe(400);
+  });
+});
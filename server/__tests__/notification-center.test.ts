@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { wishlist, notifications } = vi.hoisted(() => ({
+  wishlist: [] as any[],
+  notifications: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getWatchedWishlistItems: vi.fn(async () => wishlist),
+    createNotification: vi.fn(async (notification: any) => {
+      notifications.push(notification);
+      return notification;
+    }),
+  },
+}));
+
+import { announcePromotion } from '../promotions';
+import { pushNotification, setNotificationEmitter } from '../notifications/live';
+
+const promotion = (overrides: any = {}) => ({
+  id: 'promo1',
+  code: 'APPLE15',
+  sellerId: 's1',
+  discountType: 'percentage',
+  value: '15.00',
+  scope: 'brand',
+  scopeValues: ['Apple'],
+  startsAt: null,
+  endsAt: null,
+  isActive: true,
+  ...overrides,
+}) as any;
+
+const saved = (userId: string, product: any) => ({ id: `${userId}-${product.id}`, userId, productId: product.id, product });
+
+describe('notification center', () => {
+  beforeEach(() => {
+    wishlist.length = 0;
+    notifications.length = 0;
+  });
+
+  it('announces a promotion once to each customer with a covered product on their wishlist', async () => {
+    const iphone = { id: 'p1', name: 'iPhone 15', sellerId: 's1', category: 'smartphones', brand: 'apple' };
+    const ipad = { id: 'p2', name: 'iPad Air', sellerId: 's1', category: 'tablets', brand: 'Apple' };
+    const otherShop = { id: 'p3', name: 'iPhone 14', sellerId: 's2', category: 'smartphones', brand: 'Apple' };
+    wishlist.push(saved('u1', iphone), saved('u1', ipad), saved('u2', otherShop));
+
+    expect(await announcePromotion(promotion())).toBe(1);
+    expect(notifications).toEqual([
+      expect.objectContaining({
+        type: 'promotion',
+        userId: 'u1',
+        relatedId: 'promo1',
+        message: 'Use code APPLE15 for 15% off "iPhone 15" on your wishlist.',
+      }),
+    ]);
+
+    expect(await announcePromotion(promotion({ isActive: false }))).toBe(0);
+    expect(await announcePromotion(promotion({ endsAt: new Date(Date.now() - 1000) }))).toBe(0);
+  });
+
+  it('pushes new notifications to the recipients\' rooms once the server is up', () => {
+    const notification = { id: 'n1', title: 'Order Update' } as any;
+    pushNotification(['u1'], notification);
+
+    const emitted: [string, string, unknown][] = [];
+    setNotificationEmitter({ to: (room) => ({ emit: (event, payload) => emitted.push([room, event, payload]) }) });
+    pushNotification(['u1', 'admins'], notification);
+    expect(emitted).toEqual([
+      ['u1', 'notification', notification],
+      ['admins', 'notification', notification],
+    ]);
+    setNotificationEmitter(undefined);
+  });
+});
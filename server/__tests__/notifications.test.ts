@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Notification } from '@shared/schema';
+
+vi.mock('../storage', () => ({
+  storage: {
+    getNotification: vi.fn(),
+    getUser: vi.fn(),
+    getSeller: vi.fn(),
+    getAdminSetting: vi.fn(),
+  },
+}));
+
+import { storage } from '../storage';
+import { enqueueJob } from '../jobs';
+import {
+  CaptureEmailChannel,
+  CaptureSmsChannel,
+  getEmailChannel,
+  getSmsChannel,
+  renderNotification,
+} from '../notifications';
+
+const notification = (overrides: Partial<Notification>): Notification => ({
+  id: 'n1',
+  type: 'price_drop',
+  title: 'Price drop',
+  message: 'iPhone 15 is now KWD 250',
+  isRead: false,
+  relatedId: 'p1',
+  sellerId: null,
+  userId: null,
+  metadata: { productName: 'iPhone 15', savedPrice: 300, price: 250 },
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const email = getEmailChannel() as CaptureEmailChannel;
+const sms = getSmsChannel() as CaptureSmsChannel;
+
+async function dispatch(n: Notification) {
+  vi.mocked(storage.getNotification).mockResolvedValue(n);
+  await enqueueJob('dispatch-notification', { notificationId: n.id });
+}
+
+describe('notification delivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    email.sent.length = 0;
+    sms.sent.length = 0;
+  });
+
+  it('renders the template in the recipient language', () => {
+    const en = renderNotification(notification({}), 'en');
+    expect(en.subject).toBe('Price drop on iPhone 15');
+    expect(en.text).toContain('dropped from KWD 300 to KWD 250');
+    expect(en.html).toContain('dir="ltr"');
+
+    const ar = renderNotification(notification({}), 'ar');
+    expect(ar.subject).toBe('انخفاض سعر iPhone 15');
+    expect(ar.html).toContain('dir="rtl"');
+
+    // Types without a template send the title and message, escaped in HTML
+    const other = renderNotification(notification({ type: 'order_note', title: 'A <b> note', message: 'Hi' }), 'en');
+    expect(other.subject).toBe('A <b> note');
+    expect(other.html).toContain('A &lt;b&gt; note');
+  });
+
+  it('sends customers email and SMS only on the channels they chose', async () => {
+    vi.mocked(storage.getUser).mockResolvedValue({
+      id: 'u1',
+      email: 'sara@example.com',
+      phoneNumber: '+96550000000',
+      preferredLanguage: 'ar',
+      emailNotifications: false,
+      smsNotifications: true,
+    } as any);
+
+    await dispatch(notification({ userId: 'u1' }));
+    expect(email.sent).toHaveLength(0);
+    expect(sms.sent).toEqual([{ to: '+96550000000', text: expect.stringContaining('انخفض سعر iPhone 15 من 300 د.ك') }]);
+  });
+
+  it('mails sellers at their business email and admins at the notification address', async () => {
+    vi.mocked(storage.getSeller).mockResolvedValue({
+      id: 's1',
+      userId: 'u2',
+      businessEmail: 'shop@example.com',
+      phoneNumber: '+96551111111',
+      emailNotifications: true,
+      smsNotifications: false,
+    } as any);
+    vi.mocked(storage.getUser).mockResolvedValue({ id: 'u2', email: 'owner@example.com', preferredLanguage: 'en' } as any);
+
+    await dispatch(notification({ type: 'product_approved', sellerId: 's1', metadata: { productName: 'Galaxy S24' } }));
+    expect(email.sent).toEqual([
+      expect.objectContaining({ to: 'shop@example.com', subject: 'Your product was approved' }),
+    ]);
+    expect(sms.sent).toHaveLength(0);
+
+    // No admin address configured, nothing is sent
+    vi.mocked(storage.getAdminSetting).mockResolvedValue(undefined);
+    await dispatch(notification({ type: 'product_pending', metadata: { productName: 'Pixel 9', sellerName: 'Gulf Mobiles' } }));
+    expect(email.sent).toHaveLength(1);
+
+    vi.mocked(storage.getAdminSetting).mockResolvedValue('ops@phonehub.com');
+    await dispatch(notification({ type: 'product_pending', metadata: { productName: 'Pixel 9', sellerName: 'Gulf Mobiles' } }));
+    expect(email.sent[1]).toMatchObject({ to: 'ops@phonehub.com', text: expect.stringContaining('Gulf Mobiles submitted "Pixel 9"') });
+  });
+});
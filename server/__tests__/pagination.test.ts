@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { toPage } from '../pagination';
+import { orderSortFields, pageQuerySchema } from '@shared/schema';
+
+const rows = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `o${i + 1}` }));
+
+describe('list pagination', () => {
+  it('reads the paging query string with the first sort field as the default', () => {
+    const schema = pageQuerySchema(orderSortFields);
+    expect(schema.parse({})).toEqual({ limit: 25, offset: 0, sort: 'createdAt', order: 'desc' });
+    expect(schema.parse({ limit: '10', offset: '20', sort: 'total', order: 'asc', cursor: 'o9' })).toEqual({
+      limit: 10,
+      offset: 20,
+      cursor: 'o9',
+      sort: 'total',
+      order: 'asc',
+    });
+    expect(() => schema.parse({ sort: 'customerId' })).toThrow();
+    expect(() => schema.parse({ limit: '500' })).toThrow();
+    expect(() => schema.parse({ order: 'up' })).toThrow();
+  });
+
+  it('points the cursor at the last item when there is another page', () => {
+    const page = pageQuerySchema(orderSortFields).parse({ limit: '2' });
+    expect(toPage(rows(3), page, 7)).toEqual({ items: [{ id: 'o1' }, { id: 'o2' }], total: 7, nextCursor: 'o2' });
+    expect(toPage(rows(2), page, 2)).toEqual({ items: [{ id: 'o1' }, { id: 'o2' }], total: 2, nextCursor: null });
+    expect(toPage([], page, 0)).toEqual({ items: [], total: 0, nextCursor: null });
+  });
+});
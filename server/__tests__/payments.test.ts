@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+
+const { payments, orders, credit } = vi.hoisted(() => ({
+  payments: new Map<string, any>(),
+  orders: new Map<string, any>(),
+  credit: { balance: 0 },
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getPayment: vi.fn(async (id: string) => payments.get(id)),
+    getPaymentsByOrderId: vi.fn(async (orderId: string) =>
+      Array.from(payments.values()).filter((p) => p.orderId === orderId)),
+    createPayment: vi.fn(async (data: any) => {
+      const payment = { id: `pay${payments.size + 1}`, createdAt: new Date(), ...data };
+      payments.set(payment.id, payment);
+      return payment;
+    }),
+    updatePayment: vi.fn(async (id: string, updates: any) => {
+      const payment = { ...payments.get(id), ...updates };
+      payments.set(id, payment);
+      return payment;
+    }),
+    getOrder: vi.fn(async (id: string) => orders.get(id)),
+    getSubOrders: vi.fn(async (id: string) => Array.from(orders.values()).filter((o) => o.parentOrderId === id)),
+    updateOrder: vi.fn(async (id: string, updates: any) => {
+      const order = { ...orders.get(id), ...updates };
+      orders.set(id, order);
+      return order;
+    }),
+    updateOrderStatus: vi.fn(async (id: string, fromStatus: string, toStatus: string) => {
+      if (orders.get(id)?.status !== fromStatus) return undefined;
+      const order = { ...orders.get(id), status: toStatus };
+      orders.set(id, order);
+      return order;
+    }),
+    creditLoyaltyPoints: vi.fn(async () => {}),
+    spendStoreCredit: vi.fn(async (_userId: string, amount: number) => {
+      if (credit.balance < amount) return false;
+      credit.balance -= amount;
+      return true;
+    }),
+    creditStoreCredit: vi.fn(async (_userId: string, amount: number) => {
+      credit.balance += amount;
+    }),
+    createNotification: vi.fn(),
+  },
+}));
+
+vi.mock('../ledger', () => ({ recordSale: vi.fn(async () => {}) }));
+
+import { storage } from '../storage';
+import { recordSale } from '../ledger';
+import {
+  KnetPaymentProvider,
+  SandboxPaymentProvider,
+  createOrderPayment,
+  handlePaymentWebhook,
+  processPayment,
+  refundPayment,
+} from '../payments';
+import { createMockKnetGateway } from '../payments/mock-knet-gateway';
+
+function pendingPayment(id: string, method = 'card', metadata: Record<string, unknown> = {}) {
+  const payment = { id, orderId: 'order1', amount: '120.000', method, status: 'pending', transactionId: null, metadata, createdAt: new Date() };
+  payments.set(id, payment);
+  return payment as any;
+}
+
+describe('payment providers', () => {
+  beforeEach(() => {
+    payments.clear();
+    orders.clear();
+    orders.set('order1', { id: 'order1', customerId: 'cust1', status: 'pending', parentOrderId: null, total: '120.00', isPosOrder: false });
+    orders.set('sub1', { id: 'sub1', customerId: 'cust1', status: 'pending', parentOrderId: 'order1' });
+    credit.balance = 0;
+    delete process.env.PAYMENT_PROVIDER;
+    vi.clearAllMocks();
+  });
+
+  it('captures sandbox payments and moves the order and sub-orders to processing', async () => {
+    const result = await processPayment(pendingPayment('pay1'), 'http://shop.test');
+
+    expect(result.status).toBe('completed');
+    expect(result.transactionId).toBe('SBX_CAP_pay1');
+    expect(orders.get('order1').status).toBe('processing');
+    expect(orders.get('sub1').status).toBe('processing');
+    expect(storage.creditLoyaltyPoints).toHaveBeenCalledWith('cust1', 120);
+    expect(recordSale).toHaveBeenCalledWith(expect.objectContaining({ id: 'order1' }));
+  });
+
+  it('fails sandbox payments that are declined or fail to capture', async () => {
+    const declined = await processPayment(pendingPayment('pay1', 'card', { sandboxOutcome: 'decline' }), 'http://shop.test');
+    const uncaptured = await processPayment(pendingPayment('pay2', 'card', { sandboxOutcome: 'capture_failed' }), 'http://shop.test');
+
+    expect(declined.status).toBe('failed');
+    expect(uncaptured.status).toBe('failed');
+    expect(orders.get('order1').status).toBe('pending');
+  });
+
+  it('rejects KNET callbacks with a bad signature', () => {
+    const knet = new KnetPaymentProvider({ gatewayUrl: 'http://gateway.test', secret: 'secret' });
+    const payload = { paymentId: 'pay1', reference: 'KNET_pay1', result: 'CAPTURED', amount: '120.000' };
+
+    expect(knet.verifyWebhook(payload, 'not-a-signature')).toBeUndefined();
+    expect(new SandboxPaymentProvider().verifyWebhook({ ...payload, status: 'captured' }, undefined)).toBeUndefined();
+  });
+
+  it('completes a KNET payment through the mock gateway callback', async () => {
+    process.env.PAYMENT_PROVIDER = 'knet';
+    const pending = await processPayment(pendingPayment('pay1', 'knet'), 'http://shop.test');
+    expect(pending.status).toBe('pending');
+    expect(pending.redirectUrl).toContain('/pay?');
+
+    const callbacks: any[] = [];
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init: any) => {
+      callbacks.push({ body: JSON.parse(init.body), signature: init.headers['x-gateway-signature'] });
+      return new Response(null, { status: 200 });
+    });
+
+    const gateway = createMockKnetGateway('knet-dev-secret');
+    const redirect = new URL(pending.redirectUrl!);
+    const res = await request(gateway).get(`/pay${redirect.search}`);
+    fetchMock.mockRestore();
+
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toContain('http://shop.test/customer-dashboard');
+    expect(callbacks).toHaveLength(1);
+
+    const completed = await handlePaymentWebhook('knet', callbacks[0].body, callbacks[0].signature);
+    expect(completed?.status).toBe('completed');
+    expect(orders.get('order1').status).toBe('processing');
+
+    // Replaying the callback does not credit loyalty twice
+    await handlePaymentWebhook('knet', callbacks[0].body, callbacks[0].signature);
+    expect(storage.creditLoyaltyPoints).toHaveBeenCalledTimes(1);
+  });
+
+  it('tracks partial refunds until the payment is fully refunded', async () => {
+    const completed = await processPayment(pendingPayment('pay1'), 'http://shop.test');
+
+    const partial = await refundPayment(completed, 20, 'Damaged box');
+    expect(partial.status).toBe('completed');
+    expect((partial.metadata as any).refundedAmount).toBe(20);
+
+    await expect(refundPayment(partial, 200)).rejects.toThrow('Refund amount');
+
+    const full = await refundPayment(partial);
+    expect(full.status).toBe('refunded');
+    expect((full.metadata as any).refunds).toHaveLength(2);
+  });
+
+  it('pays from store credit and puts refunds back on the balance', async () => {
+    const declined = await processPayment(pendingPayment('pay1', 'store_credit'), 'http://shop.test');
+    expect(declined.status).toBe('failed');
+
+    credit.balance = 150;
+    const completed = await processPayment(pendingPayment('pay2', 'store_credit'), 'http://shop.test');
+    expect(completed.status).toBe('completed');
+    expect(credit.balance).toBe(30);
+    expect(orders.get('order1').status).toBe('processing');
+
+    await refundPayment(completed, 50);
+    expect(storage.creditStoreCredit).toHaveBeenCalledWith('cust1', 50, expect.objectContaining({ type: 'refund', paymentId: 'pay2' }));
+    expect(credit.balance).toBe(80);
+  });
+
+  it('charges the order total once, and takes cash only at the till', async () => {
+    const order = orders.get('order1');
+    await expect(createOrderPayment(order, 'cash')).rejects.toThrow('Cash is only taken in store');
+    await expect(createOrderPayment(orders.get('sub1'), 'card')).rejects.toThrow('whole checkout');
+
+    const payment = await createOrderPayment(order, 'card');
+    expect(payment).toMatchObject({ amount: '120.00', status: 'pending' });
+    await expect(createOrderPayment(order, 'card')).rejects.toThrow('already has a payment');
+
+    // A declined payment can be tried again
+    payments.set(payment.id, { ...payment, status: 'failed' });
+    await expect(createOrderPayment(order, 'card')).resolves.toMatchObject({ status: 'pending' });
+
+    const cash = await createOrderPayment({ ...order, id: 'pos1', isPosOrder: true }, 'cash');
+    expect(cash.amount).toBe('120.00');
+  });
+
+  it('does not complete a payment that already failed', async () => {
+    const sandbox = new SandboxPaymentProvider();
+    const declined = await processPayment(pendingPayment('pay1', 'card', { sandboxOutcome: 'decline' }), 'http://shop.test');
+    expect(declined.status).toBe('failed');
+
+    const event = { paymentId: 'pay1', reference: 'SBX_AUTH_pay1', status: 'captured' as const, amount: '120.000' };
+    const result = await handlePaymentWebhook('sandbox', event, sandbox.sign(event));
+    expect(result?.status).toBe('failed');
+    expect(orders.get('order1').status).toBe('pending');
+    expect(storage.creditLoyaltyPoints).not.toHaveBeenCalled();
+  });
+});
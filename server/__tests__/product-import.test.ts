@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { products, storageMock } = vi.hoisted(() => {
+  const products: Record<string, any> = {};
+  return {
+    products,
+    storageMock: {
+      getProductBySku: vi.fn(async (sku: string) => Object.values(products).find((product) => product.sku === sku)),
+      getProductVariants: vi.fn(async () => []),
+      getDeviceUnits: vi.fn(async (): Promise<any[]> => []),
+      updateProductStock: vi.fn(),
+      createProduct: vi.fn(async (product: any) => ({ id: 'new-1', ...product })),
+      updateProduct: vi.fn(async (id: string, updates: any) => ({ ...products[id], ...updates })),
+      listProductImages: vi.fn(async () => []),
+      deleteProductImage: vi.fn(),
+      createProductImage: vi.fn(async (image: any) => image),
+      updateProductImport: vi.fn(async (id: string, updates: any) => ({ id, ...updates })),
+      getSeller: vi.fn(async () => ({ id: 's1', businessName: 'Gadget Hub' })),
+      createNotification: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../storage', () => ({ storage: storageMock }));
+
+import { exportProductSheet, readProductSheet, runProductImport } from '../product-import';
+import { ProductImportError } from '../errors';
+
+const csv = (lines: string[]) => Buffer.from(lines.join('\n'));
+const productImport = (dryRun: boolean) => ({ id: 'imp1', sellerId: 's1', dryRun }) as any;
+
+const sheet = csv([
+  'sku,name,category,price,stock,spec.power,imageUrls',
+  'CHG-65,65W Charger,accessories,12.500,40,65,https://cdn.example.com/chg-65.jpg|https://cdn.example.com/chg-65-side.jpg',
+  'CASE-15,iPhone 15 Case,protection,4,100,,',
+  'CHG-20,,accessories,abc,-1,,ftp://example.com/chg.jpg',
+  'CHG-65,65W Charger again,accessories,12,1,,',
+  'TAKEN-1,Cable,accessories,2,5,,',
+]);
+
+describe('product import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const id of Object.keys(products)) delete products[id];
+    products.p1 = { id: 'p1', sellerId: 's1', sku: 'CASE-15', name: 'Case', category: 'protection', stock: 80, specs: { material: 'Silicone' } };
+    products.p2 = { id: 'p2', sellerId: 's2', sku: 'TAKEN-1', name: 'Cable', category: 'accessories', specs: {} };
+  });
+
+  it('reads the rows of a sheet with the file line they came from', async () => {
+    const rows = await readProductSheet(sheet, 'csv');
+    expect(rows).toHaveLength(5);
+    expect(rows[1]).toEqual({
+      line: 3,
+      cells: { sku: 'CASE-15', name: 'iPhone 15 Case', category: 'protection', price: '4', stock: '100' },
+    });
+
+    await expect(readProductSheet(csv(['sku,colour', 'A,red']), 'csv')).rejects.toThrow('Unknown columns: colour');
+    await expect(readProductSheet(csv(['name', 'Charger']), 'csv')).rejects.toThrow(ProductImportError);
+  });
+
+  it('checks every row without saving on a dry run', async () => {
+    const result = await runProductImport(productImport(true), await readProductSheet(sheet, 'csv'));
+
+    expect(result).toMatchObject({ status: 'completed', processedRows: 5, createdCount: 1, updatedCount: 1 });
+    expect(result.errors.map((error) => error.row)).toEqual([4, 5, 6]);
+    expect(result.errors[0].messages).toEqual(
+      expect.arrayContaining([
+        'price: must be a number',
+        'stock: must be a whole number',
+        'imageUrls: ftp://example.com/chg.jpg is not a web address',
+      ]),
+    );
+    expect(result.errors[1].messages).toEqual(['sku: CHG-65 is on an earlier row']);
+    expect(result.errors[2].messages).toEqual(['sku: TAKEN-1 is used by another seller']);
+    expect(storageMock.createProduct).not.toHaveBeenCalled();
+    expect(storageMock.updateProduct).not.toHaveBeenCalled();
+    expect(storageMock.createNotification).not.toHaveBeenCalled();
+  });
+
+  it('creates and updates by sku and sends them for approval', async () => {
+    await runProductImport(productImport(false), await readProductSheet(sheet, 'csv'));
+
+    expect(storageMock.createProduct).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sellerId: 's1',
+        sku: 'CHG-65',
+        price: '12.500',
+        stock: 0,
+        status: 'pending',
+        specs: { power: 65 },
+        imageUrl: 'https://cdn.example.com/chg-65.jpg',
+      }),
+    );
+    expect(storageMock.createProductImage).toHaveBeenCalledTimes(2);
+    expect(storageMock.createProductImage).toHaveBeenCalledWith(expect.objectContaining({ productId: 'new-1', isMain: true, displayOrder: 0 }));
+
+    // Blank cells keep what the product already has
+    expect(storageMock.updateProduct).toHaveBeenCalledWith(
+      'p1',
+      expect.objectContaining({ name: 'iPhone 15 Case', status: 'pending', specs: { material: 'Silicone' } }),
+    );
+    expect(storageMock.updateProduct.mock.calls[0][1]).not.toHaveProperty('description');
+
+    // Stock goes through the inventory log rather than onto the product row
+    expect(storageMock.updateProduct.mock.calls[0][1]).not.toHaveProperty('stock');
+    expect(storageMock.updateProductStock).toHaveBeenCalledWith('new-1', 40, 'Product import imp1', undefined, 'adjustment');
+    expect(storageMock.updateProductStock).toHaveBeenCalledWith('p1', 20, 'Product import imp1', undefined, 'adjustment');
+
+    expect(storageMock.createNotification).toHaveBeenCalledTimes(1);
+    expect(storageMock.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'product_pending', relatedId: 'imp1' }),
+    );
+  });
+
+  it('leaves the stock of serialized products to their units', async () => {
+    storageMock.getDeviceUnits.mockResolvedValue([{ id: 'u1', productId: 'p1', status: 'in_stock' }]);
+    const rows = await readProductSheet(csv(['sku,name,stock', 'CASE-15,iPhone 15 Case,100']), 'csv');
+    const result = await runProductImport(productImport(false), rows);
+
+    expect(result.errors).toEqual([
+      { row: 2, sku: 'CASE-15', messages: ["stock: counted from the product's serialized units; add or remove units instead"] },
+    ]);
+    expect(storageMock.updateProduct).not.toHaveBeenCalled();
+    expect(storageMock.updateProductStock).not.toHaveBeenCalled();
+
+    // The same count, as an export holds it, imports as it is
+    await runProductImport(productImport(false), await readProductSheet(csv(['sku,name,stock', 'CASE-15,iPhone 15 Case,80']), 'csv'));
+    expect(storageMock.updateProduct).toHaveBeenCalledWith('p1', expect.not.objectContaining({ stock: expect.anything() }));
+    expect(storageMock.updateProductStock).not.toHaveBeenCalled();
+  });
+
+  it('exports a catalog that reads back in the import columns', async () => {
+    const product = {
+      id: 'p9',
+      sku: 'PB-20',
+      name: 'Power Bank',
+      description: null,
+      brand: 'Anker',
+      category: 'accessories',
+      condition: 'new',
+      price: '15.000',
+      originalPrice: null,
+      stock: 7,
+      warrantyMonths: 12,
+      warrantyProvider: 'manufacturer',
+      imageUrl: '/uploads/file-1.jpg',
+      specs: { capacity: 20000 },
+    } as any;
+
+    for (const format of ['csv', 'xlsx'] as const) {
+      const rows = await readProductSheet(await exportProductSheet([product], [], format), format);
+      expect(rows).toEqual([
+        {
+          line: 2,
+          cells: {
+            sku: 'PB-20',
+            name: 'Power Bank',
+            brand: 'Anker',
+            category: 'accessories',
+            condition: 'new',
+            price: '15.000',
+            stock: '7',
+            warrantyMonths: '12',
+            warrantyProvider: 'manufacturer',
+            imageUrls: '/uploads/file-1.jpg',
+            'spec.capacity': '20000',
+          },
+        },
+      ]);
+    }
+  });
+});
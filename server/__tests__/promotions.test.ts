@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { promotions, redemptions } = vi.hoisted(() => ({
+  promotions: new Map<string, any>(),
+  redemptions: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getPromotionByCode: vi.fn(async (code: string) => promotions.get(code.toUpperCase())),
+    countPromotionRedemptions: vi.fn(async (promotionId: string, userId: string) =>
+      redemptions.filter((r) => r.promotionId === promotionId && r.userId === userId).length),
+  },
+}));
+
+import { applyPromotionCode } from '../promotions';
+import { PromotionError } from '../errors';
+
+const line = (productId: string, sellerId: string, price: number, quantity: number, extra: any = {}) => ({
+  productId, name: productId, sellerId, price, quantity, total: price * quantity, ...extra,
+});
+
+const promotion = (overrides: any = {}) => ({
+  id: 'promo1',
+  code: 'SAVE10',
+  description: null,
+  sellerId: null,
+  discountType: 'percentage',
+  value: '10.00',
+  minBasket: null,
+  scope: 'all',
+  scopeValues: [],
+  usageLimit: null,
+  perUserLimit: null,
+  usageCount: 0,
+  stackableWithLoyalty: true,
+  startsAt: null,
+  endsAt: null,
+  isActive: true,
+  ...overrides,
+});
+
+const context = { customerId: 'c1', isPosOrder: false, loyaltyPoints: 0 };
+
+describe('promotions', () => {
+  beforeEach(() => {
+    promotions.clear();
+    redemptions.length = 0;
+  });
+
+  it('puts a percentage discount on each eligible line', async () => {
+    promotions.set('SAVE10', promotion({ scope: 'category', scopeValues: ['Phones'] }));
+    const items = [
+      line('p1', 's1', 100, 2, { category: 'phones' }),
+      line('p2', 's1', 20, 1, { category: 'audio' }),
+    ];
+
+    const applied = await applyPromotionCode('save10', items, context);
+    expect(applied.discount).toBe(20);
+    expect(applied.items[0]).toMatchObject({ discount: 20, total: 180, promotionCode: 'SAVE10' });
+    expect(applied.items[1]).toEqual(items[1]);
+  });
+
+  it("spreads a fixed discount over a seller's own lines", async () => {
+    promotions.set('SELLER5', promotion({ code: 'SELLER5', sellerId: 's1', discountType: 'fixed', value: '5.00' }));
+    const items = [line('p1', 's1', 10, 1), line('p2', 's1', 20, 1), line('p3', 's2', 50, 1)];
+
+    const applied = await applyPromotionCode('SELLER5', items, context);
+    expect(applied.items.map((item) => item.discount)).toEqual([1.67, 3.33, undefined]);
+    expect(applied.discount).toBe(5);
+  });
+
+  it('enforces windows, limits, minimum basket and loyalty stacking', async () => {
+    const items = [line('p1', 's1', 10, 1)];
+    const reject = (overrides: any, message: string, ctx = context) => {
+      promotions.set('SAVE10', promotion(overrides));
+      return expect(applyPromotionCode('SAVE10', items, ctx)).rejects.toThrow(message);
+    };
+
+    await expect(applyPromotionCode('NOPE', items, context)).rejects.toBeInstanceOf(PromotionError);
+    await reject({ endsAt: new Date(Date.now() - 1000) }, 'This code has expired');
+    await reject({ usageLimit: 3, usageCount: 3 }, 'This code has reached its usage limit');
+    await reject({ minBasket: '25.00' }, 'Spend at least 25.00');
+    await reject({ stackableWithLoyalty: false }, 'cannot be combined with loyalty points', { ...context, loyaltyPoints: 5 });
+
+    redemptions.push({ promotionId: 'promo1', userId: 'c1' });
+    await reject({ perUserLimit: 1 }, 'You have already used this code');
+    // Anonymous POS sales only count towards the overall limit
+    await expect(applyPromotionCode('SAVE10', items, { ...context, isPosOrder: true })).resolves.toBeDefined();
+  });
+});
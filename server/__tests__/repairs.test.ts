@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { tickets, parts } = vi.hoisted(() => ({
+  tickets: {} as Record<string, any>,
+  parts: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getUserByEmail: vi.fn(async (email: string) => (email === 'ana@example.com' ? { id: 'c1' } : undefined)),
+    getSeller: vi.fn(async (id: string) => ({ id, userId: `u-${id}` })),
+    getRepairTicket: vi.fn(async (id: string) => tickets[id]),
+    createRepairTicket: vi.fn(async (data: any) => ({ id: 'rt-0000abcd', status: 'received', quotedAmount: null, ...data })),
+    transitionRepairTicket: vi.fn(async (id: string, from: string, to: string, _by: string, updates: any = {}) =>
+      tickets[id]?.status === from ? { ...tickets[id], ...updates, status: to } : undefined),
+    getRepairParts: vi.fn(async (ticketId: string) => parts.filter((part) => part.ticketId === ticketId)),
+    addRepairPart: vi.fn(async (part: any) => ({ id: 'part1', ...part })),
+    deleteRepairPart: vi.fn(),
+    updateProductStock: vi.fn(),
+    createNotification: vi.fn(),
+  },
+}));
+
+import { storage } from '../storage';
+import {
+  decideRepairQuote,
+  diagnoseRepair,
+  moveRepairTicket,
+  openRepairTicket,
+  pushRepairUpdate,
+  repairServiceLines,
+  returnRepairPart,
+  useRepairPart,
+} from '../repairs';
+import { RepairTicketError } from '../errors';
+
+const ticket = (status: string, extra: Record<string, unknown> = {}) => {
+  const created = {
+    id: 'rt-0000abcd', sellerId: 's1', customerId: 'c1', brand: 'Samsung', model: 'Galaxy S21',
+    imei: null, diagnosis: null, quotedAmount: null, status, ...extra,
+  } as any;
+  tickets[created.id] = created;
+  return created;
+};
+
+describe('repair tickets', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(tickets)) delete tickets[key];
+    parts.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it('links the customer account by email on intake', async () => {
+    const input = { customerName: 'Ana', brand: 'Samsung', model: 'Galaxy S21', faultDescription: 'No charging' };
+    const opened = await openRepairTicket('s1', 'u-s1', { ...input, customerEmail: 'ana@example.com' });
+
+    expect(opened).toMatchObject({ sellerId: 's1', customerId: 'c1', receivedBy: 'u-s1', imei: null });
+    expect(storage.createNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: 'c1', type: 'repair_update' }));
+    await expect(openRepairTicket('s1', 'u-s1', { ...input, customerEmail: 'nobody@example.com' })).rejects.toBeInstanceOf(RepairTicketError);
+  });
+
+  it('moves through diagnosis and quote approval, refusing skipped steps', async () => {
+    const diagnosed = await diagnoseRepair(ticket('received'), { diagnosis: 'Charging port', quotedAmount: '45.00' }, 'u-s1');
+    expect(diagnosed).toMatchObject({ status: 'diagnosed', quotedAmount: '45.00' });
+    expect(storage.createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Repair Quote Ready' }));
+
+    expect(await decideRepairQuote(ticket('diagnosed'), false, 'c1')).toMatchObject({ status: 'declined' });
+    await expect(moveRepairTicket(ticket('received'), 'ready', 'u-s1')).rejects.toThrow('Cannot move repair');
+
+    // A charged repair is collected by billing it at the POS; a free one by hand
+    await expect(moveRepairTicket(ticket('ready', { quotedAmount: '45.00' }), 'collected', 'u-s1')).rejects.toThrow('POS');
+    expect(await moveRepairTicket(ticket('ready', { quotedAmount: '0.00' }), 'collected', 'u-s1')).toMatchObject({ status: 'collected' });
+
+    // Someone else moved the ticket since it was loaded
+    const stale = { ...ticket('in_repair'), status: 'approved' };
+    await expect(moveRepairTicket(stale, 'in_repair', 'u-s1')).rejects.toThrow('updated by someone else');
+  });
+
+  it('takes parts from the seller stock only after approval', async () => {
+    const product = { id: 'p1', sellerId: 's1', name: 'USB-C port', price: '8.00' } as any;
+    await expect(useRepairPart(ticket('diagnosed'), product, 1)).rejects.toBeInstanceOf(RepairTicketError);
+    await expect(useRepairPart(ticket('approved'), { ...product, sellerId: 's2' }, 1)).rejects.toThrow('own inventory');
+
+    const part = await useRepairPart(ticket('in_repair'), product, 2);
+    expect(storage.updateProductStock).toHaveBeenCalledWith('p1', -2, 'Repair #0000abcd', undefined, 'repair', undefined);
+    expect(part).toMatchObject({ ticketId: 'rt-0000abcd', productId: 'p1', variantId: null, quantity: 2, unitPrice: '8.00' });
+  });
+
+  it('takes a part listed in variants from the variant picked and puts it back there', async () => {
+    const product = { id: 'p2', sellerId: 's1', name: 'Screen', price: '40.00' } as any;
+    const variant = { id: 'v-black', productId: 'p2', options: { Color: 'Black' }, price: '45.00' } as any;
+
+    const part = await useRepairPart(ticket('in_repair'), product, 1, variant);
+    expect(storage.updateProductStock).toHaveBeenCalledWith('p2', -1, 'Repair #0000abcd', undefined, 'repair', 'v-black');
+    expect(part).toMatchObject({ productId: 'p2', variantId: 'v-black', name: 'Screen (Black)', unitPrice: '45.00' });
+
+    await returnRepairPart(ticket('in_repair'), part);
+    expect(storage.updateProductStock).toHaveBeenLastCalledWith('p2', 1, expect.stringContaining('returned'), undefined, 'repair', 'v-black');
+
+    parts.push({ ...part, id: 'part2' });
+    await moveRepairTicket(ticket('approved'), 'cancelled', 'u-s1');
+    expect(storage.updateProductStock).toHaveBeenLastCalledWith('p2', 1, expect.stringContaining('cancelled'), undefined, 'repair', 'v-black');
+  });
+
+  it('restocks used parts when a repair is cancelled', async () => {
+    parts.push({ id: 'part1', ticketId: 'rt-0000abcd', productId: 'p1', quantity: 2 });
+    await moveRepairTicket(ticket('approved'), 'cancelled', 'u-s1');
+
+    expect(storage.updateProductStock).toHaveBeenCalledWith('p1', 2, expect.stringContaining('cancelled'), undefined, 'repair', undefined);
+    expect(storage.deleteRepairPart).toHaveBeenCalledWith('part1');
+  });
+
+  it('bills only the seller\'s ready tickets as service lines', async () => {
+    ticket('ready', { quotedAmount: '45.00' });
+    expect(await repairServiceLines(['rt-0000abcd', 'rt-0000abcd'], 's1')).toEqual([
+      expect.objectContaining({ productId: 'rt-0000abcd', repairTicketId: 'rt-0000abcd', quantity: 1, price: 45, total: 45 }),
+    ]);
+    await expect(repairServiceLines(['rt-0000abcd'], 's2')).rejects.toThrow('not found');
+
+    ticket('in_repair');
+    await expect(repairServiceLines(['rt-0000abcd'], 's1')).rejects.toThrow('not ready');
+  });
+
+  it('pushes ticket updates to the customer and seller rooms', async () => {
+    const emit = vi.fn();
+    const io = { to: vi.fn(() => ({ emit })) };
+    await pushRepairUpdate(io, ticket('ready'));
+
+    expect(io.to).toHaveBeenCalledWith('c1');
+    expect(io.to).toHaveBeenCalledWith('u-s1');
+    expect(emit).toHaveBeenCalledWith('repair_ticket', expect.objectContaining({ status: 'ready' }));
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { orders, payments, returns } = vi.hoisted(() => ({
+  orders: new Map<string, any>(),
+  payments: new Map<string, any>(),
+  returns: new Map<string, any>(),
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getOrder: vi.fn(async (id: string) => orders.get(id)),
+    getSubOrders: vi.fn(async (id: string) => Array.from(orders.values()).filter((o) => o.parentOrderId === id)),
+    getPaymentsByOrderId: vi.fn(async (orderId: string) =>
+      Array.from(payments.values()).filter((p) => p.orderId === orderId)),
+    updatePayment: vi.fn(async (id: string, updates: any) => {
+      const payment = { ...payments.get(id), ...updates };
+      payments.set(id, payment);
+      return payment;
+    }),
+    getReturnRequests: vi.fn(async ({ orderId }: any) =>
+      Array.from(returns.values()).filter((r) => r.orderId === orderId)),
+    updateReturnRequest: vi.fn(async (id: string, updates: any) => {
+      const returnRequest = { ...returns.get(id), ...updates };
+      returns.set(id, returnRequest);
+      return returnRequest;
+    }),
+    transitionReturnRequest: vi.fn(async (id: string, fromStatuses: string[], updates: any) => {
+      if (!fromStatuses.includes(returns.get(id)?.status)) return undefined;
+      const returnRequest = { ...returns.get(id), ...updates };
+      returns.set(id, returnRequest);
+      return returnRequest;
+    }),
+    updateProductStock: vi.fn(async () => {}),
+    releaseDeviceUnits: vi.fn(async () => {}),
+    debitLoyaltyPoints: vi.fn(async (_userId: string, points: number) => points),
+  },
+}));
+
+vi.mock('../ledger', () => ({ recordRefund: vi.fn(async () => {}) }));
+
+import { storage } from '../storage';
+import { recordRefund } from '../ledger';
+import { approveReturn, planReturns } from '../returns';
+import { ReturnRequestError } from '../errors';
+
+const phone = { productId: 'p1', name: 'Phone', quantity: 2, price: 100, total: 200, sellerId: 's1' };
+const case_ = { productId: 'p2', name: 'Case', quantity: 1, price: 10, total: 10, sellerId: 's2' };
+
+describe('returns', () => {
+  beforeEach(() => {
+    orders.clear();
+    payments.clear();
+    returns.clear();
+    vi.clearAllMocks();
+    orders.set('o1', { id: 'o1', customerId: 'c1', sellerId: null, parentOrderId: null, status: 'delivered', items: [phone, case_] });
+    orders.set('o1-s1', { id: 'o1-s1', customerId: 'c1', sellerId: 's1', parentOrderId: 'o1', status: 'delivered', items: [phone] });
+    orders.set('o1-s2', { id: 'o1-s2', customerId: 'c1', sellerId: 's2', parentOrderId: 'o1', status: 'shipped', items: [case_] });
+    payments.set('pay1', {
+      id: 'pay1', orderId: 'o1', amount: '210.00', status: 'completed', transactionId: 'SBX_CAP_pay1',
+      metadata: { provider: 'sandbox' },
+    });
+  });
+
+  it('opens returns against the seller sub-order', async () => {
+    const plans = await planReturns(orders.get('o1'), [{ productId: 'p1', quantity: 1 }]);
+
+    expect(plans).toHaveLength(1);
+    expect(plans[0].order.id).toBe('o1-s1');
+    expect(plans[0].refundAmount).toBe(100);
+    expect(plans[0].items[0]).toMatchObject({ productId: 'p1', quantity: 1, total: 100 });
+  });
+
+  it('rejects undelivered items and quantities beyond what is still returnable', async () => {
+    returns.set('r0', { id: 'r0', orderId: 'o1-s1', status: 'approved', items: [{ ...phone, quantity: 1 }] });
+
+    await expect(planReturns(orders.get('o1'), [{ productId: 'p2', quantity: 1 }]))
+      .rejects.toThrow('Only delivered items can be returned');
+    await expect(planReturns(orders.get('o1'), [{ productId: 'p1', quantity: 2 }]))
+      .rejects.toBeInstanceOf(ReturnRequestError);
+  });
+
+  it('returns each variant of a product against its own order line', async () => {
+    const black = { ...phone, variantId: 'v-black', quantity: 1, price: 100, total: 100 };
+    const gold = { ...phone, variantId: 'v-gold', quantity: 2, price: 60, total: 120 };
+    orders.set('o1-s1', { ...orders.get('o1-s1'), items: [black, gold] });
+    returns.set('r0', { id: 'r0', orderId: 'o1-s1', status: 'approved', items: [{ ...black }] });
+
+    const [plan] = await planReturns(orders.get('o1'), [{ productId: 'p1', variantId: 'v-gold', quantity: 2 }]);
+    expect(plan.items).toEqual([expect.objectContaining({ variantId: 'v-gold', quantity: 2, total: 120 })]);
+    expect(plan.refundAmount).toBe(120);
+
+    await expect(planReturns(orders.get('o1'), [{ productId: 'p1', variantId: 'v-black', quantity: 1 }]))
+      .rejects.toThrow('Cannot return 1 of Phone. Returnable: 0');
+
+    returns.set('r1', {
+      id: 'r1', orderId: 'o1-s1', customerId: 'c1', sellerId: 's1', status: 'requested',
+      items: plan.items, refundAmount: '120.00',
+    });
+    await approveReturn(returns.get('r1'));
+    expect(storage.updateProductStock).toHaveBeenCalledWith('p1', 2, 'Return r1', 'o1-s1', 'return', 'v-gold');
+  });
+
+  it('names the handsets coming back on serialized lines and puts them back in stock', async () => {
+    const units = [
+      { id: 'u1', imei1: '490154203237518', imei2: null, serialNumber: null },
+      { id: 'u2', imei1: '356938035643809', imei2: null, serialNumber: null },
+    ];
+    orders.set('o1-s1', { ...orders.get('o1-s1'), items: [{ ...phone, units }] });
+    returns.set('r0', { id: 'r0', orderId: 'o1-s1', status: 'requested', items: [{ ...phone, quantity: 1, units: [units[0]] }] });
+
+    const [plan] = await planReturns(orders.get('o1'), [{ productId: 'p1', quantity: 1 }]);
+    expect(plan.items[0].units).toEqual([units[1]]);
+    await expect(planReturns(orders.get('o1'), [{ productId: 'p1', quantity: 1, unitIds: ['u1'] }]))
+      .rejects.toThrow('Pick 1 returnable unit(s) of Phone');
+
+    returns.set('r1', {
+      id: 'r1', orderId: 'o1-s1', customerId: 'c1', sellerId: 's1', status: 'requested',
+      items: plan.items, refundAmount: '100.00',
+    });
+    await approveReturn(returns.get('r1'));
+    expect(storage.releaseDeviceUnits).toHaveBeenCalledWith('o1-s1', ['u2']);
+  });
+
+  it('refunds, restocks and reverses loyalty points on approval', async () => {
+    returns.set('r1', {
+      id: 'r1', orderId: 'o1-s1', customerId: 'c1', sellerId: 's1', status: 'inspecting',
+      items: [{ ...phone, quantity: 1, total: 100 }], refundAmount: '100.00',
+    });
+
+    const approved = await approveReturn(returns.get('r1'), 'Box unopened');
+
+    expect(approved.status).toBe('approved');
+    expect(approved.paymentId).toBe('pay1');
+    expect(payments.get('pay1').metadata.refundedAmount).toBe(100);
+    expect(payments.get('pay1').status).toBe('completed');
+    expect(storage.updateProductStock).toHaveBeenCalledWith('p1', 1, 'Return r1', 'o1-s1', 'return', undefined);
+    expect(storage.debitLoyaltyPoints).toHaveBeenCalledWith('c1', 100, expect.any(String));
+    expect(recordRefund).toHaveBeenCalledWith(expect.objectContaining({ id: 'o1-s1' }), 100, 'Return r1');
+
+    await expect(approveReturn(approved)).rejects.toThrow('Cannot move return from approved to approved');
+  });
+
+  it('refunds a return once when it is approved twice', async () => {
+    returns.set('r1', {
+      id: 'r1', orderId: 'o1-s1', customerId: 'c1', sellerId: 's1', status: 'requested',
+      items: [{ ...phone, quantity: 1, total: 100 }], refundAmount: '100.00',
+    });
+    const stale = returns.get('r1');
+
+    await approveReturn(stale);
+    await expect(approveReturn(stale)).rejects.toThrow('This return has already been resolved');
+
+    expect(payments.get('pay1').metadata.refundedAmount).toBe(100);
+    expect(recordRefund).toHaveBeenCalledTimes(1);
+    expect(storage.updateProductStock).toHaveBeenCalledTimes(1);
+    expect(storage.debitLoyaltyPoints).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { terms } = vi.hoisted(() => ({
+  terms: { samsnug: 'samsung', galxy: 'galaxy', samsung: 'samsung', 'أيفون': 'ايفون' } as Record<string, string>,
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    searchProducts: vi.fn(async () => ({ products: [], total: 0 })),
+    getProductSearchFacets: vi.fn(async () => ({ category: [], brand: [], condition: [], price: [] })),
+    findSearchTerm: vi.fn(async (word: string) => terms[word.toLowerCase()]),
+    autocompleteProducts: vi.fn(async () => []),
+  },
+}));
+
+import { storage } from '../storage';
+import { PRICE_BUCKETS, autocompleteProducts, searchProducts, suggestCorrection } from '../search';
+import { productSearchSchema } from '@shared/schema';
+
+describe('product search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads the marketplace query string, leaving blank filters out', () => {
+    expect(productSearchSchema.parse({ q: ' iphone ', category: '', condition: 'all', minPrice: '', maxPrice: '250' })).toEqual({
+      q: 'iphone',
+      maxPrice: 250,
+      sort: 'relevance',
+      limit: 24,
+      offset: 0,
+    });
+    expect(() => productSearchSchema.parse({ sort: 'cheapest' })).toThrow();
+  });
+
+  it('corrects misspelled words against the indexed terms', async () => {
+    expect(await suggestCorrection('Samsnug galxy')).toBe('samsung galaxy');
+    expect(await suggestCorrection('samsung s24')).toBeNull();
+    // Arabic spellings that only differ by alef form are the same term
+    expect(await suggestCorrection('أيفون')).toBeNull();
+  });
+
+  it('suggests a correction only when nothing was found', async () => {
+    const search = productSearchSchema.parse({ q: 'samsnug' });
+    expect(await searchProducts(search)).toMatchObject({ total: 0, suggestion: 'samsung' });
+    expect(storage.getProductSearchFacets).toHaveBeenCalledWith(search, PRICE_BUCKETS);
+
+    vi.mocked(storage.searchProducts).mockResolvedValueOnce({ products: [{ id: 'p1' } as any], total: 1 });
+    expect(await searchProducts(search)).toMatchObject({ total: 1, suggestion: null });
+  });
+
+  it('autocompletes from two characters on', async () => {
+    expect(await autocompleteProducts(' i ')).toEqual([]);
+    expect(storage.autocompleteProducts).not.toHaveBeenCalled();
+
+    await autocompleteProducts(' ip ');
+    expect(storage.autocompleteProducts).toHaveBeenCalledWith('ip', 8);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { orders, shipments, events } = vi.hoisted(() => ({
+  orders: new Map<string, any>(),
+  shipments: new Map<string, any>(),
+  events: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getOrder: vi.fn(async (id: string) => orders.get(id)),
+    getSubOrders: vi.fn(async (id: string) => Array.from(orders.values()).filter((o) => o.parentOrderId === id)),
+    updateOrderStatus: vi.fn(async (id: string, fromStatus: string, toStatus: string) => {
+      if (orders.get(id)?.status !== fromStatus) return undefined;
+      const order = { ...orders.get(id), status: toStatus };
+      orders.set(id, order);
+      return order;
+    }),
+    createShipment: vi.fn(async (data: any) => {
+      const shipment = { id: `sh${shipments.size + 1}`, deliveredAt: null, createdAt: new Date(), ...data };
+      shipments.set(shipment.id, shipment);
+      return shipment;
+    }),
+    updateShipment: vi.fn(async (id: string, updates: any) => {
+      const shipment = { ...shipments.get(id), ...updates };
+      shipments.set(id, shipment);
+      return shipment;
+    }),
+    getShipmentsByOrderIds: vi.fn(async (orderIds: string[]) =>
+      Array.from(shipments.values()).filter((s) => orderIds.includes(s.orderId))),
+    getShipmentEvents: vi.fn(async (shipmentId: string) => events.filter((e) => e.shipmentId === shipmentId)),
+    addShipmentEvent: vi.fn(async (event: any) => {
+      events.push(event);
+      return event;
+    }),
+    createNotification: vi.fn(),
+  },
+}));
+
+vi.mock('../warranties', () => ({ registerWarranties: vi.fn() }));
+
+import { storage } from '../storage';
+import { registerWarranties } from '../warranties';
+import { LocalFakeCarrier, createShipment, recordShipmentEvent, registerCarrier, syncShipment } from '../shipping';
+import { ShipmentError } from '../errors';
+
+describe('shipping', () => {
+  let now: number;
+
+  beforeEach(() => {
+    orders.clear();
+    shipments.clear();
+    events.length = 0;
+    now = Date.UTC(2025, 0, 1);
+    registerCarrier(new LocalFakeCarrier(1000, () => now));
+    orders.set('o1', { id: 'o1', customerId: 'c1', sellerId: 's1', parentOrderId: null, status: 'processing' });
+  });
+
+  it('reports fake carrier events as time passes', async () => {
+    const carrier = new LocalFakeCarrier(1000, () => now);
+    const { trackingNumber } = await carrier.createShipment({ orderId: 'o1' });
+
+    expect(await carrier.getEvents(trackingNumber)).toEqual([]);
+    now += 2500;
+    expect((await carrier.getEvents(trackingNumber)).map((e) => e.status)).toEqual(['picked_up', 'in_transit']);
+  });
+
+  it('moves the order to shipped and then delivered from carrier events', async () => {
+    let shipment = await createShipment(orders.get('o1'), 'local');
+    expect(shipment.trackingNumber).toMatch(/^LCL-/);
+
+    now += 1000;
+    shipment = await syncShipment(shipment);
+    expect(shipment.status).toBe('picked_up');
+    expect(orders.get('o1').status).toBe('shipped');
+
+    now += 3000;
+    shipment = await syncShipment(shipment);
+    expect(shipment.status).toBe('delivered');
+    expect(orders.get('o1').status).toBe('delivered');
+    expect(registerWarranties).toHaveBeenCalledWith(expect.objectContaining({ id: 'o1', status: 'delivered' }));
+    expect(storage.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'order_status', userId: 'c1', message: 'Your order #o1 was delivered.' }),
+    );
+    expect(events.map((e) => e.status)).toEqual([
+      'label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered',
+    ]);
+  });
+
+  it('waits for every parcel before marking the order delivered', async () => {
+    const first = await createShipment(orders.get('o1'), 'manual', 'ARX123');
+    await createShipment(orders.get('o1'), 'manual', 'ARX124');
+
+    const delivered = await recordShipmentEvent(first, { status: 'delivered', occurredAt: new Date(now) });
+    expect(delivered.status).toBe('delivered');
+    expect(orders.get('o1').status).toBe('shipped');
+
+    // Carriers may resend an event; it is only recorded once
+    await recordShipmentEvent(delivered, { status: 'delivered', occurredAt: new Date(now) });
+    expect(events.filter((e) => e.shipmentId === first.id && e.status === 'delivered')).toHaveLength(1);
+  });
+
+  it('requires a tracking number for manual carriers and a paid order', async () => {
+    await expect(createShipment(orders.get('o1'), 'manual')).rejects.toBeInstanceOf(ShipmentError);
+
+    orders.set('o2', { id: 'o2', sellerId: 's1', status: 'pending' });
+    await expect(createShipment(orders.get('o2'), 'local')).rejects.toThrow('Cannot ship an order that is pending');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { products } = vi.hoisted(() => ({
+  products: {
+    p1: { id: 'p1', name: 'Galaxy S24', category: 'smartphones', isActive: true, status: 'approved', specs: { ram: 8, has5g: true } },
+    p2: { id: 'p2', name: 'Pixel 8', category: 'smartphones', isActive: true, status: 'approved', specs: { ram: 8 } },
+    p3: { id: 'p3', name: 'AirPods Pro', category: 'audio', isActive: true, status: 'approved', specs: { wireless: true } },
+    p4: { id: 'p4', name: 'Old listing', category: 'smartphones', isActive: true, status: 'pending', specs: {} },
+  } as Record<string, any>,
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getProduct: vi.fn(async (id: string) => products[id]),
+  },
+}));
+
+import { compareProducts, normalizeProductSpecs, specsForCategory } from '../specs';
+import { ProductSpecError } from '../errors';
+import { productSearchSchema } from '@shared/schema';
+
+describe('product specifications', () => {
+  it('keeps the specs of the category, reading numbers and yes/no from the form', () => {
+    expect(normalizeProductSpecs('smartphones', { os: ' Android 14 ', has5g: 'true', ram: '8', storage: '', displaySize: 6.1 })).toEqual({
+      displaySize: 6.1,
+      ram: 8,
+      has5g: true,
+      os: 'Android 14',
+    });
+    expect(() => normalizeProductSpecs('smartphones', { ram: 'lots' })).toThrow('RAM must be a number');
+    expect(() => normalizeProductSpecs('smartphones', { has5g: 'maybe' })).toThrow('5G must be yes or no');
+    expect(() => normalizeProductSpecs('audio', { ram: '8' })).toThrow(ProductSpecError);
+  });
+
+  it('drops the specs a product no longer has after a category change', () => {
+    expect(specsForCategory('protection', { compatibility: 'iPhone 15', ram: 8 })).toEqual({ compatibility: 'iPhone 15' });
+  });
+
+  it('compares two to four live listings with the fields of their categories', async () => {
+    const comparison = await compareProducts(['p1', 'p3', 'p1']);
+    expect(comparison.products.map((product) => product.id)).toEqual(['p1', 'p3']);
+    const keys = comparison.fields.map((field) => field.key);
+    expect(keys).toContain('ram');
+    expect(keys).toContain('wireless');
+    expect(keys.indexOf('ram')).toBeLessThan(keys.indexOf('wireless'));
+
+    await expect(compareProducts(['p1'])).rejects.toThrow('between 2 and 4');
+    await expect(compareProducts(['p1', 'p2', 'p3', 'p4', 'p5'])).rejects.toThrow('between 2 and 4');
+    await expect(compareProducts(['p1', 'p4'])).rejects.toThrow('p4 is not available');
+  });
+
+  it('filters the marketplace search only by specs that offer a filter', () => {
+    expect(productSearchSchema.parse({ spec: { ram: '8', has5g: 'true' } }).spec).toEqual({ ram: '8', has5g: 'true' });
+    expect(() => productSearchSchema.parse({ spec: { chipset: 'A17' } })).toThrow();
+    expect(() => productSearchSchema.parse({ spec: { ram: 'lots' } })).toThrow();
+    expect(() => productSearchSchema.parse({ spec: { ram: '8; DROP TABLE products' } })).toThrow();
+  });
+});
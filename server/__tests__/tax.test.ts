@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../storage', () => ({ storage: {} }));
+
+import { applyTax, findTaxRate, summarizeTax } from '../tax';
+
+const rate = (overrides: any = {}) => ({
+  id: 'r1',
+  category: null,
+  rate: '5.00',
+  pricesIncludeTax: false,
+  effectiveFrom: new Date('2026-01-01'),
+  createdBy: null,
+  createdAt: null,
+  ...overrides,
+});
+
+const line = (category: string, total: number, extra: any = {}) => ({
+  productId: category, name: category, category, sellerId: 's1', price: total, quantity: 1, total, ...extra,
+});
+
+describe('tax', () => {
+  it('uses the category rate in force, falling back to the standard rate', () => {
+    const rates = [
+      rate({ id: 'standard' }),
+      rate({ id: 'phones', category: 'Phones', rate: '10.00' }),
+      rate({ id: 'phones-2027', category: 'Phones', rate: '15.00', effectiveFrom: new Date('2027-01-01') }),
+    ];
+
+    expect(findTaxRate(rates, 'phones', new Date('2026-06-01'))?.id).toBe('phones');
+    expect(findTaxRate(rates, 'phones', new Date('2027-06-01'))?.id).toBe('phones-2027');
+    expect(findTaxRate(rates, 'audio', new Date('2026-06-01'))?.id).toBe('standard');
+    expect(findTaxRate(rates, 'audio', new Date('2025-06-01'))).toBeUndefined();
+  });
+
+  it('adds tax to exclusive prices and splits it out of inclusive ones', () => {
+    const at = new Date('2026-06-01');
+    const [exclusive] = applyTax([line('phones', 90, { discount: 10 })], [rate()], at);
+    expect(exclusive).toMatchObject({ taxRate: 5, tax: 4.5, total: 94.5 });
+
+    const [inclusive] = applyTax([line('phones', 105)], [rate({ pricesIncludeTax: true })], at);
+    expect(inclusive).toMatchObject({ taxRate: 5, tax: 5, total: 105, taxIncluded: true });
+
+    expect(summarizeTax([exclusive, inclusive, line('audio', 20)])).toEqual({ net: 210, tax: 9.5, gross: 219.5 });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { prices, sellers } = vi.hoisted(() => ({
+  prices: [] as any[],
+  sellers: {} as Record<string, any>,
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getTradeInPrices: vi.fn(async (filters: any = {}) =>
+      prices.filter((p) => (!filters.sellerId || p.sellerId === filters.sellerId) && p.model.toLowerCase() === filters.model.toLowerCase())),
+    getSeller: vi.fn(async (id: string) => sellers[id]),
+    createTradeIn: vi.fn(async (data: any) => ({ id: 'ti1', status: 'submitted', promotionId: null, productId: null, ...data })),
+    resolveTradeIn: vi.fn(),
+    updateTradeIn: vi.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    creditStoreCredit: vi.fn(),
+    createPromotion: vi.fn(async (promotion: any) => ({ id: 'promo1', ...promotion })),
+    createProduct: vi.fn(async (product: any) => ({ id: 'p1', ...product })),
+    createNotification: vi.fn(),
+  },
+}));
+
+vi.mock('../ledger', () => ({ recordAdjustment: vi.fn() }));
+vi.mock('../device-units', () => ({ addDeviceUnits: vi.fn() }));
+
+import { storage } from '../storage';
+import { recordAdjustment } from '../ledger';
+import { addDeviceUnits } from '../device-units';
+import { acceptTradeIn, gradeTradeIn, listTradeIn, quoteTradeIn, submitTradeIn } from '../trade-ins';
+import { TradeInError } from '../errors';
+
+const flawless = { powersOn: true, screen: 'flawless', body: 'flawless', allFunctionsWork: true, batteryHealth: 95 } as const;
+const device = { brand: 'Apple', model: 'iPhone 13', storage: '128GB', answers: flawless };
+const row = (sellerId: string, condition: string, price: string, storage: string | null = null) =>
+  ({ id: `${sellerId}-${condition}-${storage}`, sellerId, brand: 'Apple', model: 'iPhone 13', storage, condition, price });
+
+const submitted = {
+  id: 'ti1', customerId: 'c1', sellerId: 's1', brand: 'Apple', model: 'iPhone 13', storage: '128GB', imei: null,
+  condition: 'like_new', quotedAmount: '150.00', offeredAmount: null, creditMethod: 'store_credit', status: 'submitted',
+  photos: ['/uploads/front.jpg'], promotionId: null, productId: null,
+} as any;
+
+describe('trade-ins', () => {
+  beforeEach(() => {
+    prices.length = 0;
+    for (const key of Object.keys(sellers)) delete sellers[key];
+    vi.clearAllMocks();
+    sellers.s1 = { id: 's1', businessName: 'Phone Hub', status: 'approved' };
+    sellers.s2 = { id: 's2', businessName: 'Gadget Box', status: 'approved' };
+    vi.mocked(storage.resolveTradeIn).mockImplementation(async (id: string, updates: any) => ({ ...submitted, id, ...updates }));
+  });
+
+  it('grades devices from the condition answers', () => {
+    expect(gradeTradeIn(flawless)).toBe('like_new');
+    expect(gradeTradeIn({ ...flawless, body: 'scratched' })).toBe('good');
+    expect(gradeTradeIn({ ...flawless, batteryHealth: 85 })).toBe('good');
+    expect(gradeTradeIn({ ...flawless, screen: 'cracked' })).toBe('fair');
+    expect(gradeTradeIn({ ...flawless, allFunctionsWork: false })).toBe('fair');
+    expect(gradeTradeIn({ ...flawless, powersOn: false })).toBeNull();
+  });
+
+  it('quotes from each seller grid, preferring the exact storage row, best offer first', async () => {
+    prices.push(
+      row('s1', 'like_new', '140.00'),
+      row('s1', 'like_new', '150.00', '128gb'),
+      row('s2', 'like_new', '160.00', '256GB'),
+      row('s2', 'good', '170.00'),
+    );
+    sellers.s3 = { id: 's3', businessName: 'Closed Shop', status: 'suspended' };
+    prices.push(row('s3', 'like_new', '200.00'));
+
+    expect(await quoteTradeIn(device)).toEqual([
+      { sellerId: 's1', businessName: 'Phone Hub', condition: 'like_new', amount: 150 },
+    ]);
+    expect(await quoteTradeIn({ ...device, answers: { ...flawless, powersOn: false } })).toEqual([]);
+  });
+
+  it('opens a trade-in at the server-side quote and rejects sellers without an offer', async () => {
+    prices.push(row('s1', 'like_new', '150.00'));
+    const input = { ...device, sellerId: 's1', photos: ['/uploads/front.jpg'], creditMethod: 'store_credit' as const };
+
+    const tradeIn = await submitTradeIn('c1', input);
+    expect(tradeIn).toMatchObject({ customerId: 'c1', condition: 'like_new', quotedAmount: '150.00', status: 'submitted' });
+    expect(storage.createNotification).toHaveBeenCalledWith(expect.objectContaining({ sellerId: 's1', type: 'trade_in_submitted' }));
+
+    await expect(submitTradeIn('c1', { ...input, sellerId: 's2' })).rejects.toBeInstanceOf(TradeInError);
+  });
+
+  it('pays store credit on acceptance and charges it to the seller', async () => {
+    const accepted = await acceptTradeIn(submitted, 'u-seller');
+
+    expect(accepted).toMatchObject({ status: 'accepted', offeredAmount: '150.00' });
+    expect(storage.creditStoreCredit).toHaveBeenCalledWith('c1', 150, expect.objectContaining({ type: 'trade_in', tradeInId: 'ti1' }));
+    expect(recordAdjustment).toHaveBeenCalledWith('s1', -150, expect.any(String), 'u-seller');
+    expect(storage.createPromotion).not.toHaveBeenCalled();
+  });
+
+  it('reprices a regraded device and issues a single-use seller code for order discounts', async () => {
+    prices.push(row('s1', 'good', '120.00'));
+    const discounted = { ...submitted, creditMethod: 'order_discount' };
+    vi.mocked(storage.resolveTradeIn).mockImplementationOnce(async (id: string, updates: any) => ({ ...discounted, ...updates }));
+    const accepted = await acceptTradeIn(discounted, 'u-seller', { condition: 'good' });
+
+    expect(accepted).toMatchObject({ condition: 'good', offeredAmount: '120.00', promotionId: 'promo1' });
+    expect(storage.createPromotion).toHaveBeenCalledWith(expect.objectContaining({
+      discountType: 'fixed', value: '120.00', usageLimit: 1, perUserLimit: 1, sellerId: 's1',
+    }));
+    expect(storage.creditStoreCredit).not.toHaveBeenCalled();
+
+    await expect(acceptTradeIn(submitted, 'u-seller', { condition: 'fair' })).rejects.toThrow('No trade-in price');
+    vi.mocked(storage.resolveTradeIn).mockResolvedValueOnce(undefined);
+    await expect(acceptTradeIn(submitted, 'u-seller')).rejects.toThrow('already been resolved');
+  });
+
+  it('lists an accepted device as a pending used product with its IMEI unit', async () => {
+    await expect(listTradeIn(submitted, { price: '180.00', category: 'phones' })).rejects.toBeInstanceOf(TradeInError);
+
+    const accepted = { ...submitted, status: 'accepted', imei: '490154203237518' };
+    const product = await listTradeIn(accepted, { price: '180.00', category: 'phones' });
+
+    expect(product).toMatchObject({ name: 'Apple iPhone 13 128GB', condition: 'like_new', status: 'pending', stock: 0, imageUrl: '/uploads/front.jpg' });
+    expect(addDeviceUnits).toHaveBeenCalledWith('p1', [{ imei1: '490154203237518', storage: '128GB' }]);
+    expect(storage.updateTradeIn).toHaveBeenCalledWith('ti1', { productId: 'p1' });
+  });
+});
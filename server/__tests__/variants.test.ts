@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { options, variants } = vi.hoisted(() => ({
+  options: [] as any[],
+  variants: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getProductOptions: vi.fn(async () => options),
+    setProductOptions: vi.fn(async (_productId: string, input: any[]) => input),
+    getProductVariants: vi.fn(async () => variants),
+    getProductVariant: vi.fn(async (id: string) => variants.find((variant) => variant.id === id)),
+    createProductVariant: vi.fn(async (productId: string, input: any) => ({ id: 'v-new', productId, ...input })),
+    updateProductVariant: vi.fn(async (id: string, updates: any) => ({ id, ...updates })),
+  },
+}));
+
+import { storage } from '../storage';
+import { createProductVariant, resolveVariant, setProductOptions, updateProductVariant } from '../variants';
+import { toOrderItem } from '../checkout';
+import { ProductVariantError } from '../errors';
+
+const product = { id: 'p1', sellerId: 's1', name: 'iPhone 15', category: 'smartphones', brand: 'Apple', price: '300.00', stock: 0 } as any;
+const black128 = { id: 'v1', productId: 'p1', options: { Color: 'Black', Storage: '128GB' }, price: '300.00', stock: 2, isActive: true };
+
+describe('product variants', () => {
+  beforeEach(() => {
+    options.splice(0, options.length,
+      { id: 'o1', name: 'Color', values: ['Black', 'Blue'] },
+      { id: 'o2', name: 'Storage', values: ['128GB', '256GB'] },
+    );
+    variants.splice(0, variants.length, { ...black128 });
+    vi.clearAllMocks();
+  });
+
+  it('takes one listed value for each of the product options', async () => {
+    const input = { price: '340.00', stock: 1 };
+    await expect(createProductVariant(product, { ...input, options: { Color: 'Blue' } })).rejects.toThrow('Choose a Storage');
+    await expect(createProductVariant(product, { ...input, options: { Color: 'Red', Storage: '128GB' } })).rejects.toThrow('not one of the Color options');
+    await expect(createProductVariant(product, { ...input, options: { Color: 'Blue', Storage: '128GB', Model: 'Pro' } }))
+      .rejects.toBeInstanceOf(ProductVariantError);
+
+    await createProductVariant(product, { ...input, options: { Color: 'Blue', Storage: '256GB' } });
+    expect(storage.createProductVariant).toHaveBeenCalledWith('p1', expect.objectContaining({ options: { Color: 'Blue', Storage: '256GB' } }));
+  });
+
+  it('sells each combination once per listing', async () => {
+    await expect(createProductVariant(product, { options: { Storage: '128GB', Color: 'Black' }, price: '300.00' }))
+      .rejects.toThrow('already a variant');
+    await expect(updateProductVariant(product, { ...black128, id: 'v2' } as any, { options: { Color: 'Black', Storage: '128GB' } }))
+      .rejects.toThrow('already a variant');
+    expect(storage.createProductVariant).not.toHaveBeenCalled();
+  });
+
+  it('splits a listing into variants only once its own stock is gone', async () => {
+    variants.length = 0;
+    await expect(createProductVariant({ ...product, stock: 4 }, { options: { Color: 'Blue', Storage: '128GB' }, price: '300.00' }))
+      .rejects.toThrow('stock of iPhone 15 to 0');
+  });
+
+  it('refuses options the existing variants no longer fit', async () => {
+    await expect(setProductOptions(product, [{ name: 'Color', values: ['Blue'] }])).rejects.toThrow('Black / 128GB');
+    await setProductOptions(product, [{ name: 'Color', values: ['Black', 'Blue', 'Silver'] }, { name: 'Storage', values: ['128GB'] }]);
+    expect(storage.setProductOptions).toHaveBeenCalled();
+  });
+
+  it('requires an active variant of the product for a listing sold in variants', async () => {
+    await expect(resolveVariant(product)).rejects.toThrow('Choose the options of iPhone 15');
+    await expect(resolveVariant({ ...product, id: 'p2' }, 'v1')).rejects.toThrow('not available');
+    variants[0].isActive = false;
+    await expect(resolveVariant(product, 'v1')).rejects.toThrow('not available');
+
+    variants.length = 0;
+    expect(await resolveVariant(product)).toBeUndefined();
+  });
+
+  it('prices and names a variant line by the variant', async () => {
+    const variant = await resolveVariant(product, 'v1');
+    expect(toOrderItem({ ...product, price: '280.00' }, 2, variant)).toMatchObject({
+      productId: 'p1',
+      variantId: 'v1',
+      name: 'iPhone 15 (Black / 128GB)',
+      options: { Color: 'Black', Storage: '128GB' },
+      price: 300,
+      total: 600,
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { orders, warranties, claims } = vi.hoisted(() => ({
+  orders: new Map<string, any>(),
+  warranties: [] as any[],
+  claims: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getOrder: vi.fn(async (id: string) => orders.get(id)),
+    getSubOrders: vi.fn(async (id: string) => Array.from(orders.values()).filter((o) => o.parentOrderId === id)),
+    getWarranties: vi.fn(async (filters: any) => warranties.filter((w) => w.orderId === filters.orderId)),
+    getWarranty: vi.fn(async (id: string) => warranties.find((w) => w.id === id)),
+    createWarranties: vi.fn(async (rows: any[]) => rows.map((row, index) => ({ id: `w${index + 1}`, voidedAt: null, ...row }))),
+    updateWarranty: vi.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    getWarrantyClaims: vi.fn(async (filters: any) =>
+      claims.filter((c) => c.warrantyId === filters.warrantyId && c.status === filters.status)),
+    createWarrantyClaim: vi.fn(async (data: any) => ({ id: 'wc1', status: 'submitted', ...data })),
+    resolveWarrantyClaim: vi.fn(async (id: string, updates: any) => ({ ...Object.assign(claims.find((c) => c.id === id), updates) })),
+    updateWarrantyClaim: vi.fn(async (id: string, updates: any) => ({ ...claims.find((c) => c.id === id), ...updates })),
+    getPaymentsByOrderId: vi.fn(async () => [{ id: 'pay1', status: 'completed', amount: '330.00' }]),
+    getProduct: vi.fn(async (id: string) => ({ id, brand: 'Apple', stock: 3 })),
+    getUser: vi.fn(),
+    placeOrder: vi.fn(async (order: any) => ({
+      order: { id: 'replacement-0001', ...order, items: order.items.map((item: any) => ({ ...item, units: [{ id: 'u9', imei1: '356938035643809' }] })) },
+      subOrders: [],
+    })),
+    createRepairTicket: vi.fn(async (data: any) => ({ id: 'rt-0000beef', ...data })),
+    debitLoyaltyPoints: vi.fn(),
+    createNotification: vi.fn(),
+  },
+}));
+
+vi.mock('../payments', () => ({ refundPayment: vi.fn() }));
+vi.mock('../ledger', () => ({ recordRefund: vi.fn() }));
+
+import { storage } from '../storage';
+import { refundPayment } from '../payments';
+import { recordRefund } from '../ledger';
+import { fileWarrantyClaim, registerWarranties, resolveWarrantyClaim, warrantyExpiry } from '../warranties';
+import { WarrantyError } from '../errors';
+
+const phone = { months: 12, provider: 'seller' };
+const line = (extra: Record<string, unknown> = {}) => ({
+  productId: 'p1', name: 'iPhone 15', quantity: 1, price: 330, total: 330, sellerId: 's1', warranty: phone, ...extra,
+});
+const order = (extra: Record<string, unknown> = {}) => {
+  const created = { id: 'order-00000001', customerId: 'c1', sellerId: 's1', parentOrderId: null, isPosOrder: false, status: 'delivered', items: [line()], ...extra };
+  orders.set(created.id, created);
+  return created as any;
+};
+const inForce = {
+  id: 'w1', orderId: 'order-00000001', productId: 'p1', sellerId: 's1', customerId: 'c1', productName: 'iPhone 15',
+  unitId: 'u1', imei: '490154203237518', voidedAt: null, expiresAt: new Date(Date.now() + 86_400_000),
+} as any;
+const open = { id: 'wc1', warrantyId: 'w1', orderId: 'order-00000001', sellerId: 's1', customerId: 'c1', description: 'Will not charge', status: 'submitted' } as any;
+
+describe('warranties', () => {
+  beforeEach(() => {
+    orders.clear();
+    warranties.length = 0;
+    claims.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it('adds whole months to the start date', () => {
+    expect(warrantyExpiry(new Date(2025, 0, 15), 12)).toEqual(new Date(2026, 0, 15));
+  });
+
+  it('registers one warranty per item sold with terms, and only once', async () => {
+    const units = [{ id: 'u1', imei1: '490154203237518' }, { id: 'u2', imei1: '356938035643809' }];
+    const delivered = order({
+      items: [line({ quantity: 2, total: 660, units }), line({ productId: 'case', warranty: undefined }), line({ replacesWarrantyId: 'w0' })],
+    });
+
+    const registered = await registerWarranties(delivered);
+    expect(registered).toHaveLength(2);
+    expect(registered[1]).toMatchObject({ orderId: delivered.id, customerId: 'c1', unitId: 'u2', imei: '356938035643809', months: 12 });
+
+    warranties.push(...registered);
+    await registerWarranties(delivered);
+    expect(storage.createWarranties).toHaveBeenCalledTimes(1);
+  });
+
+  it('registers walk-in POS sales without a customer account', async () => {
+    const [warranty] = await registerWarranties(order({ isPosOrder: true, customerId: 'seller-user' }));
+    expect(warranty.customerId).toBeNull();
+  });
+
+  it('only takes claims on warranties in force, one open claim at a time', async () => {
+    const input = { description: 'Will not charge', photos: ['/uploads/port.jpg'] };
+    const claim = await fileWarrantyClaim(inForce, 'c1', input);
+    expect(claim).toMatchObject({ orderId: 'order-00000001', sellerId: 's1', customerId: 'c1', filedBy: 'c1' });
+    expect(storage.createNotification).toHaveBeenCalledWith(expect.objectContaining({ sellerId: 's1', type: 'warranty_claim' }));
+
+    await expect(fileWarrantyClaim({ ...inForce, expiresAt: new Date(Date.now() - 1000) }, 'c1', input)).rejects.toThrow('expired');
+    await expect(fileWarrantyClaim({ ...inForce, voidedAt: new Date() }, 'c1', input)).rejects.toBeInstanceOf(WarrantyError);
+    claims.push({ ...open });
+    await expect(fileWarrantyClaim(inForce, 'c1', input)).rejects.toThrow('already open');
+  });
+
+  it('refunds what was paid for the item on the original order and voids the warranty', async () => {
+    order({ items: [line({ quantity: 2, total: 600, discount: 60 })] });
+    warranties.push(inForce);
+    claims.push({ ...open });
+
+    const resolved = await resolveWarrantyClaim(open, 'u-seller', { outcome: 'refund' });
+    expect(refundPayment).toHaveBeenCalledWith(expect.objectContaining({ id: 'pay1' }), 300, 'Warranty claim wc1');
+    expect(recordRefund).toHaveBeenCalledWith(expect.objectContaining({ id: 'order-00000001' }), 300, 'Warranty claim wc1');
+    expect(storage.updateWarranty).toHaveBeenCalledWith('w1', { voidedAt: expect.any(Date) });
+    expect(resolved).toMatchObject({ status: 'resolved', outcome: 'refund', refundAmount: '300.00', paymentId: 'pay1' });
+  });
+
+  it('sends a free replacement and moves the warranty to the new handset', async () => {
+    order();
+    warranties.push(inForce);
+    claims.push({ ...open });
+
+    const resolved = await resolveWarrantyClaim(open, 'u-seller', { outcome: 'replace' });
+    expect(storage.placeOrder).toHaveBeenCalledWith(expect.objectContaining({
+      customerId: 'c1', total: '0', status: 'processing',
+      items: [expect.objectContaining({ productId: 'p1', quantity: 1, total: 0, replacesWarrantyId: 'w1' })],
+    }));
+    expect(storage.updateWarranty).toHaveBeenCalledWith('w1', { unitId: 'u9', imei: '356938035643809' });
+    expect(resolved.replacementOrderId).toBe('replacement-0001');
+    expect(refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('books a warranty repair in at no charge, and settles a claim only once', async () => {
+    order();
+    warranties.push(inForce);
+    claims.push({ ...open });
+
+    const resolved = await resolveWarrantyClaim(open, 'u-seller', { outcome: 'repair' });
+    expect(storage.createRepairTicket).toHaveBeenCalledWith(expect.objectContaining({
+      sellerId: 's1', customerId: 'c1', imei: inForce.imei, quotedAmount: '0.00', status: 'approved',
+    }));
+    expect(resolved.repairTicketId).toBe('rt-0000beef');
+
+    vi.mocked(storage.resolveWarrantyClaim).mockResolvedValueOnce(undefined);
+    await expect(resolveWarrantyClaim(open, 'u-seller', { outcome: 'repair' })).rejects.toThrow('already been resolved');
+  });
+});
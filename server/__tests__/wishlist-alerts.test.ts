@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { items, notifications } = vi.hoisted(() => ({
+  items: new Map<string, any>(),
+  notifications: [] as any[],
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    getWatchedWishlistItems: vi.fn(async () => Array.from(items.values())),
+    updateWishlistItem: vi.fn(async (id: string, updates: any) => {
+      const item = { ...items.get(id), ...updates };
+      items.set(id, item);
+      return item;
+    }),
+    createNotification: vi.fn(async (notification: any) => {
+      notifications.push(notification);
+      return notification;
+    }),
+  },
+}));
+
+import { evaluateWishlistAlerts } from '../wishlist-alerts';
+
+describe('wishlist alerts', () => {
+  const product = { id: 'p1', name: 'Phone', price: '100.00', stock: 3 };
+
+  beforeEach(() => {
+    items.clear();
+    notifications.length = 0;
+    items.set('w1', {
+      id: 'w1',
+      userId: 'u1',
+      productId: 'p1',
+      savedPrice: '100.00',
+      lastAlertedPrice: null,
+      lastKnownStock: 3,
+      product,
+    });
+  });
+
+  it('notifies once per price drop below the saved price', async () => {
+    expect(await evaluateWishlistAlerts()).toBe(0);
+
+    items.get('w1').product = { ...product, price: '90.00' };
+    expect(await evaluateWishlistAlerts()).toBe(1);
+    expect(notifications[0]).toMatchObject({ type: 'price_drop', userId: 'u1', relatedId: 'p1' });
+
+    // Same price again: nothing new to say
+    expect(await evaluateWishlistAlerts()).toBe(0);
+
+    items.get('w1').product = { ...product, price: '85.00' };
+    expect(await evaluateWishlistAlerts()).toBe(1);
+    expect(items.get('w1').lastAlertedPrice).toBe('85.00');
+  });
+
+  it('notifies when an out-of-stock item is restocked', async () => {
+    items.get('w1').product = { ...product, stock: 0 };
+    expect(await evaluateWishlistAlerts()).toBe(0);
+    expect(items.get('w1').lastKnownStock).toBe(0);
+
+    items.get('w1').product = { ...product, stock: 5 };
+    expect(await evaluateWishlistAlerts()).toBe(1);
+    expect(notifications[0]).toMatchObject({ type: 'back_in_stock', userId: 'u1' });
+    expect(items.get('w1').lastKnownStock).toBe(5);
+
+    expect(await evaluateWishlistAlerts()).toBe(0);
+  });
+});
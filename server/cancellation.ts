@@ -0,0 +1,57 @@
+import type { Order } from "@shared/schema";
+import { storage } from "./storage";
+import { transitionOrder, type OrderActor } from "./order-status";
+import { refundPayment } from "./payments";
+import { recordRefund } from "./ledger";
+
+// Cancel an order (or a whole multi-vendor checkout): put its items back in
+// stock, give back the promotion code it used, void or refund the payment and
+// take back the loyalty points it earned.
+export async function cancelOrder(order: Order, actor: OrderActor, reason: string): Promise<Order> {
+  const subOrders = await storage.getSubOrders(order.id);
+  const sellerOrders = (subOrders.length > 0 ? subOrders : [order]).filter(
+    (sellerOrder) => sellerOrder.status !== "cancelled",
+  );
+
+  const cancelled = await transitionOrder(order, "cancelled", actor, reason);
+  const cancelledIds = new Set([order.id, ...sellerOrders.map((sellerOrder) => sellerOrder.id)]);
+  for (const id of Array.from(cancelledIds)) {
+    await storage.updateOrder(id, { cancellationReason: reason });
+  }
+
+  // Multi-vendor checkouts are paid once, on the parent order, and a promotion
+  // code is redeemed there too; the code is only given back with the whole checkout
+  const paymentOrderId = order.parentOrderId ?? order.id;
+  const paymentOrder = order.parentOrderId ? await storage.getOrder(order.parentOrderId) : cancelled;
+  const wholeCheckoutCancelled = paymentOrder?.status === "cancelled";
+  const cancelledTotal = sellerOrders.reduce((sum, sellerOrder) => sum + parseFloat(sellerOrder.total), 0);
+
+  await storage.releaseCancelledOrders(sellerOrders, reason, wholeCheckoutCancelled ? paymentOrderId : undefined);
+
+  for (const payment of await storage.getPaymentsByOrderId(paymentOrderId)) {
+    if (payment.status === "pending" && wholeCheckoutCancelled) {
+      await storage.updatePayment(payment.id, {
+        status: "failed",
+        metadata: {
+          ...((payment.metadata as Record<string, any>) || {}),
+          voided: true,
+          voidReason: reason,
+        },
+      });
+    } else if (payment.status === "completed") {
+      const alreadyRefunded = Number(((payment.metadata as Record<string, any>) || {}).refundedAmount || 0);
+      const amount = wholeCheckoutCancelled ? parseFloat(payment.amount) - alreadyRefunded : cancelledTotal;
+      await refundPayment(payment, amount, reason);
+      await storage.debitLoyaltyPoints(
+        order.customerId,
+        Math.floor(amount),
+        `Order #${paymentOrderId.slice(-8)} cancelled`,
+      );
+      for (const sellerOrder of sellerOrders) {
+        await recordRefund(sellerOrder, parseFloat(sellerOrder.total), `Order #${sellerOrder.id.slice(-8)} cancelled`);
+      }
+    }
+  }
+
+  return (await storage.getOrder(order.id))!;
+}
@@ -0,0 +1,42 @@
+import type { OrderItem, Product, ProductVariant } from "@shared/schema";
+import { variantLabel } from "./variants";
+
+export interface SellerGroup {
+  sellerId: string;
+  items: OrderItem[];
+  total: number;
+}
+
+// A variant sells at its own price, named after its options
+export function toOrderItem(product: Product, quantity: number, variant?: ProductVariant): OrderItem {
+  const price = parseFloat(variant?.price ?? product.price);
+  return {
+    productId: product.id,
+    name: variant ? `${product.name} (${variantLabel(variant.options)})` : product.name,
+    category: product.category,
+    brand: product.brand ?? undefined,
+    quantity,
+    price,
+    total: price * quantity,
+    sellerId: product.sellerId,
+    ...(variant ? { variantId: variant.id, options: variant.options } : {}),
+    ...(product.warrantyMonths > 0
+      ? { warranty: { months: product.warrantyMonths, provider: product.warrantyProvider } }
+      : {}),
+  };
+}
+
+// Group checkout lines by seller, keeping the order sellers first appear in
+export function groupItemsBySeller(items: OrderItem[]): SellerGroup[] {
+  const groups = new Map<string, SellerGroup>();
+  for (const item of items) {
+    let group = groups.get(item.sellerId);
+    if (!group) {
+      group = { sellerId: item.sellerId, items: [], total: 0 };
+      groups.set(item.sellerId, group);
+    }
+    group.items.push(item);
+    group.total += item.total;
+  }
+  return Array.from(groups.values());
+}
@@ -0,0 +1,95 @@
+import type { DeviceUnit, InsertDeviceUnit, OrderItem, Product, ShippingAddress } from "@shared/schema";
+import { storage } from "./storage";
+import { DeviceUnitError } from "./errors";
+
+// One sale of a unit, with whoever bought it
+export interface DeviceUnitSale {
+  orderId: string;
+  orderStatus: string;
+  isPosOrder: boolean;
+  soldAt: Date | null;
+  returned: boolean;
+  customer: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+}
+
+export interface DeviceUnitLookup {
+  unit: DeviceUnit;
+  product: Product;
+  sales: DeviceUnitSale[];
+}
+
+export function unitIdsOf(items: OrderItem[]): string[] {
+  return items.flatMap((item) => (item.units ?? []).map((unit) => unit.id));
+}
+
+// Add handsets to a product, rejecting any IMEI that is repeated in the batch or
+// already registered to another unit. Handsets of a product listed with
+// variants each belong to one of them.
+export async function addDeviceUnits(productId: string, units: InsertDeviceUnit[]): Promise<DeviceUnit[]> {
+  const variants = await storage.getProductVariants(productId);
+  const seen = new Set<string>();
+  for (const unit of units) {
+    if (variants.length > 0 && !variants.some((variant) => variant.id === unit.variantId)) {
+      throw new DeviceUnitError(`Choose the variant of unit ${unit.imei1}`);
+    }
+    if (variants.length === 0 && unit.variantId) {
+      throw new DeviceUnitError("This product has no variants");
+    }
+    for (const imei of [unit.imei1, unit.imei2]) {
+      if (!imei) continue;
+      if (seen.has(imei) || (await storage.findDeviceUnit(imei))) {
+        throw new DeviceUnitError(`IMEI ${imei} is already registered`);
+      }
+      seen.add(imei);
+    }
+  }
+  return await storage.addDeviceUnits(productId, units);
+}
+
+// Answer "who got this handset": the unit, its product and every order that
+// sold it, newest first. POS sales name the walk-in customer from the payment.
+export async function lookupDeviceUnit(identifier: string): Promise<DeviceUnitLookup | undefined> {
+  const unit = await storage.findDeviceUnit(identifier);
+  if (!unit) return undefined;
+  const product = await storage.getProduct(unit.productId);
+  if (!product) return undefined;
+
+  const sales: DeviceUnitSale[] = [];
+  for (const order of await storage.getDeviceUnitOrders(unit.id)) {
+    const returns = await storage.getReturnRequests({ orderId: order.id });
+    const returned = returns.some(
+      (returnRequest) =>
+        returnRequest.status === "approved" && unitIdsOf(returnRequest.items as OrderItem[]).includes(unit.id),
+    );
+
+    const user = await storage.getUser(order.customerId);
+    const address = order.shippingAddress as ShippingAddress | null;
+    let customer: DeviceUnitSale["customer"] = {
+      id: order.customerId,
+      name: address?.fullName ?? ([user?.firstName, user?.lastName].filter(Boolean).join(" ") || null),
+      email: user?.email ?? null,
+      phone: address?.phone ?? null,
+    };
+    if (order.isPosOrder) {
+      const [payment] = await storage.getPaymentsByOrderId(order.parentOrderId ?? order.id);
+      const metadata = (payment?.metadata as Record<string, any>) || {};
+      customer = { ...customer, name: metadata.customerName || null, email: null, phone: metadata.customerPhone || null };
+    }
+
+    sales.push({
+      orderId: order.id,
+      orderStatus: order.status,
+      isPosOrder: order.isPosOrder,
+      soldAt: order.createdAt,
+      returned,
+      customer,
+    });
+  }
+
+  return { unit, product, sales };
+}
@@ -0,0 +1,136 @@
+export interface StockShortage {
+  productId: string;
+  name: string;
+  available: number;
+  requested: number;
+}
+
+// Thrown when a stock change would take one or more products below zero
+export class InsufficientStockError extends Error {
+  constructor(public readonly items: StockShortage[]) {
+    super(
+      items
+        .map((item) => `Insufficient stock for ${item.name}. Available: ${item.available}, Requested: ${item.requested}`)
+        .join("; "),
+    );
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Thrown when a return request cannot be opened or moved to the requested status
+export class ReturnRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnRequestError";
+  }
+}
+
+// Thrown when an order status change is not allowed. statusCode is 403 when the
+// caller's role may not make the change and 409 when the order's current status
+// does not allow it.
+export class OrderTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 403 | 409 = 409,
+  ) {
+    super(message);
+    this.name = "OrderTransitionError";
+  }
+}
+
+// Thrown when a shipment cannot be created or updated for an order
+export class ShipmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShipmentError";
+  }
+}
+
+// Thrown when a payment cannot be taken for an order. statusCode is 409 when
+// the order already has a payment under way or taken.
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 400 | 409 = 400,
+  ) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+// Thrown when a promotion code cannot be applied to a basket
+export class PromotionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromotionError";
+  }
+}
+
+// Thrown when a ledger posting does not balance or a payout batch cannot be
+// created or settled
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+// Thrown when a serialized unit cannot be added, removed or sold
+export class DeviceUnitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeviceUnitError";
+  }
+}
+
+// Thrown when a trade-in cannot be quoted, resolved or listed
+export class TradeInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TradeInError";
+  }
+}
+
+// Thrown when a repair ticket cannot move to the requested status, use a part
+// or be billed
+export class RepairTicketError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RepairTicketError";
+  }
+}
+
+// Thrown when a warranty claim cannot be filed or resolved
+export class WarrantyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WarrantyError";
+  }
+}
+
+// Thrown when a product's options or variants cannot be changed, or a sale or
+// stock change does not name a valid variant
+export class ProductVariantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductVariantError";
+  }
+}
+
+// Thrown when a product's specifications do not fit its category, or products
+// cannot be compared
+export class ProductSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductSpecError";
+  }
+}
+
+// Thrown when a product sheet cannot be read: an unsupported format, unknown
+// columns or too many rows. Problems with single rows are reported per row.
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductImportError";
+  }
+}
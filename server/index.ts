@@ -4,6 +4,11 @@ import { setupVite, serveStatic, log } from "./vite";
 import { Server as SocketIOServer } from "socket.io";
 import jwt from "jsonwebtoken";
 import type { AuthenticatedUser } from "./types";
+import { startCarrierPolling } from "./shipping";
+import { startWishlistAlerts } from "./wishlist-alerts";
+import { startSearchTermsRefresh } from "./search";
+import { startJobWorker } from "./jobs";
+import { ADMIN_ROOM, setNotificationEmitter } from "./notifications";
 
 const JWT_SECRET = process.env.JWT_SECRET || "";
 
@@ -46,6 +51,7 @@ app.use((req, res, next) => {
 
   const io = new SocketIOServer(server, { cors: { origin: "*" } });
   app.set("io", io);
+  setNotificationEmitter(io);
 
   io.use((socket, next) => {
     const token = socket.handshake.auth?.token;
@@ -60,6 +66,7 @@ app.use((req, res, next) => {
   io.on("connection", (socket) => {
     const user = socket.data.user as AuthenticatedUser;
     socket.join(user.userId);
+    if (user.userRole === "admin") socket.join(ADMIN_ROOM);
   });
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -90,5 +97,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startCarrierPolling();
+    startWishlistAlerts();
+    startSearchTermsRefresh();
+    startJobWorker();
   });
 })();
@@ -0,0 +1,74 @@
+// A five-field cron expression, read in server time:
+// minute hour day-of-month month day-of-week. Each field is *, a number, a
+// range a-b or a comma list of those, with an optional /step.
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // As in cron, when both day fields are restricted a date matching either runs
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7], // 0 and 7 are both Sunday
+];
+
+function parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end = match[1] === "*" ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}"`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELD_RANGES[i], expression));
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    expression,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+// Whether the schedule runs in the minute of the given time
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (
+    !schedule.minutes.has(date.getMinutes()) ||
+    !schedule.hours.has(date.getHours()) ||
+    !schedule.months.has(date.getMonth() + 1)
+  ) {
+    return false;
+  }
+  const dayMatches = schedule.days.has(date.getDate());
+  const weekdayMatches = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay || schedule.anyWeekday) return dayMatches && weekdayMatches;
+  return dayMatches || weekdayMatches;
+}
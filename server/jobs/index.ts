@@ -0,0 +1,252 @@
+import { randomUUID } from "crypto";
+import { createClient as createRedisClient } from "redis";
+import type { DeadLetterJob, Job, JobOverview, JobStatus } from "@shared/schema";
+import { storage } from "../storage";
+import { cronMatches, parseCron, type CronSchedule } from "./cron";
+import { PostgresJobBackend } from "./postgres";
+import { RedisJobBackend } from "./redis";
+import type { JobBackend } from "./types";
+
+export type { JobBackend, NewJob } from "./types";
+export { PostgresJobBackend } from "./postgres";
+export { RedisJobBackend } from "./redis";
+export { cronMatches, parseCron } from "./cron";
+
+export type JobHandler<P> = (payload: P, job: Job) => Promise<unknown>;
+
+export interface JobOptions {
+  maxAttempts?: number;
+  // Delay before the first retry; each further retry waits twice as long
+  backoffMs?: number;
+}
+
+interface JobDefinition {
+  handler: JobHandler<any>;
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// A job still running after this long is taken to have lost its worker
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || "900000", 10);
+// Completed jobs are kept this long for the admin view
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const definitions = new Map<string, JobDefinition>();
+const schedules = new Map<string, { schedule: CronSchedule; payload: Record<string, unknown> }>();
+
+// Register the code that runs jobs of a name
+export function defineJob<P extends Record<string, unknown>>(name: string, handler: JobHandler<P>, options: JobOptions = {}) {
+  definitions.set(name, {
+    handler,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    backoffMs: options.backoffMs ?? DEFAULT_BACKOFF_MS,
+  });
+}
+
+// Queue a job of the name every minute the cron expression matches
+export function scheduleJob(name: string, cron: string, payload: Record<string, unknown> = {}) {
+  schedules.set(name, { schedule: parseCron(cron), payload });
+}
+
+// In inline mode, used under test, a job runs to the end inside enqueueJob.
+// JOB_MODE=inline or JOB_MODE=queue picks a mode explicitly.
+export function jobMode(): "inline" | "queue" {
+  if (process.env.JOB_MODE === "inline" || process.env.JOB_MODE === "queue") return process.env.JOB_MODE;
+  return process.env.NODE_ENV === "test" ? "inline" : "queue";
+}
+
+let backendPromise: Promise<JobBackend> | undefined;
+
+// Redis when REDIS_URL is set, as for sessions, otherwise the jobs table
+async function connectBackend(): Promise<JobBackend> {
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) return new PostgresJobBackend(LOCK_TIMEOUT_MS);
+
+  const client = createRedisClient({
+    url: redisUrl,
+    username: process.env.REDIS_USERNAME,
+    password: process.env.REDIS_PASSWORD,
+  });
+  client.on("error", (err) => console.error("Redis Client Error", err));
+  await client.connect();
+  return new RedisJobBackend(client, LOCK_TIMEOUT_MS);
+}
+
+export function getJobBackend(): Promise<JobBackend> {
+  backendPromise ??= connectBackend();
+  return backendPromise;
+}
+
+export function setJobBackend(backend: JobBackend) {
+  backendPromise = Promise.resolve(backend);
+}
+
+function definitionOf(name: string): JobDefinition {
+  const definition = definitions.get(name);
+  if (!definition) {
+    throw new Error(`Job "${name}" is not defined`);
+  }
+  return definition;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export function retryDelay(backoffMs: number, attempts: number): number {
+  return Math.min(backoffMs * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+// Run a job in the caller, retrying at once until its attempts are used up
+async function runInline(name: string, payload: Record<string, unknown>, definition: JobDefinition): Promise<Job> {
+  const now = new Date();
+  const job: Job = {
+    id: randomUUID(),
+    name,
+    payload,
+    status: "running",
+    attempts: 0,
+    maxAttempts: definition.maxAttempts,
+    runAt: now,
+    lockedAt: now,
+    lastError: null,
+    dedupeKey: null,
+    createdAt: now,
+    completedAt: null,
+  };
+  while (job.attempts < job.maxAttempts) {
+    job.attempts++;
+    try {
+      await definition.handler(payload, job);
+      return { ...job, status: "completed", lockedAt: null, completedAt: new Date() };
+    } catch (error) {
+      job.lastError = errorMessage(error);
+    }
+  }
+  console.error(`Job ${name} (${job.id}) failed: ${job.lastError}`);
+  return { ...job, status: "failed", lockedAt: null, completedAt: new Date() };
+}
+
+// Queue a job to run as soon as a worker is free, or at runAt. Returns null
+// when a job with the same dedupeKey is already queued.
+export async function enqueueJob(
+  name: string,
+  payload: Record<string, unknown> = {},
+  options: { runAt?: Date; dedupeKey?: string } = {},
+): Promise<Job | null> {
+  const definition = definitionOf(name);
+  if (jobMode() === "inline") {
+    return await runInline(name, payload, definition);
+  }
+  const backend = await getJobBackend();
+  return await backend.enqueue({
+    name,
+    payload,
+    runAt: options.runAt ?? new Date(),
+    maxAttempts: definition.maxAttempts,
+    dedupeKey: options.dedupeKey,
+  });
+}
+
+// Run one claimed job. A failed attempt is retried with exponential backoff;
+// once the attempts are used up the job fails and goes to the dead-letter table.
+export async function runClaimedJob(backend: JobBackend, job: Job): Promise<Job> {
+  const definition = definitions.get(job.name);
+  try {
+    await definitionOf(job.name).handler(job.payload, job);
+    return await backend.complete(job);
+  } catch (error) {
+    const message = errorMessage(error);
+    if (definition && job.attempts < job.maxAttempts) {
+      const runAt = new Date(Date.now() + retryDelay(definition.backoffMs, job.attempts));
+      return await backend.retry(job, runAt, message);
+    }
+    console.error(`Job ${job.name} (${job.id}) failed:`, error);
+    await storage.createDeadLetterJob({
+      jobId: job.id,
+      name: job.name,
+      payload: job.payload,
+      attempts: job.attempts,
+      error: message,
+    });
+    return await backend.fail(job, message);
+  }
+}
+
+// Run due jobs one after another until none are left or the limit is reached
+export async function runDueJobs(limit = 20): Promise<number> {
+  const backend = await getJobBackend();
+  let run = 0;
+  while (run < limit) {
+    const job = await backend.claim();
+    if (!job) break;
+    await runClaimedJob(backend, job);
+    run++;
+  }
+  return run;
+}
+
+// Queue the scheduled jobs due in the minute of the given time. The dedupe key
+// keeps each run to one job however many servers are scheduling.
+export async function enqueueScheduledJobs(now = new Date()): Promise<number> {
+  const minute = new Date(now);
+  minute.setSeconds(0, 0);
+  let queued = 0;
+  for (const [name, { schedule, payload }] of Array.from(schedules.entries())) {
+    if (!cronMatches(schedule, minute)) continue;
+    if (await enqueueJob(name, payload, { dedupeKey: `${name}@${minute.toISOString()}` })) queued++;
+  }
+  return queued;
+}
+
+// A dead job goes back to the queue with fresh attempts
+export async function retryDeadLetterJob(entry: DeadLetterJob): Promise<Job | null> {
+  const job = await enqueueJob(entry.name, entry.payload);
+  await storage.deleteDeadLetterJob(entry.id);
+  return job;
+}
+
+export async function getJobOverview(status: JobStatus | undefined, limit = 50): Promise<JobOverview> {
+  const backend = await getJobBackend();
+  return {
+    backend: backend.name,
+    mode: jobMode(),
+    counts: await backend.counts(),
+    jobs: await backend.list(status, limit),
+    schedules: Array.from(schedules.entries()).map(([name, { schedule }]) => ({ name, cron: schedule.expression })),
+  };
+}
+
+defineJob("prune-jobs", async () => {
+  const backend = await getJobBackend();
+  await backend.prune(new Date(Date.now() - COMPLETED_RETENTION_MS));
+});
+scheduleJob("prune-jobs", "30 3 * * *");
+
+// Queue scheduled jobs and run due ones in the background, one at a time
+export function startJobWorker(intervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || "5000", 10)) {
+  let lastMinute = -1;
+  let busy = false;
+  const timer = setInterval(() => {
+    // A long job holds the worker; the next tick picks up where it left off
+    if (busy) return;
+    busy = true;
+    (async () => {
+      const minute = Math.floor(Date.now() / 60000);
+      if (minute !== lastMinute) {
+        lastMinute = minute;
+        await enqueueScheduledJobs();
+      }
+      if (jobMode() === "queue") {
+        await runDueJobs();
+      }
+    })()
+      .catch((error) => console.error("Job worker error:", error))
+      .finally(() => {
+        busy = false;
+      });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,43 @@
+import type { Job, JobStatus } from "@shared/schema";
+import { storage } from "../storage";
+import type { JobBackend, NewJob } from "./types";
+
+// Jobs as rows of the jobs table, claimed with FOR UPDATE SKIP LOCKED so any
+// number of workers can share the queue
+export class PostgresJobBackend implements JobBackend {
+  readonly name = "postgres";
+
+  constructor(private readonly lockTimeoutMs: number) {}
+
+  async enqueue(job: NewJob): Promise<Job | null> {
+    return (await storage.createJob(job)) ?? null;
+  }
+
+  async claim(): Promise<Job | null> {
+    return (await storage.claimJob(new Date(Date.now() - this.lockTimeoutMs))) ?? null;
+  }
+
+  async complete(job: Job): Promise<Job> {
+    return await storage.updateJob(job.id, { status: "completed", lockedAt: null, completedAt: new Date() });
+  }
+
+  async retry(job: Job, runAt: Date, error: string): Promise<Job> {
+    return await storage.updateJob(job.id, { status: "queued", runAt, lockedAt: null, lastError: error });
+  }
+
+  async fail(job: Job, error: string): Promise<Job> {
+    return await storage.updateJob(job.id, { status: "failed", lockedAt: null, lastError: error, completedAt: new Date() });
+  }
+
+  async list(status: JobStatus | undefined, limit: number): Promise<Job[]> {
+    return await storage.getJobs(status, limit);
+  }
+
+  async counts(): Promise<Record<JobStatus, number>> {
+    return await storage.getJobCounts();
+  }
+
+  async prune(before: Date): Promise<number> {
+    return await storage.deleteCompletedJobs(before);
+  }
+}
@@ -0,0 +1,167 @@
+import { randomUUID } from "crypto";
+import type { createClient } from "redis";
+import type { Job, JobStatus } from "@shared/schema";
+import type { JobBackend, NewJob } from "./types";
+
+type RedisClient = ReturnType<typeof createClient>;
+
+const QUEUED = "jobs:queued"; // job ids scored by runAt
+const RUNNING = "jobs:running"; // job ids scored by lockedAt
+const RECENT = "jobs:recent"; // job ids, newest first, for the admin view
+const RECENT_LIMIT = 1000;
+// Finished jobs are kept this long; a dedupe key as long as a scheduled run matters
+const FINISHED_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEDUPE_TTL_SECONDS = 24 * 60 * 60;
+
+const jobKey = (id: string) => `jobs:job:${id}`;
+
+function parseJob(raw: string): Job {
+  const job = JSON.parse(raw);
+  for (const field of ["runAt", "lockedAt", "createdAt", "completedAt"] as const) {
+    if (job[field]) job[field] = new Date(job[field]);
+  }
+  return job as Job;
+}
+
+// Jobs as JSON under jobs:job:<id>, with sorted sets of the queued and
+// running ids. A worker owns a job once it removes the id from its set.
+export class RedisJobBackend implements JobBackend {
+  readonly name = "redis";
+
+  constructor(
+    private readonly client: RedisClient,
+    private readonly lockTimeoutMs: number,
+  ) {}
+
+  private async load(id: string): Promise<Job | null> {
+    const raw = await this.client.get(jobKey(id));
+    return raw ? parseJob(raw) : null;
+  }
+
+  async enqueue(newJob: NewJob): Promise<Job | null> {
+    const job: Job = {
+      id: randomUUID(),
+      name: newJob.name,
+      payload: newJob.payload,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: newJob.maxAttempts,
+      runAt: newJob.runAt,
+      lockedAt: null,
+      lastError: null,
+      dedupeKey: newJob.dedupeKey ?? null,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    if (newJob.dedupeKey) {
+      const set = await this.client.set(`jobs:dedupe:${newJob.dedupeKey}`, job.id, {
+        condition: "NX",
+        expiration: { type: "EX", value: DEDUPE_TTL_SECONDS },
+      });
+      if (set === null) return null;
+    }
+
+    await this.client
+      .multi()
+      .set(jobKey(job.id), JSON.stringify(job))
+      .zAdd(QUEUED, { score: job.runAt.getTime(), value: job.id })
+      .lPush(RECENT, job.id)
+      .lTrim(RECENT, 0, RECENT_LIMIT - 1)
+      .exec();
+    return job;
+  }
+
+  async claim(): Promise<Job | null> {
+    const now = Date.now();
+    const sources: [string, number][] = [
+      [QUEUED, now],
+      [RUNNING, now - this.lockTimeoutMs],
+    ];
+    for (const [set, maxScore] of sources) {
+      const ids = await this.client.zRangeByScore(set, "-inf", maxScore, { LIMIT: { offset: 0, count: 10 } });
+      for (const id of ids) {
+        // Another worker took it first
+        if ((await this.client.zRem(set, id)) === 0) continue;
+        const job = await this.load(id);
+        if (!job) continue;
+
+        const claimed: Job = { ...job, status: "running", lockedAt: new Date(now), attempts: job.attempts + 1 };
+        await this.client
+          .multi()
+          .set(jobKey(id), JSON.stringify(claimed))
+          .zAdd(RUNNING, { score: now, value: id })
+          .exec();
+        return claimed;
+      }
+    }
+    return null;
+  }
+
+  private async finish(job: Job, updates: Partial<Job>): Promise<Job> {
+    const finished: Job = { ...job, ...updates, lockedAt: null, completedAt: new Date() };
+    await this.client
+      .multi()
+      .zRem(RUNNING, job.id)
+      .set(jobKey(job.id), JSON.stringify(finished), { expiration: { type: "EX", value: FINISHED_TTL_SECONDS } })
+      .exec();
+    return finished;
+  }
+
+  async complete(job: Job): Promise<Job> {
+    return await this.finish(job, { status: "completed" });
+  }
+
+  async retry(job: Job, runAt: Date, error: string): Promise<Job> {
+    const queued: Job = { ...job, status: "queued", runAt, lockedAt: null, lastError: error };
+    await this.client
+      .multi()
+      .zRem(RUNNING, job.id)
+      .set(jobKey(job.id), JSON.stringify(queued))
+      .zAdd(QUEUED, { score: runAt.getTime(), value: job.id })
+      .exec();
+    return queued;
+  }
+
+  async fail(job: Job, error: string): Promise<Job> {
+    return await this.finish(job, { status: "failed", lastError: error });
+  }
+
+  private async recent(): Promise<Job[]> {
+    const ids = await this.client.lRange(RECENT, 0, RECENT_LIMIT - 1);
+    if (ids.length === 0) return [];
+    const raws = await this.client.mGet(ids.map(jobKey));
+    return raws.flatMap((raw) => (raw ? [parseJob(raw)] : []));
+  }
+
+  async list(status: JobStatus | undefined, limit: number): Promise<Job[]> {
+    const jobs = await this.recent();
+    return jobs.filter((job) => !status || job.status === status).slice(0, limit);
+  }
+
+  async counts(): Promise<Record<JobStatus, number>> {
+    const counts: Record<JobStatus, number> = {
+      queued: await this.client.zCard(QUEUED),
+      running: await this.client.zCard(RUNNING),
+      completed: 0,
+      failed: 0,
+    };
+    for (const job of await this.recent()) {
+      if (job.status === "completed" || job.status === "failed") counts[job.status]++;
+    }
+    return counts;
+  }
+
+  // Finished jobs expire by themselves; this drops the completed ones sooner
+  // and the ids of expired jobs from the recent list
+  async prune(before: Date): Promise<number> {
+    const ids = await this.client.lRange(RECENT, 0, -1);
+    let pruned = 0;
+    for (const id of ids) {
+      const job = await this.load(id);
+      if (job && !(job.status === "completed" && job.completedAt && job.completedAt < before)) continue;
+      await this.client.multi().del(jobKey(id)).lRem(RECENT, 0, id).exec();
+      if (job) pruned++;
+    }
+    return pruned;
+  }
+}
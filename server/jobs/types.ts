@@ -0,0 +1,30 @@
+import type { Job, JobStatus } from "@shared/schema";
+
+export interface NewJob {
+  name: string;
+  payload: Record<string, unknown>;
+  runAt: Date;
+  maxAttempts: number;
+  // Only one job is ever queued per key, e.g. one run of a schedule per minute
+  dedupeKey?: string;
+}
+
+// Where queued jobs are kept between runs. Whatever the backend, jobs that use
+// up their attempts are also copied to the dead_letter_jobs table.
+export interface JobBackend {
+  readonly name: string;
+  // Returns null when a job with the same dedupeKey was already queued
+  enqueue(job: NewJob): Promise<Job | null>;
+  // Take the next due job for this worker and count the attempt. A job left
+  // running past the lock timeout is taken again.
+  claim(): Promise<Job | null>;
+  complete(job: Job): Promise<Job>;
+  // Queue a failed attempt to run again at runAt
+  retry(job: Job, runAt: Date, error: string): Promise<Job>;
+  fail(job: Job, error: string): Promise<Job>;
+  // Newest first
+  list(status: JobStatus | undefined, limit: number): Promise<Job[]>;
+  counts(): Promise<Record<JobStatus, number>>;
+  // Forget completed jobs that finished before the given time
+  prune(before: Date): Promise<number>;
+}
@@ -0,0 +1,118 @@
+import type { CommissionRate, LedgerEntry, Order, OrderItem } from "@shared/schema";
+import { storage, type LedgerPosting } from "./storage";
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// The most specific rate wins: seller + category, seller, category, then the
+// global default. Without any rate the platform takes no commission.
+export function findCommissionRate(rates: CommissionRate[], sellerId: string, category?: string): number {
+  const key = category?.toLowerCase() ?? null;
+  const scopes: [string | null, string | null][] = [[sellerId, key], [sellerId, null], [null, key], [null, null]];
+  for (const [scopeSeller, scopeCategory] of scopes) {
+    const match = rates.find(
+      (rate) => rate.sellerId === scopeSeller && (rate.category?.toLowerCase() ?? null) === scopeCategory,
+    );
+    if (match) {
+      return parseFloat(match.rate);
+    }
+  }
+  return 0;
+}
+
+// Commission is taken on what the seller sold, not on the tax collected with it
+export function commissionFor(order: Order, rates: CommissionRate[]): number {
+  const items = order.items as OrderItem[];
+  return roundAmount(
+    items.reduce((sum, item) => {
+      const rate = findCommissionRate(rates, order.sellerId!, item.category);
+      return sum + ((item.total - (item.tax ?? 0)) * rate) / 100;
+    }, 0),
+  );
+}
+
+const sumOf = (entries: LedgerEntry[], amount: (entry: LedgerEntry) => number) =>
+  roundAmount(entries.reduce((sum, entry) => sum + amount(entry), 0));
+
+// Credit each seller with a paid order less the platform's commission.
+// Multi-vendor checkouts are recorded per sub-order. Safe to call twice.
+export async function recordSale(order: Order): Promise<void> {
+  const subOrders = await storage.getSubOrders(order.id);
+  const rates = await storage.getCommissionRates();
+
+  for (const sellerOrder of subOrders.length > 0 ? subOrders : [order]) {
+    const sellerId = sellerOrder.sellerId;
+    if (!sellerId) continue;
+    const entries = await storage.getLedgerEntries({ orderId: sellerOrder.id });
+    if (entries.some((entry) => entry.type === "sale")) continue;
+
+    const gross = parseFloat(sellerOrder.total).toFixed(2);
+    const commission = commissionFor(sellerOrder, rates);
+    const base = { sellerId, orderId: sellerOrder.id, description: `Order #${sellerOrder.id.slice(-8)}` };
+    const postings: LedgerPosting[] = [
+      { ...base, type: "sale", account: "clearing", debit: gross },
+      { ...base, type: "sale", account: "seller_payable", credit: gross },
+    ];
+    if (commission > 0) {
+      postings.push(
+        { ...base, type: "commission", account: "seller_payable", debit: commission.toFixed(2) },
+        { ...base, type: "commission", account: "commission_revenue", credit: commission.toFixed(2) },
+      );
+    }
+    await storage.postLedgerTransaction(postings);
+  }
+}
+
+// Charge a refund on a seller order back to the seller, handing back the same
+// share of the commission. Orders that never recorded a sale are skipped, and
+// refunds are capped at what is left of the sale.
+export async function recordRefund(order: Order, amount: number, description: string): Promise<void> {
+  const sellerId = order.sellerId;
+  if (!sellerId) return;
+  const entries = await storage.getLedgerEntries({ orderId: order.id });
+  const sale = sumOf(entries.filter((entry) => entry.type === "sale" && entry.account === "seller_payable"),
+    (entry) => parseFloat(entry.credit));
+  if (sale <= 0) return;
+
+  const refunded = sumOf(entries.filter((entry) => entry.type === "refund" && entry.account === "clearing"),
+    (entry) => parseFloat(entry.credit));
+  const refund = roundAmount(Math.min(amount, sale - refunded));
+  if (refund <= 0) return;
+
+  const commissionEntries = entries.filter((entry) => entry.account === "commission_revenue");
+  const commission = sumOf(commissionEntries.filter((entry) => entry.type === "commission"),
+    (entry) => parseFloat(entry.credit));
+  const commissionLeft = sumOf(commissionEntries, (entry) => parseFloat(entry.credit) - parseFloat(entry.debit));
+  const commissionBack = roundAmount(Math.min((commission * refund) / sale, commissionLeft));
+
+  const base = { sellerId, orderId: order.id, description };
+  const postings: LedgerPosting[] = [
+    { ...base, type: "refund", account: "seller_payable", debit: refund.toFixed(2) },
+    { ...base, type: "refund", account: "clearing", credit: refund.toFixed(2) },
+  ];
+  if (commissionBack > 0) {
+    postings.push(
+      { ...base, type: "refund", account: "commission_revenue", debit: commissionBack.toFixed(2) },
+      { ...base, type: "refund", account: "seller_payable", credit: commissionBack.toFixed(2) },
+    );
+  }
+  await storage.postLedgerTransaction(postings);
+}
+
+// A manual correction by an admin: positive amounts credit the seller,
+// negative amounts debit them
+export async function recordAdjustment(
+  sellerId: string,
+  amount: number,
+  description: string,
+  createdBy: string,
+): Promise<LedgerEntry[]> {
+  const value = Math.abs(amount).toFixed(2);
+  const [debitAccount, creditAccount] = amount > 0
+    ? (["adjustments", "seller_payable"] as const)
+    : (["seller_payable", "adjustments"] as const);
+  const base = { type: "adjustment" as const, sellerId, description, createdBy };
+  return await storage.postLedgerTransaction([
+    { ...base, account: debitAccount, debit: value },
+    { ...base, account: creditAccount, credit: value },
+  ]);
+}
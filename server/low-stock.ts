@@ -0,0 +1,100 @@
+import type { Product, RestockSuggestion } from "@shared/schema";
+import { storage } from "./storage";
+import { defineJob } from "./jobs";
+
+// Tell the seller a product has fallen below its reorder threshold, unless
+// they turned low-stock alerts off. Queued by storage when a stock change
+// crosses the threshold; returns whether an alert was sent.
+export async function sendLowStockAlert(productId: string): Promise<boolean> {
+  const product = await storage.getProduct(productId);
+  // Restocked again before the job ran
+  if (!product || product.stock >= product.reorderThreshold) return false;
+
+  const seller = await storage.getSeller(product.sellerId);
+  if (!seller?.lowStockAlerts) return false;
+
+  await storage.createNotification({
+    type: "low_stock",
+    title: "Low Stock",
+    message: `"${product.name}" is down to ${product.stock} in stock, below your reorder level of ${product.reorderThreshold}.`,
+    relatedId: product.id,
+    sellerId: seller.id,
+    metadata: {
+      productName: product.name,
+      stock: product.stock,
+      reorderThreshold: product.reorderThreshold,
+      reorderQuantity: product.reorderQuantity,
+    },
+  });
+  return true;
+}
+
+defineJob<{ productId: string }>("low-stock-alert", async ({ productId }) => {
+  await sendLowStockAlert(productId);
+});
+
+export interface RestockOptions {
+  // Days of sales history the sales rate is taken over
+  days: number;
+  // Days of sales a restock should cover
+  coverDays: number;
+}
+
+export const DEFAULT_RESTOCK_OPTIONS: RestockOptions = { days: 30, coverDays: 14 };
+
+// Days of stock left at each product's recent sales rate, and how many to
+// order for those below their threshold or running out within coverDays.
+// The order covers coverDays of sales on top of the threshold, and is never
+// less than the product's reorder quantity. Most urgent first.
+export function restockSuggestions(
+  products: Product[],
+  unitsSold: Map<string, number>,
+  { days, coverDays }: RestockOptions = DEFAULT_RESTOCK_OPTIONS,
+): RestockSuggestion[] {
+  const suggestions = products.map((product): RestockSuggestion => {
+    const sold = Math.max(unitsSold.get(product.id) ?? 0, 0);
+    const dailySales = sold / days;
+    const daysOfStockLeft = dailySales > 0 ? Math.round((product.stock / dailySales) * 10) / 10 : null;
+    const needsRestock =
+      product.stock < product.reorderThreshold || (daysOfStockLeft !== null && daysOfStockLeft < coverDays);
+    return {
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      stock: product.stock,
+      reorderThreshold: product.reorderThreshold,
+      reorderQuantity: product.reorderQuantity,
+      unitsSold: sold,
+      dailySales: Math.round(dailySales * 100) / 100,
+      daysOfStockLeft,
+      suggestedQuantity: needsRestock
+        ? Math.max(product.reorderQuantity, Math.ceil(dailySales * coverDays) + product.reorderThreshold - product.stock)
+        : 0,
+    };
+  });
+
+  return suggestions.sort(
+    (a, b) =>
+      Number(b.suggestedQuantity > 0) - Number(a.suggestedQuantity > 0) ||
+      (a.daysOfStockLeft ?? Infinity) - (b.daysOfStockLeft ?? Infinity) ||
+      a.stock - b.stock,
+  );
+}
+
+// The restock report for a seller's active products
+export async function getRestockSuggestions(
+  sellerId: string,
+  options: RestockOptions = DEFAULT_RESTOCK_OPTIONS,
+): Promise<RestockSuggestion[]> {
+  const since = new Date(Date.now() - options.days * 24 * 60 * 60 * 1000);
+  const [products, sales] = await Promise.all([
+    storage.getProducts({ sellerId }),
+    storage.getSellerUnitsSold(sellerId, since),
+  ]);
+  const unitsSold = new Map(sales.map((sale) => [sale.productId, sale.unitsSold]));
+  return restockSuggestions(
+    products.filter((product) => product.isActive),
+    unitsSold,
+    options,
+  );
+}
@@ -0,0 +1,33 @@
+import { log } from "../vite";
+import type { EmailChannel, EmailMessage, SmsChannel, SmsMessage } from "./types";
+
+const CAPTURE_LIMIT = 100;
+
+// Local stand-ins for development and tests: the most recent messages are kept
+// in memory instead of being sent. They hold customers' addresses and numbers,
+// so they are only logged when EMAIL_CHANNEL or SMS_CHANNEL asks for capture.
+export class CaptureEmailChannel implements EmailChannel {
+  readonly name = "capture";
+  readonly sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > CAPTURE_LIMIT) this.sent.shift();
+    if (process.env.EMAIL_CHANNEL === "capture") {
+      log(`Captured email to ${message.to}: ${message.subject}`, "email");
+    }
+  }
+}
+
+export class CaptureSmsChannel implements SmsChannel {
+  readonly name = "capture";
+  readonly sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > CAPTURE_LIMIT) this.sent.shift();
+    if (process.env.SMS_CHANNEL === "capture") {
+      log(`Captured SMS to ${message.to}: ${message.text}`, "sms");
+    }
+  }
+}
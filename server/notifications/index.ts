@@ -0,0 +1,146 @@
+import type { Notification, NotificationLanguage } from "@shared/schema";
+import { storage } from "../storage";
+import { defineJob, enqueueJob } from "../jobs";
+import { CaptureEmailChannel, CaptureSmsChannel } from "./capture";
+import { SmsGatewayChannel } from "./sms-gateway";
+import { SmtpEmailChannel } from "./smtp";
+import { renderNotification } from "./templates";
+import type { EmailChannel, EmailMessage, SmsChannel, SmsMessage } from "./types";
+
+export type { EmailChannel, EmailMessage, SmsChannel, SmsMessage } from "./types";
+export { CaptureEmailChannel, CaptureSmsChannel } from "./capture";
+export { SmsGatewayChannel } from "./sms-gateway";
+export { SmtpEmailChannel } from "./smtp";
+export { renderNotification } from "./templates";
+export { ADMIN_ROOM, pushNotification, setNotificationEmitter, type NotificationEmitter } from "./live";
+
+const emailChannels = new Map<string, EmailChannel>();
+const smsChannels = new Map<string, SmsChannel>();
+
+export function registerEmailChannel(channel: EmailChannel) {
+  emailChannels.set(channel.name, channel);
+}
+
+export function registerSmsChannel(channel: SmsChannel) {
+  smsChannels.set(channel.name, channel);
+}
+
+registerEmailChannel(new CaptureEmailChannel());
+registerSmsChannel(new CaptureSmsChannel());
+if (process.env.SMTP_HOST) {
+  registerEmailChannel(
+    new SmtpEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || "587", 10),
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.EMAIL_FROM || "PhoneHub <no-reply@phonehub.com>",
+    }),
+  );
+}
+if (process.env.SMS_GATEWAY_URL) {
+  registerSmsChannel(
+    new SmsGatewayChannel({
+      url: process.env.SMS_GATEWAY_URL,
+      apiKey: process.env.SMS_API_KEY || "",
+      sender: process.env.SMS_SENDER || "PhoneHub",
+    }),
+  );
+}
+
+// EMAIL_CHANNEL and SMS_CHANNEL pick a channel by name. Without them mail goes
+// over SMTP and texts through the gateway when those are configured, and to
+// the local capture channels otherwise.
+export function getEmailChannel(): EmailChannel {
+  const name = process.env.EMAIL_CHANNEL || (process.env.SMTP_HOST ? "smtp" : "capture");
+  const channel = emailChannels.get(name);
+  if (!channel) {
+    throw new Error(`Unknown email channel "${name}"`);
+  }
+  return channel;
+}
+
+export function getSmsChannel(): SmsChannel {
+  const name = process.env.SMS_CHANNEL || (process.env.SMS_GATEWAY_URL ? "gateway" : "capture");
+  const channel = smsChannels.get(name);
+  if (!channel) {
+    throw new Error(`Unknown SMS channel "${name}"`);
+  }
+  return channel;
+}
+
+export interface NotificationRecipient {
+  email: string | null;
+  phoneNumber: string | null;
+  language: NotificationLanguage;
+}
+
+// Where a notification goes outside the app, following the recipient's
+// choices. Customers set theirs on their account, sellers in their shop
+// settings, and admin notifications are mailed to the notification_email
+// admin setting when there is one.
+export async function notificationRecipient(notification: Notification): Promise<NotificationRecipient | null> {
+  if (notification.userId) {
+    const user = await storage.getUser(notification.userId);
+    if (!user) return null;
+    return {
+      email: user.emailNotifications ? user.email : null,
+      phoneNumber: user.smsNotifications ? user.phoneNumber : null,
+      language: user.preferredLanguage,
+    };
+  }
+
+  if (notification.sellerId) {
+    const seller = await storage.getSeller(notification.sellerId);
+    if (!seller) return null;
+    const user = await storage.getUser(seller.userId);
+    return {
+      email: seller.emailNotifications ? seller.businessEmail || user?.email || null : null,
+      phoneNumber: seller.smsNotifications ? seller.phoneNumber : null,
+      language: user?.preferredLanguage ?? "en",
+    };
+  }
+
+  const adminEmail = await storage.getAdminSetting("notification_email");
+  return { email: adminEmail || null, phoneNumber: null, language: "en" };
+}
+
+// Notification types that stay in the app: a chat message each would be too
+// many emails
+const IN_APP_ONLY = new Set(["chat_message"]);
+
+// Queue the email and SMS copies of a notification. Each is its own job so a
+// failing channel is retried without sending the other twice.
+export async function dispatchNotification(notification: Notification): Promise<void> {
+  if (IN_APP_ONLY.has(notification.type)) return;
+  const recipient = await notificationRecipient(notification);
+  if (!recipient) return;
+
+  const rendered = renderNotification(notification, recipient.language);
+  if (recipient.email) {
+    const message: EmailMessage = {
+      to: recipient.email,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+    };
+    await enqueueJob("send-email", message);
+  }
+  if (recipient.phoneNumber) {
+    const message: SmsMessage = { to: recipient.phoneNumber, text: rendered.sms };
+    await enqueueJob("send-sms", message);
+  }
+}
+
+defineJob<{ notificationId: string }>("dispatch-notification", async ({ notificationId }) => {
+  const notification = await storage.getNotification(notificationId);
+  if (notification) await dispatchNotification(notification);
+});
+
+defineJob<EmailMessage>("send-email", async (message) => {
+  await getEmailChannel().send(message);
+}, { backoffMs: 60 * 1000 });
+
+defineJob<SmsMessage>("send-sms", async (message) => {
+  await getSmsChannel().send(message);
+}, { backoffMs: 60 * 1000 });
@@ -0,0 +1,24 @@
+import type { Notification } from "@shared/schema";
+
+export interface NotificationEmitter {
+  to(room: string): { emit(event: string, payload: unknown): unknown };
+}
+
+// Admins join this room as well as their own; admin notifications go to it
+export const ADMIN_ROOM = "admins";
+
+let emitter: NotificationEmitter | undefined;
+
+// Set by the server once Socket.IO is up. Until then, and in tests,
+// notifications are only stored.
+export function setNotificationEmitter(io: NotificationEmitter | undefined) {
+  emitter = io;
+}
+
+// Push a new notification to the recipients' Socket.IO rooms
+export function pushNotification(rooms: string[], notification: Notification) {
+  if (!emitter) return;
+  for (const room of rooms) {
+    emitter.to(room).emit("notification", notification);
+  }
+}
@@ -0,0 +1,28 @@
+import type { SmsChannel, SmsMessage } from "./types";
+
+export interface SmsGatewayConfig {
+  url: string;
+  apiKey: string;
+  sender: string;
+}
+
+// An HTTP SMS gateway that takes { to, from, text } as JSON with a bearer key
+export class SmsGatewayChannel implements SmsChannel {
+  readonly name = "gateway";
+
+  constructor(private readonly config: SmsGatewayConfig) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const response = await fetch(this.config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({ to: message.to, from: this.config.sender, text: message.text }),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS gateway returned ${response.status}: ${await response.text()}`);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import type { Notification, NotificationLanguage } from "@shared/schema";
+
+interface Template {
+  subject: string;
+  body: string;
+}
+
+// Email and SMS wording per notification type. {{name}} is filled from the
+// notification's metadata, or its title and message; a type without a
+// template sends its title and message as they are.
+const templates: Record<string, Record<NotificationLanguage, Template>> = {
+  product_pending: {
+    en: { subject: "Product awaiting review", body: '{{sellerName}} submitted "{{productName}}" for review.' },
+    ar: { subject: "منتج بانتظار المراجعة", body: 'أرسل {{sellerName}} المنتج "{{productName}}" للمراجعة.' },
+  },
+  product_approved: {
+    en: { subject: "Your product was approved", body: '"{{productName}}" is now live in the store.' },
+    ar: { subject: "تمت الموافقة على منتجك", body: 'أصبح "{{productName}}" متاحاً الآن في المتجر.' },
+  },
+  product_rejected: {
+    en: { subject: "Your product was not approved", body: '"{{productName}}" was rejected: {{rejectionReason}}' },
+    ar: { subject: "لم تتم الموافقة على منتجك", body: 'تم رفض "{{productName}}": {{rejectionReason}}' },
+  },
+  price_drop: {
+    en: { subject: "Price drop on {{productName}}", body: "{{productName}} dropped from KWD {{savedPrice}} to KWD {{price}}." },
+    ar: { subject: "انخفاض سعر {{productName}}", body: "انخفض سعر {{productName}} من {{savedPrice}} د.ك إلى {{price}} د.ك." },
+  },
+  back_in_stock: {
+    en: { subject: "{{productName}} is back in stock", body: "{{productName}} from your wishlist is available again." },
+    ar: { subject: "{{productName}} متوفر مجدداً", body: "المنتج {{productName}} من قائمة أمنياتك متوفر مرة أخرى." },
+  },
+  low_stock: {
+    en: { subject: "Low stock: {{productName}}", body: "{{productName}} is down to {{stock}} in stock, below your reorder level of {{reorderThreshold}}." },
+    ar: { subject: "مخزون منخفض: {{productName}}", body: "انخفض مخزون {{productName}} إلى {{stock}}، أقل من حد إعادة الطلب {{reorderThreshold}}." },
+  },
+  order_status: {
+    en: { subject: "Order {{orderRef}} update", body: "{{message}}" },
+    ar: { subject: "تحديث الطلب {{orderRef}}", body: "تم تحديث حالة طلبك {{orderRef}}." },
+  },
+  review_reply: {
+    en: { subject: "The seller replied to your review", body: '{{sellerName}} replied to your review of "{{productName}}": {{reply}}' },
+    ar: { subject: "رد البائع على تقييمك", body: 'رد {{sellerName}} على تقييمك لـ "{{productName}}": {{reply}}' },
+  },
+  promotion: {
+    en: { subject: "{{discount}} off {{productName}}", body: 'Use code {{code}} for {{discount}} off "{{productName}}" on your wishlist.' },
+    ar: { subject: "خصم {{discount}} على {{productName}}", body: 'استخدم الرمز {{code}} للحصول على خصم {{discount}} على "{{productName}}" من قائمة أمنياتك.' },
+  },
+  return_requested: {
+    en: { subject: "New return request", body: "A customer asked to return items for a refund of KWD {{refundAmount}}." },
+    ar: { subject: "طلب إرجاع جديد", body: "طلب أحد العملاء إرجاع منتجات مقابل استرداد {{refundAmount}} د.ك." },
+  },
+  repair_update: {
+    en: { subject: "Repair update", body: "{{message}}" },
+    ar: { subject: "تحديث على طلب الإصلاح", body: "تغيرت حالة طلب الإصلاح الخاص بك إلى: {{status}}" },
+  },
+  trade_in_submitted: {
+    en: { subject: "New trade-in request", body: "A customer submitted a trade-in quoted at KWD {{quotedAmount}}." },
+    ar: { subject: "طلب استبدال جديد", body: "قدّم أحد العملاء طلب استبدال بقيمة تقديرية {{quotedAmount}} د.ك." },
+  },
+  trade_in_accepted: {
+    en: { subject: "Trade-in offer", body: "You have a trade-in offer of KWD {{offeredAmount}}." },
+    ar: { subject: "عرض الاستبدال", body: "لديك عرض استبدال بقيمة {{offeredAmount}} د.ك." },
+  },
+  trade_in_rejected: {
+    en: { subject: "Trade-in update", body: "{{message}}" },
+    ar: { subject: "تحديث على طلب الاستبدال", body: "لم يتم قبول طلب الاستبدال الخاص بك." },
+  },
+  warranty_claim: {
+    en: { subject: "New warranty claim", body: "{{message}}" },
+    ar: { subject: "مطالبة ضمان جديدة", body: "قدّم أحد العملاء مطالبة ضمان جديدة." },
+  },
+  warranty_claim_resolved: {
+    en: { subject: "Warranty claim resolved", body: "{{message}}" },
+    ar: { subject: "تم حل مطالبة الضمان", body: "تم حل مطالبة الضمان الخاصة بك." },
+  },
+  warranty_claim_rejected: {
+    en: { subject: "Warranty claim update", body: "{{message}}" },
+    ar: { subject: "تحديث على مطالبة الضمان", body: "تم رفض مطالبة الضمان الخاصة بك." },
+  },
+};
+
+const fallback: Record<NotificationLanguage, Template> = {
+  en: { subject: "{{title}}", body: "{{message}}" },
+  ar: { subject: "{{title}}", body: "{{message}}" },
+};
+
+const footers: Record<NotificationLanguage, string> = {
+  en: "You can change how you hear from PhoneHub in your account settings.",
+  ar: "يمكنك تغيير طريقة تلقي إشعارات PhoneHub من إعدادات حسابك.",
+};
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+  sms: string;
+}
+
+function interpolate(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = values[key];
+    return value === undefined || value === null ? "" : String(value);
+  });
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function renderNotification(notification: Notification, language: NotificationLanguage): RenderedNotification {
+  const template = templates[notification.type]?.[language] ?? fallback[language];
+  const values: Record<string, unknown> = {
+    ...((notification.metadata as Record<string, unknown> | null) ?? {}),
+    title: notification.title,
+    message: notification.message,
+  };
+  const subject = interpolate(template.subject, values);
+  const body = interpolate(template.body, values);
+  const dir = language === "ar" ? "rtl" : "ltr";
+
+  return {
+    subject,
+    text: `${body}\n\n${footers[language]}`,
+    html:
+      `<div dir="${dir}" lang="${language}" style="font-family: sans-serif">` +
+      `<h2>${escapeHtml(subject)}</h2><p>${escapeHtml(body)}</p>` +
+      `<p style="color: #64748b; font-size: 12px">${escapeHtml(footers[language])}</p></div>`,
+    sms: `PhoneHub: ${body}`,
+  };
+}
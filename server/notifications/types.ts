@@ -0,0 +1,21 @@
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type SmsMessage = {
+  to: string;
+  text: string;
+};
+
+export interface EmailChannel {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmsChannel {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
@@ -0,0 +1,139 @@
+import type { Order, OrderStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { OrderTransitionError } from "./errors";
+import { registerWarranties } from "./warranties";
+
+export type OrderActorRole = "customer" | "seller" | "admin" | "system";
+
+export interface OrderActor {
+  userId: string | null;
+  role: OrderActorRole;
+}
+
+export const SYSTEM_ACTOR: OrderActor = { userId: null, role: "system" };
+
+// For each status, the statuses it may move to and who may move it there.
+// "system" covers automatic changes such as a captured payment or carrier events.
+const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  pending: {
+    processing: ["seller", "admin", "system"],
+    cancelled: ["customer", "seller", "admin"],
+  },
+  processing: {
+    shipped: ["seller", "admin", "system"],
+    cancelled: ["customer", "seller", "admin"],
+  },
+  shipped: {
+    delivered: ["seller", "admin", "system"],
+    cancelled: ["seller", "admin"],
+  },
+  delivered: {},
+  cancelled: {},
+};
+
+// How far along each status is; a parent order shows its least advanced sub-order
+const STATUS_PROGRESS: Record<OrderStatus, number> = {
+  pending: 0,
+  processing: 1,
+  shipped: 2,
+  delivered: 3,
+  cancelled: 4,
+};
+
+const CUSTOMER_UPDATES: Partial<Record<OrderStatus, string>> = {
+  processing: "is being prepared",
+  shipped: "has shipped",
+  delivered: "was delivered",
+  cancelled: "was cancelled",
+};
+
+// Tell the customer their order moved on, unless they moved it themselves.
+// A seller's part of a multi-vendor order is reported against the order the
+// customer placed.
+async function notifyCustomer(order: Order, actor: OrderActor) {
+  const update = CUSTOMER_UPDATES[order.status];
+  if (!update || order.isPosOrder || actor.userId === order.customerId) return;
+  const placedId = order.parentOrderId ?? order.id;
+  const orderRef = `#${placedId.slice(-8)}`;
+  await storage.createNotification({
+    type: "order_status",
+    title: "Order Update",
+    message: order.parentOrderId ? `Part of your order ${orderRef} ${update}.` : `Your order ${orderRef} ${update}.`,
+    relatedId: placedId,
+    userId: order.customerId,
+    metadata: { orderId: placedId, orderRef, status: order.status },
+  });
+}
+
+export function allowedTransitions(status: OrderStatus, role: OrderActorRole): OrderStatus[] {
+  return (Object.entries(ORDER_TRANSITIONS[status]) as [OrderStatus, OrderActorRole[]][])
+    .filter(([, roles]) => roles.includes(role))
+    .map(([next]) => next);
+}
+
+export function assertOrderTransition(order: Order, next: OrderStatus, role: OrderActorRole) {
+  const roles = ORDER_TRANSITIONS[order.status][next];
+  if (!roles) {
+    throw new OrderTransitionError(`Cannot move order from ${order.status} to ${next}`);
+  }
+  if (!roles.includes(role)) {
+    throw new OrderTransitionError(`A ${role} cannot move an order from ${order.status} to ${next}`, 403);
+  }
+}
+
+// Move an order to a new status and record it in the order's history. Acting on
+// a multi-vendor parent order acts on each of its sub-orders; the parent then
+// follows them.
+export async function transitionOrder(
+  order: Order,
+  next: OrderStatus,
+  actor: OrderActor,
+  note?: string,
+): Promise<Order> {
+  assertOrderTransition(order, next, actor.role);
+
+  const subOrders = await storage.getSubOrders(order.id);
+  if (subOrders.length > 0) {
+    const open = subOrders.filter((subOrder) => subOrder.status !== next && subOrder.status !== "cancelled");
+    open.forEach((subOrder) => assertOrderTransition(subOrder, next, actor.role));
+    for (const subOrder of open) {
+      await transitionOrder(subOrder, next, actor, note);
+    }
+    return (await storage.getOrder(order.id))!;
+  }
+
+  const updated = await storage.updateOrderStatus(order.id, order.status, next, actor, note);
+  if (!updated) {
+    throw new OrderTransitionError("Order status has changed, please reload and try again");
+  }
+
+  await notifyCustomer(updated, actor);
+  if (updated.parentOrderId) {
+    await syncParentOrderStatus(updated.parentOrderId);
+  }
+  // Warranties run from delivery
+  if (next === "delivered") {
+    await registerWarranties(updated);
+  }
+  return updated;
+}
+
+// Keep a parent order at the least advanced status of its open sub-orders,
+// or cancelled once every sub-order is cancelled.
+async function syncParentOrderStatus(parentOrderId: string) {
+  const parent = await storage.getOrder(parentOrderId);
+  if (!parent) return;
+
+  const subOrders = await storage.getSubOrders(parentOrderId);
+  const open = subOrders.filter((subOrder) => subOrder.status !== "cancelled");
+  const status = open.length === 0
+    ? "cancelled"
+    : open.reduce<OrderStatus>(
+        (least, subOrder) => (STATUS_PROGRESS[subOrder.status] < STATUS_PROGRESS[least] ? subOrder.status : least),
+        "delivered",
+      );
+
+  if (parent.status !== status) {
+    await storage.updateOrderStatus(parent.id, parent.status, status, SYSTEM_ACTOR, "Updated from seller orders");
+  }
+}
@@ -0,0 +1,30 @@
+import { asc, desc, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
+import type { Page, PageQuery } from "@shared/schema";
+
+// Order a page by the sort column, with the id breaking ties so that every
+// row has one place in the listing and a cursor can pick up after it
+export function pageOrder(sortColumn: AnyPgColumn, idColumn: AnyPgColumn, page: PageQuery): SQL[] {
+  const direction = page.order === "asc" ? asc : desc;
+  return [direction(sortColumn), direction(idColumn)];
+}
+
+// Rows after the cursor row in the page order. Its sort value is read back
+// from the table rather than carried in the cursor, so timestamps are
+// compared at full precision.
+export function afterCursor(table: PgTable, sortColumn: AnyPgColumn, idColumn: AnyPgColumn, page: PageQuery): SQL | undefined {
+  if (!page.cursor) return undefined;
+  const operator = page.order === "asc" ? sql`>` : sql`<`;
+  return sql`(${sortColumn}, ${idColumn}) ${operator} (SELECT ${sortColumn}, ${idColumn} FROM ${table} WHERE ${idColumn} = ${page.cursor})`;
+}
+
+// Pages are fetched one row long; that extra row only says whether there is
+// a next page
+export function toPage<T extends { id: string }>(rows: T[], page: PageQuery, total: number): Page<T> {
+  const items = rows.slice(0, page.limit);
+  return {
+    items,
+    total,
+    nextCursor: rows.length > page.limit ? items[items.length - 1].id : null,
+  };
+}
@@ -0,0 +1,34 @@
+import type {
+  AuthorizeRequest,
+  AuthorizeResult,
+  CaptureResult,
+  PaymentProvider,
+  RefundResult,
+  WebhookEvent,
+} from "./types";
+
+// Cash taken at the till. The cashier has the money in hand when the payment
+// is recorded, so it captures at once, and refunds are paid out at the counter.
+// Only POS orders can be paid this way.
+export class CashPaymentProvider implements PaymentProvider {
+  readonly name = "cash";
+  private refundCount = 0;
+
+  async authorize(request: AuthorizeRequest): Promise<AuthorizeResult> {
+    return { status: "authorized", reference: `CASH_${request.paymentId}` };
+  }
+
+  async capture(reference: string, _amount: string): Promise<CaptureResult> {
+    return { status: "captured", reference };
+  }
+
+  async refund(reference: string, _amount: string): Promise<RefundResult> {
+    this.refundCount += 1;
+    return { status: "refunded", reference: `CASH_RF_${this.refundCount}_${reference}` };
+  }
+
+  // No gateway calls back about cash
+  verifyWebhook(_payload: Record<string, unknown>, _signature: string | undefined): WebhookEvent | undefined {
+    return undefined;
+  }
+}
@@ -0,0 +1,244 @@
+import type { Order, Payment } from "@shared/schema";
+import { storage } from "../storage";
+import { PaymentError } from "../errors";
+import { SYSTEM_ACTOR, transitionOrder } from "../order-status";
+import { recordSale } from "../ledger";
+import { registerWarranties } from "../warranties";
+import { CashPaymentProvider } from "./cash";
+import { KnetPaymentProvider } from "./knet";
+import { SandboxPaymentProvider } from "./sandbox";
+import { StoreCreditPaymentProvider } from "./store-credit";
+import { gatewaySecret } from "./signature";
+import type { PaymentProvider } from "./types";
+
+export type { PaymentProvider } from "./types";
+export { CashPaymentProvider } from "./cash";
+export { SandboxPaymentProvider } from "./sandbox";
+export { KnetPaymentProvider } from "./knet";
+export { StoreCreditPaymentProvider } from "./store-credit";
+
+const isProduction = process.env.NODE_ENV === "production";
+
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider) {
+  providers.set(provider.name, provider);
+}
+
+// The sandbox passes every payment, so it is never offered in production
+if (!isProduction) {
+  registerPaymentProvider(new SandboxPaymentProvider());
+}
+registerPaymentProvider(new CashPaymentProvider());
+registerPaymentProvider(new StoreCreditPaymentProvider());
+registerPaymentProvider(
+  new KnetPaymentProvider({
+    gatewayUrl: process.env.KNET_GATEWAY_URL || "http://localhost:5055",
+    secret: gatewaySecret("KNET_SECRET", "knet-dev-secret"),
+  }),
+);
+
+export function getPaymentProvider(name: string): PaymentProvider | undefined {
+  return providers.get(name);
+}
+
+// Cash and store credit have providers of their own; everything else goes
+// through the configured gateway
+function providerForMethod(method: string): PaymentProvider {
+  const name =
+    method === "cash" || method === "store_credit"
+      ? method
+      : process.env.PAYMENT_PROVIDER || (isProduction ? "knet" : "sandbox");
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Payment provider "${name}" is not registered`);
+  }
+  return provider;
+}
+
+// Open a pending payment for the whole of an order. The amount is the order's
+// own total, cash is only taken at the till, and an order is paid once: a
+// payment already under way or taken blocks another.
+export async function createOrderPayment(
+  order: Order,
+  method: Payment["method"],
+  metadata?: Record<string, unknown>,
+): Promise<Payment> {
+  if (order.parentOrderId) {
+    throw new PaymentError("Pay for the whole checkout, not a seller's part of it");
+  }
+  if (order.status !== "pending") {
+    throw new PaymentError("Only pending orders can be paid", 409);
+  }
+  if (method === "cash" && !order.isPosOrder) {
+    throw new PaymentError("Cash is only taken in store");
+  }
+
+  const existing = await storage.getPaymentsByOrderId(order.id);
+  if (existing.some((payment) => payment.status === "pending" || payment.status === "completed")) {
+    throw new PaymentError("This order already has a payment", 409);
+  }
+
+  return await storage.createPayment({
+    orderId: order.id,
+    amount: order.total,
+    method,
+    status: "pending",
+    transactionId: null,
+    metadata: metadata ?? null,
+  });
+}
+
+function metadataOf(payment: Payment): Record<string, any> {
+  return payment.metadata && typeof payment.metadata === "object"
+    ? (payment.metadata as Record<string, any>)
+    : {};
+}
+
+// Mark a captured payment completed, move its order (and any sub-orders) to
+// processing and credit the sellers. A POS sale is handed over at the till, so
+// its warranties start here. Only a pending payment completes: calling this
+// again, or for a payment that failed or was voided, changes nothing.
+async function completePayment(payment: Payment, captureReference: string): Promise<Payment> {
+  if (payment.status !== "pending") {
+    return payment;
+  }
+
+  const updated = await storage.updatePayment(payment.id, {
+    status: "completed",
+    transactionId: captureReference,
+    metadata: { ...metadataOf(payment), captureReference, capturedAt: new Date().toISOString() },
+  });
+
+  const order = await storage.getOrder(payment.orderId);
+  if (order) {
+    if (order.status === "pending") {
+      await transitionOrder(order, "processing", SYSTEM_ACTOR, "Payment captured");
+    }
+    await storage.creditLoyaltyPoints(order.customerId, Math.floor(parseFloat(payment.amount)));
+    await recordSale(order);
+    if (order.isPosOrder) {
+      await registerWarranties(order);
+    }
+  }
+
+  return updated;
+}
+
+async function failPayment(payment: Payment, message?: string): Promise<Payment> {
+  return await storage.updatePayment(payment.id, {
+    status: "failed",
+    metadata: { ...metadataOf(payment), failureMessage: message },
+  });
+}
+
+// Run a freshly created pending payment through its provider. Hosted flows
+// return a redirectUrl and stay pending until the gateway calls back.
+export async function processPayment(
+  payment: Payment,
+  baseUrl: string,
+): Promise<Payment & { redirectUrl?: string }> {
+  const provider = providerForMethod(payment.method);
+  const metadata = { ...metadataOf(payment), provider: provider.name };
+
+  const authorization = await provider.authorize({
+    paymentId: payment.id,
+    orderId: payment.orderId,
+    amount: payment.amount,
+    currency: "KWD",
+    method: payment.method,
+    returnUrl: `${baseUrl}/customer-dashboard`,
+    callbackUrl: `${baseUrl}/api/payments/webhook/${provider.name}`,
+    metadata,
+  });
+
+  payment = await storage.updatePayment(payment.id, {
+    metadata: {
+      ...metadata,
+      authorizationReference: authorization.reference,
+      redirectUrl: authorization.redirectUrl,
+    },
+  });
+
+  if (authorization.status === "declined") {
+    return await failPayment(payment, authorization.message);
+  }
+  if (authorization.status === "requires_action") {
+    return { ...payment, redirectUrl: authorization.redirectUrl };
+  }
+
+  const capture = await provider.capture(authorization.reference, payment.amount);
+  if (capture.status !== "captured") {
+    return await failPayment(payment, capture.message);
+  }
+  return await completePayment(payment, capture.reference);
+}
+
+// Apply a gateway callback. Returns undefined when the signature, payment or
+// reference does not check out.
+export async function handlePaymentWebhook(
+  providerName: string,
+  payload: Record<string, unknown>,
+  signature: string | undefined,
+): Promise<Payment | undefined> {
+  const provider = providers.get(providerName);
+  const event = provider?.verifyWebhook(payload, signature);
+  if (!event) return undefined;
+
+  const payment = await storage.getPayment(event.paymentId);
+  if (!payment) return undefined;
+
+  const metadata = metadataOf(payment);
+  if (
+    metadata.provider !== providerName ||
+    metadata.authorizationReference !== event.reference ||
+    parseFloat(event.amount) !== parseFloat(payment.amount)
+  ) {
+    return undefined;
+  }
+
+  if (event.status === "captured") {
+    return await completePayment(payment, event.reference);
+  }
+  return payment.status === "pending" ? await failPayment(payment, "Declined by gateway") : payment;
+}
+
+// Refund part or all of a completed payment through the provider that took it.
+// Without an amount, whatever has not been refunded yet is returned.
+export async function refundPayment(payment: Payment, amount?: number, reason?: string): Promise<Payment> {
+  if (payment.status !== "completed") {
+    throw new Error("Only completed payments can be refunded");
+  }
+
+  const metadata = metadataOf(payment);
+  const alreadyRefunded = Number(metadata.refundedAmount || 0);
+  const refundable = parseFloat(payment.amount) - alreadyRefunded;
+  amount = amount ?? refundable;
+  if (amount <= 0 || amount > refundable + 0.0001) {
+    throw new Error(`Refund amount must be between 0 and ${refundable.toFixed(3)}`);
+  }
+
+  const provider = providers.get(payment.method === "cash" ? "cash" : metadata.provider || "sandbox");
+  if (!provider) {
+    throw new Error(`Payment provider "${metadata.provider}" is not registered`);
+  }
+
+  const result = await provider.refund(payment.transactionId || metadata.captureReference, amount.toFixed(3));
+  if (result.status !== "refunded") {
+    throw new Error(result.message || "Refund failed");
+  }
+
+  const refundedAmount = alreadyRefunded + amount;
+  const fullyRefunded = refundedAmount >= parseFloat(payment.amount) - 0.0001;
+  return await storage.updatePayment(payment.id, {
+    status: fullyRefunded ? "refunded" : "completed",
+    metadata: {
+      ...metadata,
+      refundedAmount,
+      refunds: [
+        ...(metadata.refunds || []),
+        { reference: result.reference, amount, reason, refundedAt: new Date().toISOString() },
+      ],
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import type {
+  AuthorizeRequest,
+  AuthorizeResult,
+  CaptureResult,
+  PaymentProvider,
+  RefundResult,
+  WebhookEvent,
+} from "./types";
+import { signFields, verifyFields } from "./signature";
+
+export interface KnetConfig {
+  gatewayUrl: string;
+  secret: string;
+}
+
+// KNET / card hosted-payment-page flow. The customer is redirected to the
+// gateway, which charges the card (authorize + capture in one step) and posts a
+// signed result to our callback URL. Only that verified callback captures.
+export class KnetPaymentProvider implements PaymentProvider {
+  readonly name = "knet";
+
+  constructor(private readonly config: KnetConfig) {}
+
+  async authorize(request: AuthorizeRequest): Promise<AuthorizeResult> {
+    const reference = `KNET_${request.paymentId}`;
+    const params = new URLSearchParams({
+      paymentId: request.paymentId,
+      reference,
+      amount: request.amount,
+      currency: request.currency,
+      returnUrl: request.returnUrl,
+      callbackUrl: request.callbackUrl,
+    });
+    params.set(
+      "signature",
+      signFields(this.config.secret, [
+        request.paymentId,
+        reference,
+        request.amount,
+        request.currency,
+        request.returnUrl,
+        request.callbackUrl,
+      ]),
+    );
+
+    return {
+      status: "requires_action",
+      reference,
+      redirectUrl: `${this.config.gatewayUrl}/pay?${params.toString()}`,
+    };
+  }
+
+  async capture(reference: string, _amount: string): Promise<CaptureResult> {
+    // Hosted payments are captured on the gateway; the callback confirms it
+    return { status: "failed", reference, message: "KNET payments are captured through the gateway callback" };
+  }
+
+  async refund(reference: string, amount: string): Promise<RefundResult> {
+    const res = await fetch(`${this.config.gatewayUrl}/refund`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        reference,
+        amount,
+        signature: signFields(this.config.secret, [reference, amount]),
+      }),
+    });
+    if (!res.ok) {
+      return { status: "failed", reference, message: `Gateway returned ${res.status}` };
+    }
+    const body = await res.json();
+    return body.status === "refunded"
+      ? { status: "refunded", reference: body.reference }
+      : { status: "failed", reference, message: body.message };
+  }
+
+  verifyWebhook(payload: Record<string, unknown>, signature: string | undefined): WebhookEvent | undefined {
+    const event = {
+      paymentId: String(payload.paymentId ?? ""),
+      reference: String(payload.reference ?? ""),
+      status: payload.result === "CAPTURED" ? "captured" as const : "failed" as const,
+      amount: String(payload.amount ?? ""),
+    };
+    const fields = [event.paymentId, event.reference, String(payload.result ?? ""), event.amount];
+    if (!verifyFields(this.config.secret, fields, signature)) {
+      return undefined;
+    }
+    return event;
+  }
+}
@@ -0,0 +1,64 @@
+import express from "express";
+import { pathToFileURL } from "url";
+import { signFields, verifyFields } from "./signature";
+
+// Local stand-in for the KNET hosted payment page. GET /pay checks the
+// request signature, posts a signed result to the callback URL and sends the
+// customer back to the return URL. Pass ?result=NOT+CAPTURED to simulate a
+// declined card.
+export function createMockKnetGateway(secret: string) {
+  const app = express();
+  app.use(express.json());
+  let refundSeq = 0;
+
+  app.get("/pay", async (req, res) => {
+    const { paymentId, reference, amount, currency, returnUrl, callbackUrl, signature } =
+      req.query as Record<string, string>;
+    const valid = verifyFields(
+      secret,
+      [paymentId, reference, amount, currency, returnUrl, callbackUrl],
+      signature,
+    );
+    if (!valid) {
+      return res.status(400).send("Invalid payment request signature");
+    }
+
+    const result = (req.query.result as string) || "CAPTURED";
+    try {
+      await fetch(callbackUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-gateway-signature": signFields(secret, [paymentId, reference, result, amount]),
+        },
+        body: JSON.stringify({ paymentId, reference, result, amount }),
+      });
+    } catch (error) {
+      console.error("Mock KNET callback error:", error);
+    }
+
+    const back = new URL(returnUrl);
+    back.searchParams.set("paymentId", paymentId);
+    back.searchParams.set("result", result);
+    res.redirect(302, back.toString());
+  });
+
+  app.post("/refund", (req, res) => {
+    const { reference, amount, signature } = req.body;
+    if (!verifyFields(secret, [reference, amount], signature)) {
+      return res.status(400).json({ status: "failed", message: "Invalid refund signature" });
+    }
+    refundSeq += 1;
+    res.json({ status: "refunded", reference: `KNET_RF_${refundSeq}_${reference}` });
+  });
+
+  return app;
+}
+
+// Run standalone with `npm run payments:mock`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.KNET_MOCK_PORT || "5055", 10);
+  createMockKnetGateway(process.env.KNET_SECRET || "knet-dev-secret").listen(port, () => {
+    console.log(`Mock KNET gateway listening on port ${port}`);
+  });
+}
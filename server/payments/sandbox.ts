@@ -0,0 +1,63 @@
+import type {
+  AuthorizeRequest,
+  AuthorizeResult,
+  CaptureResult,
+  PaymentProvider,
+  RefundResult,
+  WebhookEvent,
+} from "./types";
+import { gatewaySecret, signFields, verifyFields } from "./signature";
+
+// Deterministic local provider for tests and development, never registered in
+// production. Every payment succeeds unless metadata.sandboxOutcome asks for
+// "decline" or "capture_failed".
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = "sandbox";
+  private readonly failedCaptures = new Set<string>();
+  private refundCount = 0;
+
+  constructor(private readonly secret = gatewaySecret("SANDBOX_PAYMENT_SECRET", "sandbox-secret")) {}
+
+  async authorize(request: AuthorizeRequest): Promise<AuthorizeResult> {
+    const reference = `SBX_AUTH_${request.paymentId}`;
+    const outcome = request.metadata?.sandboxOutcome;
+
+    if (outcome === "decline") {
+      return { status: "declined", reference, message: "Declined by sandbox" };
+    }
+    if (outcome === "capture_failed") {
+      this.failedCaptures.add(reference);
+    }
+    return { status: "authorized", reference };
+  }
+
+  async capture(reference: string, _amount: string): Promise<CaptureResult> {
+    if (this.failedCaptures.has(reference)) {
+      return { status: "failed", reference, message: "Capture failed in sandbox" };
+    }
+    return { status: "captured", reference: reference.replace("SBX_AUTH_", "SBX_CAP_") };
+  }
+
+  async refund(reference: string, _amount: string): Promise<RefundResult> {
+    this.refundCount += 1;
+    return { status: "refunded", reference: `SBX_RF_${this.refundCount}_${reference}` };
+  }
+
+  sign(event: WebhookEvent): string {
+    return signFields(this.secret, [event.paymentId, event.reference, event.status, event.amount]);
+  }
+
+  verifyWebhook(payload: Record<string, unknown>, signature: string | undefined): WebhookEvent | undefined {
+    const event = {
+      paymentId: String(payload.paymentId ?? ""),
+      reference: String(payload.reference ?? ""),
+      status: payload.status as WebhookEvent["status"],
+      amount: String(payload.amount ?? ""),
+    };
+    if (event.status !== "captured" && event.status !== "failed") return undefined;
+    if (!verifyFields(this.secret, [event.paymentId, event.reference, event.status, event.amount], signature)) {
+      return undefined;
+    }
+    return event;
+  }
+}
@@ -0,0 +1,29 @@
+import crypto from "crypto";
+
+// Gateways sign a fixed list of fields joined by "|" rather than the raw body,
+// so callbacks survive JSON re-serialisation by express.json().
+export function signFields(secret: string, fields: Array<string | number>): string {
+  return crypto.createHmac("sha256", secret).update(fields.join("|")).digest("hex");
+}
+
+export function verifyFields(
+  secret: string,
+  fields: Array<string | number>,
+  signature: string | undefined,
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signFields(secret, fields), "hex");
+  const received = Buffer.from(signature, "hex");
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// The development secrets are in the source, so anyone could sign a callback
+// with them; in production a gateway will not start without its real secret
+export function gatewaySecret(name: string, developmentSecret: string): string {
+  const secret = process.env[name];
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`${name} must be set in production`);
+  }
+  return developmentSecret;
+}
@@ -0,0 +1,59 @@
+import type {
+  AuthorizeRequest,
+  AuthorizeResult,
+  CaptureResult,
+  PaymentProvider,
+  RefundResult,
+  WebhookEvent,
+} from "./types";
+import { storage } from "../storage";
+
+// Pays from the customer's store credit balance (e.g. trade-in credit). The
+// balance is debited on authorization, so capture has nothing left to do, and
+// refunds put the amount back on the balance.
+export class StoreCreditPaymentProvider implements PaymentProvider {
+  readonly name = "store_credit";
+  private refundCount = 0;
+
+  async authorize(request: AuthorizeRequest): Promise<AuthorizeResult> {
+    const reference = `SC_${request.paymentId}`;
+    const order = await storage.getOrder(request.orderId);
+    if (!order) {
+      return { status: "declined", reference, message: "Order not found" };
+    }
+
+    const spent = await storage.spendStoreCredit(order.customerId, parseFloat(request.amount), {
+      type: "payment",
+      description: `Order #${order.id.slice(-8)}`,
+      paymentId: request.paymentId,
+    });
+    return spent
+      ? { status: "authorized", reference }
+      : { status: "declined", reference, message: "Not enough store credit" };
+  }
+
+  async capture(reference: string, _amount: string): Promise<CaptureResult> {
+    return { status: "captured", reference };
+  }
+
+  async refund(reference: string, amount: string): Promise<RefundResult> {
+    const payment = await storage.getPayment(reference.replace(/^SC_/, ""));
+    const order = payment && (await storage.getOrder(payment.orderId));
+    if (!payment || !order) {
+      return { status: "failed", reference, message: "Payment not found" };
+    }
+
+    await storage.creditStoreCredit(order.customerId, parseFloat(amount), {
+      type: "refund",
+      description: `Refund for order #${order.id.slice(-8)}`,
+      paymentId: payment.id,
+    });
+    this.refundCount += 1;
+    return { status: "refunded", reference: `SC_RF_${this.refundCount}_${payment.id}` };
+  }
+
+  // Nothing calls back: every payment settles on the spot
+  verifyWebhook(_payload: Record<string, unknown>, _signature: string | undefined): WebhookEvent | undefined {
+    return undefined;
+  }
+}
@@ -0,0 +1,50 @@
+export type AuthorizationStatus = "authorized" | "requires_action" | "declined";
+
+export interface AuthorizeRequest {
+  paymentId: string;
+  orderId: string;
+  amount: string;
+  currency: string;
+  method: string;
+  // Where a hosted payment page sends the customer back to
+  returnUrl: string;
+  // Where the gateway posts its server-to-server result
+  callbackUrl: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuthorizeResult {
+  status: AuthorizationStatus;
+  reference: string;
+  redirectUrl?: string;
+  message?: string;
+}
+
+export interface CaptureResult {
+  status: "captured" | "failed";
+  reference: string;
+  message?: string;
+}
+
+export interface RefundResult {
+  status: "refunded" | "failed";
+  reference: string;
+  message?: string;
+}
+
+// Verified result of a gateway callback
+export interface WebhookEvent {
+  paymentId: string;
+  reference: string;
+  status: "captured" | "failed";
+  amount: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<AuthorizeResult>;
+  capture(reference: string, amount: string): Promise<CaptureResult>;
+  refund(reference: string, amount: string): Promise<RefundResult>;
+  // Returns undefined when the payload or its signature is not valid
+  verifyWebhook(payload: Record<string, unknown>, signature: string | undefined): WebhookEvent | undefined;
+}
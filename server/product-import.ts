@@ -0,0 +1,396 @@
+import path from "path";
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+import {
+  insertProductSchema,
+  productSpecFields,
+  type InsertProduct,
+  type Product,
+  type ProductImage,
+  type ProductImport,
+  type ProductImportRowError,
+  type ProductSheetFormat,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { ProductImportError, ProductSpecError } from "./errors";
+import { normalizeProductSpecs, specsForCategory } from "./specs";
+import { defineJob, enqueueJob } from "./jobs";
+
+export const MAX_IMPORT_ROWS = 2000;
+
+// Progress is saved every this many rows so the seller can follow a long import
+const PROGRESS_INTERVAL = 50;
+
+// The columns of a product sheet in export order. Each spec follows as a
+// spec.<key> column, e.g. spec.ram, and imageUrls holds links separated by |.
+export const productSheetColumns = [
+  "sku",
+  "name",
+  "description",
+  "brand",
+  "category",
+  "condition",
+  "price",
+  "originalPrice",
+  "stock",
+  "warrantyMonths",
+  "warrantyProvider",
+  "imageUrls",
+] as const;
+
+const specColumns = Array.from(
+  new Set(Object.values(productSpecFields).flat().map((field) => `spec.${field.key}`)),
+);
+
+// One product row of a sheet: its non-blank cells by column and the line of
+// the file it was read from, which is how errors point back to it
+export interface ProductSheetRow {
+  line: number;
+  cells: Record<string, string>;
+}
+
+type RowResult = { outcome: "created" | "updated" } | { messages: string[] };
+
+export function productSheetFormat(fileName: string): ProductSheetFormat {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === ".csv") return "csv";
+  if (extension === ".xlsx") return "xlsx";
+  throw new ProductImportError("Upload a .csv or .xlsx file");
+}
+
+// Read the first sheet of a workbook, with the column names on the first line
+export async function readProductSheet(buffer: Buffer, format: ProductSheetFormat): Promise<ProductSheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  let worksheet: ExcelJS.Worksheet | undefined;
+  try {
+    if (format === "csv") {
+      // Cells are kept as written; the row checks read numbers themselves
+      worksheet = await workbook.csv.read(Readable.from(buffer), { map: (value: string) => value });
+    } else {
+      await workbook.xlsx.load(buffer);
+      worksheet = workbook.worksheets[0];
+    }
+  } catch {
+    throw new ProductImportError(`The file could not be read as ${format.toUpperCase()}`);
+  }
+  if (!worksheet || worksheet.rowCount === 0) {
+    throw new ProductImportError("The file is empty");
+  }
+
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, column) => {
+    headers[column] = cell.text.trim();
+  });
+  const named = headers.filter(Boolean);
+  const unknown = named.filter(
+    (header) => !(productSheetColumns as readonly string[]).includes(header) && !specColumns.includes(header),
+  );
+  if (unknown.length > 0) {
+    throw new ProductImportError(`Unknown columns: ${unknown.join(", ")}`);
+  }
+  if (new Set(named).size !== named.length) {
+    throw new ProductImportError("Each column may appear only once");
+  }
+  if (!named.includes("sku")) {
+    throw new ProductImportError("The sku column is required");
+  }
+
+  const rows: ProductSheetRow[] = [];
+  worksheet.eachRow((row, line) => {
+    if (line === 1) return;
+    const cells: Record<string, string> = {};
+    row.eachCell((cell, column) => {
+      const text = cell.text.trim();
+      if (headers[column] && text) cells[headers[column]] = text;
+    });
+    if (Object.keys(cells).length > 0) rows.push({ line, cells });
+  });
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ProductImportError(`A file may hold at most ${MAX_IMPORT_ROWS} products`);
+  }
+  return rows;
+}
+
+// Listing photos are links to the web or files already uploaded here, which
+// is what an export holds
+function isImageUrl(url: string): boolean {
+  if (url.startsWith("/uploads/")) return true;
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Check one row against the product schema and the specs of its category.
+// Blank cells keep the current values of an existing product.
+function parseProductRow(
+  sellerId: string,
+  cells: Record<string, string>,
+  existing: Product | undefined,
+  messages: string[],
+): { product: Partial<InsertProduct>; imageUrls: string[] | null } | null {
+  const fields: Record<string, unknown> = {};
+  const specInput: Record<string, string> = {};
+  for (const [column, value] of Object.entries(cells)) {
+    if (column.startsWith("spec.")) specInput[column.slice("spec.".length)] = value;
+    else if (column !== "imageUrls") fields[column] = value;
+  }
+
+  for (const column of ["price", "originalPrice"]) {
+    const amount = Number(fields[column]);
+    if (fields[column] !== undefined && (!Number.isFinite(amount) || amount < 0)) {
+      messages.push(`${column}: must be a number`);
+    }
+  }
+  if (fields.stock !== undefined) {
+    const stock = Number(fields.stock);
+    if (Number.isInteger(stock) && stock >= 0) {
+      fields.stock = stock;
+    } else {
+      messages.push("stock: must be a whole number");
+      delete fields.stock;
+    }
+  }
+
+  const schema = existing ? insertProductSchema.partial() : insertProductSchema;
+  const parsed = schema.safeParse({ ...fields, sellerId, status: "pending" });
+  if (!parsed.success) {
+    messages.push(...parsed.error.errors.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`));
+  }
+
+  const category = (parsed.success ? parsed.data.category : undefined) ?? existing?.category;
+  let specs = existing?.specs;
+  if (category) {
+    try {
+      specs = normalizeProductSpecs(category, {
+        ...(existing ? specsForCategory(category, existing.specs) : {}),
+        ...specInput,
+      });
+    } catch (error) {
+      if (!(error instanceof ProductSpecError)) throw error;
+      messages.push(`specs: ${error.message}`);
+    }
+  }
+
+  let imageUrls: string[] | null = null;
+  if (cells.imageUrls) {
+    imageUrls = cells.imageUrls.split("|").map((url) => url.trim()).filter(Boolean);
+    for (const url of imageUrls.filter((url) => !isImageUrl(url))) {
+      messages.push(`imageUrls: ${url} is not a web address`);
+    }
+  }
+
+  if (!parsed.success || messages.length > 0) return null;
+  const product: Partial<InsertProduct> = { ...parsed.data, specs };
+  if (imageUrls) product.imageUrl = imageUrls[0] ?? null;
+  return { product, imageUrls };
+}
+
+// The photos in the sheet replace the listing's own; variant photos stay
+async function replaceListingImages(productId: string, imageUrls: string[]): Promise<void> {
+  const current = (await storage.listProductImages(productId)).filter((image) => !image.variantId);
+  if (current.map((image) => image.imageUrl).join("|") === imageUrls.join("|")) return;
+
+  for (const image of current) {
+    await storage.deleteProductImage(image.id);
+  }
+  for (let i = 0; i < imageUrls.length; i++) {
+    await storage.createProductImage({
+      productId,
+      variantId: null,
+      imageUrl: imageUrls[i],
+      fileName: path.basename(imageUrls[i]),
+      isMain: i === 0,
+      displayOrder: i,
+    });
+  }
+}
+
+// Create the seller's product with the row's sku, or update the one they
+// already have. Either way it goes back to the approval queue. Stock moves
+// through the inventory log like any other change; a product counted by its
+// serialized units only changes as units are added or sold.
+async function importProductRow(
+  importId: string,
+  sellerId: string,
+  row: ProductSheetRow,
+  dryRun: boolean,
+  seenSkus: Set<string>,
+): Promise<RowResult> {
+  const sku = row.cells.sku;
+  if (!sku) return { messages: ["sku: Required"] };
+  if (seenSkus.has(sku)) return { messages: [`sku: ${sku} is on an earlier row`] };
+  seenSkus.add(sku);
+
+  const existing = await storage.getProductBySku(sku);
+  if (existing && existing.sellerId !== sellerId) {
+    return { messages: [`sku: ${sku} is used by another seller`] };
+  }
+
+  const messages: string[] = [];
+  const parsed = parseProductRow(sellerId, row.cells, existing, messages);
+  if (!parsed) return { messages };
+
+  const { product, imageUrls } = parsed;
+  const stock = product.stock;
+  delete product.stock;
+  // A product listed with variants takes its price and stock from them
+  const hasVariants = !!existing && (await storage.getProductVariants(existing.id)).length > 0;
+  let stockChange = existing ? 0 : (stock ?? 0);
+  if (existing && !hasVariants && stock !== undefined && stock !== existing.stock) {
+    if ((await storage.getDeviceUnits(existing.id)).length > 0) {
+      return { messages: ["stock: counted from the product's serialized units; add or remove units instead"] };
+    }
+    stockChange = stock - existing.stock;
+  }
+  if (dryRun) return { outcome: existing ? "updated" : "created" };
+
+  let productId: string;
+  if (existing) {
+    if (hasVariants) delete product.price;
+    productId = (await storage.updateProduct(existing.id, { ...product, status: "pending", rejectionReason: null })).id;
+  } else {
+    productId = (await storage.createProduct({ ...product, stock: 0 } as InsertProduct)).id;
+  }
+  if (stockChange !== 0) {
+    await storage.updateProductStock(productId, stockChange, `Product import ${importId}`, undefined, "adjustment");
+  }
+  if (imageUrls) {
+    await replaceListingImages(productId, imageUrls);
+  }
+  return { outcome: existing ? "updated" : "created" };
+}
+
+// Apply the rows of an import in order and record how it went. Rows that do
+// not pass are reported and skipped; an unexpected error fails the import.
+export async function runProductImport(productImport: ProductImport, rows: ProductSheetRow[]): Promise<ProductImport> {
+  const { id, sellerId, dryRun } = productImport;
+  await storage.updateProductImport(id, { status: "running" });
+
+  const errors: ProductImportRowError[] = [];
+  const seenSkus = new Set<string>();
+  let processedRows = 0;
+  let createdCount = 0;
+  let updatedCount = 0;
+  try {
+    for (const row of rows) {
+      const result = await importProductRow(id, sellerId, row, dryRun, seenSkus);
+      if ("messages" in result) {
+        errors.push({ row: row.line, sku: row.cells.sku ?? null, messages: result.messages });
+      } else if (result.outcome === "created") {
+        createdCount++;
+      } else {
+        updatedCount++;
+      }
+      processedRows++;
+      if (processedRows % PROGRESS_INTERVAL === 0) {
+        await storage.updateProductImport(id, { processedRows, createdCount, updatedCount, errors });
+      }
+    }
+  } catch (error) {
+    console.error(`Product import ${id} failed:`, error);
+    return await storage.updateProductImport(id, {
+      status: "failed",
+      processedRows,
+      createdCount,
+      updatedCount,
+      errors,
+      failureReason: `Row ${rows[processedRows]?.line ?? "?"} could not be saved`,
+      completedAt: new Date(),
+    });
+  }
+
+  const completed = await storage.updateProductImport(id, {
+    status: "completed",
+    processedRows,
+    createdCount,
+    updatedCount,
+    errors,
+    completedAt: new Date(),
+  });
+
+  if (!dryRun && createdCount + updatedCount > 0) {
+    const seller = await storage.getSeller(sellerId);
+    const sellerName = seller?.businessName ?? "A seller";
+    await storage.createNotification({
+      type: "product_pending",
+      title: "Imported Products Pending Approval",
+      message: `${sellerName} has imported ${createdCount} new and ${updatedCount} updated products for approval.`,
+      relatedId: id,
+      metadata: { sellerId, sellerName, importId: id, createdCount, updatedCount },
+    });
+  }
+  return completed;
+}
+
+// The import records its own failure, and rows already saved are not applied
+// twice, so the job is not retried
+defineJob<{ importId: string; rows: ProductSheetRow[] }>(
+  "product-import",
+  async ({ importId, rows }) => {
+    const productImport = await storage.getProductImport(importId);
+    if (productImport) await runProductImport(productImport, rows);
+  },
+  { maxAttempts: 1 },
+);
+
+// Read a seller's sheet and record the import. The rows are applied by the job
+// worker; the returned import shows their progress.
+export async function startProductImport(
+  sellerId: string,
+  file: { originalname: string; buffer: Buffer },
+  dryRun: boolean,
+): Promise<ProductImport> {
+  const format = productSheetFormat(file.originalname);
+  const rows = await readProductSheet(file.buffer, format);
+  if (rows.length === 0) {
+    throw new ProductImportError("The file has no product rows");
+  }
+
+  const productImport = await storage.createProductImport({
+    sellerId,
+    fileName: file.originalname,
+    format,
+    dryRun,
+    totalRows: rows.length,
+  });
+  await enqueueJob("product-import", { importId: productImport.id, rows });
+  return productImport;
+}
+
+// A seller's catalog with the import columns, so it can be edited and
+// imported back. Products without a sku are exported but cannot be re-imported
+// until one is filled in.
+export async function exportProductSheet(
+  products: Product[],
+  images: ProductImage[],
+  format: ProductSheetFormat,
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet("Products");
+  worksheet.columns = [...productSheetColumns, ...specColumns].map((key) => ({ header: key, key }));
+
+  for (const product of products) {
+    const imageUrls = images.filter((image) => image.productId === product.id).map((image) => image.imageUrl);
+    if (imageUrls.length === 0 && product.imageUrl) imageUrls.push(product.imageUrl);
+    worksheet.addRow({
+      sku: product.sku ?? "",
+      name: product.name,
+      description: product.description ?? "",
+      brand: product.brand ?? "",
+      category: product.category,
+      condition: product.condition,
+      price: product.price,
+      originalPrice: product.originalPrice ?? "",
+      stock: product.stock,
+      warrantyMonths: product.warrantyMonths,
+      warrantyProvider: product.warrantyProvider,
+      imageUrls: imageUrls.join("|"),
+      ...Object.fromEntries(Object.entries(product.specs).map(([key, value]) => [`spec.${key}`, String(value)])),
+    });
+  }
+
+  const buffer = format === "csv" ? await workbook.csv.writeBuffer() : await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
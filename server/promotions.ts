@@ -0,0 +1,175 @@
+import type { InsertPromotion, OrderItem, Product, Promotion } from "@shared/schema";
+import { storage } from "./storage";
+import { PromotionError } from "./errors";
+import { defineJob, enqueueJob } from "./jobs";
+
+export interface PromotionContext {
+  customerId: string;
+  // Walk-in POS customers are anonymous, so per-customer limits don't apply
+  isPosOrder: boolean;
+  loyaltyPoints: number;
+  now?: Date;
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  items: OrderItem[];
+  discount: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function assertValidPromotion(promotion: Pick<InsertPromotion, "discountType" | "value">) {
+  if (promotion.discountType === "percentage" && parseFloat(promotion.value) > 100) {
+    throw new PromotionError("A percentage discount cannot exceed 100");
+  }
+}
+
+function isEligible(
+  promotion: Promotion,
+  item: Pick<OrderItem, "productId" | "sellerId" | "category" | "brand" | "repairTicketId">,
+): boolean {
+  // Codes discount products, not repair work billed at the counter
+  if (item.repairTicketId) {
+    return false;
+  }
+  // Seller promotions only discount that seller's products
+  if (promotion.sellerId && item.sellerId !== promotion.sellerId) {
+    return false;
+  }
+  const values = promotion.scopeValues.map((value) => value.toLowerCase());
+  switch (promotion.scope) {
+    case "category":
+      return !!item.category && values.includes(item.category.toLowerCase());
+    case "brand":
+      return !!item.brand && values.includes(item.brand.toLowerCase());
+    case "product":
+      return values.includes(item.productId.toLowerCase());
+    default:
+      return true;
+  }
+}
+
+async function assertUsable(promotion: Promotion, context: PromotionContext) {
+  const now = context.now ?? new Date();
+  if (!promotion.isActive) {
+    throw new PromotionError("This code is not active");
+  }
+  if (promotion.startsAt && promotion.startsAt > now) {
+    throw new PromotionError("This code is not valid yet");
+  }
+  if (promotion.endsAt && promotion.endsAt < now) {
+    throw new PromotionError("This code has expired");
+  }
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    throw new PromotionError("This code has reached its usage limit");
+  }
+  if (context.loyaltyPoints > 0 && !promotion.stackableWithLoyalty) {
+    throw new PromotionError("This code cannot be combined with loyalty points");
+  }
+  if (promotion.perUserLimit !== null && !context.isPosOrder) {
+    const used = await storage.countPromotionRedemptions(promotion.id, context.customerId);
+    if (used >= promotion.perUserLimit) {
+      throw new PromotionError("You have already used this code");
+    }
+  }
+}
+
+// Apply a promotion code to checkout lines. Each eligible line carries its
+// share of the discount so sub-orders, refunds and receipts see it.
+export async function applyPromotionCode(
+  code: string,
+  items: OrderItem[],
+  context: PromotionContext,
+): Promise<AppliedPromotion> {
+  const promotion = await storage.getPromotionByCode(code);
+  if (!promotion) {
+    throw new PromotionError("Invalid promotion code");
+  }
+  await assertUsable(promotion, context);
+
+  const eligible = items.filter((item) => isEligible(promotion, item));
+  if (eligible.length === 0) {
+    throw new PromotionError("This code does not apply to any items in your basket");
+  }
+  const eligibleTotal = eligible.reduce((sum, item) => sum + item.total, 0);
+  if (promotion.minBasket && eligibleTotal < parseFloat(promotion.minBasket)) {
+    throw new PromotionError(`Spend at least ${promotion.minBasket} on eligible items to use this code`);
+  }
+
+  const value = parseFloat(promotion.value);
+  const discounts = new Map<OrderItem, number>();
+  if (promotion.discountType === "percentage") {
+    for (const item of eligible) {
+      discounts.set(item, roundAmount((item.total * value) / 100));
+    }
+  } else {
+    // Spread a fixed amount over the lines by value; the last line takes the rounding
+    const amount = Math.min(value, eligibleTotal);
+    let remaining = amount;
+    eligible.forEach((item, index) => {
+      const share = index === eligible.length - 1
+        ? roundAmount(remaining)
+        : roundAmount((amount * item.total) / eligibleTotal);
+      discounts.set(item, share);
+      remaining -= share;
+    });
+  }
+
+  const discounted = items.map((item) => {
+    const discount = discounts.get(item);
+    return discount
+      ? { ...item, discount, promotionCode: promotion.code, total: roundAmount(item.total - discount) }
+      : item;
+  });
+  const discount = roundAmount(Array.from(discounts.values()).reduce((sum, amount) => sum + amount, 0));
+  return { promotion, items: discounted, discount };
+}
+
+// Tell each customer with a product the promotion covers on their wishlist,
+// once however many of their saved products it covers. Returns the number told.
+export async function announcePromotion(promotion: Promotion, now = new Date()): Promise<number> {
+  if (!promotion.isActive || (promotion.endsAt && promotion.endsAt < now)) {
+    return 0;
+  }
+  const covered = new Map<string, Product>();
+  for (const item of await storage.getWatchedWishlistItems()) {
+    const { product } = item;
+    const line = { productId: product.id, sellerId: product.sellerId, category: product.category, brand: product.brand ?? undefined };
+    if (!covered.has(item.userId) && isEligible(promotion, line)) {
+      covered.set(item.userId, product);
+    }
+  }
+
+  const discount = promotion.discountType === "percentage" ? `${parseFloat(promotion.value)}%` : `KWD ${promotion.value}`;
+  for (const [userId, product] of Array.from(covered.entries())) {
+    await storage.createNotification({
+      type: "promotion",
+      title: "New Offer",
+      message: `Use code ${promotion.code} for ${discount} off "${product.name}" on your wishlist.`,
+      relatedId: promotion.id,
+      userId,
+      metadata: { code: promotion.code, discount, productName: product.name },
+    });
+  }
+  return covered.size;
+}
+
+// Not retried, so nobody hears about the same offer twice
+defineJob<{ promotionId: string }>("announce-promotion", async ({ promotionId }) => {
+  const promotion = await storage.getPromotion(promotionId);
+  if (promotion) await announcePromotion(promotion);
+}, { maxAttempts: 1 });
+
+// Announce a new promotion when it starts. The promotion stands even if the
+// announcement cannot be queued.
+export async function queuePromotionAnnouncement(promotion: Promotion) {
+  try {
+    await enqueueJob("announce-promotion", { promotionId: promotion.id }, {
+      runAt: promotion.startsAt ?? undefined,
+      dedupeKey: `announce-promotion:${promotion.id}`,
+    });
+  } catch (error) {
+    console.error("Queue promotion announcement error:", error);
+  }
+}
@@ -0,0 +1,222 @@
+import type { InsertRepairTicket, OrderItem, Product, ProductVariant, RepairDiagnosis, RepairPart, RepairTicket } from "@shared/schema";
+import { storage } from "./storage";
+import { RepairTicketError } from "./errors";
+import { variantLabel } from "./variants";
+
+type RepairStatus = RepairTicket["status"];
+
+// Anything that can emit to a user's room; the Socket.IO server in practice
+export interface RepairUpdateEmitter {
+  to(room: string): { emit(event: string, payload: unknown): unknown };
+}
+
+// Statuses each repair status may move to by hand. A ready ticket is collected
+// by billing it at the POS unless there is nothing to charge, as for a warranty
+// repair; a declined one is handed back with nothing to bill.
+const REPAIR_TRANSITIONS: Record<RepairStatus, RepairStatus[]> = {
+  received: ["diagnosed", "cancelled"],
+  diagnosed: ["approved", "declined", "cancelled"],
+  approved: ["in_repair", "cancelled"],
+  declined: ["collected"],
+  in_repair: ["ready"],
+  ready: ["collected"],
+  collected: [],
+  cancelled: [],
+};
+
+// Parts can only be used once the customer has approved the quote
+const PARTS_STATUSES: RepairStatus[] = ["approved", "in_repair"];
+
+const ticketRef = (ticket: RepairTicket) => `#${ticket.id.slice(-8)}`;
+
+export function assertRepairTransition(ticket: RepairTicket, next: RepairStatus) {
+  if (!REPAIR_TRANSITIONS[ticket.status].includes(next)) {
+    throw new RepairTicketError(`Cannot move repair from ${ticket.status} to ${next}`);
+  }
+}
+
+async function notifyCustomer(ticket: RepairTicket, title: string, message: string) {
+  if (!ticket.customerId) return;
+  await storage.createNotification({
+    type: "repair_update",
+    title,
+    message,
+    relatedId: ticket.id,
+    userId: ticket.customerId,
+    metadata: { ticketId: ticket.id, status: ticket.status },
+  });
+}
+
+// Send the ticket to the customer and the seller over their Socket.IO rooms
+export async function pushRepairUpdate(io: RepairUpdateEmitter | undefined, ticket: RepairTicket) {
+  if (!io) return;
+  const seller = await storage.getSeller(ticket.sellerId);
+  for (const userId of [ticket.customerId, seller?.userId]) {
+    if (userId) io.to(userId).emit("repair_ticket", ticket);
+  }
+}
+
+// Book a device in at the counter. A customer email links the ticket to their
+// account so they can follow it and answer the quote online.
+export async function openRepairTicket(
+  sellerId: string,
+  receivedBy: string,
+  input: InsertRepairTicket,
+): Promise<RepairTicket> {
+  const { customerEmail, ...details } = input;
+  let customerId: string | null = null;
+  if (customerEmail) {
+    const customer = await storage.getUserByEmail(customerEmail);
+    if (!customer) {
+      throw new RepairTicketError("No customer account uses that email");
+    }
+    customerId = customer.id;
+  }
+
+  const ticket = await storage.createRepairTicket({
+    ...details,
+    imei: details.imei ?? null,
+    sellerId,
+    customerId,
+    receivedBy,
+  });
+  await notifyCustomer(
+    ticket,
+    "Repair Received",
+    `Your ${ticket.brand} ${ticket.model} was booked in for repair as ticket ${ticketRef(ticket)}.`,
+  );
+  return ticket;
+}
+
+// Move a ticket along, putting its parts back in stock if the repair is cancelled
+export async function moveRepairTicket(
+  ticket: RepairTicket,
+  next: RepairStatus,
+  changedBy: string,
+  options: { updates?: Partial<RepairTicket>; note?: string } = {},
+): Promise<RepairTicket> {
+  assertRepairTransition(ticket, next);
+  if (ticket.status === "ready" && parseFloat(ticket.quotedAmount ?? "0") > 0) {
+    throw new RepairTicketError("Bill this repair at the POS when the customer collects it");
+  }
+  const moved = await storage.transitionRepairTicket(ticket.id, ticket.status, next, changedBy, options.updates, options.note);
+  if (!moved) {
+    throw new RepairTicketError("This repair ticket was updated by someone else; reload and try again");
+  }
+
+  if (next === "cancelled") {
+    for (const part of await storage.getRepairParts(ticket.id)) {
+      await storage.updateProductStock(
+        part.productId,
+        part.quantity,
+        `Repair ${ticketRef(ticket)} cancelled`,
+        undefined,
+        "repair",
+        part.variantId ?? undefined,
+      );
+      await storage.deleteRepairPart(part.id);
+    }
+  }
+
+  if (next === "diagnosed") {
+    await notifyCustomer(
+      moved,
+      "Repair Quote Ready",
+      `Diagnosis for ticket ${ticketRef(moved)}: "${moved.diagnosis}". The repair will cost ${moved.quotedAmount}; please approve or decline the quote.`,
+    );
+  } else if (next === "ready") {
+    await notifyCustomer(moved, "Repair Ready", `Your ${moved.brand} ${moved.model} is ready for pickup (ticket ${ticketRef(moved)}).`);
+  }
+  return moved;
+}
+
+export async function diagnoseRepair(
+  ticket: RepairTicket,
+  diagnosis: RepairDiagnosis,
+  changedBy: string,
+): Promise<RepairTicket> {
+  return await moveRepairTicket(ticket, "diagnosed", changedBy, {
+    updates: diagnosis,
+    note: `Quoted ${diagnosis.quotedAmount}`,
+  });
+}
+
+// The customer's answer to the quote, given online or recorded at the counter
+export async function decideRepairQuote(ticket: RepairTicket, approved: boolean, changedBy: string): Promise<RepairTicket> {
+  return await moveRepairTicket(ticket, approved ? "approved" : "declined", changedBy, {
+    note: approved ? "Quote approved" : "Quote declined",
+  });
+}
+
+// Take a part out of the seller's inventory for the repair. A part listed in
+// variants comes out of the stock of the variant picked.
+export async function useRepairPart(
+  ticket: RepairTicket,
+  product: Product,
+  quantity: number,
+  variant?: ProductVariant,
+): Promise<RepairPart> {
+  if (!PARTS_STATUSES.includes(ticket.status)) {
+    throw new RepairTicketError("Parts can only be used once the quote is approved");
+  }
+  if (product.sellerId !== ticket.sellerId) {
+    throw new RepairTicketError("Parts must come from your own inventory");
+  }
+
+  await storage.updateProductStock(product.id, -quantity, `Repair ${ticketRef(ticket)}`, undefined, "repair", variant?.id);
+  return await storage.addRepairPart({
+    ticketId: ticket.id,
+    productId: product.id,
+    variantId: variant?.id ?? null,
+    name: variant ? `${product.name} (${variantLabel(variant.options)})` : product.name,
+    quantity,
+    unitPrice: variant?.price ?? product.price,
+  });
+}
+
+// Put an unused part back in stock
+export async function returnRepairPart(ticket: RepairTicket, part: RepairPart): Promise<void> {
+  if (!PARTS_STATUSES.includes(ticket.status)) {
+    throw new RepairTicketError("Parts can no longer be changed on this ticket");
+  }
+  await storage.updateProductStock(
+    part.productId,
+    part.quantity,
+    `Repair ${ticketRef(ticket)} part returned`,
+    undefined,
+    "repair",
+    part.variantId ?? undefined,
+  );
+  await storage.deleteRepairPart(part.id);
+}
+
+export function toServiceLine(ticket: RepairTicket): OrderItem {
+  const price = parseFloat(ticket.quotedAmount ?? "0");
+  return {
+    productId: ticket.id,
+    repairTicketId: ticket.id,
+    name: `Repair ${ticketRef(ticket)}: ${ticket.brand} ${ticket.model}`,
+    category: "repairs",
+    quantity: 1,
+    price,
+    total: price,
+    sellerId: ticket.sellerId,
+  };
+}
+
+// The service lines for repairs being picked up at the seller's till. Each
+// ticket must be the seller's own and ready for pickup.
+export async function repairServiceLines(ticketIds: string[], sellerId: string): Promise<OrderItem[]> {
+  const lines: OrderItem[] = [];
+  for (const id of Array.from(new Set(ticketIds))) {
+    const ticket = await storage.getRepairTicket(id);
+    if (!ticket || ticket.sellerId !== sellerId) {
+      throw new RepairTicketError("Repair ticket not found");
+    }
+    if (ticket.status !== "ready") {
+      throw new RepairTicketError(`Repair ${ticketRef(ticket)} is not ready for pickup`);
+    }
+    lines.push(toServiceLine(ticket));
+  }
+  return lines;
+}
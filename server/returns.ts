@@ -0,0 +1,174 @@
+import type { Order, OrderItem, ReturnRequest } from "@shared/schema";
+import { storage } from "./storage";
+import { ReturnRequestError } from "./errors";
+import { refundPayment } from "./payments";
+import { recordRefund } from "./ledger";
+import { unitIdsOf } from "./device-units";
+
+export interface ReturnLine {
+  productId: string;
+  variantId?: string; // for products sold in variants, which one comes back
+  quantity: number;
+  unitIds?: string[]; // which handsets come back, for products tracked by IMEI
+}
+
+export interface PlannedReturn {
+  order: Order;
+  items: OrderItem[];
+  refundAmount: number;
+}
+
+// Statuses each return status may move to
+const RETURN_TRANSITIONS: Record<ReturnRequest["status"], ReturnRequest["status"][]> = {
+  requested: ["inspecting", "approved", "rejected"],
+  inspecting: ["approved", "rejected"],
+  approved: [],
+  rejected: [],
+};
+
+export function assertReturnTransition(returnRequest: ReturnRequest, next: ReturnRequest["status"]) {
+  if (!RETURN_TRANSITIONS[returnRequest.status].includes(next)) {
+    throw new ReturnRequestError(`Cannot move return from ${returnRequest.status} to ${next}`);
+  }
+}
+
+// Move a return to the next status, claiming it in the same statement so that
+// two requests racing on the same return cannot both move it
+export async function transitionReturn(
+  returnRequest: ReturnRequest,
+  updates: Partial<ReturnRequest> & { status: ReturnRequest["status"] },
+): Promise<ReturnRequest> {
+  assertReturnTransition(returnRequest, updates.status);
+  const fromStatuses = (Object.keys(RETURN_TRANSITIONS) as ReturnRequest["status"][]).filter((status) =>
+    RETURN_TRANSITIONS[status].includes(updates.status),
+  );
+  const moved = await storage.transitionReturnRequest(returnRequest.id, fromStatuses, updates);
+  if (!moved) {
+    throw new ReturnRequestError("This return has already been resolved");
+  }
+  return moved;
+}
+
+// An order line and a return line are the same when they name the same stock:
+// the variant, or else the product, as placeOrder keys them
+const sameStock = (item: OrderItem, line: ReturnLine) =>
+  item.productId === line.productId && (item.variantId ?? null) === (line.variantId ?? null);
+
+// Split the requested lines into one return per seller order, checking each
+// line against what was delivered and what earlier returns already cover.
+export async function planReturns(order: Order, lines: ReturnLine[]): Promise<PlannedReturn[]> {
+  const subOrders = await storage.getSubOrders(order.id);
+  const sellerOrders = subOrders.length > 0 ? subOrders : [order];
+
+  const plans = new Map<string, PlannedReturn>();
+  for (const line of lines) {
+    const sellerOrder = sellerOrders.find((candidate) =>
+      (candidate.items as OrderItem[]).some((item) => sameStock(item, line)),
+    );
+    if (!sellerOrder) {
+      throw new ReturnRequestError(`Product ${line.productId} is not part of this order`);
+    }
+    if (sellerOrder.status !== "delivered") {
+      throw new ReturnRequestError("Only delivered items can be returned");
+    }
+
+    const ordered = (sellerOrder.items as OrderItem[]).find((item) => sameStock(item, line))!;
+    if (ordered.repairTicketId) {
+      throw new ReturnRequestError("A repair service cannot be returned");
+    }
+    const previousReturns = await storage.getReturnRequests({ orderId: sellerOrder.id });
+    const previousItems = previousReturns
+      .filter((previous) => previous.status !== "rejected")
+      .flatMap((previous) => previous.items as OrderItem[])
+      .filter((item) => sameStock(item, line));
+    const alreadyReturned = previousItems.reduce((sum, item) => sum + item.quantity, 0);
+
+    let plan = plans.get(sellerOrder.id);
+    if (!plan) {
+      plan = { order: sellerOrder, items: [], refundAmount: 0 };
+      plans.set(sellerOrder.id, plan);
+    }
+    const pending = plan.items
+      .filter((item) => sameStock(item, line))
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+    if (alreadyReturned + pending + line.quantity > ordered.quantity) {
+      throw new ReturnRequestError(
+        `Cannot return ${line.quantity} of ${ordered.name}. Returnable: ${ordered.quantity - alreadyReturned - pending}`,
+      );
+    }
+
+    // Serialized lines name the handsets coming back: the ones asked for, or
+    // else the first sold units not already on a return
+    let units = ordered.units;
+    if (ordered.units) {
+      const claimed = new Set(unitIdsOf([...previousItems, ...plan.items]));
+      const returnable = ordered.units.filter((unit) => !claimed.has(unit.id));
+      if (line.unitIds) {
+        units = returnable.filter((unit) => line.unitIds!.includes(unit.id));
+        if (units.length !== line.quantity || new Set(line.unitIds).size !== line.quantity) {
+          throw new ReturnRequestError(`Pick ${line.quantity} returnable unit(s) of ${ordered.name}`);
+        }
+      } else {
+        units = returnable.slice(0, line.quantity);
+      }
+    }
+
+    // Refund what was paid per unit, after any promotion discount on the line
+    const perUnit = (amount: number) => Math.round((amount / ordered.quantity) * line.quantity * 100) / 100;
+    const total = perUnit(ordered.total);
+    plan.items.push({
+      ...ordered,
+      quantity: line.quantity,
+      total,
+      ...(ordered.discount ? { discount: perUnit(ordered.discount) } : {}),
+      ...(units ? { units } : {}),
+    });
+    plan.refundAmount += total;
+  }
+
+  return Array.from(plans.values());
+}
+
+// Approve a return: refund the customer (and charge it back to the seller), put
+// the items back in stock and take back the loyalty points the refunded amount earned.
+export async function approveReturn(returnRequest: ReturnRequest, note?: string): Promise<ReturnRequest> {
+  assertReturnTransition(returnRequest, "approved");
+
+  const order = await storage.getOrder(returnRequest.orderId);
+  if (!order) {
+    throw new ReturnRequestError("Order not found");
+  }
+
+  // Multi-vendor checkouts are paid once, on the parent order
+  const orderPayments = await storage.getPaymentsByOrderId(order.parentOrderId ?? order.id);
+  const payment = orderPayments.find((candidate) => candidate.status === "completed");
+  if (!payment) {
+    throw new ReturnRequestError("No completed payment to refund for this order");
+  }
+
+  // Claim the return before anything is refunded or restocked
+  const approved = await transitionReturn(returnRequest, {
+    status: "approved",
+    paymentId: payment.id,
+    resolutionNote: note ?? null,
+    resolvedAt: new Date(),
+  });
+
+  const refundAmount = parseFloat(returnRequest.refundAmount);
+  await refundPayment(payment, refundAmount, `Return ${returnRequest.id}`);
+  await recordRefund(order, refundAmount, `Return ${returnRequest.id}`);
+
+  for (const item of returnRequest.items as OrderItem[]) {
+    await storage.updateProductStock(item.productId, item.quantity, `Return ${returnRequest.id}`, order.id, "return", item.variantId);
+  }
+  await storage.releaseDeviceUnits(order.id, unitIdsOf(returnRequest.items as OrderItem[]));
+
+  await storage.debitLoyaltyPoints(
+    returnRequest.customerId,
+    Math.floor(refundAmount),
+    `Return for order #${order.id.slice(-8)}`,
+  );
+
+  return approved;
+}
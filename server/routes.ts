@@ -6,7 +6,8 @@ import session from "express-session";
 import { RedisStore } from "connect-redis";
 import { createClient as createRedisClient } from "redis";
 import passport from "passport";
-import { storage } from "./storage";
+import { storage, type NotificationAudience, type OrderFilters } from "./storage";
+import { DeviceUnitError, InsufficientStockError, LedgerError, OrderTransitionError, PaymentError, ProductImportError, ProductSpecError, ProductVariantError, PromotionError, RepairTicketError, ReturnRequestError, ShipmentError, TradeInError, WarrantyError } from "./errors";
 import { setupPassport, getConfiguredProviders } from "./auth";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
@@ -18,15 +19,81 @@ import {
   insertUserSchema,
   insertSellerSchema,
   insertProductSchema,
+  productOptionsSchema,
+  insertProductVariantSchema,
+  updateProductVariantSchema,
+  productSearchSchema,
+  pageQuerySchema,
+  userSortFields,
+  orderSortFields,
+  productSortFields,
+  paymentSortFields,
+  notificationSortFields,
   insertOrderSchema,
   insertCartSchema,
   insertPaymentSchema,
   insertReviewSchema,
   insertMessageSchema,
+  insertAddressSchema,
+  insertPromotionSchema,
+  insertTaxRateSchema,
+  insertCommissionRateSchema,
+  insertDeviceUnitSchema,
+  insertTradeInPriceSchema,
+  insertTradeInSchema,
+  tradeInDeviceSchema,
+  insertRepairTicketSchema,
+  repairDiagnosisSchema,
+  repairStatusEnum,
+  insertWarrantyClaimSchema,
+  resolveWarrantyClaimSchema,
+  payoutAccountSchema,
+  shippingAddressSchema,
+  orderStatusEnum,
+  shipmentStatusEnum,
+  productConditionEnum,
+  tradeInStatusEnum,
+  userRoleEnum,
+  jobStatusEnum,
+  notificationPreferencesSchema,
+  reviewReplySchema,
+  updateReviewSchema,
+  type NotificationPreferences,
+  type OrderItem,
+  type User,
 } from "@shared/schema";
 import type { AuthenticatedRequest, AuthenticatedUser } from "./types";
 import { z } from "zod";
 import { getRecommendations } from "./recommendations";
+import { groupItemsBySeller, toOrderItem } from "./checkout";
+import { createOrderPayment, handlePaymentWebhook, processPayment, refundPayment } from "./payments";
+import { approveReturn, planReturns, transitionReturn } from "./returns";
+import { transitionOrder, type OrderActorRole } from "./order-status";
+import { cancelOrder } from "./cancellation";
+import { createShipment, listCarriers, recordShipmentEvent, syncShipment } from "./shipping";
+import { applyPromotionCode, assertValidPromotion, queuePromotionAnnouncement, type AppliedPromotion } from "./promotions";
+import { summarizeTax, taxOrderItems } from "./tax";
+import { recordAdjustment } from "./ledger";
+import { fileWarrantyClaim, rejectWarrantyClaim, resolveWarrantyClaim } from "./warranties";
+import { addDeviceUnits, lookupDeviceUnit } from "./device-units";
+import { createProductVariant, resolveVariant, setProductOptions, updateProductVariant } from "./variants";
+import { autocompleteProducts, searchProducts } from "./search";
+import { compareProducts, normalizeProductSpecs, specsForCategory } from "./specs";
+import { exportProductSheet, startProductImport } from "./product-import";
+import { DEFAULT_RESTOCK_OPTIONS, getRestockSuggestions } from "./low-stock";
+import { getJobOverview, retryDeadLetterJob } from "./jobs";
+import "./notifications";
+import {
+  decideRepairQuote,
+  diagnoseRepair,
+  moveRepairTicket,
+  openRepairTicket,
+  pushRepairUpdate,
+  repairServiceLines,
+  returnRepairPart,
+  useRepairPart,
+} from "./repairs";
+import { acceptTradeIn, cancelTradeIn, gradeTradeIn, listTradeIn, quoteTradeIn, rejectTradeIn, submitTradeIn } from "./trade-ins";
 
 // JWT Authentication middleware
 const jwtSecret = process.env.JWT_SECRET;
@@ -80,6 +147,14 @@ const upload = multer({
   fileFilter,
 });
 
+// Product sheets are read straight from memory and never stored
+const sheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+});
+
 export { fileFilter };
 
 function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction) {
@@ -127,6 +202,13 @@ function requireRole(role: string) {
   };
 }
 
+// A basket line sent by the POS in place of the customer's cart
+const posLineSchema = z.object({
+  productId: z.string(),
+  variantId: z.string().optional(),
+  quantity: z.number().int().positive(),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session configuration for OAuth using Redis store when available
   const redisUrl = process.env.REDIS_URL;
@@ -372,6 +454,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // How the signed-in user hears about notifications outside the app
+  const notificationPreferencesOf = (user: User): NotificationPreferences => ({
+    emailNotifications: user.emailNotifications,
+    smsNotifications: user.smsNotifications,
+    phoneNumber: user.phoneNumber,
+    preferredLanguage: user.preferredLanguage,
+  });
+
+  // The notification center: everything sent to the signed-in user, for a
+  // seller everything sent to their shop, and for an admin everything sent to
+  // the admins
+  const notificationAudience = async (req: AuthenticatedRequest): Promise<NotificationAudience> => {
+    const { userId, userRole } = req.user!;
+    const seller = userRole === "seller" ? await storage.getSellerByUserId(userId) : undefined;
+    return { userId, sellerId: seller?.sellerId, isAdmin: userRole === "admin" };
+  };
+
+  app.get("/api/users/me/notifications", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const page = pageQuerySchema(notificationSortFields).parse(req.query);
+      res.json(await storage.listUserNotifications(await notificationAudience(req), page));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
+      console.error("Get user notifications error:", error);
+      res.status(500).json({ message: "Failed to get notifications" });
+    }
+  });
+
+  app.get("/api/users/me/notifications/unread-count", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const count = await storage.countUnreadUserNotifications(await notificationAudience(req));
+      res.json({ count });
+    } catch (error) {
+      console.error("Count unread notifications error:", error);
+      res.status(500).json({ message: "Failed to count notifications" });
+    }
+  });
+
+  app.put("/api/users/me/notifications/read-all", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const updated = await storage.markAllUserNotificationsRead(await notificationAudience(req));
+      res.json({ updated });
+    } catch (error) {
+      console.error("Mark all notifications read error:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.put("/api/users/me/notifications/:id/read", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const marked = await storage.markUserNotificationRead(req.params.id, await notificationAudience(req));
+      if (!marked) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Mark user notification read error:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  app.get("/api/users/me/notification-preferences", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user!.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(notificationPreferencesOf(user));
+    } catch (error) {
+      console.error("Get notification preferences error:", error);
+      res.status(500).json({ message: "Failed to get notification preferences" });
+    }
+  });
+
+  app.put("/api/users/me/notification-preferences", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const preferences = notificationPreferencesSchema.parse(req.body);
+      const user = await storage.updateUser(req.user!.userId, preferences);
+      res.json(notificationPreferencesOf(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("Update notification preferences error:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
   // Product routes (Only show approved products in marketplace)
   app.get("/api/products", async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -385,15 +557,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sellerId: req.query.sellerId as string,
         status: "approved", // Only show approved products in marketplace
       };
+      const page = pageQuerySchema(productSortFields).parse(req.query);
 
-      const products = await storage.getProducts(filters);
-      res.json(products);
+      res.json(await storage.listProducts(filters, page));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
       console.error("Get products error:", error);
       res.status(500).json({ message: "Failed to get products" });
     }
   });
 
+  // Ranked marketplace search with facet counts and a "did you mean" suggestion
+  app.get("/api/products/search", async (req: Request, res: Response) => {
+    try {
+      const search = productSearchSchema.parse(req.query);
+      res.json(await searchProducts(search));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      console.error("Search products error:", error);
+      res.status(500).json({ message: "Failed to search products" });
+    }
+  });
+
+  app.get("/api/products/autocomplete", async (req: Request, res: Response) => {
+    try {
+      res.json(await autocompleteProducts(String(req.query.q ?? "")));
+    } catch (error) {
+      console.error("Autocomplete products error:", error);
+      res.status(500).json({ message: "Failed to suggest products" });
+    }
+  });
+
+  // Two to four listings side by side: ?ids=a,b,c
+  app.get("/api/products/compare", async (req: Request, res: Response) => {
+    try {
+      const ids = String(req.query.ids ?? "").split(",").filter(Boolean);
+      res.json(await compareProducts(ids));
+    } catch (error) {
+      if (error instanceof ProductSpecError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Compare products error:", error);
+      res.status(500).json({ message: "Failed to compare products" });
+    }
+  });
+
   app.get("/api/sellers/products", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       // Get products for the current seller
@@ -414,6 +626,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create or update many products from a CSV or XLSX sheet. The rows are
+  // applied in the background; poll the returned import for progress.
+  app.post("/api/sellers/products/import", requireRole("seller"), sheetUpload.single("file"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || seller.status !== "approved") {
+        return res.status(403).json({ message: "Seller must be approved to add products" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const dryRun = req.body.dryRun === "true";
+      const productImport = await startProductImport(seller.sellerId, req.file, dryRun);
+      res.status(202).json(productImport);
+    } catch (error) {
+      if (error instanceof ProductImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Import products error:", error);
+      res.status(500).json({ message: "Failed to import products" });
+    }
+  });
+
+  app.get("/api/sellers/products/imports", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      res.json(await storage.getProductImports(seller.sellerId, 20));
+    } catch (error) {
+      console.error("Get product imports error:", error);
+      res.status(500).json({ message: "Failed to get product imports" });
+    }
+  });
+
+  app.get("/api/sellers/products/imports/:id", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      const productImport = await storage.getProductImport(req.params.id);
+      if (!productImport || !seller || productImport.sellerId !== seller.sellerId) {
+        return res.status(404).json({ message: "Product import not found" });
+      }
+      res.json(productImport);
+    } catch (error) {
+      console.error("Get product import error:", error);
+      res.status(500).json({ message: "Failed to get product import" });
+    }
+  });
+
+  // The seller's catalog in the import format
+  app.get("/api/sellers/products/export", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const format = z.enum(["csv", "xlsx"]).default("csv").parse(req.query.format);
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+
+      const products = await storage.getProducts({ sellerId: seller.sellerId, includeInactive: true });
+      const images = await storage.getSellerProductImages(seller.sellerId);
+      const sheet = await exportProductSheet(products, images, format);
+
+      res.setHeader('Content-Type', format === "csv"
+        ? 'text/csv'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="products-export.${format}"`);
+      res.send(sheet);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid format" });
+      }
+      console.error("Export products error:", error);
+      res.status(500).json({ message: "Failed to export products" });
+    }
+  });
+
+  // Days of stock left per product at its recent sales rate, with how many to reorder
+  app.get("/api/sellers/products/restock-suggestions", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const options = z
+        .object({
+          days: z.coerce.number().int().min(1).max(365).default(DEFAULT_RESTOCK_OPTIONS.days),
+          coverDays: z.coerce.number().int().min(1).max(365).default(DEFAULT_RESTOCK_OPTIONS.coverDays),
+        })
+        .parse(req.query);
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      res.json(await getRestockSuggestions(seller.sellerId, options));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report period", errors: error.errors });
+      }
+      console.error("Get restock suggestions error:", error);
+      res.status(500).json({ message: "Failed to get restock suggestions" });
+    }
+  });
+
   // Get seller notifications
   app.get("/api/sellers/notifications", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -422,9 +735,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Seller profile not found" });
       }
       
-      const notifications = await storage.getSellerNotifications(seller.sellerId, 50);
-      res.json(notifications);
+      const page = pageQuerySchema(notificationSortFields).parse(req.query);
+      res.json(await storage.listSellerNotifications(seller.sellerId, page));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
       console.error("Get seller notifications error:", error);
       res.status(500).json({ message: "Failed to get seller notifications" });
     }
@@ -462,6 +778,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sellerId: seller.sellerId, // Use the seller record ID from sellers table
         status: "pending", // Products start as pending
       });
+      productData.specs = normalizeProductSpecs(productData.category, productData.specs ?? {});
 
       const product = await storage.createProduct(productData);
       
@@ -480,6 +797,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(product);
     } catch (error) {
+      if (error instanceof ProductSpecError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Create product error:", error);
       res.status(400).json({ message: "Failed to create product" });
     }
@@ -499,9 +819,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updates = insertProductSchema.partial().parse(req.body);
+      // A product listed with variants takes its price and stock from them
+      if ((await storage.getProductVariants(product.id)).length > 0) {
+        delete updates.price;
+        delete updates.stock;
+      }
+      // Specs are checked against the category the product ends up in
+      const category = updates.category ?? product.category;
+      if (updates.specs) {
+        updates.specs = normalizeProductSpecs(category, updates.specs);
+      } else if (category !== product.category) {
+        updates.specs = specsForCategory(category, product.specs);
+      }
       const updatedProduct = await storage.updateProduct(req.params.id, updates);
       res.json(updatedProduct);
     } catch (error) {
+      if (error instanceof ProductSpecError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Update product error:", error);
       res.status(400).json({ message: "Failed to update product" });
     }
@@ -532,7 +867,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/cart", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const cartItems = await storage.getCartItems(req.user!.userId);
-      res.json(cartItems);
+      // Each line comes with the variant picked, for its options and price
+      const withVariants = await Promise.all(
+        cartItems.map(async (item) => ({
+          ...item,
+          variant: item.variantId ? ((await storage.getProductVariant(item.variantId)) ?? null) : null,
+        })),
+      );
+      res.json(withVariants);
     } catch (error) {
       console.error("Get cart error:", error);
       res.status(500).json({ message: "Failed to get cart" });
@@ -545,10 +887,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         userId: req.user!.userId,
       });
+      const product = await storage.getProduct(cartData.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      await resolveVariant(product, cartData.variantId);
 
       const cartItem = await storage.addToCart(cartData);
       res.json(cartItem);
     } catch (error) {
+      if (error instanceof ProductVariantError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Add to cart error:", error);
       res.status(400).json({ message: "Failed to add to cart" });
     }
@@ -575,191 +925,1686 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Order routes
-  app.get("/api/orders", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  // Wishlist routes
+  app.get("/api/wishlist", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const filters: any = {};
-      
-      if (req.user!.userRole === "customer") {
-        filters.customerId = req.user!.userId;
-      } else if (req.user!.userRole === "seller") {
-        const seller = await storage.getSellerByUserId(req.user!.userId);
-        if (seller) {
-          filters.sellerId = seller.sellerId;
-        }
+      const wishlist = await storage.getWishlist(req.user!.userId);
+      res.json(wishlist);
+    } catch (error) {
+      console.error("Get wishlist error:", error);
+      res.status(500).json({ message: "Failed to get wishlist" });
+    }
+  });
+
+  app.post("/api/wishlist", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const product = await storage.getProduct(req.body.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
-      // Admin can see all orders (no filters)
 
-      const orders = await storage.getOrders(filters);
-      res.json(orders);
+      const item = await storage.addToWishlist(req.user!.userId, product);
+      res.status(201).json(item);
     } catch (error) {
-      console.error("Get orders error:", error);
-      res.status(500).json({ message: "Failed to get orders" });
+      console.error("Add to wishlist error:", error);
+      res.status(500).json({ message: "Failed to add to wishlist" });
     }
   });
 
-  // Get seller orders with enhanced details
-  app.get("/api/sellers/orders", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  app.delete("/api/wishlist/:productId", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await storage.removeFromWishlist(req.user!.userId, req.params.productId);
+      res.json({ message: "Item removed from wishlist" });
+    } catch (error) {
+      console.error("Remove from wishlist error:", error);
+      res.status(500).json({ message: "Failed to remove from wishlist" });
+    }
+  });
+
+  // Promotion routes
+  app.get("/api/promotions", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
+      if (req.user!.userRole === "admin") {
+        return res.json(await storage.getPromotions());
+      }
+      if (req.user!.userRole !== "seller") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
       const seller = await storage.getSellerByUserId(req.user!.userId);
       if (!seller) {
         return res.status(404).json({ message: "Seller profile not found" });
       }
-      
-      const orders = await storage.getSellerOrders(seller.sellerId);
-      res.json(orders);
+      res.json(await storage.getPromotions({ sellerId: seller.sellerId }));
     } catch (error) {
-      console.error("Get seller orders error:", error);
-      res.status(500).json({ message: "Failed to get seller orders" });
+      console.error("Get promotions error:", error);
+      res.status(500).json({ message: "Failed to get promotions" });
     }
   });
 
-  app.post("/api/orders", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  // Admins create platform-wide promotions; a seller's promotions only cover their own products
+  app.post("/api/promotions", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const isPosOrder = req.body.isPosOrder;
+      let sellerId: string | null = null;
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller) {
+          return res.status(404).json({ message: "Seller profile not found" });
+        }
+        sellerId = seller.sellerId;
+      } else if (req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
 
-      // Use provided items for POS orders, otherwise fetch cart items
-      const items = isPosOrder
-        ? (req.body.items || [])
-        : await storage.getCartItems(req.user!.userId);
+      const promotionData = insertPromotionSchema.parse(req.body);
+      assertValidPromotion(promotionData);
 
-      if (items.length === 0) {
-        return res.status(400).json({ message: isPosOrder ? "No items provided" : "Cart is empty" });
+      if (await storage.getPromotionByCode(promotionData.code)) {
+        return res.status(409).json({ message: "A promotion with this code already exists" });
       }
 
-      // Check stock availability
-      for (const item of items) {
-        const product = await storage.getProduct(item.productId);
-        if (!product) {
-          return res.status(400).json({ message: `Product ${item.productId} not found` });
-        }
-        if (product.stock < item.quantity) {
-          return res.status(400).json({
-            message: `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`
-          });
+      const promotion = await storage.createPromotion({ ...promotionData, sellerId, createdBy: req.user!.userId });
+      await queuePromotionAnnouncement(promotion);
+      res.status(201).json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion", errors: error.errors });
+      }
+      if (error instanceof PromotionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create promotion error:", error);
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
+
+  app.put("/api/promotions/:id", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const promotion = await storage.getPromotion(req.params.id);
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || promotion.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
         }
+      } else if (req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
       }
 
-      // Calculate total - get price from product since cart item doesn't have price
-      let total = 0;
-      for (const item of items) {
-        const product = await storage.getProduct(item.productId);
+      const updates = insertPromotionSchema.partial().parse(req.body);
+      assertValidPromotion({ ...promotion, ...updates });
+      const updated = await storage.updatePromotion(promotion.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion", errors: error.errors });
+      }
+      if (error instanceof PromotionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update promotion error:", error);
+      res.status(500).json({ message: "Failed to update promotion" });
+    }
+  });
+
+  // Price a basket with a code before the order is placed. Checkout prices the
+  // customer's cart; the POS sends its own lines.
+  app.post("/api/promotions/apply", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const applySchema = z.object({
+      code: z.string().trim().min(1),
+      items: z.array(posLineSchema).optional(),
+      loyaltyPoints: z.number().int().nonnegative().optional(),
+    });
+    try {
+      const { code, items, loyaltyPoints } = applySchema.parse(req.body);
+      const lines = items ?? await storage.getCartItems(req.user!.userId);
+
+      const orderItems: OrderItem[] = [];
+      for (const line of lines) {
+        const product = await storage.getProduct(line.productId);
         if (product) {
-          total += parseFloat(product.price) * item.quantity;
+          orderItems.push(toOrderItem(product, line.quantity, await resolveVariant(product, line.variantId)));
         }
       }
 
-      // Get seller ID from first product (single-vendor cart for now)
-      const firstProduct = await storage.getProduct(items[0].productId);
-
-      const orderData = insertOrderSchema.parse({
-        ...req.body,
+      const applied = await applyPromotionCode(code, orderItems, {
         customerId: req.user!.userId,
-        sellerId: firstProduct?.sellerId || "",
-        total: total.toString(),
-        status: "pending",
-        paymentStatus: "pending",
-        items,
+        isPosOrder: !!items,
+        loyaltyPoints: loyaltyPoints ?? 0,
+      });
+      res.json({
+        code: applied.promotion.code,
+        description: applied.promotion.description,
+        stackableWithLoyalty: applied.promotion.stackableWithLoyalty,
+        discount: applied.discount,
+        items: applied.items,
       });
+    } catch (error) {
+      if (error instanceof PromotionError || error instanceof ProductVariantError || error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Apply promotion error:", error);
+      res.status(500).json({ message: "Failed to apply promotion" });
+    }
+  });
 
-      const order = await storage.createOrder(orderData);
+  // Tax rate routes
+  app.get("/api/admin/tax-rates", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const taxRates = await storage.getTaxRates();
+      res.json(taxRates);
+    } catch (error) {
+      console.error("Get tax rates error:", error);
+      res.status(500).json({ message: "Failed to fetch tax rates" });
+    }
+  });
 
-      // Update inventory for each item
-      for (const item of items) {
-        await storage.updateProductStock(item.productId, -item.quantity, "Sale", order.id);
+  app.post("/api/admin/tax-rates", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const data = insertTaxRateSchema.parse(req.body);
+      // Placed orders keep the tax they were charged, so a backdated rate simply starts now
+      const now = new Date();
+      const taxRate = await storage.createTaxRate({
+        ...data,
+        category: data.category ?? null,
+        effectiveFrom: data.effectiveFrom < now ? now : data.effectiveFrom,
+        createdBy: req.user!.userId,
+      });
+      res.status(201).json(taxRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tax rate", errors: error.errors });
       }
+      console.error("Create tax rate error:", error);
+      res.status(500).json({ message: "Failed to create tax rate" });
+    }
+  });
 
-      // Clear cart after order creation if not POS order
-      if (!orderData.isPosOrder) {
-        await storage.clearCart(req.user!.userId);
+  app.delete("/api/admin/tax-rates/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const taxRate = await storage.getTaxRate(req.params.id);
+      if (!taxRate) {
+        return res.status(404).json({ message: "Tax rate not found" });
       }
+      if (taxRate.effectiveFrom <= new Date()) {
+        return res.status(400).json({ message: "Only scheduled rates can be deleted" });
+      }
+      await storage.deleteTaxRate(taxRate.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete tax rate error:", error);
+      res.status(500).json({ message: "Failed to delete tax rate" });
+    }
+  });
 
-      res.json(order);
+  // Commission and payout routes
+  app.get("/api/admin/commission-rates", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const rates = await storage.getCommissionRates();
+      res.json(rates);
     } catch (error) {
-      console.error("Create order error:", error);
-      res.status(500).json({ message: "Failed to create order" });
+      console.error("Get commission rates error:", error);
+      res.status(500).json({ message: "Failed to fetch commission rates" });
     }
   });
 
-  app.put("/api/orders/:id", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  app.post("/api/admin/commission-rates", requireRole("admin"), async (req: Request, res: Response) => {
     try {
-      const order = await storage.getOrder(req.params.id);
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+      const data = insertCommissionRateSchema.parse(req.body);
+      if (data.sellerId && !(await storage.getSeller(data.sellerId))) {
+        return res.status(400).json({ message: "Seller not found" });
+      }
+      const rate = await storage.setCommissionRate(data);
+      res.json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid commission rate", errors: error.errors });
       }
+      console.error("Set commission rate error:", error);
+      res.status(500).json({ message: "Failed to save commission rate" });
+    }
+  });
 
-      // Check authorization
-      if (req.user?.userRole === "customer" && order.customerId !== req.user.userId) {
-        return res.status(403).json({ message: "Not authorized" });
-      } else if (req.user?.userRole === "seller") {
-        const seller = await storage.getSellerByUserId(req.user.userId);
-        if (!seller || order.sellerId !== seller.sellerId) {
+  app.delete("/api/admin/commission-rates/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const rate = await storage.getCommissionRate(req.params.id);
+      if (!rate) {
+        return res.status(404).json({ message: "Commission rate not found" });
+      }
+      if (!rate.sellerId && !rate.category) {
+        return res.status(400).json({ message: "The default rate can be changed but not deleted" });
+      }
+      await storage.deleteCommissionRate(rate.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete commission rate error:", error);
+      res.status(500).json({ message: "Failed to delete commission rate" });
+    }
+  });
+
+  app.get("/api/admin/seller-balances", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const balances = await storage.getSellerBalances();
+      res.json(balances);
+    } catch (error) {
+      console.error("Get seller balances error:", error);
+      res.status(500).json({ message: "Failed to fetch seller balances" });
+    }
+  });
+
+  app.post("/api/admin/ledger/adjustments", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    const adjustmentSchema = z.object({
+      sellerId: z.string(),
+      amount: z.number().refine((amount) => amount !== 0, "Amount cannot be zero"),
+      description: z.string().trim().min(1),
+    });
+    try {
+      const { sellerId, amount, description } = adjustmentSchema.parse(req.body);
+      if (!(await storage.getSeller(sellerId))) {
+        return res.status(400).json({ message: "Seller not found" });
+      }
+      const entries = await recordAdjustment(sellerId, amount, description, req.user!.userId);
+      res.status(201).json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid adjustment", errors: error.errors });
+      }
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Ledger adjustment error:", error);
+      res.status(500).json({ message: "Failed to record adjustment" });
+    }
+  });
+
+  app.get("/api/admin/payout-batches", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const batches = await storage.getPayoutBatches();
+      res.json(batches);
+    } catch (error) {
+      console.error("Get payout batches error:", error);
+      res.status(500).json({ message: "Failed to fetch payout batches" });
+    }
+  });
+
+  app.post("/api/admin/payout-batches", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const minimumAmount = Number(req.body.minimumAmount) || 0;
+      const batch = await storage.createPayoutBatch(req.user!.userId, minimumAmount);
+      if (!batch) {
+        return res.status(400).json({ message: "No seller balances to pay out" });
+      }
+      res.status(201).json(batch);
+    } catch (error) {
+      console.error("Create payout batch error:", error);
+      res.status(500).json({ message: "Failed to create payout batch" });
+    }
+  });
+
+  app.get("/api/admin/payout-batches/:id/payouts", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const batchPayouts = await storage.getPayouts({ batchId: req.params.id });
+      res.json(batchPayouts);
+    } catch (error) {
+      console.error("Get payouts error:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  app.put("/api/admin/payout-batches/:id/paid", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const reference = typeof req.body.reference === "string" ? req.body.reference.trim() : "";
+      if (!reference) {
+        return res.status(400).json({ message: "A transfer reference is required" });
+      }
+      const batch = await storage.markPayoutBatchPaid(req.params.id, reference);
+      if (!batch) {
+        return res.status(400).json({ message: "Only pending payout batches can be marked paid" });
+      }
+      res.json(batch);
+    } catch (error) {
+      console.error("Mark payout batch paid error:", error);
+      res.status(500).json({ message: "Failed to mark payout batch paid" });
+    }
+  });
+
+  // Bank transfer file for a batch, one line per seller
+  app.get("/api/admin/payout-batches/:id/export", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const batch = await storage.getPayoutBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Payout batch not found" });
+      }
+      const batchPayouts = await storage.getPayouts({ batchId: batch.id });
+      const csvHeaders = "Payout ID,Seller ID,Business Name,Account Name,IBAN,Amount,Currency\n";
+      const csvData = batchPayouts.map(payout =>
+        `${payout.id},"${payout.sellerId}","${payout.businessName}","${payout.payoutAccountName ?? ""}","${payout.payoutIban ?? ""}","${payout.amount}","KWD"`
+      ).join("\n");
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="payout-batch-${batch.id.slice(-8)}.csv"`);
+      res.send(csvHeaders + csvData);
+    } catch (error) {
+      console.error("Export payout batch error:", error);
+      res.status(500).json({ message: "Failed to export payout batch" });
+    }
+  });
+
+  // Address book routes
+  app.get("/api/addresses", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const addresses = await storage.getAddresses(req.user!.userId);
+      res.json(addresses);
+    } catch (error) {
+      console.error("Get addresses error:", error);
+      res.status(500).json({ message: "Failed to get addresses" });
+    }
+  });
+
+  app.post("/api/addresses", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const addressData = insertAddressSchema.parse(req.body);
+      const address = await storage.createAddress(req.user!.userId, addressData);
+      res.status(201).json(address);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid address", errors: error.errors });
+      }
+      console.error("Create address error:", error);
+      res.status(500).json({ message: "Failed to create address" });
+    }
+  });
+
+  app.put("/api/addresses/:id", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const address = await storage.getAddress(req.params.id);
+      if (!address || address.userId !== req.user!.userId) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+
+      const updates = insertAddressSchema.partial().parse(req.body);
+      const updated = await storage.updateAddress(address.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid address", errors: error.errors });
+      }
+      console.error("Update address error:", error);
+      res.status(500).json({ message: "Failed to update address" });
+    }
+  });
+
+  app.put("/api/addresses/:id/default", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const address = await storage.getAddress(req.params.id);
+      if (!address || address.userId !== req.user!.userId) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+
+      const updated = await storage.updateAddress(address.id, { isDefault: true });
+      res.json(updated);
+    } catch (error) {
+      console.error("Set default address error:", error);
+      res.status(500).json({ message: "Failed to set default address" });
+    }
+  });
+
+  app.delete("/api/addresses/:id", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const address = await storage.getAddress(req.params.id);
+      if (!address || address.userId !== req.user!.userId) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+
+      await storage.deleteAddress(address.id);
+      res.json({ message: "Address deleted" });
+    } catch (error) {
+      console.error("Delete address error:", error);
+      res.status(500).json({ message: "Failed to delete address" });
+    }
+  });
+
+  // Order routes
+  app.get("/api/orders", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const page = pageQuerySchema(orderSortFields).parse(req.query);
+      const filters: OrderFilters = {};
+      
+      if (req.user!.userRole === "customer") {
+        filters.customerId = req.user!.userId;
+        filters.topLevelOnly = true;
+      } else if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (seller) {
+          filters.sellerId = seller.sellerId;
+        }
+      }
+      // Admin can see all orders (no filters)
+
+      res.json(await storage.listOrders(filters, page));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
+      console.error("Get orders error:", error);
+      res.status(500).json({ message: "Failed to get orders" });
+    }
+  });
+
+  // Get seller orders with enhanced details
+  app.get("/api/sellers/orders", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      
+      const orders = await storage.getSellerOrders(seller.sellerId);
+      res.json(orders);
+    } catch (error) {
+      console.error("Get seller orders error:", error);
+      res.status(500).json({ message: "Failed to get seller orders" });
+    }
+  });
+
+  // Price the cart (or POS lines) the way POST /api/orders will: promotion, then tax
+  app.post("/api/orders/quote", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const quoteSchema = z.object({
+      items: z.array(posLineSchema).optional(),
+      repairTicketIds: z.array(z.string()).optional(),
+      couponCode: z.string().trim().min(1).optional(),
+      loyaltyPoints: z.number().int().nonnegative().optional(),
+    });
+    try {
+      const { items, repairTicketIds, couponCode, loyaltyPoints } = quoteSchema.parse(req.body);
+      const lines = items ?? await storage.getCartItems(req.user!.userId);
+
+      let orderItems: OrderItem[] = [];
+      for (const line of lines) {
+        const product = await storage.getProduct(line.productId);
+        if (product) {
+          orderItems.push(toOrderItem(product, line.quantity, await resolveVariant(product, line.variantId)));
+        }
+      }
+      if (repairTicketIds?.length) {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller) {
+          return res.status(403).json({ message: "Only the repairing seller can bill a repair" });
+        }
+        orderItems.push(...(await repairServiceLines(repairTicketIds, seller.sellerId)));
+      }
+      const subtotal = orderItems.reduce((sum, item) => sum + item.total, 0);
+
+      let discount = 0;
+      if (couponCode) {
+        const applied = await applyPromotionCode(couponCode, orderItems, {
+          customerId: req.user!.userId,
+          isPosOrder: !!items,
+          loyaltyPoints: loyaltyPoints ?? 0,
+        });
+        orderItems = applied.items;
+        discount = applied.discount;
+      }
+      orderItems = await taxOrderItems(orderItems);
+
+      res.json({ items: orderItems, subtotal, discount, ...summarizeTax(orderItems) });
+    } catch (error) {
+      if (
+        error instanceof PromotionError ||
+        error instanceof RepairTicketError ||
+        error instanceof ProductVariantError ||
+        error instanceof z.ZodError
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Quote order error:", error);
+      res.status(500).json({ message: "Failed to price order" });
+    }
+  });
+
+  app.post("/api/orders", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      // Only the till rings up POS sales; they skip the cart and can be paid in cash
+      const isPosOrder = !!req.body.isPosOrder;
+      if (isPosOrder && req.user!.userRole !== "seller" && req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Only sellers can ring up in-store sales" });
+      }
+
+      // Use provided items for POS orders, otherwise fetch cart items
+      const items = isPosOrder
+        ? (req.body.items || [])
+        : await storage.getCartItems(req.user!.userId);
+      // Repairs picked up at the till are billed as service lines
+      const repairTicketIds: string[] = isPosOrder && Array.isArray(req.body.repairTicketIds)
+          ? Array.from(new Set<string>(req.body.repairTicketIds.map(String)))
+          : [];
+
+      if (items.length === 0 && repairTicketIds.length === 0) {
+        return res.status(400).json({ message: isPosOrder ? "No items provided" : "Cart is empty" });
+      }
+
+      // Price each line from the product record; stock is checked under lock in placeOrder
+      let orderItems: OrderItem[] = [];
+      for (const item of items) {
+        const product = await storage.getProduct(item.productId);
+        if (!product) {
+          return res.status(400).json({ message: `Product ${item.productId} not found` });
+        }
+        orderItems.push(toOrderItem(product, item.quantity, await resolveVariant(product, item.variantId)));
+      }
+      if (repairTicketIds.length > 0) {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller) {
+          return res.status(403).json({ message: "Only the repairing seller can bill a repair" });
+        }
+        orderItems.push(...(await repairServiceLines(repairTicketIds, seller.sellerId)));
+      }
+
+      // Handsets scanned at the till are sold as picked; placeOrder assigns the rest.
+      // Picks are kept by variant for products listed with variants.
+      const unitPicks: Record<string, string[]> = {};
+      if (isPosOrder) {
+        for (const item of items) {
+          if (!Array.isArray(item.unitIds) || item.unitIds.length === 0) continue;
+          const unitIds = Array.from(new Set<string>(item.unitIds.map(String)));
+          if (unitIds.length > item.quantity) {
+            return res.status(400).json({ message: "More units picked than are being sold" });
+          }
+          const key = item.variantId ?? item.productId;
+          unitPicks[key] = [...(unitPicks[key] ?? []), ...unitIds];
+        }
+      }
+
+      let promotion: AppliedPromotion | undefined;
+      if (req.body.couponCode) {
+        promotion = await applyPromotionCode(req.body.couponCode, orderItems, {
+          customerId: req.user!.userId,
+          isPosOrder,
+          loyaltyPoints: Number(req.body.loyaltyPoints) || 0,
+        });
+        orderItems = promotion.items;
+      }
+      // Tax is worked out on the discounted lines, with the rates in force now
+      orderItems = await taxOrderItems(orderItems);
+
+      // Online orders ship to a saved address or one entered at checkout; either
+      // way the order keeps its own copy so later address book edits don't change it
+      let shippingAddress = null;
+      if (req.body.addressId) {
+        const address = await storage.getAddress(req.body.addressId);
+        if (!address || address.userId !== req.user!.userId) {
+          return res.status(400).json({ message: "Address not found" });
+        }
+        shippingAddress = shippingAddressSchema.parse(address);
+      } else if (req.body.shippingAddress) {
+        const parsed = shippingAddressSchema.safeParse(req.body.shippingAddress);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid shipping address", errors: parsed.error.errors });
+        }
+        shippingAddress = parsed.data;
+      }
+
+      const sellerGroups = groupItemsBySeller(orderItems);
+      const { tax, gross: total } = summarizeTax(orderItems);
+
+      const orderData = insertOrderSchema.parse({
+        ...req.body,
+        isPosOrder,
+        shippingAddress,
+        customerId: req.user!.userId,
+        sellerId: sellerGroups.length === 1 ? sellerGroups[0].sellerId : null,
+        parentOrderId: null,
+        total: total.toString(),
+        taxTotal: tax.toString(),
+        status: "pending",
+        paymentStatus: "pending",
+        items: orderItems,
+      });
+
+      // Multi-vendor carts become a parent order plus one sub-order per seller.
+      // Orders, stock decrements and inventory logs commit or roll back together.
+      const { order, subOrders } = await storage.placeOrder(
+        orderData,
+        sellerGroups.length === 1
+          ? []
+          : sellerGroups.map((group) => {
+              const { tax, gross } = summarizeTax(group.items);
+              return {
+                ...orderData,
+                sellerId: group.sellerId,
+                total: gross.toString(),
+                taxTotal: tax.toString(),
+                items: group.items,
+              };
+            }),
+        promotion && {
+          promotionId: promotion.promotion.id,
+          userId: req.user!.userId,
+          discount: promotion.discount.toFixed(2),
+        },
+        unitPicks,
+      );
+
+      // Clear cart after order creation if not POS order
+      if (!orderData.isPosOrder) {
+        await storage.clearCart(req.user!.userId);
+      }
+      for (const ticketId of repairTicketIds) {
+        const ticket = await storage.getRepairTicket(ticketId);
+        if (ticket) await pushRepairUpdate(req.app.get("io"), ticket);
+      }
+
+      res.json(subOrders.length > 0 ? { ...order, subOrders } : order);
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(400).json({ message: error.message, items: error.items });
+      }
+      if (
+        error instanceof PromotionError ||
+        error instanceof DeviceUnitError ||
+        error instanceof RepairTicketError ||
+        error instanceof ProductVariantError
+      ) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create order error:", error);
+      res.status(500).json({ message: "Failed to create order" });
+    }
+  });
+
+  // Status changes go through the order state machine; other fields are fixed at checkout
+  app.put("/api/orders/:id", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const statusSchema = z.object({
+      status: z.enum(orderStatusEnum.enumValues),
+      note: z.string().optional(),
+    });
+    try {
+      const { status, note } = statusSchema.parse(req.body);
+      if (status === "cancelled") {
+        return res.status(400).json({ message: "Use the cancel action to cancel an order" });
+      }
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // Check authorization
+      if (req.user?.userRole === "customer" && order.customerId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      } else if (req.user?.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user.userId);
+        if (!seller || order.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      }
+
+      const updatedOrder = await transitionOrder(order, status, {
+        userId: req.user!.userId,
+        role: req.user!.userRole as OrderActorRole,
+      }, note);
+      res.json(updatedOrder);
+    } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Update order error:", error);
+      res.status(400).json({ message: "Failed to update order" });
+    }
+  });
+
+  // Cancel an order, restocking its items and refunding or voiding its payment
+  app.post("/api/orders/:id/cancel", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const cancelSchema = z.object({ reason: z.string().trim().min(1) });
+    try {
+      const { reason } = cancelSchema.parse(req.body);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (req.user?.userRole === "customer" && order.customerId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      } else if (req.user?.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user.userId);
+        if (!seller || order.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      }
+
+      const cancelledOrder = await cancelOrder(order, {
+        userId: req.user!.userId,
+        role: req.user!.userRole as OrderActorRole,
+      }, reason);
+      res.json(cancelledOrder);
+    } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A cancellation reason is required" });
+      }
+      console.error("Cancel order error:", error);
+      res.status(500).json({ message: "Failed to cancel order" });
+    }
+  });
+
+  app.get("/api/orders/:id/history", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (req.user?.userRole === "customer" && order.customerId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      } else if (req.user?.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user.userId);
+        if (!seller || order.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      }
+
+      const history = await storage.getOrderStatusHistory(order.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Get order history error:", error);
+      res.status(500).json({ message: "Failed to get order history" });
+    }
+  });
+
+  // Payment routes
+  app.post("/api/payments", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    // The amount always comes from the order, never from the client
+    const paymentSchema = insertPaymentSchema.pick({ orderId: true, method: true, metadata: true });
+    try {
+      const { orderId, method, metadata } = paymentSchema.parse(req.body);
+      // Cash is taken at the till, so only the seller ringing up the sale records it
+      if (method === "cash" && req.user!.userRole !== "seller" && req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Only sellers can record cash payments" });
+      }
+
+      const order = await storage.getOrder(orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.customerId !== req.user!.userId && req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const payment = await createOrderPayment(order, method, metadata as Record<string, unknown> | undefined);
+
+      // Order status only changes once the provider confirms a capture
+      const baseUrl = process.env.APP_BASE_URL || `${req.protocol}://${req.get("host")}`;
+      const result = await processPayment(payment, baseUrl);
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Process payment error:", error);
+      res.status(400).json({ message: "Payment processing failed" });
+    }
+  });
+
+  // Server-to-server callbacks from payment gateways
+  app.post("/api/payments/webhook/:provider", async (req: Request, res: Response) => {
+    try {
+      const payment = await handlePaymentWebhook(
+        req.params.provider,
+        req.body,
+        req.get("x-gateway-signature"),
+      );
+      if (!payment) {
+        return res.status(400).json({ message: "Invalid webhook" });
+      }
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Payment webhook error:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  app.post("/api/payments/:id/refund", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    const refundSchema = z.object({
+      amount: z.number().positive().optional(),
+      reason: z.string().optional(),
+    });
+    try {
+      const { amount, reason } = refundSchema.parse(req.body);
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      const refunded = await refundPayment(payment, amount, reason);
+      res.json(refunded);
+    } catch (error: any) {
+      console.error("Refund payment error:", error);
+      res.status(400).json({ message: error.message || "Failed to refund payment" });
+    }
+  });
+
+  // Return (RMA) routes
+  app.post("/api/orders/:id/returns", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const returnSchema = z.object({
+      items: z
+        .array(
+          z.object({
+            productId: z.string(),
+            variantId: z.string().optional(),
+            quantity: z.number().int().positive(),
+            unitIds: z.array(z.string()).optional(),
+          }),
+        )
+        .min(1),
+      reason: z.string().min(1),
+    });
+    try {
+      const { items, reason } = returnSchema.parse(req.body);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.customerId !== req.user!.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      // A multi-vendor order opens one return per seller involved
+      const plans = await planReturns(order, items);
+      const created = [];
+      for (const plan of plans) {
+        const returnRequest = await storage.createReturnRequest({
+          orderId: plan.order.id,
+          customerId: order.customerId,
+          sellerId: plan.order.sellerId!,
+          items: plan.items,
+          reason,
+          status: "requested",
+          refundAmount: plan.refundAmount.toString(),
+        });
+        await storage.createNotification({
+          type: "return_requested",
+          title: "New Return Request",
+          message: `A customer asked to return ${plan.items.length} item(s) from order #${plan.order.id.slice(-8)}. Reason: ${reason}`,
+          relatedId: returnRequest.id,
+          sellerId: returnRequest.sellerId,
+          metadata: { orderId: plan.order.id, refundAmount: returnRequest.refundAmount },
+        });
+        created.push(returnRequest);
+      }
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ReturnRequestError || error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create return request error:", error);
+      res.status(500).json({ message: "Failed to create return request" });
+    }
+  });
+
+  app.get("/api/returns", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const filters: any = {};
+      if (req.query.status) {
+        filters.status = req.query.status as string;
+      }
+
+      if (req.user!.userRole === "customer") {
+        filters.customerId = req.user!.userId;
+      } else if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller) {
+          return res.status(404).json({ message: "Seller profile not found" });
+        }
+        filters.sellerId = seller.sellerId;
+      }
+      // Admin can see all returns (no filters)
+
+      const returnRequests = await storage.getReturnRequests(filters);
+      res.json(returnRequests);
+    } catch (error) {
+      console.error("Get return requests error:", error);
+      res.status(500).json({ message: "Failed to get return requests" });
+    }
+  });
+
+  app.put("/api/returns/:id/:action", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const resolveSchema = z.object({ note: z.string().optional() });
+    try {
+      const { action } = req.params;
+      if (action !== "inspect" && action !== "approve" && action !== "reject") {
+        return res.status(404).json({ message: "Unknown return action" });
+      }
+      const { note } = resolveSchema.parse(req.body ?? {});
+
+      const returnRequest = await storage.getReturnRequest(req.params.id);
+      if (!returnRequest) {
+        return res.status(404).json({ message: "Return request not found" });
+      }
+
+      // Only the seller who fulfilled the order (or an admin) handles its returns
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || returnRequest.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      } else if (req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      let updated;
+      if (action === "approve") {
+        updated = await approveReturn(returnRequest, note);
+      } else if (action === "reject") {
+        updated = await transitionReturn(returnRequest, {
+          status: "rejected",
+          resolutionNote: note ?? null,
+          resolvedAt: new Date(),
+        });
+      } else {
+        updated = await transitionReturn(returnRequest, {
+          status: "inspecting",
+          resolutionNote: note ?? null,
+        });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ReturnRequestError || error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update return request error:", error);
+      res.status(500).json({ message: "Failed to update return request" });
+    }
+  });
+
+  // Shipment routes
+  app.get("/api/carriers", requireAuth, (req: AuthenticatedRequest, res: Response) => {
+    res.json(listCarriers());
+  });
+
+  app.post("/api/orders/:id/shipments", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const shipmentSchema = z.object({
+      carrier: z.string().min(1),
+      trackingNumber: z.string().trim().min(1).optional(),
+    });
+    try {
+      const { carrier, trackingNumber } = shipmentSchema.parse(req.body);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || order.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      } else if (req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const shipment = await createShipment(order, carrier, trackingNumber);
+      res.status(201).json(shipment);
+    } catch (error) {
+      if (error instanceof ShipmentError || error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create shipment error:", error);
+      res.status(500).json({ message: "Failed to create shipment" });
+    }
+  });
+
+  // Shipments with their tracking events; a customer's order includes its sub-orders' parcels
+  app.get("/api/orders/:id/shipments", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (req.user?.userRole === "customer" && order.customerId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      } else if (req.user?.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user.userId);
+        if (!seller || order.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      }
+
+      const subOrders = await storage.getSubOrders(order.id);
+      const orderShipments = await storage.getShipmentsByOrderIds([order.id, ...subOrders.map((subOrder) => subOrder.id)]);
+      const result = [];
+      for (const shipment of orderShipments) {
+        const synced = await syncShipment(shipment);
+        result.push({ ...synced, events: await storage.getShipmentEvents(synced.id) });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Get shipments error:", error);
+      res.status(500).json({ message: "Failed to get shipments" });
+    }
+  });
+
+  // Manual tracking updates for couriers without a carrier integration
+  app.post("/api/shipments/:id/events", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const eventSchema = z.object({
+      status: z.enum(shipmentStatusEnum.enumValues).exclude(["label_created"]),
+      description: z.string().optional(),
+      location: z.string().optional(),
+      occurredAt: z.coerce.date().optional(),
+    });
+    try {
+      const event = eventSchema.parse(req.body);
+      const shipment = await storage.getShipment(req.params.id);
+      if (!shipment) {
+        return res.status(404).json({ message: "Shipment not found" });
+      }
+
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || shipment.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      } else if (req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updated = await recordShipmentEvent(shipment, {
+        ...event,
+        occurredAt: event.occurredAt ?? new Date(),
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof OrderTransitionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Add shipment event error:", error);
+      res.status(500).json({ message: "Failed to add shipment event" });
+    }
+  });
+
+  // Loyalty endpoints
+  app.get("/api/loyalty", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const balance = await storage.getLoyaltyBalance(req.user!.userId);
+      const transactions = await storage.getLoyaltyTransactions(req.user!.userId);
+      res.json({ balance, transactions });
+    } catch (error) {
+      console.error("Get loyalty error:", error);
+      res.status(500).json({ message: "Failed to fetch loyalty data" });
+    }
+  });
+
+  app.post("/api/loyalty/redeem", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const redeemSchema = z.object({ points: z.number().int().positive() });
+    try {
+      const { points } = redeemSchema.parse(req.body);
+      await storage.redeemLoyaltyPoints(req.user!.userId, points);
+      const balance = await storage.getLoyaltyBalance(req.user!.userId);
+      res.json({ balance });
+    } catch (error: any) {
+      console.error("Redeem loyalty error:", error);
+      res.status(400).json({ message: error.message || "Failed to redeem points" });
+    }
+  });
+
+  app.get("/api/store-credit", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const balance = await storage.getStoreCreditBalance(req.user!.userId);
+      const transactions = await storage.getStoreCreditTransactions(req.user!.userId);
+      res.json({ balance, transactions });
+    } catch (error) {
+      console.error("Get store credit error:", error);
+      res.status(500).json({ message: "Failed to fetch store credit" });
+    }
+  });
+
+  // ─── TRADE-IN ROUTES ─────────────────────────────────────────────────────────
+
+  // Grade a device from the customer's answers and collect every seller's offer
+  app.post("/api/trade-ins/quote", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const device = tradeInDeviceSchema.parse(req.body);
+      res.json({ condition: gradeTradeIn(device.answers), offers: await quoteTradeIn(device) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid device details", errors: error.errors });
+      }
+      console.error("Quote trade-in error:", error);
+      res.status(500).json({ message: "Failed to quote trade-in" });
+    }
+  });
+
+  app.post("/api/trade-ins", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const tradeInData = insertTradeInSchema.parse(req.body);
+      res.status(201).json(await submitTradeIn(req.user!.userId, tradeInData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid trade-in", errors: error.errors });
+      }
+      if (error instanceof TradeInError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Submit trade-in error:", error);
+      res.status(500).json({ message: "Failed to submit trade-in" });
+    }
+  });
+
+  app.get("/api/trade-ins", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await storage.getTradeIns({ customerId: req.user!.userId }));
+    } catch (error) {
+      console.error("Get trade-ins error:", error);
+      res.status(500).json({ message: "Failed to fetch trade-ins" });
+    }
+  });
+
+  app.post("/api/trade-ins/:id/cancel", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const tradeIn = await storage.getTradeIn(req.params.id);
+      if (!tradeIn || tradeIn.customerId !== req.user!.userId) {
+        return res.status(404).json({ message: "Trade-in not found" });
+      }
+      res.json(await cancelTradeIn(tradeIn));
+    } catch (error) {
+      if (error instanceof TradeInError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Cancel trade-in error:", error);
+      res.status(500).json({ message: "Failed to cancel trade-in" });
+    }
+  });
+
+  // Trade-ins sent to the current seller
+  app.get("/api/sellers/trade-ins", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      const status = z.enum(tradeInStatusEnum.enumValues).optional().parse(req.query.status);
+      res.json(await storage.getTradeIns({ sellerId: seller.sellerId, status }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      console.error("Get seller trade-ins error:", error);
+      res.status(500).json({ message: "Failed to fetch trade-ins" });
+    }
+  });
+
+  // Accept or reject a trade-in after inspecting the device. Accepting may
+  // regrade it or change the amount from the quote.
+  app.put("/api/sellers/trade-ins/:id/:action", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    const inspectionSchema = z.object({
+      condition: z.enum(productConditionEnum.enumValues).optional(),
+      amount: z.number().positive().optional(),
+      note: z.string().trim().max(1000).nullish(),
+    });
+    try {
+      const { action } = req.params;
+      if (action !== "accept" && action !== "reject") {
+        return res.status(404).json({ message: "Unknown trade-in action" });
+      }
+      const inspection = inspectionSchema.parse(req.body ?? {});
+
+      const tradeIn = await storage.getTradeIn(req.params.id);
+      if (!tradeIn) {
+        return res.status(404).json({ message: "Trade-in not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || tradeIn.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updated = action === "accept"
+        ? await acceptTradeIn(tradeIn, req.user!.userId, inspection)
+        : await rejectTradeIn(tradeIn, req.user!.userId, inspection.note ?? null);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection", errors: error.errors });
+      }
+      if (error instanceof TradeInError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Resolve trade-in error:", error);
+      res.status(500).json({ message: "Failed to update trade-in" });
+    }
+  });
+
+  // List an accepted device for resale as a used product
+  app.post("/api/sellers/trade-ins/:id/listing", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    const listingSchema = z.object({
+      price: z.coerce.number().positive().transform((price) => price.toFixed(2)),
+      category: z.string().trim().min(1),
+      description: z.string().trim().nullish(),
+    });
+    try {
+      const listing = listingSchema.parse(req.body);
+      const tradeIn = await storage.getTradeIn(req.params.id);
+      if (!tradeIn) {
+        return res.status(404).json({ message: "Trade-in not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || tradeIn.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.status(201).json(await listTradeIn(tradeIn, listing));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid listing", errors: error.errors });
+      }
+      if (error instanceof TradeInError || error instanceof DeviceUnitError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("List trade-in error:", error);
+      res.status(500).json({ message: "Failed to list trade-in" });
+    }
+  });
+
+  // The current seller's buy-back pricing grid
+  app.get("/api/sellers/trade-in-prices", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      res.json(await storage.getTradeInPrices({ sellerId: seller.sellerId }));
+    } catch (error) {
+      console.error("Get trade-in prices error:", error);
+      res.status(500).json({ message: "Failed to fetch trade-in prices" });
+    }
+  });
+
+  app.post("/api/sellers/trade-in-prices", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      const priceData = insertTradeInPriceSchema.parse(req.body);
+      res.json(await storage.setTradeInPrice(seller.sellerId, priceData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid trade-in price", errors: error.errors });
+      }
+      console.error("Set trade-in price error:", error);
+      res.status(500).json({ message: "Failed to set trade-in price" });
+    }
+  });
+
+  app.delete("/api/sellers/trade-in-prices/:id", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const price = await storage.getTradeInPrice(req.params.id);
+      if (!price) {
+        return res.status(404).json({ message: "Trade-in price not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || price.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      await storage.deleteTradeInPrice(price.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete trade-in price error:", error);
+      res.status(500).json({ message: "Failed to delete trade-in price" });
+    }
+  });
+
+  // ─── REPAIR TICKET ROUTES ────────────────────────────────────────────────────
+
+  // Book a device in at the seller's repair counter
+  app.post("/api/repair-tickets", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      const ticketData = insertRepairTicketSchema.parse(req.body);
+      const ticket = await openRepairTicket(seller.sellerId, req.user!.userId, ticketData);
+      await pushRepairUpdate(req.app.get("io"), ticket);
+      res.status(201).json(ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid repair ticket", errors: error.errors });
+      }
+      if (error instanceof RepairTicketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create repair ticket error:", error);
+      res.status(500).json({ message: "Failed to create repair ticket" });
+    }
+  });
+
+  // A seller's counter tickets, or a customer's own repairs
+  app.get("/api/repair-tickets", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = z.enum(repairStatusEnum.enumValues).optional().parse(req.query.status);
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller) {
+          return res.status(404).json({ message: "Seller profile not found" });
+        }
+        return res.json(await storage.getRepairTickets({ sellerId: seller.sellerId, status }));
+      }
+      if (req.user!.userRole === "admin") {
+        return res.json(await storage.getRepairTickets({ status }));
+      }
+      res.json(await storage.getRepairTickets({ customerId: req.user!.userId, status }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      console.error("Get repair tickets error:", error);
+      res.status(500).json({ message: "Failed to fetch repair tickets" });
+    }
+  });
+
+  // A ticket with the parts used and its status history (its seller, its
+  // customer or an admin)
+  app.get("/api/repair-tickets/:id", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ticket = await storage.getRepairTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || ticket.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      } else if (req.user!.userRole !== "admin" && ticket.customerId !== req.user!.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const parts = await storage.getRepairParts(ticket.id);
+      const history = await storage.getRepairTicketHistory(ticket.id);
+      res.json({ ...ticket, parts, history });
+    } catch (error) {
+      console.error("Get repair ticket error:", error);
+      res.status(500).json({ message: "Failed to fetch repair ticket" });
+    }
+  });
+
+  app.put("/api/repair-tickets/:id/diagnosis", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const diagnosis = repairDiagnosisSchema.parse(req.body);
+      const ticket = await storage.getRepairTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || ticket.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updated = await diagnoseRepair(ticket, diagnosis, req.user!.userId);
+      await pushRepairUpdate(req.app.get("io"), updated);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid diagnosis", errors: error.errors });
+      }
+      if (error instanceof RepairTicketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Diagnose repair error:", error);
+      res.status(500).json({ message: "Failed to save diagnosis" });
+    }
+  });
+
+  // The customer approves or declines the quote, online or through the seller
+  // at the counter
+  app.put("/api/repair-tickets/:id/quote", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { approved } = z.object({ approved: z.boolean() }).parse(req.body);
+      const ticket = await storage.getRepairTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || ticket.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      } else if (ticket.customerId !== req.user!.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updated = await decideRepairQuote(ticket, approved, req.user!.userId);
+      await pushRepairUpdate(req.app.get("io"), updated);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError || error instanceof RepairTicketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Repair quote decision error:", error);
+      res.status(500).json({ message: "Failed to record quote decision" });
+    }
+  });
+
+  // Start the repair, mark it ready, hand back a declined device or cancel
+  app.put("/api/repair-tickets/:id/status", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    const statusSchema = z.object({
+      status: z.enum(["in_repair", "ready", "collected", "cancelled"]),
+      note: z.string().trim().max(1000).optional(),
+    });
+    try {
+      const { status, note } = statusSchema.parse(req.body);
+      const ticket = await storage.getRepairTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || ticket.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updates = status === "collected" ? { collectedAt: new Date() } : undefined;
+      const updated = await moveRepairTicket(ticket, status, req.user!.userId, { updates, note });
+      await pushRepairUpdate(req.app.get("io"), updated);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError || error instanceof RepairTicketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update repair status error:", error);
+      res.status(500).json({ message: "Failed to update repair ticket" });
+    }
+  });
+
+  // Use a part from the seller's stock for the repair
+  app.post("/api/repair-tickets/:id/parts", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    const partSchema = z.object({
+      productId: z.string().min(1),
+      variantId: z.string().min(1).optional(),
+      quantity: z.number().int().positive(),
+    });
+    try {
+      const { productId, variantId, quantity } = partSchema.parse(req.body);
+      const ticket = await storage.getRepairTicket(req.params.id);
+      const product = await storage.getProduct(productId);
+      if (!ticket || !product) {
+        return res.status(404).json({ message: ticket ? "Product not found" : "Repair ticket not found" });
+      }
+      const variant = variantId ? await storage.getProductVariant(variantId) : undefined;
+      if (variantId && (!variant || variant.productId !== product.id)) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || ticket.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.status(201).json(await useRepairPart(ticket, product, quantity, variant));
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(400).json({ message: error.message, items: error.items });
+      }
+      if (error instanceof z.ZodError || error instanceof RepairTicketError || error instanceof ProductVariantError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Add repair part error:", error);
+      res.status(500).json({ message: "Failed to add part" });
+    }
+  });
+
+  app.delete("/api/repair-tickets/:id/parts/:partId", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ticket = await storage.getRepairTicket(req.params.id);
+      const part = await storage.getRepairPart(req.params.partId);
+      if (!ticket || !part || part.ticketId !== ticket.id) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || ticket.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      await returnRepairPart(ticket, part);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof RepairTicketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Remove repair part error:", error);
+      res.status(500).json({ message: "Failed to remove part" });
+    }
+  });
+
+  // ─── WARRANTY ROUTES ─────────────────────────────────────────────────────────
+
+  // The signed-in customer's warranties and the claims filed against them
+  app.get("/api/warranties", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await storage.getWarranties({ customerId: req.user!.userId }));
+    } catch (error) {
+      console.error("Get warranties error:", error);
+      res.status(500).json({ message: "Failed to fetch warranties" });
+    }
+  });
+
+  app.get("/api/warranty-claims", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await storage.getWarrantyClaims({ customerId: req.user!.userId }));
+    } catch (error) {
+      console.error("Get warranty claims error:", error);
+      res.status(500).json({ message: "Failed to fetch warranty claims" });
+    }
+  });
+
+  // Filed by the customer online, or by the seller at the counter for a walk-in sale
+  app.post("/api/warranties/:id/claims", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const claimData = insertWarrantyClaimSchema.parse(req.body);
+      const warranty = await storage.getWarranty(req.params.id);
+      if (!warranty) {
+        return res.status(404).json({ message: "Warranty not found" });
+      }
+      if (req.user!.userRole === "seller") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || warranty.sellerId !== seller.sellerId) {
           return res.status(403).json({ message: "Not authorized" });
         }
+      } else if (warranty.customerId !== req.user!.userId) {
+        return res.status(404).json({ message: "Warranty not found" });
       }
 
-      const updates = insertOrderSchema.partial().parse(req.body);
-      const updatedOrder = await storage.updateOrder(req.params.id, updates);
-      res.json(updatedOrder);
+      res.status(201).json(await fileWarrantyClaim(warranty, req.user!.userId, claimData));
     } catch (error) {
-      console.error("Update order error:", error);
-      res.status(400).json({ message: "Failed to update order" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid warranty claim", errors: error.errors });
+      }
+      if (error instanceof WarrantyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("File warranty claim error:", error);
+      res.status(500).json({ message: "Failed to file warranty claim" });
     }
   });
 
-  // Payment routes
-  app.post("/api/payments", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  // Look up the seller's warranties by IMEI or order, e.g. for a walk-in customer
+  app.get("/api/sellers/warranties", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const paymentData = insertPaymentSchema.parse(req.body);
-      
-      // Simulate payment processing
-      const isSuccess = Math.random() > 0.1; // 90% success rate
-      const status = isSuccess ? "completed" : "failed";
-      
-      const payment = await storage.createPayment({
-        ...paymentData,
-        status: status as any,
-        transactionId: `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      });
-
-      // Update order status if payment successful
-      if (status === "completed") {
-        await storage.updateOrder(paymentData.orderId, { status: "processing" });
-        await storage.creditLoyaltyPoints(
-          req.user!.userId,
-          Math.floor(parseFloat(paymentData.amount)),
-        );
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
       }
-
-      res.json(payment);
+      const imei = typeof req.query.imei === "string" ? req.query.imei.trim() : undefined;
+      const orderId = typeof req.query.orderId === "string" ? req.query.orderId.trim() : undefined;
+      if (!imei && !orderId) {
+        return res.status(400).json({ message: "Search by IMEI or order" });
+      }
+      res.json(await storage.getWarranties({ sellerId: seller.sellerId, imei, orderId }));
     } catch (error) {
-      console.error("Process payment error:", error);
-      res.status(400).json({ message: "Payment processing failed" });
+      console.error("Get seller warranties error:", error);
+      res.status(500).json({ message: "Failed to fetch warranties" });
     }
   });
 
-  // Loyalty endpoints
-  app.get("/api/loyalty", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  app.get("/api/sellers/warranty-claims", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const balance = await storage.getLoyaltyBalance(req.user!.userId);
-      const transactions = await storage.getLoyaltyTransactions(req.user!.userId);
-      res.json({ balance, transactions });
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      const claims = await storage.getWarrantyClaims({ sellerId: seller.sellerId });
+      const withWarranty = await Promise.all(
+        claims.map(async (claim) => ({ ...claim, warranty: await storage.getWarranty(claim.warrantyId) })),
+      );
+      res.json(withWarranty);
     } catch (error) {
-      console.error("Get loyalty error:", error);
-      res.status(500).json({ message: "Failed to fetch loyalty data" });
+      console.error("Get seller warranty claims error:", error);
+      res.status(500).json({ message: "Failed to fetch warranty claims" });
     }
   });
 
-  app.post("/api/loyalty/redeem", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    const redeemSchema = z.object({ points: z.number().int().positive() });
+  // Resolve a claim with a repair, replacement or refund, or reject it
+  app.put("/api/sellers/warranty-claims/:id/:action", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { points } = redeemSchema.parse(req.body);
-      await storage.redeemLoyaltyPoints(req.user!.userId, points);
-      const balance = await storage.getLoyaltyBalance(req.user!.userId);
-      res.json({ balance });
-    } catch (error: any) {
-      console.error("Redeem loyalty error:", error);
-      res.status(400).json({ message: error.message || "Failed to redeem points" });
+      const { action } = req.params;
+      if (action !== "resolve" && action !== "reject") {
+        return res.status(404).json({ message: "Unknown warranty claim action" });
+      }
+
+      const claim = await storage.getWarrantyClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Warranty claim not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || claim.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updated = action === "resolve"
+        ? await resolveWarrantyClaim(claim, req.user!.userId, resolveWarrantyClaimSchema.parse(req.body))
+        : await rejectWarrantyClaim(
+            claim,
+            req.user!.userId,
+            z.object({ note: z.string().trim().max(1000).nullish() }).parse(req.body ?? {}).note ?? null,
+          );
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid resolution", errors: error.errors });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(400).json({ message: error.message, items: error.items });
+      }
+      if (error instanceof WarrantyError || error instanceof DeviceUnitError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Resolve warranty claim error:", error);
+      res.status(500).json({ message: "Failed to update warranty claim" });
     }
   });
 
@@ -783,25 +2628,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Get seller details
-      const sellerDetails = await storage.getSellerByUserId(
-        req.user?.userRole === "seller" 
-          ? req.user.userId 
-          : order.sellerId || ""
+      // Get seller details; parent orders of a multi-vendor checkout have no single seller
+      const sellerDetails = order.sellerId ? await storage.getSeller(order.sellerId) : undefined;
+      const subOrders = await storage.getSubOrders(orderId);
+      const subOrderSummaries = await Promise.all(
+        subOrders.map(async (subOrder) => {
+          const subSeller = subOrder.sellerId ? await storage.getSeller(subOrder.sellerId) : undefined;
+          return {
+            id: subOrder.id,
+            sellerId: subOrder.sellerId,
+            businessName: subSeller?.businessName || "PhoneHub Seller",
+            total: subOrder.total,
+            status: subOrder.status,
+          };
+        }),
       );
 
       // Get customer details
       const customer = await storage.getUser(order.customerId);
 
-      // Get payment details
-      const payments = await storage.getPaymentsByOrderId(orderId);
+      // Warranties registered for the items, on delivery or at the till
+      const warranties = (
+        await Promise.all([order, ...subOrders].map((sellerOrder) => storage.getWarranties({ orderId: sellerOrder.id })))
+      ).flat();
+
+      // Get payment details; sub-orders are paid through their parent order
+      const payments = await storage.getPaymentsByOrderId(order.parentOrderId ?? orderId);
       const payment = payments[0]; // Assuming single payment per order
 
       // Prepare receipt data
       const receiptData = {
         order,
         seller: {
-          businessName: sellerDetails?.businessName || "PhoneHub Seller",
+          businessName: sellerDetails?.businessName || (subOrders.length > 0 ? "PhoneHub" : "PhoneHub Seller"),
           businessLogo: sellerDetails?.businessLogo,
           businessEmail: sellerDetails?.businessEmail,
           phoneNumber: sellerDetails?.phoneNumber,
@@ -814,7 +2673,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
           lastName: customer?.lastName,
           email: customer?.email,
         },
-        items: Array.isArray(order.items) ? order.items : [],
+        items: (Array.isArray(order.items) ? order.items : []).map((item: any) => ({
+          productId: item.productId,
+          name: item.name ?? item.productName,
+          quantity: item.quantity,
+          price: Number(item.price),
+          total: Number(item.total ?? item.price * item.quantity),
+          discount: item.discount,
+          promotionCode: item.promotionCode,
+          taxRate: item.taxRate,
+          tax: item.tax,
+          taxIncluded: item.taxIncluded,
+          units: item.units,
+          warranty: item.warranty,
+          sellerId: item.sellerId,
+        })),
+        warranties: warranties.map(({ id, productId, unitId, imei, provider, months, expiresAt }) => ({
+          id,
+          productId,
+          unitId,
+          imei,
+          provider,
+          months,
+          expiresAt,
+        })),
+        subOrders: subOrderSummaries,
         paymentMethod: payment?.method || "cash",
         amountReceived: payment?.metadata && typeof payment.metadata === 'object' && 'amountReceived' in payment.metadata ? (payment.metadata as any).amountReceived : undefined,
         changeAmount: payment?.metadata && typeof payment.metadata === 'object' && 'changeAmount' in payment.metadata ? (payment.metadata as any).changeAmount : undefined,
@@ -939,10 +2822,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!seller) {
         return res.status(404).json({ message: "Seller profile not found" });
       }
+      const user = await storage.getUser(req.user!.userId);
       res.json({
         emailNotifications: seller.emailNotifications,
         smsNotifications: seller.smsNotifications,
         lowStockAlerts: seller.lowStockAlerts,
+        preferredLanguage: user?.preferredLanguage ?? "en",
       });
     } catch (error) {
       console.error("Get seller settings error:", error);
@@ -957,23 +2842,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Seller profile not found" });
       }
 
+      // The language is the seller's own, kept on their user account
+      const language = z.enum(["en", "ar"]).optional().parse(req.body.preferredLanguage);
       const updated = await storage.updateSeller(seller.sellerId, {
         emailNotifications: req.body.emailNotifications,
         smsNotifications: req.body.smsNotifications,
         lowStockAlerts: req.body.lowStockAlerts,
       });
+      const user = language
+        ? await storage.updateUser(req.user!.userId, { preferredLanguage: language })
+        : await storage.getUser(req.user!.userId);
 
       res.json({
         emailNotifications: updated.emailNotifications,
         smsNotifications: updated.smsNotifications,
         lowStockAlerts: updated.lowStockAlerts,
+        preferredLanguage: user?.preferredLanguage ?? "en",
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid language", errors: error.errors });
+      }
       console.error("Update seller settings error:", error);
       res.status(500).json({ message: "Failed to update seller settings" });
     }
   });
 
+  // The seller's balance with the platform and every ledger line behind it
+  app.get("/api/sellers/statement", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+
+      const [balance] = await storage.getSellerBalances(seller.sellerId);
+      const entries = await storage.getLedgerEntries({ sellerId: seller.sellerId, account: "seller_payable" });
+      const sellerPayouts = await storage.getPayouts({ sellerId: seller.sellerId });
+      const account = await storage.getSeller(seller.sellerId);
+
+      res.json({
+        balance: balance?.balance ?? 0,
+        entries,
+        payouts: sellerPayouts,
+        payoutAccount: {
+          payoutIban: account?.payoutIban ?? null,
+          payoutAccountName: account?.payoutAccountName ?? null,
+        },
+      });
+    } catch (error) {
+      console.error("Get seller statement error:", error);
+      res.status(500).json({ message: "Failed to get statement" });
+    }
+  });
+
+  app.put("/api/sellers/payout-account", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+      const account = payoutAccountSchema.parse(req.body);
+      const updated = await storage.updateSeller(seller.sellerId, account);
+      res.json({ payoutIban: updated.payoutIban, payoutAccountName: updated.payoutAccountName });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("Update payout account error:", error);
+      res.status(500).json({ message: "Failed to update payout account" });
+    }
+  });
+
   // Admin routes for document management
   app.get("/api/admin/sellers/documents", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -1073,9 +3013,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         joinedDate: seller.createdAt,
       };
 
+      // Active variants, each with its own photos, for the variant picker
+      const [options, variants, images] = await Promise.all([
+        storage.getProductOptions(product.id),
+        storage.getProductVariants(product.id),
+        storage.listProductImages(product.id),
+      ]);
+
       res.json({
         ...product,
         seller: sellerDetails,
+        options,
+        variants: variants
+          .filter((variant) => variant.isActive)
+          .map((variant) => ({
+            ...variant,
+            images: images.filter((image) => image.variantId === variant.id).map((image) => image.imageUrl),
+          })),
       });
     } catch (error) {
       console.error("Error fetching product details:", error);
@@ -1106,15 +3060,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized" });
       }
 
+      // Photos of one variant are shown when it is picked
+      const variantId: string | null = req.body.variantId || null;
+      if (variantId) {
+        const variant = await storage.getProductVariant(variantId);
+        if (!variant || variant.productId !== product.id) {
+          return res.status(400).json({ message: "Variant not found" });
+        }
+      }
+
       const images: string[] = req.body.images || [];
       const created = [] as any[];
       for (let i = 0; i < images.length; i++) {
         const url = images[i];
         const img = await storage.createProductImage({
           productId: req.params.productId,
+          variantId,
           imageUrl: url,
           fileName: path.basename(url),
-          isMain: i === 0,
+          isMain: i === 0 && !variantId,
           displayOrder: i,
         });
         created.push(img);
@@ -1151,6 +3115,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ─── PRODUCT VARIANT ROUTES ──────────────────────────────────────────────────
+
+  // A product's option types and all its variants, active or not
+  app.get("/api/products/:productId/variants", async (req: Request, res: Response) => {
+    try {
+      const [options, variants] = await Promise.all([
+        storage.getProductOptions(req.params.productId),
+        storage.getProductVariants(req.params.productId),
+      ]);
+      res.json({ options, variants });
+    } catch (error) {
+      console.error("Get product variants error:", error);
+      res.status(500).json({ message: "Failed to get product variants" });
+    }
+  });
+
+  app.put("/api/products/:productId/options", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const options = productOptionsSchema.parse(req.body.options);
+      const product = await storage.getProduct(req.params.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || product.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.json(await setProductOptions(product, options));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid options", errors: error.errors });
+      }
+      if (error instanceof ProductVariantError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Set product options error:", error);
+      res.status(500).json({ message: "Failed to save product options" });
+    }
+  });
+
+  // Variants don't need approval of their own; the listing was approved as a whole
+  app.post("/api/products/:productId/variants", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const variantData = insertProductVariantSchema.parse(req.body);
+      const product = await storage.getProduct(req.params.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || product.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.status(201).json(await createProductVariant(product, variantData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid variant", errors: error.errors });
+      }
+      if (error instanceof ProductVariantError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create product variant error:", error);
+      res.status(500).json({ message: "Failed to create variant" });
+    }
+  });
+
+  app.put("/api/products/:productId/variants/:variantId", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const updates = updateProductVariantSchema.parse(req.body);
+      const product = await storage.getProduct(req.params.productId);
+      const variant = await storage.getProductVariant(req.params.variantId);
+      if (!product || !variant || variant.productId !== product.id) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || product.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.json(await updateProductVariant(product, variant, updates));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid variant", errors: error.errors });
+      }
+      if (error instanceof ProductVariantError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update product variant error:", error);
+      res.status(500).json({ message: "Failed to update variant" });
+    }
+  });
+
+  app.delete("/api/products/:productId/variants/:variantId", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const product = await storage.getProduct(req.params.productId);
+      const variant = await storage.getProductVariant(req.params.variantId);
+      if (!product || !variant || variant.productId !== product.id) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || product.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      if (!(await storage.deleteProductVariant(variant.id))) {
+        return res.status(400).json({ message: "Variants with stock or registered handsets can only be deactivated" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete product variant error:", error);
+      res.status(500).json({ message: "Failed to delete variant" });
+    }
+  });
+
   // Individual product route - MUST come after specific routes like /pending and /details
   app.get("/api/products/:id", async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -1211,10 +3290,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Notifications routes (Admin only)
   app.get("/api/notifications", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-      const notifications = await storage.getNotifications(limit);
-      res.json(notifications);
+      const page = pageQuerySchema(notificationSortFields).parse(req.query);
+      res.json(await storage.listAdminNotifications(page));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
       console.error("Get notifications error:", error);
       res.status(500).json({ message: "Failed to get notifications" });
     }
@@ -1259,6 +3340,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Background jobs: counts, recent jobs and schedules
+  app.get("/api/admin/jobs", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const status = z.enum(jobStatusEnum.enumValues).optional().parse(req.query.status);
+      res.json(await getJobOverview(status));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      console.error("Get jobs error:", error);
+      res.status(500).json({ message: "Failed to get jobs" });
+    }
+  });
+
+  app.get("/api/admin/jobs/dead-letters", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getDeadLetterJobs(100));
+    } catch (error) {
+      console.error("Get dead-letter jobs error:", error);
+      res.status(500).json({ message: "Failed to get dead-letter jobs" });
+    }
+  });
+
+  app.post("/api/admin/jobs/dead-letters/:id/retry", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const entry = await storage.getDeadLetterJob(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Dead-letter job not found" });
+      }
+      res.json(await retryDeadLetterJob(entry));
+    } catch (error) {
+      console.error("Retry dead-letter job error:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  app.delete("/api/admin/jobs/dead-letters/:id", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      await storage.deleteDeadLetterJob(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete dead-letter job error:", error);
+      res.status(500).json({ message: "Failed to delete job" });
+    }
+  });
+
   // Individual seller details route (Admin only)
   app.get("/api/sellers/:id", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -1288,9 +3415,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Users management routes (Admin only)
   app.get("/api/users", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users);
+      const page = pageQuerySchema(userSortFields)
+        .extend({ role: z.enum(userRoleEnum.enumValues).optional() })
+        .parse(req.query);
+      res.json(await storage.listUsers(page, page.role));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
       console.error("Get users error:", error);
       res.status(500).json({ message: "Failed to get users" });
     }
@@ -1299,9 +3431,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get customers only (Admin only)
   app.get("/api/admin/customers", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const customers = await storage.getCustomers();
-      res.json(customers);
+      const page = pageQuerySchema(userSortFields).parse(req.query);
+      res.json(await storage.listUsers(page, "customer"));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
       console.error("Get customers error:", error);
       res.status(500).json({ message: "Failed to get customers" });
     }
@@ -1321,9 +3456,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all payments (Admin only)
   app.get("/api/admin/payments", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const payments = await storage.getAllPayments();
-      res.json(payments);
+      const page = pageQuerySchema(paymentSortFields).parse(req.query);
+      res.json(await storage.listPayments(page));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page", errors: error.errors });
+      }
       console.error("Get payments error:", error);
       res.status(500).json({ message: "Failed to get payments" });
     }
@@ -1499,11 +3637,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/export/orders", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const orders = await storage.getOrders();
-      const csvHeaders = "ID,Customer ID,Seller ID,Total,Status,Created At\n";
-      const csvData = orders.map(order => 
-        `${order.id},"${order.customerId}","${order.sellerId}","${order.total}","${order.status}","${order.createdAt}"`
-      ).join("\n");
+      // A multi-vendor checkout is exported as its per-seller sub-orders; the
+      // parent repeats their totals and would count the sale twice
+      const allOrders = await storage.getOrders();
+      const parentIds = new Set(allOrders.map((order) => order.parentOrderId).filter(Boolean));
+      const orders = allOrders.filter((order) => !parentIds.has(order.id));
+      const csvHeaders = "ID,Customer ID,Seller ID,Net,Tax,Gross,Status,Created At\n";
+      const csvData = orders.map(order => {
+        const net = (parseFloat(order.total) - parseFloat(order.taxTotal)).toFixed(2);
+        return `${order.id},"${order.customerId}","${order.sellerId}","${net}","${order.taxTotal}","${order.total}","${order.status}","${order.createdAt}"`;
+      }).join("\n");
       
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', 'attachment; filename="orders-export.csv"');
@@ -1614,6 +3757,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The product's seller answers a review; the reviewer is notified
+  app.post("/api/reviews/:id/reply", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reply } = reviewReplySchema.parse(req.body);
+      const review = await storage.getReview(req.params.id);
+      const product = review ? await storage.getProduct(review.productId) : undefined;
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!review || !product || !seller || product.sellerId !== seller.sellerId) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      const updated = await storage.updateReview(review.id, { sellerReply: reply, sellerRepliedAt: new Date() });
+      await storage.createNotification({
+        type: "review_reply",
+        title: "Reply to Your Review",
+        message: `${seller.businessName} replied to your review of "${product.name}".`,
+        relatedId: product.id,
+        userId: review.userId,
+        metadata: { productName: product.name, sellerName: seller.businessName, reply },
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("Reply to review error:", error);
+      res.status(500).json({ message: "Failed to reply to review" });
+    }
+  });
+
   // Get user reviews
   app.get("/api/user/reviews", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -1625,12 +3798,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update a review
+  // Update a review; only its author (or an admin) may
   app.put("/api/reviews/:id", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const review = await storage.updateReview(req.params.id, req.body);
-      res.json(review);
+      const updates = updateReviewSchema.parse(req.body);
+      const review = await storage.getReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (review.userId !== req.user!.userId && req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.json(await storage.updateReview(review.id, updates));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
       console.error("Update review error:", error);
       res.status(500).json({ message: "Failed to update review" });
     }
@@ -1639,7 +3823,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete a review
   app.delete("/api/reviews/:id", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      await storage.deleteReview(req.params.id);
+      const review = await storage.getReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (review.userId !== req.user!.userId && req.user!.userRole !== "admin") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      await storage.deleteReview(review.id);
       res.status(204).send();
     } catch (error) {
       console.error("Delete review error:", error);
@@ -1663,15 +3854,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Update product stock (Seller only)
   app.post("/api/products/:productId/stock", requireRole("seller"), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const { quantityChange, reason } = req.body;
-      await storage.updateProductStock(req.params.productId, quantityChange, reason);
+      const { quantityChange, reason, variantId } = req.body;
+      await storage.updateProductStock(req.params.productId, quantityChange, reason, undefined, undefined, variantId || undefined);
       res.json({ message: "Stock updated successfully" });
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(400).json({ message: error.message, items: error.items });
+      }
+      if (error instanceof ProductVariantError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Update stock error:", error);
       res.status(500).json({ message: "Failed to update stock" });
     }
   });
 
+  // ─── DEVICE UNIT ROUTES ──────────────────────────────────────────────────────
+
+  // Serialized units of a product (Seller who owns it, or admin)
+  app.get("/api/products/:productId/units", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const product = await storage.getProduct(req.params.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (req.user?.userRole !== "admin") {
+        const seller = await storage.getSellerByUserId(req.user!.userId);
+        if (!seller || product.sellerId !== seller.sellerId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      }
+
+      const status = req.query.status === "in_stock" || req.query.status === "sold" ? req.query.status : undefined;
+      res.json(await storage.getDeviceUnits(product.id, status));
+    } catch (error) {
+      console.error("Get device units error:", error);
+      res.status(500).json({ message: "Failed to get device units" });
+    }
+  });
+
+  // Register handsets; each one adds to the product's stock
+  app.post("/api/products/:productId/units", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { units } = z.object({ units: z.array(insertDeviceUnitSchema).min(1).max(500) }).parse(req.body);
+      const product = await storage.getProduct(req.params.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || product.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.status(201).json(await addDeviceUnits(product.id, units));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid units", errors: error.errors });
+      }
+      if (error instanceof DeviceUnitError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Add device units error:", error);
+      res.status(500).json({ message: "Failed to add device units" });
+    }
+  });
+
+  app.delete("/api/device-units/:id", requireRole("seller"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const unit = await storage.getDeviceUnit(req.params.id);
+      const product = unit && (await storage.getProduct(unit.productId));
+      if (!unit || !product) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      const seller = await storage.getSellerByUserId(req.user!.userId);
+      if (!seller || product.sellerId !== seller.sellerId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      if (!(await storage.deleteDeviceUnit(unit.id))) {
+        return res.status(400).json({ message: "Sold units cannot be removed" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete device unit error:", error);
+      res.status(500).json({ message: "Failed to delete device unit" });
+    }
+  });
+
+  // Which order and customer got a handset, by IMEI or serial number. Sellers
+  // can only look up their own units.
+  app.get("/api/device-units/lookup", requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (req.user?.userRole !== "admin" && req.user?.userRole !== "seller") {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const identifier = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!identifier) {
+        return res.status(400).json({ message: "Enter an IMEI or serial number" });
+      }
+
+      const result = await lookupDeviceUnit(identifier);
+      const seller = req.user.userRole === "seller" ? await storage.getSellerByUserId(req.user.userId) : undefined;
+      if (!result || (req.user.userRole === "seller" && result.product.sellerId !== seller?.sellerId)) {
+        return res.status(404).json({ message: "No unit found with that IMEI or serial number" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Device unit lookup error:", error);
+      res.status(500).json({ message: "Failed to look up device unit" });
+    }
+  });
+
   // ─── RECOMMENDATIONS ─────────────────────────────────────────────────────────
 
   app.get("/api/recommendations", requireAuth, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -1712,6 +4005,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         io.to(message.receiverId).emit("message", message);
         io.to(message.senderId).emit("message", message);
       }
+      const sender = await storage.getUser(message.senderId);
+      const senderName = [sender?.firstName, sender?.lastName].filter(Boolean).join(" ") || "Someone";
+      await storage.createNotification({
+        type: "chat_message",
+        title: "New Message",
+        message: `${senderName}: ${message.content.length > 100 ? `${message.content.slice(0, 100)}…` : message.content}`,
+        relatedId: message.id,
+        userId: message.receiverId,
+        metadata: { senderId: message.senderId, productId: message.productId },
+      });
       res.status(201).json(message);
     } catch (error) {
       console.error("Send chat message error:", error);
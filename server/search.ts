@@ -0,0 +1,59 @@
+import type { ProductSearch, ProductSearchResult, ProductSuggestion } from "@shared/schema";
+import { storage } from "./storage";
+import { defineJob, scheduleJob } from "./jobs";
+
+// Lower bounds of the price facet's buckets, in KWD; the last one is open-ended
+export const PRICE_BUCKETS = [0, 50, 100, 250, 500];
+
+// Same folding as normalize_arabic() in the database, so a typed word can be
+// compared with the indexed terms
+function normalizeArabic(text: string): string {
+  return text
+    .replace(/[\u064B-\u0652\u0640]/g, "")
+    .replace(/[\u0622\u0623\u0625\u0671]/g, "\u0627")
+    .replace(/\u0649/g, "\u064A")
+    .replace(/\u0629/g, "\u0647")
+    .toLowerCase();
+}
+
+// Ranked listings with facet counts. A search that finds nothing comes back
+// with the query as it was probably meant, if the listings suggest one.
+export async function searchProducts(search: ProductSearch): Promise<ProductSearchResult> {
+  const [{ products, total }, facets] = await Promise.all([
+    storage.searchProducts(search),
+    storage.getProductSearchFacets(search, PRICE_BUCKETS),
+  ]);
+  const suggestion = total === 0 && search.q ? await suggestCorrection(search.q) : null;
+  return { products, total, facets, suggestion };
+}
+
+// Swap each word that isn't a known term for the closest one that is:
+// "samsnug galxy" becomes "samsung galaxy"
+export async function suggestCorrection(text: string): Promise<string | null> {
+  let corrected = false;
+  const words: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const term = word.length > 2 ? await storage.findSearchTerm(word) : undefined;
+    if (term && term !== normalizeArabic(word)) {
+      words.push(term);
+      corrected = true;
+    } else {
+      words.push(word);
+    }
+  }
+  return corrected ? words.join(" ") : null;
+}
+
+// Listings for the search box to offer while the customer types
+export async function autocompleteProducts(text: string, limit = 8): Promise<ProductSuggestion[]> {
+  const trimmed = text.trim();
+  if (trimmed.length < 2) return [];
+  return await storage.autocompleteProducts(trimmed, limit);
+}
+
+defineJob("refresh-search-terms", () => storage.refreshProductSearchTerms(), { maxAttempts: 1 });
+
+// Keep the suggestion terms in step with the listings in the background
+export function startSearchTermsRefresh(cron = process.env.SEARCH_TERMS_REFRESH_CRON || "*/10 * * * *") {
+  scheduleJob("refresh-search-terms", cron);
+}
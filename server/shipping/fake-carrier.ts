@@ -0,0 +1,37 @@
+import type { CarrierAdapter, CarrierEvent, CreateShipmentRequest } from "./types";
+
+const ROUTE: Omit<CarrierEvent, "occurredAt">[] = [
+  { status: "picked_up", description: "Parcel picked up from seller", location: "Shuwaikh Industrial" },
+  { status: "in_transit", description: "Parcel at sorting hub", location: "Kuwait City Hub" },
+  { status: "out_for_delivery", description: "Out for delivery with courier" },
+  { status: "delivered", description: "Delivered to customer" },
+];
+
+// Local stand-in carrier for development and tests. The tracking number
+// carries the creation time, and each step of ROUTE happens stepMs after the
+// previous one, so events are deterministic and survive restarts.
+export class LocalFakeCarrier implements CarrierAdapter {
+  readonly name = "local";
+  readonly displayName = "Local Courier (test)";
+  private sequence = 0;
+
+  constructor(
+    private readonly stepMs = parseInt(process.env.FAKE_CARRIER_STEP_MS || "60000", 10),
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async createShipment(_request: CreateShipmentRequest): Promise<{ trackingNumber: string }> {
+    this.sequence += 1;
+    return { trackingNumber: `LCL-${this.now().toString(36).toUpperCase()}-${this.sequence}` };
+  }
+
+  async getEvents(trackingNumber: string): Promise<CarrierEvent[]> {
+    const createdAt = parseInt(trackingNumber.split("-")[1] ?? "", 36);
+    if (Number.isNaN(createdAt)) return [];
+
+    return ROUTE.map((step, index) => ({
+      ...step,
+      occurredAt: new Date(createdAt + this.stepMs * (index + 1)),
+    })).filter((event) => event.occurredAt.getTime() <= this.now());
+  }
+}
@@ -0,0 +1,160 @@
+import type { Order, Shipment, ShipmentEvent, ShipmentStatus } from "@shared/schema";
+import { storage } from "../storage";
+import { ShipmentError } from "../errors";
+import { SYSTEM_ACTOR, transitionOrder } from "../order-status";
+import { LocalFakeCarrier } from "./fake-carrier";
+import { ManualCarrier } from "./manual";
+import { defineJob, scheduleJob } from "../jobs";
+import type { CarrierAdapter, CarrierEvent } from "./types";
+
+export type { CarrierAdapter, CarrierEvent } from "./types";
+export { LocalFakeCarrier } from "./fake-carrier";
+export { ManualCarrier } from "./manual";
+
+const carriers = new Map<string, CarrierAdapter>();
+
+export function registerCarrier(carrier: CarrierAdapter) {
+  carriers.set(carrier.name, carrier);
+}
+
+// The fake carrier makes up its tracking events, so it is never offered in production
+if (process.env.NODE_ENV !== "production") {
+  registerCarrier(new LocalFakeCarrier());
+}
+registerCarrier(new ManualCarrier());
+
+export function getCarrier(name: string): CarrierAdapter | undefined {
+  return carriers.get(name);
+}
+
+export function listCarriers(): { name: string; displayName: string }[] {
+  return Array.from(carriers.values()).map(({ name, displayName }) => ({ name, displayName }));
+}
+
+const SHIPMENT_PROGRESS: Record<ShipmentStatus, number> = {
+  label_created: 0,
+  picked_up: 1,
+  in_transit: 2,
+  out_for_delivery: 3,
+  delivered: 4,
+};
+
+// Register a parcel for a seller order with the chosen carrier
+export async function createShipment(
+  order: Order,
+  carrierName: string,
+  trackingNumber?: string,
+): Promise<Shipment> {
+  const carrier = carriers.get(carrierName);
+  if (!carrier) {
+    throw new ShipmentError(`Unknown carrier "${carrierName}"`);
+  }
+  if (!order.sellerId) {
+    throw new ShipmentError("Shipments are added to each seller's order");
+  }
+  if (order.status !== "processing" && order.status !== "shipped") {
+    throw new ShipmentError(`Cannot ship an order that is ${order.status}`);
+  }
+
+  let registered: { trackingNumber: string };
+  try {
+    registered = await carrier.createShipment({
+      orderId: order.id,
+      trackingNumber,
+      shippingAddress: order.shippingAddress,
+    });
+  } catch (error: any) {
+    throw new ShipmentError(error.message);
+  }
+
+  const shipment = await storage.createShipment({
+    orderId: order.id,
+    sellerId: order.sellerId,
+    carrier: carrier.name,
+    trackingNumber: registered.trackingNumber,
+    status: "label_created",
+  });
+  await storage.addShipmentEvent({
+    shipmentId: shipment.id,
+    status: "label_created",
+    description: `Shipment created with ${carrier.displayName}`,
+    occurredAt: shipment.createdAt ?? new Date(),
+  });
+  return shipment;
+}
+
+// Record a tracking event and move the shipment and its order along. Events
+// for a status the shipment already has are ignored, so carriers can resend.
+export async function recordShipmentEvent(shipment: Shipment, event: CarrierEvent): Promise<Shipment> {
+  const existing = await storage.getShipmentEvents(shipment.id);
+  if (existing.some((recorded: ShipmentEvent) => recorded.status === event.status)) {
+    return shipment;
+  }
+
+  await storage.addShipmentEvent({
+    shipmentId: shipment.id,
+    status: event.status,
+    description: event.description,
+    location: event.location,
+    occurredAt: event.occurredAt,
+  });
+
+  if (SHIPMENT_PROGRESS[event.status] <= SHIPMENT_PROGRESS[shipment.status]) {
+    return shipment;
+  }
+  const updated = await storage.updateShipment(shipment.id, {
+    status: event.status,
+    deliveredAt: event.status === "delivered" ? event.occurredAt : shipment.deliveredAt,
+  });
+
+  await advanceOrder(updated);
+  return updated;
+}
+
+// Mark the order shipped once a parcel leaves the seller, and delivered once
+// every parcel for it has arrived
+async function advanceOrder(shipment: Shipment) {
+  let order = await storage.getOrder(shipment.orderId);
+  if (!order) return;
+
+  if (order.status === "processing" && shipment.status !== "label_created") {
+    order = await transitionOrder(order, "shipped", SYSTEM_ACTOR, `Picked up by ${shipment.carrier}`);
+  }
+
+  if (order.status === "shipped" && shipment.status === "delivered") {
+    const orderShipments = await storage.getShipmentsByOrderIds([order.id]);
+    if (orderShipments.every((candidate) => candidate.status === "delivered")) {
+      await transitionOrder(order, "delivered", SYSTEM_ACTOR, `Delivered by ${shipment.carrier}`);
+    }
+  }
+}
+
+// Pull the latest events for a shipment from its carrier
+export async function syncShipment(shipment: Shipment): Promise<Shipment> {
+  const carrier = carriers.get(shipment.carrier);
+  if (!carrier || shipment.status === "delivered") return shipment;
+
+  const events = await carrier.getEvents(shipment.trackingNumber);
+  for (const event of events) {
+    shipment = await recordShipmentEvent(shipment, event);
+  }
+  return shipment;
+}
+
+export async function syncOpenShipments() {
+  for (const shipment of await storage.getOpenShipments()) {
+    try {
+      await syncShipment(shipment);
+    } catch (error) {
+      console.error(`Shipment sync error for ${shipment.id}:`, error);
+    }
+  }
+}
+
+// A failed poll is not retried; the next scheduled one covers it
+defineJob("sync-shipments", syncOpenShipments, { maxAttempts: 1 });
+
+// Poll carriers for open shipments in the background
+export function startCarrierPolling(cron = process.env.CARRIER_POLL_CRON || "* * * * *") {
+  scheduleJob("sync-shipments", cron);
+}
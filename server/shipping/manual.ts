@@ -0,0 +1,19 @@
+import type { CarrierAdapter, CarrierEvent, CreateShipmentRequest } from "./types";
+
+// For couriers without an integration: the seller types the tracking number
+// and records tracking events by hand.
+export class ManualCarrier implements CarrierAdapter {
+  readonly name = "manual";
+  readonly displayName = "Other courier";
+
+  async createShipment(request: CreateShipmentRequest): Promise<{ trackingNumber: string }> {
+    if (!request.trackingNumber) {
+      throw new Error("A tracking number is required for this carrier");
+    }
+    return { trackingNumber: request.trackingNumber };
+  }
+
+  async getEvents(_trackingNumber: string): Promise<CarrierEvent[]> {
+    return [];
+  }
+}
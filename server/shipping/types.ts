@@ -0,0 +1,24 @@
+import type { ShipmentStatus } from "@shared/schema";
+
+export interface CreateShipmentRequest {
+  orderId: string;
+  // Required by carriers that do not issue their own tracking numbers
+  trackingNumber?: string;
+  shippingAddress?: unknown;
+}
+
+export interface CarrierEvent {
+  status: ShipmentStatus;
+  occurredAt: Date;
+  description?: string;
+  location?: string;
+}
+
+export interface CarrierAdapter {
+  readonly name: string;
+  readonly displayName: string;
+  // Register the parcel with the carrier and return its tracking number
+  createShipment(request: CreateShipmentRequest): Promise<{ trackingNumber: string }>;
+  // Every tracking event the carrier has for the parcel so far, oldest first
+  getEvents(trackingNumber: string): Promise<CarrierEvent[]>;
+}
@@ -0,0 +1,80 @@
+import {
+  productSpecFields,
+  type Product,
+  type ProductComparison,
+  type ProductSpecField,
+  type ProductSpecs,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { ProductSpecError } from "./errors";
+
+type SpecInput = Record<string, string | number | boolean>;
+
+function specValue(field: ProductSpecField, value: string | number | boolean): string | number | boolean {
+  switch (field.type) {
+    case "number": {
+      const number = typeof value === "boolean" ? NaN : Number(value);
+      if (!Number.isFinite(number) || number < 0) {
+        throw new ProductSpecError(`${field.label} must be a number`);
+      }
+      return number;
+    }
+    case "boolean":
+      if (value === true || value === "true") return true;
+      if (value === false || value === "false") return false;
+      throw new ProductSpecError(`${field.label} must be yes or no`);
+    default:
+      return String(value).trim();
+  }
+}
+
+// Check a seller's specs against the fields of the product's category. Blank
+// values are left out and numbers typed as text are read, so "6.1" is stored
+// as 6.1 and can be filtered on.
+export function normalizeProductSpecs(category: string, input: SpecInput): ProductSpecs {
+  const fields = productSpecFields[category] ?? [];
+  const unknown = Object.keys(input).find((key) => !fields.some((field) => field.key === key));
+  if (unknown) {
+    throw new ProductSpecError(`${unknown} is not a specification of ${category}`);
+  }
+
+  const specs: ProductSpecs = {};
+  for (const field of fields) {
+    const value = input[field.key];
+    if (value === undefined || value === "") continue;
+    specs[field.key] = specValue(field, value);
+  }
+  return specs;
+}
+
+// The specs a product keeps when it is moved to another category
+export function specsForCategory(category: string, specs: ProductSpecs): ProductSpecs {
+  const fields = productSpecFields[category] ?? [];
+  return Object.fromEntries(Object.entries(specs).filter(([key]) => fields.some((field) => field.key === key)));
+}
+
+// Two to four marketplace listings side by side, with the spec fields of
+// their categories in catalog order
+export async function compareProducts(ids: string[]): Promise<ProductComparison> {
+  const uniqueIds = Array.from(new Set(ids));
+  if (uniqueIds.length < 2 || uniqueIds.length > 4) {
+    throw new ProductSpecError("Choose between 2 and 4 products to compare");
+  }
+
+  const products: Product[] = [];
+  for (const id of uniqueIds) {
+    const product = await storage.getProduct(id);
+    if (!product || !product.isActive || product.status !== "approved") {
+      throw new ProductSpecError(`Product ${id} is not available`);
+    }
+    products.push(product);
+  }
+
+  const fields: ProductSpecField[] = [];
+  for (const category of Array.from(new Set(products.map((product) => product.category)))) {
+    for (const field of productSpecFields[category] ?? []) {
+      if (!fields.some((other) => other.key === field.key)) fields.push(field);
+    }
+  }
+  return { products, fields };
+}
@@ -3,6 +3,12 @@ import {
   sellers,
   products,
   productImages,
+  productImports,
+  jobs,
+  deadLetterJobs,
+  productOptions,
+  productVariants,
+  deviceUnits,
   orders,
   cart,
   payments,
@@ -12,41 +18,325 @@ import {
   inventoryLogs,
   messages,
   loyaltyTransactions,
+  returnRequests,
+  orderStatusHistory,
+  shipments,
+  shipmentEvents,
+  addresses,
+  wishlists,
+  promotions,
+  promotionRedemptions,
+  taxRates,
+  commissionRates,
+  ledgerEntries,
+  payoutBatches,
+  payouts,
+  tradeInPrices,
+  tradeIns,
+  storeCreditTransactions,
+  repairTickets,
+  repairParts,
+  repairTicketHistory,
+  warranties,
+  warrantyClaims,
   type User,
   type InsertUser,
+  type Address,
+  type InsertAddress,
   type Seller,
   type InsertSeller,
   type Product,
   type InsertProduct,
   type ProductImage,
   type InsertProductImage,
+  type ProductImport,
+  type ProductOption,
+  type ProductOptionInput,
+  type ProductVariant,
+  type InsertProductVariant,
+  type ProductVariantUpdate,
+  type ProductSearch,
+  type ProductSearchResult,
+  type ProductSuggestion,
+  type DeviceUnit,
+  type InsertDeviceUnit,
   type Order,
   type InsertOrder,
+  type OrderItem,
+  type OrderStatus,
+  type OrderStatusHistory,
+  type Shipment,
+  type InsertShipment,
+  type ShipmentEvent,
+  type InsertShipmentEvent,
   type CartItem,
   type InsertCartItem,
+  type WishlistItem,
+  type Promotion,
+  type InsertPromotion,
+  type TaxRate,
+  type InsertTaxRate,
+  type CommissionRate,
+  type InsertCommissionRate,
+  type LedgerEntry,
+  type InsertLedgerEntry,
+  type LedgerAccount,
+  type PayoutBatch,
+  type Payout,
+  type TradeInPrice,
+  type InsertTradeInPrice,
+  type TradeIn,
+  type StoreCreditTransaction,
+  type RepairTicket,
+  type RepairPart,
+  type RepairTicketHistory,
+  type Warranty,
+  type InsertWarranty,
+  type WarrantyClaim,
   type Payment,
   type InsertPayment,
   type LoyaltyTransaction,
+  type ReturnRequest,
+  type InsertReturnRequest,
   type Review,
   type InsertReview,
   type InventoryLog,
   type InsertInventoryLog,
   type Message,
   type InsertMessage,
+  findProductSpecField,
+  type Notification,
+  type Job,
+  type InsertJob,
+  type JobStatus,
+  type DeadLetterJob,
+  type InsertDeadLetterJob,
+  type Page,
+  type PageQuery,
+  type userSortFields,
+  type orderSortFields,
+  type productSortFields,
+  type paymentSortFields,
+  type notificationSortFields,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, like, or, sql, asc } from "drizzle-orm";
+import { afterCursor, pageOrder, toPage } from "./pagination";
+import { enqueueJob } from "./jobs";
+import { ADMIN_ROOM, pushNotification } from "./notifications/live";
+import { eq, desc, and, or, sql, asc, isNull, isNotNull, inArray, ne, gte, lt, lte, type SQL } from "drizzle-orm";
 import bcrypt from "bcrypt";
+import { randomUUID } from "crypto";
+import {
+  DeviceUnitError,
+  InsufficientStockError,
+  LedgerError,
+  ProductVariantError,
+  PromotionError,
+  RepairTicketError,
+  type StockShortage,
+} from "./errors";
+
+// Who a notification center belongs to: a user, the shop they sell through
+// and, for an admin, the notifications sent to all admins
+export interface NotificationAudience {
+  userId: string;
+  sellerId?: string;
+  isAdmin?: boolean;
+}
+
+// A promotion code used on an order, recorded when the order is placed
+export interface PromotionRedemptionInput {
+  promotionId: string;
+  userId: string;
+  discount: string;
+}
+
+// One side of a double-entry ledger transaction; amounts are decimal strings
+export type LedgerPosting = Omit<InsertLedgerEntry, "id" | "transactionId" | "createdAt">;
+
+// What the platform owes a seller: credits less debits on their seller_payable account
+export interface SellerBalance {
+  sellerId: string;
+  businessName: string;
+  payoutIban: string | null;
+  payoutAccountName: string | null;
+  balance: number;
+}
+
+// A payout with the seller's bank details and the state of its batch
+export type PayoutLine = Payout &
+  Omit<SellerBalance, "sellerId" | "balance"> &
+  Pick<PayoutBatch, "status" | "reference" | "paidAt">;
+
+// A store credit movement, apart from its signed amount
+export type StoreCreditEntry = Pick<StoreCreditTransaction, "type" | "description"> &
+  Partial<Pick<StoreCreditTransaction, "tradeInId" | "paymentId">>;
+
+// Filters of the product listings outside the ranked marketplace search
+export interface ProductFilters {
+  category?: string;
+  brand?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  condition?: string;
+  search?: string;
+  sellerId?: string;
+  status?: string;
+  includeInactive?: boolean;
+}
+
+export interface OrderFilters {
+  customerId?: string;
+  sellerId?: string;
+  status?: string;
+  topLevelOnly?: boolean;
+}
+
+// Full-text match on the indexed search vector (see migrations/0018_product_search.sql),
+// or the normalized text inside the name so a partial model number still matches
+function productTextMatch(text: string) {
+  const vector = sql`product_search_vector(${products.name}, ${products.brand}, ${products.description})`;
+  const query = sql`(websearch_to_tsquery('english', ${text}) || websearch_to_tsquery('simple', normalize_arabic(${text})))`;
+  const pattern = `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+  return {
+    condition: sql`(${vector} @@ ${query} OR normalize_arabic(${products.name}) LIKE normalize_arabic(${pattern}))`,
+    rank: sql<number>`(ts_rank_cd(${vector}, ${query}) + similarity(normalize_arabic(${products.name}), normalize_arabic(${text})))`,
+  };
+}
+
+// Listings shown in the marketplace that match a search. A facet is counted
+// with every filter but its own, so picking one value still shows the others.
+function productSearchConditions(search: ProductSearch, facet?: "category" | "brand" | "condition" | "price"): SQL[] {
+  const conditions: SQL[] = [eq(products.isActive, true), eq(products.status, "approved")];
+  if (search.q) conditions.push(productTextMatch(search.q).condition);
+  if (search.category && facet !== "category") conditions.push(eq(products.category, search.category));
+  if (search.brand && facet !== "brand") conditions.push(eq(products.brand, search.brand));
+  if (search.condition && facet !== "condition") conditions.push(eq(products.condition, search.condition));
+  if (search.minPrice !== undefined && facet !== "price") conditions.push(sql`${products.price} >= ${search.minPrice}`);
+  if (search.maxPrice !== undefined && facet !== "price") conditions.push(sql`${products.price} <= ${search.maxPrice}`);
+  for (const [key, value] of Object.entries(search.spec ?? {})) {
+    // The key and number are checked by productSearchSchema before they reach the jsonpath
+    if (findProductSpecField(key)?.type === "number") {
+      conditions.push(sql`${products.specs} @? ${`$.${key} ? (@ >= ${Number(value)})`}::jsonpath`);
+    } else {
+      conditions.push(sql`${products.specs} @> ${JSON.stringify({ [key]: true })}::jsonb`);
+    }
+  }
+  return conditions;
+}
+
+function productListConditions(filters?: ProductFilters): SQL[] {
+  const conditions: SQL[] = [];
+
+  // Only filter by isActive if not requesting seller's own products
+  if (!filters?.includeInactive && !filters?.sellerId) {
+    conditions.push(eq(products.isActive, true));
+  }
+
+  if (filters) {
+    if (filters.category) {
+      conditions.push(eq(products.category, filters.category));
+    }
+
+    if (filters.brand) {
+      conditions.push(eq(products.brand, filters.brand));
+    }
+
+    if (filters.condition) {
+      conditions.push(eq(products.condition, filters.condition as any));
+    }
+
+    if (filters.sellerId) {
+      conditions.push(eq(products.sellerId, filters.sellerId));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(products.status, filters.status as any));
+    }
+
+    if (filters.minPrice) {
+      conditions.push(sql`${products.price} >= ${filters.minPrice}`);
+    }
+
+    if (filters.maxPrice) {
+      conditions.push(sql`${products.price} <= ${filters.maxPrice}`);
+    }
+
+    if (filters.search) {
+      conditions.push(productTextMatch(filters.search).condition);
+    }
+  }
+  return conditions;
+}
+
+function orderListConditions(filters?: OrderFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters?.customerId) {
+    conditions.push(eq(orders.customerId, filters.customerId));
+  }
+
+  if (filters?.sellerId) {
+    conditions.push(eq(orders.sellerId, filters.sellerId));
+  }
+
+  if (filters?.status) {
+    conditions.push(eq(orders.status, filters.status as any));
+  }
+
+  // Hide per-seller sub-orders; the parent order already carries every item
+  if (filters?.topLevelOnly) {
+    conditions.push(isNull(orders.parentOrderId));
+  }
+  return conditions;
+}
+
+// Notifications are paged by when they were sent
+async function listNotifications(where: SQL, page: PageQuery<(typeof notificationSortFields)[number]>): Promise<Page<Notification>> {
+  const rows = await db
+    .select()
+    .from(notifications)
+    .where(and(where, afterCursor(notifications, notifications.createdAt, notifications.id, page)))
+    .orderBy(...pageOrder(notifications.createdAt, notifications.id, page))
+    .limit(page.limit + 1)
+    .offset(page.cursor ? 0 : page.offset);
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(notifications)
+    .where(where);
+  return toPage(rows, page, count);
+}
+
+// A user's notification center: what was sent to them, to their shop if they
+// sell, and to the admins if they are one. These are the rooms the live feed
+// pushes the same notifications to.
+function userNotificationsWhere(audience: NotificationAudience): SQL {
+  const conditions: SQL[] = [eq(notifications.userId, audience.userId)];
+  if (audience.sellerId) {
+    conditions.push(eq(notifications.sellerId, audience.sellerId));
+  }
+  if (audience.isAdmin) {
+    conditions.push(and(isNull(notifications.userId), isNull(notifications.sellerId))!);
+  }
+  return or(...conditions)!;
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  listUsers(page: PageQuery<(typeof userSortFields)[number]>, role?: User["role"]): Promise<Page<User>>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User>;
   updateUserRole(id: string, role: string): Promise<User>;
 
+  // Address book operations
+  getAddresses(userId: string): Promise<Address[]>;
+  getAddress(id: string): Promise<Address | undefined>;
+  createAddress(userId: string, address: InsertAddress): Promise<Address>;
+  updateAddress(id: string, updates: Partial<InsertAddress>): Promise<Address>;
+  deleteAddress(id: string): Promise<void>;
+
   // Seller operations (sellers are users with role='seller')
   getSeller(id: string): Promise<Seller | undefined>;
   getSellerByUserId(userId: string): Promise<any>;
@@ -58,19 +348,12 @@ export interface IStorage {
   getAllSellers(): Promise<User[]>;
   approveSeller(sellerId: string, approvedBy: string): Promise<User>;
   getSellersWithDocuments(): Promise<any[]>;
-  getCustomers(): Promise<User[]>;
 
   // Product operations
   getProduct(id: string): Promise<Product | undefined>;
-  getProducts(filters?: {
-    category?: string;
-    brand?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    condition?: string;
-    search?: string;
-    sellerId?: string;
-  }): Promise<Product[]>;
+  getProductBySku(sku: string): Promise<Product | undefined>;
+  getProducts(filters?: ProductFilters): Promise<Product[]>;
+  listProducts(filters: ProductFilters, page: PageQuery<(typeof productSortFields)[number]>): Promise<Page<Product>>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, updates: Partial<Product>): Promise<Product>;
   deleteProduct(id: string): Promise<void>;
@@ -78,8 +361,31 @@ export interface IStorage {
   // Product image operations
   createProductImage(image: InsertProductImage): Promise<ProductImage>;
   listProductImages(productId: string): Promise<ProductImage[]>;
+  getSellerProductImages(sellerId: string): Promise<ProductImage[]>;
   deleteProductImage(id: string): Promise<void>;
 
+  // Product import operations
+  createProductImport(productImport: Pick<ProductImport, "sellerId" | "fileName" | "format" | "dryRun" | "totalRows">): Promise<ProductImport>;
+  getProductImport(id: string): Promise<ProductImport | undefined>;
+  getProductImports(sellerId: string, limit: number): Promise<ProductImport[]>;
+  updateProductImport(id: string, updates: Partial<ProductImport>): Promise<ProductImport>;
+
+  // Product variant operations
+  getProductOptions(productId: string): Promise<ProductOption[]>;
+  setProductOptions(productId: string, options: ProductOptionInput[]): Promise<ProductOption[]>;
+  getProductVariants(productId: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+  createProductVariant(productId: string, variant: InsertProductVariant): Promise<ProductVariant>;
+  updateProductVariant(id: string, updates: ProductVariantUpdate): Promise<ProductVariant>;
+  deleteProductVariant(id: string): Promise<boolean>;
+
+  // Product search operations
+  searchProducts(search: ProductSearch): Promise<{ products: Product[]; total: number }>;
+  getProductSearchFacets(search: ProductSearch, priceBounds: number[]): Promise<ProductSearchResult["facets"]>;
+  findSearchTerm(word: string): Promise<string | undefined>;
+  autocompleteProducts(text: string, limit: number): Promise<ProductSuggestion[]>;
+  refreshProductSearchTerms(): Promise<void>;
+
   // Cart operations
   getCartItems(userId: string): Promise<CartItem[]>;
   addToCart(cartItem: InsertCartItem): Promise<CartItem>;
@@ -87,21 +393,82 @@ export interface IStorage {
   removeFromCart(id: string): Promise<void>;
   clearCart(userId: string): Promise<void>;
 
+  // Wishlist operations
+  getWishlist(userId: string): Promise<(WishlistItem & { product: Product })[]>;
+  getWatchedWishlistItems(): Promise<(WishlistItem & { product: Product })[]>;
+  addToWishlist(userId: string, product: Product): Promise<WishlistItem>;
+  updateWishlistItem(id: string, updates: Partial<WishlistItem>): Promise<WishlistItem>;
+  removeFromWishlist(userId: string, productId: string): Promise<void>;
+
   // Order operations
   getOrder(id: string): Promise<Order | undefined>;
-  getOrders(filters?: {
-    customerId?: string;
-    sellerId?: string;
-    status?: string;
-  }): Promise<Order[]>;
+  getOrders(filters?: OrderFilters): Promise<Order[]>;
+  listOrders(filters: OrderFilters, page: PageQuery<(typeof orderSortFields)[number]>): Promise<Page<Order>>;
   getSellerOrders(sellerId: string): Promise<Order[]>;
+  getSubOrders(parentOrderId: string): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
+  placeOrder(
+    order: InsertOrder,
+    subOrders?: InsertOrder[],
+    redemption?: PromotionRedemptionInput,
+    unitPicks?: Record<string, string[]>, // unit ids picked at the till, by variant id or else product id
+  ): Promise<{ order: Order; subOrders: Order[] }>;
+  releaseCancelledOrders(sellerOrders: Order[], reason: string, redemptionOrderId?: string): Promise<void>;
   updateOrder(id: string, updates: Partial<Order>): Promise<Order>;
+  updateOrderStatus(
+    id: string,
+    fromStatus: OrderStatus,
+    toStatus: OrderStatus,
+    changedBy: { userId: string | null; role: string },
+    note?: string,
+  ): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]>;
+
+  // Promotion operations
+  getPromotions(filters?: { sellerId?: string }): Promise<Promotion[]>;
+  getPromotion(id: string): Promise<Promotion | undefined>;
+  getPromotionByCode(code: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion & { sellerId: string | null; createdBy: string }): Promise<Promotion>;
+  updatePromotion(id: string, updates: Partial<InsertPromotion>): Promise<Promotion>;
+  countPromotionRedemptions(promotionId: string, userId: string): Promise<number>;
+
+  // Tax rate operations
+  getTaxRates(): Promise<TaxRate[]>;
+  getTaxRate(id: string): Promise<TaxRate | undefined>;
+  createTaxRate(taxRate: InsertTaxRate & { createdBy: string }): Promise<TaxRate>;
+  deleteTaxRate(id: string): Promise<void>;
+
+  // Commission operations
+  getCommissionRates(): Promise<CommissionRate[]>;
+  getCommissionRate(id: string): Promise<CommissionRate | undefined>;
+  setCommissionRate(rate: InsertCommissionRate): Promise<CommissionRate>;
+  deleteCommissionRate(id: string): Promise<void>;
+
+  // Ledger operations
+  postLedgerTransaction(postings: LedgerPosting[]): Promise<LedgerEntry[]>;
+  getLedgerEntries(filters: { sellerId?: string; orderId?: string; account?: LedgerAccount }): Promise<LedgerEntry[]>;
+  getSellerBalances(sellerId?: string): Promise<SellerBalance[]>;
+
+  // Payout operations
+  createPayoutBatch(createdBy: string, minimumAmount: number): Promise<PayoutBatch | undefined>;
+  getPayoutBatches(): Promise<PayoutBatch[]>;
+  getPayoutBatch(id: string): Promise<PayoutBatch | undefined>;
+  getPayouts(filters: { batchId?: string; sellerId?: string }): Promise<PayoutLine[]>;
+  markPayoutBatchPaid(id: string, reference: string): Promise<PayoutBatch | undefined>;
+
+  // Shipment operations
+  getShipment(id: string): Promise<Shipment | undefined>;
+  getShipmentsByOrderIds(orderIds: string[]): Promise<Shipment[]>;
+  getOpenShipments(): Promise<Shipment[]>;
+  createShipment(shipment: InsertShipment): Promise<Shipment>;
+  updateShipment(id: string, updates: Partial<Shipment>): Promise<Shipment>;
+  getShipmentEvents(shipmentId: string): Promise<ShipmentEvent[]>;
+  addShipmentEvent(event: InsertShipmentEvent): Promise<ShipmentEvent>;
 
   // Payment operations
   getPayment(id: string): Promise<Payment | undefined>;
   getPaymentsByOrderId(orderId: string): Promise<Payment[]>;
-  getAllPayments(): Promise<Payment[]>;
+  listPayments(page: PageQuery<(typeof paymentSortFields)[number]>): Promise<Page<Payment>>;
   createPayment(payment: InsertPayment): Promise<Payment>;
   updatePayment(id: string, updates: Partial<Payment>): Promise<Payment>;
 
@@ -110,6 +477,77 @@ export interface IStorage {
   getLoyaltyTransactions(userId: string): Promise<LoyaltyTransaction[]>;
   creditLoyaltyPoints(userId: string, points: number, description?: string): Promise<void>;
   redeemLoyaltyPoints(userId: string, points: number, description?: string): Promise<void>;
+  debitLoyaltyPoints(userId: string, points: number, description?: string): Promise<number>;
+
+  // Store credit operations
+  getStoreCreditBalance(userId: string): Promise<number>;
+  getStoreCreditTransactions(userId: string): Promise<StoreCreditTransaction[]>;
+  creditStoreCredit(userId: string, amount: number, entry: StoreCreditEntry): Promise<void>;
+  spendStoreCredit(userId: string, amount: number, entry: StoreCreditEntry): Promise<boolean>;
+
+  // Trade-in operations
+  getTradeInPrices(filters?: { sellerId?: string; brand?: string; model?: string }): Promise<TradeInPrice[]>;
+  getTradeInPrice(id: string): Promise<TradeInPrice | undefined>;
+  setTradeInPrice(sellerId: string, price: InsertTradeInPrice): Promise<TradeInPrice>;
+  deleteTradeInPrice(id: string): Promise<void>;
+  getTradeIns(filters?: { customerId?: string; sellerId?: string; status?: TradeIn["status"] }): Promise<TradeIn[]>;
+  getTradeIn(id: string): Promise<TradeIn | undefined>;
+  createTradeIn(tradeIn: typeof tradeIns.$inferInsert): Promise<TradeIn>;
+  updateTradeIn(id: string, updates: Partial<TradeIn>): Promise<TradeIn>;
+  resolveTradeIn(id: string, updates: Partial<TradeIn> & { status: TradeIn["status"] }): Promise<TradeIn | undefined>;
+
+  // Repair ticket operations
+  getRepairTickets(filters?: { sellerId?: string; customerId?: string; status?: RepairTicket["status"] }): Promise<RepairTicket[]>;
+  getRepairTicket(id: string): Promise<RepairTicket | undefined>;
+  createRepairTicket(ticket: typeof repairTickets.$inferInsert): Promise<RepairTicket>;
+  transitionRepairTicket(
+    id: string,
+    fromStatus: RepairTicket["status"],
+    toStatus: RepairTicket["status"],
+    changedBy: string | null,
+    updates?: Partial<RepairTicket>,
+    note?: string,
+  ): Promise<RepairTicket | undefined>;
+  getRepairTicketHistory(ticketId: string): Promise<RepairTicketHistory[]>;
+  getRepairParts(ticketId: string): Promise<RepairPart[]>;
+  getRepairPart(id: string): Promise<RepairPart | undefined>;
+  addRepairPart(part: typeof repairParts.$inferInsert): Promise<RepairPart>;
+  deleteRepairPart(id: string): Promise<void>;
+
+  // Warranty operations
+  getWarranties(filters?: { orderId?: string; customerId?: string; sellerId?: string; imei?: string }): Promise<Warranty[]>;
+  getWarranty(id: string): Promise<Warranty | undefined>;
+  createWarranties(rows: InsertWarranty[]): Promise<Warranty[]>;
+  updateWarranty(id: string, updates: Partial<Warranty>): Promise<Warranty>;
+  getWarrantyClaims(filters?: {
+    customerId?: string;
+    sellerId?: string;
+    warrantyId?: string;
+    status?: WarrantyClaim["status"];
+  }): Promise<WarrantyClaim[]>;
+  getWarrantyClaim(id: string): Promise<WarrantyClaim | undefined>;
+  createWarrantyClaim(claim: typeof warrantyClaims.$inferInsert): Promise<WarrantyClaim>;
+  updateWarrantyClaim(id: string, updates: Partial<WarrantyClaim>): Promise<WarrantyClaim>;
+  resolveWarrantyClaim(
+    id: string,
+    updates: Partial<WarrantyClaim> & { status: WarrantyClaim["status"] },
+  ): Promise<WarrantyClaim | undefined>;
+
+  // Return request operations
+  getReturnRequest(id: string): Promise<ReturnRequest | undefined>;
+  getReturnRequests(filters?: {
+    customerId?: string;
+    sellerId?: string;
+    orderId?: string;
+    status?: string;
+  }): Promise<ReturnRequest[]>;
+  createReturnRequest(returnRequest: InsertReturnRequest): Promise<ReturnRequest>;
+  updateReturnRequest(id: string, updates: Partial<ReturnRequest>): Promise<ReturnRequest>;
+  transitionReturnRequest(
+    id: string,
+    fromStatuses: ReturnRequest["status"][],
+    updates: Partial<ReturnRequest> & { status: ReturnRequest["status"] },
+  ): Promise<ReturnRequest | undefined>;
 
   // Notification operations
   createNotification(notification: {
@@ -119,15 +557,36 @@ export interface IStorage {
     relatedId?: string;
     metadata?: any;
     sellerId?: string; // For seller-specific notifications
+    userId?: string; // For customer notifications
   }): Promise<any>;
-  getNotifications(limit?: number): Promise<any[]>;
-  getSellerNotifications(sellerId: string, limit?: number): Promise<any[]>;
+  getNotification(id: string): Promise<Notification | undefined>;
+  listAdminNotifications(page: PageQuery<(typeof notificationSortFields)[number]>): Promise<Page<Notification>>;
+  listSellerNotifications(sellerId: string, page: PageQuery<(typeof notificationSortFields)[number]>): Promise<Page<Notification>>;
+  listUserNotifications(
+    audience: NotificationAudience,
+    page: PageQuery<(typeof notificationSortFields)[number]>,
+  ): Promise<Page<Notification>>;
+  countUnreadUserNotifications(audience: NotificationAudience): Promise<number>;
   markNotificationRead(id: string): Promise<void>;
+  markUserNotificationRead(id: string, audience: NotificationAudience): Promise<boolean>;
+  markAllUserNotificationsRead(audience: NotificationAudience): Promise<number>;
 
   // Admin settings operations
   getAdminSetting(key: string): Promise<string | undefined>;
   setAdminSetting(key: string, value: string, description?: string): Promise<void>;
 
+  // Job operations
+  createJob(job: InsertJob): Promise<Job | undefined>;
+  claimJob(staleBefore: Date): Promise<Job | undefined>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job>;
+  getJobs(status: JobStatus | undefined, limit: number): Promise<Job[]>;
+  getJobCounts(): Promise<Record<JobStatus, number>>;
+  deleteCompletedJobs(before: Date): Promise<number>;
+  createDeadLetterJob(entry: InsertDeadLetterJob): Promise<DeadLetterJob>;
+  getDeadLetterJobs(limit: number): Promise<DeadLetterJob[]>;
+  getDeadLetterJob(id: string): Promise<DeadLetterJob | undefined>;
+  deleteDeadLetterJob(id: string): Promise<void>;
+
   // Product approval operations
   getPendingProducts(): Promise<Product[]>;
   approveProduct(productId: string, approvedBy: string): Promise<Product>;
@@ -184,6 +643,7 @@ export interface IStorage {
 
   // Reviews operations
   createReview(review: InsertReview): Promise<Review>;
+  getReview(id: string): Promise<Review | undefined>;
   getProductReviews(productId: string): Promise<Review[]>;
   getUserReviews(userId: string): Promise<Review[]>;
   updateReview(id: string, updates: Partial<Review>): Promise<Review>;
@@ -192,13 +652,175 @@ export interface IStorage {
   // Inventory operations
   logInventoryChange(log: InsertInventoryLog): Promise<InventoryLog>;
   getProductInventoryLogs(productId: string): Promise<InventoryLog[]>;
-  updateProductStock(productId: string, quantityChange: number, reason: string, orderId?: string): Promise<void>;
+  getSellerUnitsSold(sellerId: string, since: Date): Promise<{ productId: string; unitsSold: number }[]>;
+  updateProductStock(
+    productId: string,
+    quantityChange: number,
+    reason: string,
+    orderId?: string,
+    changeType?: string,
+    variantId?: string,
+  ): Promise<void>;
+
+  // Device unit operations
+  getDeviceUnits(productId: string, status?: DeviceUnit["status"]): Promise<DeviceUnit[]>;
+  getDeviceUnit(id: string): Promise<DeviceUnit | undefined>;
+  findDeviceUnit(identifier: string): Promise<DeviceUnit | undefined>;
+  addDeviceUnits(productId: string, units: InsertDeviceUnit[]): Promise<DeviceUnit[]>;
+  deleteDeviceUnit(id: string): Promise<boolean>;
+  releaseDeviceUnits(orderId: string, unitIds?: string[]): Promise<void>;
+  getDeviceUnitOrders(unitId: string): Promise<Order[]>;
 
   // Chat operations
   getMessageHistory(userId: string, otherUserId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
 }
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Lock the product row, apply the change and log it, all inside the caller's
+// transaction. changeType defaults to 'restock' or 'sale' by direction. A
+// product listed with variants only changes through one of them. Returns
+// whether the change took the product below its reorder threshold.
+async function applyStockChange(
+  tx: DbTransaction,
+  productId: string,
+  quantityChange: number,
+  reason: string,
+  orderId?: string,
+  changeType = quantityChange > 0 ? 'restock' : 'sale',
+  variantId?: string,
+): Promise<boolean> {
+  const [product] = await tx
+    .select({ name: products.name, stock: products.stock, reorderThreshold: products.reorderThreshold })
+    .from(products)
+    .where(eq(products.id, productId))
+    .for("update");
+
+  if (!product) throw new Error("Product not found");
+
+  if (variantId) {
+    const [variant] = await tx
+      .select({ stock: productVariants.stock })
+      .from(productVariants)
+      .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, productId)))
+      .for("update");
+    if (!variant) throw new ProductVariantError("Variant not found");
+    if (variant.stock + quantityChange < 0) {
+      throw new InsufficientStockError([
+        { productId, name: product.name, available: variant.stock, requested: -quantityChange },
+      ]);
+    }
+    await tx
+      .update(productVariants)
+      .set({ stock: variant.stock + quantityChange, updatedAt: new Date() })
+      .where(eq(productVariants.id, variantId));
+  } else {
+    const [variant] = await tx
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .limit(1);
+    if (variant) throw new ProductVariantError(`Choose which variant of ${product.name} the stock is for`);
+  }
+
+  const previousQuantity = product.stock;
+  const newQuantity = previousQuantity + quantityChange;
+  if (newQuantity < 0) {
+    throw new InsufficientStockError([
+      { productId, name: product.name, available: previousQuantity, requested: -quantityChange },
+    ]);
+  }
+
+  await tx
+    .update(products)
+    .set({
+      stock: newQuantity,
+      updatedAt: new Date()
+    })
+    .where(eq(products.id, productId));
+
+  await tx.insert(inventoryLogs).values({
+    productId,
+    changeType,
+    quantityChange,
+    previousQuantity,
+    newQuantity,
+    reason,
+    orderId,
+    variantId,
+  });
+  return previousQuantity >= product.reorderThreshold && newQuantity < product.reorderThreshold;
+}
+
+// Low-stock alerts go out from the job worker (server/low-stock.ts) once the
+// stock change is committed
+async function queueLowStockAlerts(productIds: string[]): Promise<void> {
+  for (const productId of productIds) {
+    try {
+      await enqueueJob("low-stock-alert", { productId });
+    } catch (error) {
+      console.error("Queue low-stock alert error:", error);
+    }
+  }
+}
+
+// The stock a line sells from: its variant, or the product itself
+const stockKey = (item: OrderItem) => item.variantId ?? item.productId;
+
+// A product listed with variants is priced from its cheapest active variant
+async function syncVariantPrice(tx: DbTransaction, productId: string): Promise<void> {
+  const activeVariants = sql`FROM ${productVariants} WHERE ${productVariants.productId} = ${productId} AND ${productVariants.isActive}`;
+  await tx
+    .update(products)
+    .set({ price: sql`(SELECT MIN(${productVariants.price}) ${activeVariants})`, updatedAt: new Date() })
+    .where(and(eq(products.id, productId), sql`EXISTS (SELECT 1 ${activeVariants})`));
+}
+
+// Insert a balanced set of postings under one transaction id. Debits must equal
+// credits, or nothing is written.
+async function insertLedgerTransaction(
+  executor: typeof db | DbTransaction,
+  postings: LedgerPosting[],
+): Promise<LedgerEntry[]> {
+  const cents = (amount?: string) => Math.round(parseFloat(amount || "0") * 100);
+  const debits = postings.reduce((sum, posting) => sum + cents(posting.debit), 0);
+  const credits = postings.reduce((sum, posting) => sum + cents(posting.credit), 0);
+  if (postings.length < 2 || debits !== credits) {
+    throw new LedgerError("Ledger transaction does not balance");
+  }
+
+  const transactionId = randomUUID();
+  return await executor
+    .insert(ledgerEntries)
+    .values(postings.map((posting) => ({ ...posting, transactionId })))
+    .returning();
+}
+
+async function selectSellerBalances(executor: typeof db | DbTransaction, sellerId?: string): Promise<SellerBalance[]> {
+  const rows = await executor
+    .select({
+      sellerId: sellers.id,
+      businessName: sellers.businessName,
+      payoutIban: sellers.payoutIban,
+      payoutAccountName: sellers.payoutAccountName,
+      balance: sql<string>`SUM(${ledgerEntries.credit} - ${ledgerEntries.debit})`,
+    })
+    .from(ledgerEntries)
+    .innerJoin(sellers, eq(ledgerEntries.sellerId, sellers.id))
+    .where(and(
+      eq(ledgerEntries.account, "seller_payable"),
+      sellerId ? eq(ledgerEntries.sellerId, sellerId) : undefined,
+    ))
+    .groupBy(sellers.id)
+    .orderBy(asc(sellers.businessName));
+  return rows.map((row) => ({ ...row, balance: parseFloat(row.balance) }));
+}
+
+// Parent orders of a multi-vendor checkout duplicate their sub-orders' items
+// and totals, so aggregates only count the sub-orders.
+const isNotParentOrder = sql`NOT EXISTS (SELECT 1 FROM orders so WHERE so.parent_order_id = ${orders.id})`;
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -227,6 +849,23 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users).orderBy(desc(users.createdAt));
   }
 
+  async listUsers(page: PageQuery<(typeof userSortFields)[number]>, role?: User["role"]): Promise<Page<User>> {
+    const where = role ? eq(users.role, role) : undefined;
+    const sortColumn = { createdAt: users.createdAt, email: users.email }[page.sort];
+    const rows = await db
+      .select()
+      .from(users)
+      .where(and(where, afterCursor(users, sortColumn, users.id, page)))
+      .orderBy(...pageOrder(sortColumn, users.id, page))
+      .limit(page.limit + 1)
+      .offset(page.cursor ? 0 : page.offset);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(users)
+      .where(where);
+    return toPage(rows, page, count);
+  }
+
   async updateUser(id: string, updates: Partial<User>): Promise<User> {
     const [user] = await db
       .update(users)
@@ -245,6 +884,82 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Address book operations
+  async getAddresses(userId: string): Promise<Address[]> {
+    return await db
+      .select()
+      .from(addresses)
+      .where(eq(addresses.userId, userId))
+      .orderBy(desc(addresses.isDefault), desc(addresses.createdAt));
+  }
+
+  async getAddress(id: string): Promise<Address | undefined> {
+    const [address] = await db.select().from(addresses).where(eq(addresses.id, id));
+    return address;
+  }
+
+  // A user's first address becomes their default. Making an address the
+  // default clears the flag on the others in the same transaction.
+  async createAddress(userId: string, addressData: InsertAddress): Promise<Address> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ id: addresses.id })
+        .from(addresses)
+        .where(eq(addresses.userId, userId))
+        .for("update");
+
+      const isDefault = existing.length === 0 || !!addressData.isDefault;
+      if (isDefault) {
+        await tx.update(addresses).set({ isDefault: false }).where(eq(addresses.userId, userId));
+      }
+
+      const [address] = await tx
+        .insert(addresses)
+        .values({ ...addressData, userId, isDefault })
+        .returning();
+      return address;
+    });
+  }
+
+  async updateAddress(id: string, updates: Partial<InsertAddress>): Promise<Address> {
+    return await db.transaction(async (tx) => {
+      if (updates.isDefault) {
+        const [address] = await tx.select().from(addresses).where(eq(addresses.id, id));
+        await tx
+          .update(addresses)
+          .set({ isDefault: false })
+          .where(and(eq(addresses.userId, address.userId), ne(addresses.id, id)));
+      }
+
+      // The default can only be moved to another address, not switched off
+      const { isDefault, ...fields } = updates;
+      const [updated] = await tx
+        .update(addresses)
+        .set({ ...fields, ...(isDefault ? { isDefault } : {}), updatedAt: new Date() })
+        .where(eq(addresses.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Deleting the default address hands the flag to the most recent remaining one
+  async deleteAddress(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(addresses).where(eq(addresses.id, id)).returning();
+      if (!deleted?.isDefault) return;
+
+      const [next] = await tx
+        .select({ id: addresses.id })
+        .from(addresses)
+        .where(eq(addresses.userId, deleted.userId))
+        .orderBy(desc(addresses.createdAt))
+        .limit(1);
+      if (next) {
+        await tx.update(addresses).set({ isDefault: true }).where(eq(addresses.id, next.id));
+      }
+    });
+  }
+
   // Seller operations
   async getSeller(id: string): Promise<Seller | undefined> {
     const [seller] = await db.select().from(sellers).where(eq(sellers.id, id));
@@ -374,6 +1089,7 @@ export class DatabaseStorage implements IStorage {
         profileImageUrl: users.profileImageUrl,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
+        sellerId: sellers.id,
         sellerStatus: sellers.status,
         businessName: sellers.businessName,
         businessType: sellers.businessType,
@@ -426,14 +1142,6 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getCustomers(): Promise<User[]> {
-    return await db
-      .select()
-      .from(users)
-      .where(eq(users.role, "customer"))
-      .orderBy(desc(users.createdAt));
-  }
-
   async getAllSellers(): Promise<User[]> {
     return await db
       .select()
@@ -469,76 +1177,39 @@ export class DatabaseStorage implements IStorage {
     return product;
   }
 
-  async getProducts(filters?: {
-    category?: string;
-    brand?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    condition?: string;
-    search?: string;
-    sellerId?: string;
-    status?: string;
-    includeInactive?: boolean;
-  }): Promise<Product[]> {
-    const conditions = [];
-    
-    // Only filter by isActive if not requesting seller's own products
-    if (!filters?.includeInactive && !filters?.sellerId) {
-      conditions.push(eq(products.isActive, true));
-    }
-
-    if (filters) {
-      if (filters.category) {
-        conditions.push(eq(products.category, filters.category));
-      }
-      
-      if (filters.brand) {
-        conditions.push(eq(products.brand, filters.brand));
-      }
-      
-      if (filters.condition) {
-        conditions.push(eq(products.condition, filters.condition as any));
-      }
-      
-      if (filters.sellerId) {
-        conditions.push(eq(products.sellerId, filters.sellerId));
-      }
+  async getProductBySku(sku: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.sku, sku));
+    return product;
+  }
 
-      if (filters.status) {
-        conditions.push(eq(products.status, filters.status as any));
-      }
-      
-      if (filters.minPrice) {
-        conditions.push(sql`${products.price} >= ${filters.minPrice}`);
-      }
-      
-      if (filters.maxPrice) {
-        conditions.push(sql`${products.price} <= ${filters.maxPrice}`);
-      }
-      
-      if (filters.search) {
-        conditions.push(
-          or(
-            like(products.name, `%${filters.search}%`),
-            like(products.description, `%${filters.search}%`),
-            like(products.brand, `%${filters.search}%`)
-          )
-        );
-      }
-    }
+  async getProducts(filters?: ProductFilters): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(and(...productListConditions(filters)))
+      .orderBy(desc(products.createdAt));
+  }
 
-    if (conditions.length > 0) {
-      return await db
-        .select()
-        .from(products)
-        .where(and(...conditions))
-        .orderBy(desc(products.createdAt));
-    } else {
-      return await db
-        .select()
-        .from(products)
-        .orderBy(desc(products.createdAt));
-    }
+  async listProducts(filters: ProductFilters, page: PageQuery<(typeof productSortFields)[number]>): Promise<Page<Product>> {
+    const where = and(...productListConditions(filters));
+    const sortColumn = {
+      createdAt: products.createdAt,
+      price: products.price,
+      name: products.name,
+      stock: products.stock,
+    }[page.sort];
+    const rows = await db
+      .select()
+      .from(products)
+      .where(and(where, afterCursor(products, sortColumn, products.id, page)))
+      .orderBy(...pageOrder(sortColumn, products.id, page))
+      .limit(page.limit + 1)
+      .offset(page.cursor ? 0 : page.offset);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(products)
+      .where(where);
+    return toPage(rows, page, count);
   }
 
   async createProduct(productData: InsertProduct): Promise<Product> {
@@ -575,10 +1246,216 @@ export class DatabaseStorage implements IStorage {
       .orderBy(productImages.displayOrder, productImages.createdAt);
   }
 
+  // The listing photos (not those of one variant) of every product of a seller
+  async getSellerProductImages(sellerId: string): Promise<ProductImage[]> {
+    return await db
+      .select({ image: productImages })
+      .from(productImages)
+      .innerJoin(products, eq(productImages.productId, products.id))
+      .where(and(eq(products.sellerId, sellerId), isNull(productImages.variantId)))
+      .orderBy(productImages.productId, productImages.displayOrder, productImages.createdAt)
+      .then((rows) => rows.map((row) => row.image));
+  }
+
   async deleteProductImage(id: string): Promise<void> {
     await db.delete(productImages).where(eq(productImages.id, id));
   }
 
+  // Product import operations
+  async createProductImport(
+    productImport: Pick<ProductImport, "sellerId" | "fileName" | "format" | "dryRun" | "totalRows">,
+  ): Promise<ProductImport> {
+    const [created] = await db.insert(productImports).values(productImport).returning();
+    return created;
+  }
+
+  async getProductImport(id: string): Promise<ProductImport | undefined> {
+    const [productImport] = await db.select().from(productImports).where(eq(productImports.id, id));
+    return productImport;
+  }
+
+  async getProductImports(sellerId: string, limit: number): Promise<ProductImport[]> {
+    return await db
+      .select()
+      .from(productImports)
+      .where(eq(productImports.sellerId, sellerId))
+      .orderBy(desc(productImports.createdAt))
+      .limit(limit);
+  }
+
+  async updateProductImport(id: string, updates: Partial<ProductImport>): Promise<ProductImport> {
+    const [productImport] = await db
+      .update(productImports)
+      .set(updates)
+      .where(eq(productImports.id, id))
+      .returning();
+    return productImport;
+  }
+
+  // Product variant operations
+  async getProductOptions(productId: string): Promise<ProductOption[]> {
+    return await db
+      .select()
+      .from(productOptions)
+      .where(eq(productOptions.productId, productId))
+      .orderBy(asc(productOptions.position));
+  }
+
+  async setProductOptions(productId: string, options: ProductOptionInput[]): Promise<ProductOption[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(productOptions).where(eq(productOptions.productId, productId));
+      if (options.length === 0) return [];
+      return await tx
+        .insert(productOptions)
+        .values(options.map((option, position) => ({ ...option, productId, position })))
+        .returning();
+    });
+  }
+
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return await db
+      .select()
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(asc(productVariants.createdAt));
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, id));
+    return variant;
+  }
+
+  // Opening stock goes through the inventory log like any other restock
+  async createProductVariant(productId: string, { stock = 0, ...variant }: InsertProductVariant): Promise<ProductVariant> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(productVariants)
+        .values({ ...variant, productId, stock: 0 })
+        .returning();
+      if (stock > 0) {
+        await applyStockChange(tx, productId, stock, "Variant added", undefined, "restock", created.id);
+      }
+      await syncVariantPrice(tx, productId);
+      return { ...created, stock };
+    });
+  }
+
+  async updateProductVariant(id: string, updates: ProductVariantUpdate): Promise<ProductVariant> {
+    return await db.transaction(async (tx) => {
+      const [variant] = await tx
+        .update(productVariants)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(productVariants.id, id))
+        .returning();
+      await syncVariantPrice(tx, variant.productId);
+      return variant;
+    });
+  }
+
+  // Only a variant with no stock and no handsets registered to it can be removed
+  async deleteProductVariant(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [variant] = await tx
+        .delete(productVariants)
+        .where(
+          and(
+            eq(productVariants.id, id),
+            eq(productVariants.stock, 0),
+            sql`NOT EXISTS (SELECT 1 FROM ${deviceUnits} WHERE ${deviceUnits.variantId} = ${id})`,
+          ),
+        )
+        .returning();
+      if (!variant) {
+        return false;
+      }
+      await syncVariantPrice(tx, variant.productId);
+      return true;
+    });
+  }
+
+  // Product search operations
+  async searchProducts(search: ProductSearch): Promise<{ products: Product[]; total: number }> {
+    const where = and(...productSearchConditions(search));
+    const order = {
+      relevance: search.q ? [desc(productTextMatch(search.q).rank), desc(products.createdAt)] : [desc(products.createdAt)],
+      price_asc: [asc(products.price)],
+      price_desc: [desc(products.price)],
+      newest: [desc(products.createdAt)],
+      rating: [sql`${products.rating} DESC NULLS LAST`, desc(products.reviewCount)],
+    }[search.sort];
+
+    const rows = await db
+      .select()
+      .from(products)
+      .where(where)
+      .orderBy(...order)
+      .limit(search.limit)
+      .offset(search.offset);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(products)
+      .where(where);
+    return { products: rows, total: count };
+  }
+
+  async getProductSearchFacets(search: ProductSearch, priceBounds: number[]): Promise<ProductSearchResult["facets"]> {
+    const countBy = async (column: typeof products.category | typeof products.brand | typeof products.condition, facet: "category" | "brand" | "condition") => {
+      const rows = await db
+        .select({ value: column, count: sql<number>`count(*)::int` })
+        .from(products)
+        .where(and(...productSearchConditions(search, facet), isNotNull(column)))
+        .groupBy(column)
+        .orderBy(desc(sql`count(*)`));
+      return rows.map((row) => ({ value: row.value as string, count: row.count }));
+    };
+
+    // width_bucket numbers the buckets from 1 in the order of the bounds
+    const bucket = sql<number>`width_bucket(${products.price}, ${sql.raw(`ARRAY[${priceBounds.join(",")}]::numeric[]`)})`;
+    const priceRows = await db
+      .select({ bucket, count: sql<number>`count(*)::int` })
+      .from(products)
+      .where(and(...productSearchConditions(search, "price")))
+      .groupBy(bucket);
+
+    const [category, brand, condition] = await Promise.all([
+      countBy(products.category, "category"),
+      countBy(products.brand, "brand"),
+      countBy(products.condition, "condition"),
+    ]);
+    const price = priceBounds.map((min, index) => ({
+      min,
+      max: priceBounds[index + 1] ?? null,
+      count: priceRows.find((row) => row.bucket === index + 1)?.count ?? 0,
+    }));
+    return { category, brand, condition, price };
+  }
+
+  async findSearchTerm(word: string): Promise<string | undefined> {
+    const result = await db.execute(sql`
+      SELECT word
+      FROM product_search_terms
+      WHERE word % normalize_arabic(${word})
+      ORDER BY similarity(word, normalize_arabic(${word})) DESC, ndoc DESC
+      LIMIT 1
+    `);
+    // @ts-ignore drizzle types
+    return result.rows[0]?.word;
+  }
+
+  async autocompleteProducts(text: string, limit: number): Promise<ProductSuggestion[]> {
+    const { condition } = productTextMatch(text);
+    return await db
+      .select({ id: products.id, name: products.name, brand: products.brand, imageUrl: products.imageUrl })
+      .from(products)
+      .where(and(eq(products.isActive, true), eq(products.status, "approved"), condition))
+      .orderBy(desc(sql`word_similarity(normalize_arabic(${text}), normalize_arabic(${products.name}))`), asc(products.name))
+      .limit(limit);
+  }
+
+  async refreshProductSearchTerms(): Promise<void> {
+    await db.execute(sql`REFRESH MATERIALIZED VIEW CONCURRENTLY product_search_terms`);
+  }
+
   // Cart operations
   async getCartItems(userId: string): Promise<CartItem[]> {
     return await db.select().from(cart).where(eq(cart.userId, userId));
@@ -592,7 +1469,8 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(cart.userId, cartData.userId),
-          eq(cart.productId, cartData.productId)
+          eq(cart.productId, cartData.productId),
+          cartData.variantId ? eq(cart.variantId, cartData.variantId) : isNull(cart.variantId)
         )
       );
 
@@ -631,47 +1509,88 @@ export class DatabaseStorage implements IStorage {
     await db.delete(cart).where(eq(cart.userId, userId));
   }
 
+  // Wishlist operations
+  async getWishlist(userId: string): Promise<(WishlistItem & { product: Product })[]> {
+    const rows = await db
+      .select()
+      .from(wishlists)
+      .innerJoin(products, eq(wishlists.productId, products.id))
+      .where(eq(wishlists.userId, userId))
+      .orderBy(desc(wishlists.createdAt));
+    return rows.map((row) => ({ ...row.wishlists, product: row.products }));
+  }
+
+  async getWatchedWishlistItems(): Promise<(WishlistItem & { product: Product })[]> {
+    const rows = await db
+      .select()
+      .from(wishlists)
+      .innerJoin(products, eq(wishlists.productId, products.id))
+      .where(eq(products.isActive, true));
+    return rows.map((row) => ({ ...row.wishlists, product: row.products }));
+  }
+
+  // Saving an item twice keeps the original saved price
+  async addToWishlist(userId: string, product: Product): Promise<WishlistItem> {
+    const [created] = await db
+      .insert(wishlists)
+      .values({ userId, productId: product.id, savedPrice: product.price, lastKnownStock: product.stock })
+      .onConflictDoNothing({ target: [wishlists.userId, wishlists.productId] })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db
+      .select()
+      .from(wishlists)
+      .where(and(eq(wishlists.userId, userId), eq(wishlists.productId, product.id)));
+    return existing;
+  }
+
+  async updateWishlistItem(id: string, updates: Partial<WishlistItem>): Promise<WishlistItem> {
+    const [updated] = await db
+      .update(wishlists)
+      .set(updates)
+      .where(eq(wishlists.id, id))
+      .returning();
+    return updated;
+  }
+
+  async removeFromWishlist(userId: string, productId: string): Promise<void> {
+    await db
+      .delete(wishlists)
+      .where(and(eq(wishlists.userId, userId), eq(wishlists.productId, productId)));
+  }
+
   // Order operations
   async getOrder(id: string): Promise<Order | undefined> {
     const [order] = await db.select().from(orders).where(eq(orders.id, id));
     return order;
   }
 
-  async getOrders(filters?: {
-    customerId?: string;
-    sellerId?: string;
-    status?: string;
-  }): Promise<Order[]> {
-    if (filters) {
-      const conditions = [];
-      
-      if (filters.customerId) {
-        conditions.push(eq(orders.customerId, filters.customerId));
-      }
-      
-      if (filters.sellerId) {
-        conditions.push(eq(orders.sellerId, filters.sellerId));
-      }
-      
-      if (filters.status) {
-        conditions.push(eq(orders.status, filters.status as any));
-      }
-
-      if (conditions.length > 0) {
-        return await db
-          .select()
-          .from(orders)
-          .where(and(...conditions))
-          .orderBy(desc(orders.createdAt));
-      }
-    }
-
+  async getOrders(filters?: OrderFilters): Promise<Order[]> {
     return await db
       .select()
       .from(orders)
+      .where(and(...orderListConditions(filters)))
       .orderBy(desc(orders.createdAt));
   }
 
+  async listOrders(filters: OrderFilters, page: PageQuery<(typeof orderSortFields)[number]>): Promise<Page<Order>> {
+    const where = and(...orderListConditions(filters));
+    const sortColumn = { createdAt: orders.createdAt, total: orders.total, status: orders.status }[page.sort];
+    const rows = await db
+      .select()
+      .from(orders)
+      .where(and(where, afterCursor(orders, sortColumn, orders.id, page)))
+      .orderBy(...pageOrder(sortColumn, orders.id, page))
+      .limit(page.limit + 1)
+      .offset(page.cursor ? 0 : page.offset);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(where);
+    return toPage(rows, page, count);
+  }
+
   async getSellerOrders(sellerId: string): Promise<Order[]> {
     return await db
       .select()
@@ -680,20 +1599,595 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(orders.createdAt));
   }
 
+  async getSubOrders(parentOrderId: string): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(eq(orders.parentOrderId, parentOrderId))
+      .orderBy(asc(orders.createdAt));
+  }
+
   async createOrder(orderData: InsertOrder): Promise<Order> {
     const [order] = await db.insert(orders).values(orderData).returning();
     return order;
   }
 
-  async updateOrder(id: string, updates: Partial<Order>): Promise<Order> {
-    const [order] = await db
-      .update(orders)
+  async placeOrder(
+    orderData: InsertOrder,
+    subOrderData: InsertOrder[] = [],
+    redemption?: PromotionRedemptionInput,
+    unitPicks: Record<string, string[]> = {},
+  ): Promise<{ order: Order; subOrders: Order[] }> {
+    const lowStock = new Set<string>();
+    const placed = await db.transaction(async (tx) => {
+      // Stock is held per variant for products listed with variants, else per product
+      const sellerOrders = subOrderData.length > 0 ? subOrderData : [orderData];
+      const requested = new Map<string, { productId: string; variantId?: string; name: string; quantity: number }>();
+      for (const sellerOrder of sellerOrders) {
+        for (const item of sellerOrder.items as OrderItem[]) {
+          if (item.repairTicketId) continue;
+          const key = stockKey(item);
+          const line = requested.get(key) ?? { productId: item.productId, variantId: item.variantId, name: item.name, quantity: 0 };
+          line.quantity += item.quantity;
+          requested.set(key, line);
+        }
+      }
+      const productIds = Array.from(new Set(Array.from(requested.values()).map((line) => line.productId)));
+      const variantIds = Array.from(requested.values()).flatMap((line) => (line.variantId ? [line.variantId] : []));
+
+      // Lock the product rows, then the variant rows, in id order so concurrent
+      // checkouts cannot deadlock
+      const locked = await tx
+        .select({ id: products.id, name: products.name, stock: products.stock })
+        .from(products)
+        .where(inArray(products.id, productIds))
+        .orderBy(asc(products.id))
+        .for("update");
+      const lockedById = new Map(locked.map((product) => [product.id, product]));
+      const lockedVariants =
+        variantIds.length > 0
+          ? await tx
+              .select({ id: productVariants.id, productId: productVariants.productId, stock: productVariants.stock })
+              .from(productVariants)
+              .where(inArray(productVariants.id, variantIds))
+              .orderBy(asc(productVariants.id))
+              .for("update")
+          : [];
+      const variantById = new Map(lockedVariants.map((variant) => [variant.id, variant]));
+
+      const shortages: StockShortage[] = [];
+      for (const line of Array.from(requested.values())) {
+        const product = lockedById.get(line.productId);
+        const variant = line.variantId ? variantById.get(line.variantId) : undefined;
+        if (line.variantId && variant?.productId !== line.productId) {
+          throw new ProductVariantError(`${line.name} is no longer sold`);
+        }
+        const available = variant ? variant.stock : (product?.stock ?? 0);
+        if (!product || available < line.quantity) {
+          shortages.push({
+            productId: line.productId,
+            name: variant ? line.name : (product?.name ?? line.productId),
+            available,
+            requested: line.quantity,
+          });
+        }
+      }
+
+      // Serialized products sell specific handsets: the units picked at the till,
+      // then the longest-held units in stock, of the variant sold. The product
+      // rows are locked above, so no other sale can claim the same units.
+      const serialized = new Set(
+        (
+          await tx
+            .selectDistinct({ productId: deviceUnits.productId })
+            .from(deviceUnits)
+            .where(inArray(deviceUnits.productId, productIds))
+        ).map((row) => row.productId),
+      );
+      const inStock =
+        serialized.size > 0
+          ? await tx
+              .select()
+              .from(deviceUnits)
+              .where(and(inArray(deviceUnits.productId, Array.from(serialized)), eq(deviceUnits.status, "in_stock")))
+              .orderBy(asc(deviceUnits.createdAt))
+          : [];
+      const claimed = new Map<string, DeviceUnit[]>();
+      for (const [key, line] of Array.from(requested.entries())) {
+        const picks = unitPicks[key] ?? [];
+        if (!serialized.has(line.productId)) {
+          if (picks.length > 0) {
+            throw new DeviceUnitError("Units can only be picked for products tracked by IMEI");
+          }
+          continue;
+        }
+        const available = inStock.filter(
+          (unit) => unit.productId === line.productId && (!line.variantId || unit.variantId === line.variantId),
+        );
+        const picked = picks.map((id) => available.find((unit) => unit.id === id));
+        if (picked.some((unit) => !unit)) {
+          throw new DeviceUnitError("A picked unit is no longer in stock");
+        }
+        const units = [
+          ...(picked as DeviceUnit[]),
+          ...available.filter((unit) => !picks.includes(unit.id)),
+        ].slice(0, line.quantity);
+        if (units.length < line.quantity && !shortages.some((shortage) => shortage.productId === line.productId)) {
+          shortages.push({
+            productId: line.productId,
+            name: line.variantId ? line.name : (lockedById.get(line.productId)?.name ?? line.productId),
+            available: available.length,
+            requested: line.quantity,
+          });
+        }
+        claimed.set(key, units);
+      }
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+
+      // Each line records the units it sold
+      const withUnits = (items: OrderItem[]): OrderItem[] => {
+        const taken = new Map<string, number>();
+        return items.map((item) => {
+          const key = stockKey(item);
+          const units = claimed.get(key);
+          if (!units) return item;
+          const from = taken.get(key) ?? 0;
+          taken.set(key, from + item.quantity);
+          return {
+            ...item,
+            units: units
+              .slice(from, from + item.quantity)
+              .map(({ id, imei1, imei2, serialNumber }) => ({ id, imei1, imei2, serialNumber })),
+          };
+        });
+      };
+
+      const [order] = await tx
+        .insert(orders)
+        .values({ ...orderData, items: withUnits(orderData.items as OrderItem[]) })
+        .returning();
+      const subOrders =
+        subOrderData.length > 0
+          ? await tx
+              .insert(orders)
+              .values(
+                subOrderData.map((sub) => ({
+                  ...sub,
+                  items: withUnits(sub.items as OrderItem[]),
+                  parentOrderId: order.id,
+                })),
+              )
+              .returning()
+          : [];
+
+      // Claim a use of the promotion; the check and increment happen in one
+      // statement so concurrent orders cannot overrun the usage limit
+      if (redemption) {
+        const [claimed] = await tx
+          .update(promotions)
+          .set({ usageCount: sql`${promotions.usageCount} + 1` })
+          .where(
+            and(
+              eq(promotions.id, redemption.promotionId),
+              or(isNull(promotions.usageLimit), sql`${promotions.usageCount} < ${promotions.usageLimit}`),
+            ),
+          )
+          .returning({ id: promotions.id });
+        if (!claimed) {
+          throw new PromotionError("This code has reached its usage limit");
+        }
+        await tx.insert(promotionRedemptions).values({ ...redemption, orderId: order.id });
+      }
+
+      await tx.insert(orderStatusHistory).values(
+        [order, ...subOrders].map((placed) => ({
+          orderId: placed.id,
+          fromStatus: null,
+          toStatus: placed.status,
+          changedBy: placed.customerId,
+          changedByRole: "customer",
+          note: placed.isPosOrder ? "POS sale" : "Order placed",
+        })),
+      );
+
+      // Stock is logged against the order that sold it. A repair is billed once:
+      // its ticket must still be ready for pickup, and is collected by this order.
+      for (const sellerOrder of subOrders.length > 0 ? subOrders : [order]) {
+        for (const item of sellerOrder.items as OrderItem[]) {
+          if (item.repairTicketId) {
+            const [ticket] = await tx
+              .update(repairTickets)
+              .set({ status: "collected", orderId: sellerOrder.id, collectedAt: new Date(), updatedAt: new Date() })
+              .where(and(eq(repairTickets.id, item.repairTicketId), eq(repairTickets.status, "ready")))
+              .returning({ id: repairTickets.id });
+            if (!ticket) {
+              throw new RepairTicketError(`${item.name} is not ready for pickup`);
+            }
+            await tx.insert(repairTicketHistory).values({
+              ticketId: ticket.id,
+              fromStatus: "ready",
+              toStatus: "collected",
+              changedBy: sellerOrder.customerId,
+              note: `Billed on order #${sellerOrder.id.slice(-8)}`,
+            });
+            continue;
+          }
+          if (await applyStockChange(tx, item.productId, -item.quantity, "Sale", sellerOrder.id, undefined, item.variantId)) {
+            lowStock.add(item.productId);
+          }
+          if (item.units?.length) {
+            await tx
+              .update(deviceUnits)
+              .set({ status: "sold", orderId: sellerOrder.id, soldAt: new Date(), updatedAt: new Date() })
+              .where(inArray(deviceUnits.id, item.units.map((unit) => unit.id)));
+          }
+        }
+      }
+
+      return { order, subOrders };
+    });
+    await queueLowStockAlerts(Array.from(lowStock));
+    return placed;
+  }
+
+  async updateOrder(id: string, updates: Partial<Order>): Promise<Order> {
+    const [order] = await db
+      .update(orders)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(orders.id, id))
       .returning();
     return order;
   }
 
+  // Moves the order only if it is still in fromStatus, so two concurrent
+  // changes cannot both apply. Returns undefined when the status had moved on.
+  async updateOrderStatus(
+    id: string,
+    fromStatus: OrderStatus,
+    toStatus: OrderStatus,
+    changedBy: { userId: string | null; role: string },
+    note?: string,
+  ): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set({ status: toStatus, updatedAt: new Date() })
+        .where(and(eq(orders.id, id), eq(orders.status, fromStatus)))
+        .returning();
+      if (!order) {
+        return undefined;
+      }
+
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus,
+        toStatus,
+        changedBy: changedBy.userId,
+        changedByRole: changedBy.role,
+        note,
+      });
+      return order;
+    });
+  }
+
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    return await db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt));
+  }
+
+  // Put cancelled seller orders' items and units back in stock and, given the
+  // order a promotion code was redeemed on, give back that use of the code.
+  // All of it commits or rolls back together.
+  async releaseCancelledOrders(sellerOrders: Order[], reason: string, redemptionOrderId?: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const sellerOrder of sellerOrders) {
+        for (const item of sellerOrder.items as OrderItem[]) {
+          if (item.repairTicketId) continue;
+          await applyStockChange(tx, item.productId, item.quantity, `Order cancelled: ${reason}`, sellerOrder.id, undefined, item.variantId);
+        }
+        await tx
+          .update(deviceUnits)
+          .set({ status: "in_stock", orderId: null, soldAt: null, updatedAt: new Date() })
+          .where(eq(deviceUnits.orderId, sellerOrder.id));
+      }
+
+      if (redemptionOrderId) {
+        const released = await tx
+          .delete(promotionRedemptions)
+          .where(eq(promotionRedemptions.orderId, redemptionOrderId))
+          .returning({ promotionId: promotionRedemptions.promotionId });
+        for (const { promotionId } of released) {
+          await tx
+            .update(promotions)
+            .set({ usageCount: sql`GREATEST(${promotions.usageCount} - 1, 0)` })
+            .where(eq(promotions.id, promotionId));
+        }
+      }
+    });
+  }
+
+  // Promotion operations
+  async getPromotions(filters?: { sellerId?: string }): Promise<Promotion[]> {
+    return await db
+      .select()
+      .from(promotions)
+      .where(filters?.sellerId ? eq(promotions.sellerId, filters.sellerId) : undefined)
+      .orderBy(desc(promotions.createdAt));
+  }
+
+  async getPromotion(id: string): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.id, id));
+    return promotion;
+  }
+
+  async getPromotionByCode(code: string): Promise<Promotion | undefined> {
+    const [promotion] = await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.code, code.trim().toUpperCase()));
+    return promotion;
+  }
+
+  async createPromotion(
+    promotionData: InsertPromotion & { sellerId: string | null; createdBy: string },
+  ): Promise<Promotion> {
+    const [promotion] = await db
+      .insert(promotions)
+      .values({ ...promotionData, code: promotionData.code.toUpperCase() })
+      .returning();
+    return promotion;
+  }
+
+  async updatePromotion(id: string, updates: Partial<InsertPromotion>): Promise<Promotion> {
+    const [updated] = await db
+      .update(promotions)
+      .set({ ...updates, ...(updates.code ? { code: updates.code.toUpperCase() } : {}), updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async countPromotionRedemptions(promotionId: string, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(promotionRedemptions)
+      .where(and(eq(promotionRedemptions.promotionId, promotionId), eq(promotionRedemptions.userId, userId)));
+    return result.count;
+  }
+
+  // Tax rate operations
+  async getTaxRates(): Promise<TaxRate[]> {
+    // Full history, newest first; the tax module picks the rate in force
+    return await db
+      .select()
+      .from(taxRates)
+      .orderBy(desc(taxRates.effectiveFrom));
+  }
+
+  async getTaxRate(id: string): Promise<TaxRate | undefined> {
+    const [taxRate] = await db.select().from(taxRates).where(eq(taxRates.id, id));
+    return taxRate;
+  }
+
+  async createTaxRate(taxRateData: InsertTaxRate & { createdBy: string }): Promise<TaxRate> {
+    const [taxRate] = await db.insert(taxRates).values(taxRateData).returning();
+    return taxRate;
+  }
+
+  async deleteTaxRate(id: string): Promise<void> {
+    await db.delete(taxRates).where(eq(taxRates.id, id));
+  }
+
+  // Commission operations
+  async getCommissionRates(): Promise<CommissionRate[]> {
+    return await db
+      .select()
+      .from(commissionRates)
+      .orderBy(asc(commissionRates.sellerId), asc(commissionRates.category));
+  }
+
+  async getCommissionRate(id: string): Promise<CommissionRate | undefined> {
+    const [rate] = await db.select().from(commissionRates).where(eq(commissionRates.id, id));
+    return rate;
+  }
+
+  // One rate per seller/category pair: update it if it exists, otherwise add it
+  async setCommissionRate(rateData: InsertCommissionRate): Promise<CommissionRate> {
+    const sellerId = rateData.sellerId ?? null;
+    const category = rateData.category ?? null;
+    const [existing] = await db
+      .select()
+      .from(commissionRates)
+      .where(and(
+        sellerId ? eq(commissionRates.sellerId, sellerId) : isNull(commissionRates.sellerId),
+        category
+          ? sql`LOWER(${commissionRates.category}) = ${category.toLowerCase()}`
+          : isNull(commissionRates.category),
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(commissionRates)
+        .set({ rate: rateData.rate, updatedAt: new Date() })
+        .where(eq(commissionRates.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db
+      .insert(commissionRates)
+      .values({ sellerId, category, rate: rateData.rate })
+      .returning();
+    return created;
+  }
+
+  async deleteCommissionRate(id: string): Promise<void> {
+    await db.delete(commissionRates).where(eq(commissionRates.id, id));
+  }
+
+  // Ledger operations
+  async postLedgerTransaction(postings: LedgerPosting[]): Promise<LedgerEntry[]> {
+    return await insertLedgerTransaction(db, postings);
+  }
+
+  async getLedgerEntries(filters: { sellerId?: string; orderId?: string; account?: LedgerAccount }): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(and(
+        filters.sellerId ? eq(ledgerEntries.sellerId, filters.sellerId) : undefined,
+        filters.orderId ? eq(ledgerEntries.orderId, filters.orderId) : undefined,
+        filters.account ? eq(ledgerEntries.account, filters.account) : undefined,
+      ))
+      .orderBy(asc(ledgerEntries.createdAt));
+  }
+
+  async getSellerBalances(sellerId?: string): Promise<SellerBalance[]> {
+    return await selectSellerBalances(db, sellerId);
+  }
+
+  // Payout operations
+  // Batch every seller balance of at least minimumAmount. Each payout moves the
+  // balance into payouts_in_transit, so the same money can't be batched twice.
+  async createPayoutBatch(createdBy: string, minimumAmount: number): Promise<PayoutBatch | undefined> {
+    return await db.transaction(async (tx) => {
+      // Serialise batch creation; balances are read and drained in one go
+      await tx.execute(sql`LOCK TABLE payouts IN SHARE ROW EXCLUSIVE MODE`);
+
+      const payable = (await selectSellerBalances(tx)).filter(
+        (seller) => seller.balance > 0 && seller.balance >= minimumAmount,
+      );
+      if (payable.length === 0) {
+        return undefined;
+      }
+
+      const total = payable.reduce((sum, seller) => sum + seller.balance, 0);
+      const [batch] = await tx
+        .insert(payoutBatches)
+        .values({ total: total.toFixed(2), createdBy })
+        .returning();
+
+      for (const seller of payable) {
+        const amount = seller.balance.toFixed(2);
+        const [payout] = await tx
+          .insert(payouts)
+          .values({ batchId: batch.id, sellerId: seller.sellerId, amount })
+          .returning();
+        const description = `Payout batch #${batch.id.slice(-8)}`;
+        await insertLedgerTransaction(tx, [
+          { type: "payout", account: "seller_payable", sellerId: seller.sellerId, payoutId: payout.id, debit: amount, description, createdBy },
+          { type: "payout", account: "payouts_in_transit", sellerId: seller.sellerId, payoutId: payout.id, credit: amount, description, createdBy },
+        ]);
+      }
+      return batch;
+    });
+  }
+
+  async getPayoutBatches(): Promise<PayoutBatch[]> {
+    return await db.select().from(payoutBatches).orderBy(desc(payoutBatches.createdAt));
+  }
+
+  async getPayoutBatch(id: string): Promise<PayoutBatch | undefined> {
+    const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, id));
+    return batch;
+  }
+
+  async getPayouts(filters: { batchId?: string; sellerId?: string }): Promise<PayoutLine[]> {
+    const rows = await db
+      .select({
+        payout: payouts,
+        businessName: sellers.businessName,
+        payoutIban: sellers.payoutIban,
+        payoutAccountName: sellers.payoutAccountName,
+        status: payoutBatches.status,
+        reference: payoutBatches.reference,
+        paidAt: payoutBatches.paidAt,
+      })
+      .from(payouts)
+      .innerJoin(sellers, eq(payouts.sellerId, sellers.id))
+      .innerJoin(payoutBatches, eq(payouts.batchId, payoutBatches.id))
+      .where(and(
+        filters.batchId ? eq(payouts.batchId, filters.batchId) : undefined,
+        filters.sellerId ? eq(payouts.sellerId, filters.sellerId) : undefined,
+      ))
+      .orderBy(desc(payouts.createdAt), asc(sellers.businessName));
+    return rows.map(({ payout, ...details }) => ({ ...payout, ...details }));
+  }
+
+  // Settle a pending batch: the money leaves the platform's clearing account
+  async markPayoutBatchPaid(id: string, reference: string): Promise<PayoutBatch | undefined> {
+    return await db.transaction(async (tx) => {
+      const [batch] = await tx
+        .update(payoutBatches)
+        .set({ status: "paid", reference, paidAt: new Date() })
+        .where(and(eq(payoutBatches.id, id), eq(payoutBatches.status, "pending")))
+        .returning();
+      if (!batch) {
+        return undefined;
+      }
+
+      const batchPayouts = await tx.select().from(payouts).where(eq(payouts.batchId, id));
+      for (const payout of batchPayouts) {
+        const description = `Payout batch #${id.slice(-8)} paid (${reference})`;
+        await insertLedgerTransaction(tx, [
+          { type: "payout", account: "payouts_in_transit", sellerId: payout.sellerId, payoutId: payout.id, debit: payout.amount, description },
+          { type: "payout", account: "clearing", sellerId: payout.sellerId, payoutId: payout.id, credit: payout.amount, description },
+        ]);
+      }
+      return batch;
+    });
+  }
+
+  // Shipment operations
+  async getShipment(id: string): Promise<Shipment | undefined> {
+    const [shipment] = await db.select().from(shipments).where(eq(shipments.id, id));
+    return shipment;
+  }
+
+  async getShipmentsByOrderIds(orderIds: string[]): Promise<Shipment[]> {
+    if (orderIds.length === 0) return [];
+    return await db
+      .select()
+      .from(shipments)
+      .where(inArray(shipments.orderId, orderIds))
+      .orderBy(asc(shipments.createdAt));
+  }
+
+  async getOpenShipments(): Promise<Shipment[]> {
+    return await db.select().from(shipments).where(ne(shipments.status, "delivered"));
+  }
+
+  async createShipment(shipmentData: InsertShipment): Promise<Shipment> {
+    const [shipment] = await db.insert(shipments).values(shipmentData).returning();
+    return shipment;
+  }
+
+  async updateShipment(id: string, updates: Partial<Shipment>): Promise<Shipment> {
+    const [shipment] = await db
+      .update(shipments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shipments.id, id))
+      .returning();
+    return shipment;
+  }
+
+  async getShipmentEvents(shipmentId: string): Promise<ShipmentEvent[]> {
+    return await db
+      .select()
+      .from(shipmentEvents)
+      .where(eq(shipmentEvents.shipmentId, shipmentId))
+      .orderBy(asc(shipmentEvents.occurredAt));
+  }
+
+  async addShipmentEvent(event: InsertShipmentEvent): Promise<ShipmentEvent> {
+    const [result] = await db.insert(shipmentEvents).values(event).returning();
+    return result;
+  }
+
   // Payment operations
   async getPayment(id: string): Promise<Payment | undefined> {
     const [payment] = await db.select().from(payments).where(eq(payments.id, id));
@@ -704,8 +2198,17 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(payments).where(eq(payments.orderId, orderId));
   }
 
-  async getAllPayments(): Promise<Payment[]> {
-    return await db.select().from(payments).orderBy(desc(payments.createdAt));
+  async listPayments(page: PageQuery<(typeof paymentSortFields)[number]>): Promise<Page<Payment>> {
+    const sortColumn = { createdAt: payments.createdAt, amount: payments.amount, status: payments.status }[page.sort];
+    const rows = await db
+      .select()
+      .from(payments)
+      .where(afterCursor(payments, sortColumn, payments.id, page))
+      .orderBy(...pageOrder(sortColumn, payments.id, page))
+      .limit(page.limit + 1)
+      .offset(page.cursor ? 0 : page.offset);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(payments);
+    return toPage(rows, page, count);
   }
 
   async createPayment(paymentData: InsertPayment): Promise<Payment> {
@@ -793,6 +2296,454 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // Take back points credited earlier (e.g. for a refunded order). Points the
+  // customer already spent cannot be recovered, so the debit stops at zero.
+  async debitLoyaltyPoints(
+    userId: string,
+    points: number,
+    description = "Points reversed",
+  ): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .select({ loyaltyPoints: users.loyaltyPoints })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for("update");
+      const debited = Math.min(points, user?.loyaltyPoints ?? 0);
+      if (debited <= 0) {
+        return 0;
+      }
+
+      await tx
+        .update(users)
+        .set({
+          loyaltyPoints: sql`${users.loyaltyPoints} - ${debited}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+
+      await tx.insert(loyaltyTransactions).values({
+        userId,
+        points: -debited,
+        type: "reversal",
+        description,
+      });
+      return debited;
+    });
+  }
+
+  // Store credit operations
+  async getStoreCreditBalance(userId: string): Promise<number> {
+    const [user] = await db
+      .select({ storeCredit: users.storeCredit })
+      .from(users)
+      .where(eq(users.id, userId));
+    return user ? parseFloat(user.storeCredit) : 0;
+  }
+
+  async getStoreCreditTransactions(userId: string): Promise<StoreCreditTransaction[]> {
+    return await db
+      .select()
+      .from(storeCreditTransactions)
+      .where(eq(storeCreditTransactions.userId, userId))
+      .orderBy(desc(storeCreditTransactions.createdAt));
+  }
+
+  async creditStoreCredit(userId: string, amount: number, entry: StoreCreditEntry): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ storeCredit: sql`${users.storeCredit} + ${amount.toFixed(2)}`, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      await tx.insert(storeCreditTransactions).values({ ...entry, userId, amount: amount.toFixed(2) });
+    });
+  }
+
+  // The balance check and the debit are one statement, so concurrent payments
+  // cannot overspend. Returns false when the balance does not cover the amount.
+  async spendStoreCredit(userId: string, amount: number, entry: StoreCreditEntry): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [spent] = await tx
+        .update(users)
+        .set({ storeCredit: sql`${users.storeCredit} - ${amount.toFixed(2)}`, updatedAt: new Date() })
+        .where(and(eq(users.id, userId), sql`${users.storeCredit} >= ${amount.toFixed(2)}`))
+        .returning({ id: users.id });
+      if (!spent) {
+        return false;
+      }
+      await tx.insert(storeCreditTransactions).values({ ...entry, userId, amount: (-amount).toFixed(2) });
+      return true;
+    });
+  }
+
+  // Trade-in operations
+  async getTradeInPrices(filters?: { sellerId?: string; brand?: string; model?: string }): Promise<TradeInPrice[]> {
+    const conditions = [];
+    if (filters?.sellerId) {
+      conditions.push(eq(tradeInPrices.sellerId, filters.sellerId));
+    }
+    if (filters?.brand) {
+      conditions.push(sql`LOWER(${tradeInPrices.brand}) = ${filters.brand.trim().toLowerCase()}`);
+    }
+    if (filters?.model) {
+      conditions.push(sql`LOWER(${tradeInPrices.model}) = ${filters.model.trim().toLowerCase()}`);
+    }
+    return await db
+      .select()
+      .from(tradeInPrices)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(tradeInPrices.brand), asc(tradeInPrices.model), asc(tradeInPrices.storage), asc(tradeInPrices.condition));
+  }
+
+  async getTradeInPrice(id: string): Promise<TradeInPrice | undefined> {
+    const [price] = await db.select().from(tradeInPrices).where(eq(tradeInPrices.id, id));
+    return price;
+  }
+
+  // One price per model, storage and condition: setting it again replaces it
+  async setTradeInPrice(sellerId: string, priceData: InsertTradeInPrice): Promise<TradeInPrice> {
+    const storage = priceData.storage ?? null;
+    const [existing] = await db
+      .select()
+      .from(tradeInPrices)
+      .where(and(
+        eq(tradeInPrices.sellerId, sellerId),
+        sql`LOWER(${tradeInPrices.brand}) = ${priceData.brand.toLowerCase()}`,
+        sql`LOWER(${tradeInPrices.model}) = ${priceData.model.toLowerCase()}`,
+        storage ? sql`LOWER(${tradeInPrices.storage}) = ${storage.toLowerCase()}` : isNull(tradeInPrices.storage),
+        eq(tradeInPrices.condition, priceData.condition),
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(tradeInPrices)
+        .set({ price: priceData.price, updatedAt: new Date() })
+        .where(eq(tradeInPrices.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db
+      .insert(tradeInPrices)
+      .values({ ...priceData, storage, sellerId })
+      .returning();
+    return created;
+  }
+
+  async deleteTradeInPrice(id: string): Promise<void> {
+    await db.delete(tradeInPrices).where(eq(tradeInPrices.id, id));
+  }
+
+  async getTradeIns(filters?: { customerId?: string; sellerId?: string; status?: TradeIn["status"] }): Promise<TradeIn[]> {
+    const conditions = [];
+    if (filters?.customerId) {
+      conditions.push(eq(tradeIns.customerId, filters.customerId));
+    }
+    if (filters?.sellerId) {
+      conditions.push(eq(tradeIns.sellerId, filters.sellerId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(tradeIns.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(tradeIns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(tradeIns.createdAt));
+  }
+
+  async getTradeIn(id: string): Promise<TradeIn | undefined> {
+    const [tradeIn] = await db.select().from(tradeIns).where(eq(tradeIns.id, id));
+    return tradeIn;
+  }
+
+  async createTradeIn(tradeInData: typeof tradeIns.$inferInsert): Promise<TradeIn> {
+    const [tradeIn] = await db.insert(tradeIns).values(tradeInData).returning();
+    return tradeIn;
+  }
+
+  async updateTradeIn(id: string, updates: Partial<TradeIn>): Promise<TradeIn> {
+    const [tradeIn] = await db
+      .update(tradeIns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tradeIns.id, id))
+      .returning();
+    return tradeIn;
+  }
+
+  // Close a trade-in that is still awaiting inspection. Returns undefined when
+  // it was already accepted, rejected or cancelled, so it is only settled once.
+  async resolveTradeIn(
+    id: string,
+    updates: Partial<TradeIn> & { status: TradeIn["status"] },
+  ): Promise<TradeIn | undefined> {
+    const [tradeIn] = await db
+      .update(tradeIns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(tradeIns.id, id), eq(tradeIns.status, "submitted")))
+      .returning();
+    return tradeIn;
+  }
+
+  // Repair ticket operations
+  async getRepairTickets(filters?: {
+    sellerId?: string;
+    customerId?: string;
+    status?: RepairTicket["status"];
+  }): Promise<RepairTicket[]> {
+    const conditions = [];
+    if (filters?.sellerId) {
+      conditions.push(eq(repairTickets.sellerId, filters.sellerId));
+    }
+    if (filters?.customerId) {
+      conditions.push(eq(repairTickets.customerId, filters.customerId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(repairTickets.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(repairTickets)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(repairTickets.createdAt));
+  }
+
+  async getRepairTicket(id: string): Promise<RepairTicket | undefined> {
+    const [ticket] = await db.select().from(repairTickets).where(eq(repairTickets.id, id));
+    return ticket;
+  }
+
+  async createRepairTicket(ticketData: typeof repairTickets.$inferInsert): Promise<RepairTicket> {
+    return await db.transaction(async (tx) => {
+      const [ticket] = await tx.insert(repairTickets).values(ticketData).returning();
+      await tx.insert(repairTicketHistory).values({
+        ticketId: ticket.id,
+        fromStatus: null,
+        toStatus: ticket.status,
+        changedBy: ticket.receivedBy,
+        note: "Device received",
+      });
+      return ticket;
+    });
+  }
+
+  // Move a ticket on only if it is still in fromStatus, so two people updating
+  // the same ticket cannot both succeed. Returns undefined when it has moved on.
+  async transitionRepairTicket(
+    id: string,
+    fromStatus: RepairTicket["status"],
+    toStatus: RepairTicket["status"],
+    changedBy: string | null,
+    updates: Partial<RepairTicket> = {},
+    note?: string,
+  ): Promise<RepairTicket | undefined> {
+    return await db.transaction(async (tx) => {
+      const [ticket] = await tx
+        .update(repairTickets)
+        .set({ ...updates, status: toStatus, updatedAt: new Date() })
+        .where(and(eq(repairTickets.id, id), eq(repairTickets.status, fromStatus)))
+        .returning();
+      if (!ticket) {
+        return undefined;
+      }
+      await tx.insert(repairTicketHistory).values({ ticketId: id, fromStatus, toStatus, changedBy, note });
+      return ticket;
+    });
+  }
+
+  async getRepairTicketHistory(ticketId: string): Promise<RepairTicketHistory[]> {
+    return await db
+      .select()
+      .from(repairTicketHistory)
+      .where(eq(repairTicketHistory.ticketId, ticketId))
+      .orderBy(asc(repairTicketHistory.createdAt));
+  }
+
+  async getRepairParts(ticketId: string): Promise<RepairPart[]> {
+    return await db
+      .select()
+      .from(repairParts)
+      .where(eq(repairParts.ticketId, ticketId))
+      .orderBy(asc(repairParts.createdAt));
+  }
+
+  async getRepairPart(id: string): Promise<RepairPart | undefined> {
+    const [part] = await db.select().from(repairParts).where(eq(repairParts.id, id));
+    return part;
+  }
+
+  async addRepairPart(partData: typeof repairParts.$inferInsert): Promise<RepairPart> {
+    const [part] = await db.insert(repairParts).values(partData).returning();
+    return part;
+  }
+
+  async deleteRepairPart(id: string): Promise<void> {
+    await db.delete(repairParts).where(eq(repairParts.id, id));
+  }
+
+  // Warranty operations
+  async getWarranties(filters?: {
+    orderId?: string;
+    customerId?: string;
+    sellerId?: string;
+    imei?: string;
+  }): Promise<Warranty[]> {
+    const conditions = [];
+    if (filters?.orderId) {
+      conditions.push(eq(warranties.orderId, filters.orderId));
+    }
+    if (filters?.customerId) {
+      conditions.push(eq(warranties.customerId, filters.customerId));
+    }
+    if (filters?.sellerId) {
+      conditions.push(eq(warranties.sellerId, filters.sellerId));
+    }
+    if (filters?.imei) {
+      conditions.push(eq(warranties.imei, filters.imei));
+    }
+    return await db
+      .select()
+      .from(warranties)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(warranties.startsAt));
+  }
+
+  async getWarranty(id: string): Promise<Warranty | undefined> {
+    const [warranty] = await db.select().from(warranties).where(eq(warranties.id, id));
+    return warranty;
+  }
+
+  async createWarranties(rows: InsertWarranty[]): Promise<Warranty[]> {
+    if (rows.length === 0) return [];
+    return await db.insert(warranties).values(rows).returning();
+  }
+
+  async updateWarranty(id: string, updates: Partial<Warranty>): Promise<Warranty> {
+    const [warranty] = await db.update(warranties).set(updates).where(eq(warranties.id, id)).returning();
+    return warranty;
+  }
+
+  async getWarrantyClaims(filters?: {
+    customerId?: string;
+    sellerId?: string;
+    warrantyId?: string;
+    status?: WarrantyClaim["status"];
+  }): Promise<WarrantyClaim[]> {
+    const conditions = [];
+    if (filters?.customerId) {
+      conditions.push(eq(warrantyClaims.customerId, filters.customerId));
+    }
+    if (filters?.sellerId) {
+      conditions.push(eq(warrantyClaims.sellerId, filters.sellerId));
+    }
+    if (filters?.warrantyId) {
+      conditions.push(eq(warrantyClaims.warrantyId, filters.warrantyId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(warrantyClaims.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(warrantyClaims)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(warrantyClaims.createdAt));
+  }
+
+  async getWarrantyClaim(id: string): Promise<WarrantyClaim | undefined> {
+    const [claim] = await db.select().from(warrantyClaims).where(eq(warrantyClaims.id, id));
+    return claim;
+  }
+
+  async createWarrantyClaim(claimData: typeof warrantyClaims.$inferInsert): Promise<WarrantyClaim> {
+    const [claim] = await db.insert(warrantyClaims).values(claimData).returning();
+    return claim;
+  }
+
+  async updateWarrantyClaim(id: string, updates: Partial<WarrantyClaim>): Promise<WarrantyClaim> {
+    const [claim] = await db
+      .update(warrantyClaims)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(warrantyClaims.id, id))
+      .returning();
+    return claim;
+  }
+
+  // Close a claim that is still open. Returns undefined when it was already
+  // resolved or rejected, so an outcome is only carried out once.
+  async resolveWarrantyClaim(
+    id: string,
+    updates: Partial<WarrantyClaim> & { status: WarrantyClaim["status"] },
+  ): Promise<WarrantyClaim | undefined> {
+    const [claim] = await db
+      .update(warrantyClaims)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(warrantyClaims.id, id), eq(warrantyClaims.status, "submitted")))
+      .returning();
+    return claim;
+  }
+
+  // Return request operations
+  async getReturnRequest(id: string): Promise<ReturnRequest | undefined> {
+    const [returnRequest] = await db.select().from(returnRequests).where(eq(returnRequests.id, id));
+    return returnRequest;
+  }
+
+  async getReturnRequests(filters?: {
+    customerId?: string;
+    sellerId?: string;
+    orderId?: string;
+    status?: string;
+  }): Promise<ReturnRequest[]> {
+    const conditions = [];
+    if (filters?.customerId) {
+      conditions.push(eq(returnRequests.customerId, filters.customerId));
+    }
+    if (filters?.sellerId) {
+      conditions.push(eq(returnRequests.sellerId, filters.sellerId));
+    }
+    if (filters?.orderId) {
+      conditions.push(eq(returnRequests.orderId, filters.orderId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(returnRequests.status, filters.status as any));
+    }
+
+    return await db
+      .select()
+      .from(returnRequests)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(returnRequests.createdAt));
+  }
+
+  async createReturnRequest(returnData: InsertReturnRequest): Promise<ReturnRequest> {
+    const [returnRequest] = await db.insert(returnRequests).values(returnData).returning();
+    return returnRequest;
+  }
+
+  async updateReturnRequest(id: string, updates: Partial<ReturnRequest>): Promise<ReturnRequest> {
+    const [returnRequest] = await db
+      .update(returnRequests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(returnRequests.id, id))
+      .returning();
+    return returnRequest;
+  }
+
+  // Move a return on only while it still has one of the given statuses.
+  // Returns undefined when another request moved it first, so an outcome is
+  // only carried out once.
+  async transitionReturnRequest(
+    id: string,
+    fromStatuses: ReturnRequest["status"][],
+    updates: Partial<ReturnRequest> & { status: ReturnRequest["status"] },
+  ): Promise<ReturnRequest | undefined> {
+    const [returnRequest] = await db
+      .update(returnRequests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(returnRequests.id, id), inArray(returnRequests.status, fromStatuses)))
+      .returning();
+    return returnRequest;
+  }
+
   // Analytics
   async getSellerStats(sellerId: string): Promise<{
     totalSales: string;
@@ -865,7 +2816,7 @@ export class DatabaseStorage implements IStorage {
         totalRevenue: sql<string>`COALESCE(SUM(${orders.total}), 0)`,
       })
       .from(orders)
-      .where(eq(orders.status, "delivered"));
+      .where(and(eq(orders.status, "delivered"), isNotParentOrder));
 
     const [sellersResult] = await db
       .select({
@@ -878,7 +2829,8 @@ export class DatabaseStorage implements IStorage {
       .select({
         totalOrders: sql<number>`COUNT(*)`,
       })
-      .from(orders);
+      .from(orders)
+      .where(isNotParentOrder);
 
     const [approvalsResult] = await db
       .select({
@@ -931,7 +2883,11 @@ export class DatabaseStorage implements IStorage {
       return d;
     })();
 
-    const conditions = [sql`o.created_at >= ${start}`, sql`o.created_at <= ${end}`];
+    const conditions = [
+      sql`o.created_at >= ${start}`,
+      sql`o.created_at <= ${end}`,
+      sql`NOT EXISTS (SELECT 1 FROM orders so WHERE so.parent_order_id = o.id)`,
+    ];
     if (sellerId) conditions.push(sql`o.seller_id = ${sellerId}`);
     if (productId)
       conditions.push(
@@ -1007,7 +2963,11 @@ export class DatabaseStorage implements IStorage {
       return d;
     })();
 
-    const conditions = [sql`o.created_at >= ${start}`, sql`o.created_at <= ${end}`];
+    const conditions = [
+      sql`o.created_at >= ${start}`,
+      sql`o.created_at <= ${end}`,
+      sql`NOT EXISTS (SELECT 1 FROM orders so WHERE so.parent_order_id = o.id)`,
+    ];
     if (sellerId) conditions.push(sql`o.seller_id = ${sellerId}`);
     if (productId) conditions.push(sql`p.id = ${productId}`);
     const whereClause = sql`WHERE ${sql.join(conditions, sql` AND `)}`;
@@ -1044,29 +3004,56 @@ export class DatabaseStorage implements IStorage {
     relatedId?: string;
     metadata?: any;
     sellerId?: string;
+    userId?: string;
   }): Promise<any> {
     const [result] = await db.insert(notifications).values(notification).returning();
+
+    // Shown at once to whoever is online, in their Socket.IO room
+    let rooms = [ADMIN_ROOM];
+    if (result.userId) {
+      rooms = [result.userId];
+    } else if (result.sellerId) {
+      const [seller] = await db.select({ userId: sellers.userId }).from(sellers).where(eq(sellers.id, result.sellerId));
+      rooms = seller ? [seller.userId] : [];
+    }
+    pushNotification(rooms, result);
+
+    // Email and SMS copies go out from the job worker (server/notifications).
+    // The in-app notification stands even if they cannot be queued.
+    try {
+      await enqueueJob("dispatch-notification", { notificationId: result.id });
+    } catch (error) {
+      console.error("Queue notification delivery error:", error);
+    }
     return result;
   }
 
-  async getNotifications(limit = 50): Promise<any[]> {
-    const result = await db
-      .select()
-      .from(notifications)
-      .where(sql`seller_id IS NULL`) // Admin notifications
-      .orderBy(desc(notifications.createdAt))
-      .limit(limit);
-    return result;
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
   }
 
-  async getSellerNotifications(sellerId: string, limit = 50): Promise<any[]> {
-    const result = await db
-      .select()
+  async listAdminNotifications(page: PageQuery<(typeof notificationSortFields)[number]>): Promise<Page<Notification>> {
+    return await listNotifications(and(isNull(notifications.sellerId), isNull(notifications.userId))!, page);
+  }
+
+  async listSellerNotifications(sellerId: string, page: PageQuery<(typeof notificationSortFields)[number]>): Promise<Page<Notification>> {
+    return await listNotifications(eq(notifications.sellerId, sellerId), page);
+  }
+
+  async listUserNotifications(
+    audience: NotificationAudience,
+    page: PageQuery<(typeof notificationSortFields)[number]>,
+  ): Promise<Page<Notification>> {
+    return await listNotifications(userNotificationsWhere(audience), page);
+  }
+
+  async countUnreadUserNotifications(audience: NotificationAudience): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
       .from(notifications)
-      .where(eq(notifications.sellerId, sellerId))
-      .orderBy(desc(notifications.createdAt))
-      .limit(limit);
-    return result;
+      .where(and(userNotificationsWhere(audience), eq(notifications.isRead, false)));
+    return count;
   }
 
   async markNotificationRead(id: string): Promise<void> {
@@ -1076,6 +3063,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(notifications.id, id));
   }
 
+  // Only marks the notification if it was sent to the user; returns whether it was
+  async markUserNotificationRead(id: string, audience: NotificationAudience): Promise<boolean> {
+    const updated = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.id, id), userNotificationsWhere(audience)))
+      .returning({ id: notifications.id });
+    return updated.length > 0;
+  }
+
+  async markAllUserNotificationsRead(audience: NotificationAudience): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(userNotificationsWhere(audience), eq(notifications.isRead, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
   // Admin settings operations
   async getAdminSetting(key: string): Promise<string | undefined> {
     const [result] = await db
@@ -1095,6 +3101,94 @@ export class DatabaseStorage implements IStorage {
       });
   }
 
+  // Job operations
+  // Returns undefined when a job with the same dedupeKey was already queued
+  async createJob(job: InsertJob): Promise<Job | undefined> {
+    const [created] = await db
+      .insert(jobs)
+      .values(job)
+      .onConflictDoNothing({ target: jobs.dedupeKey })
+      .returning();
+    return created;
+  }
+
+  // Lock the next due job for one worker, or a running job whose worker stopped
+  // before finishing it. Other workers skip the locked row.
+  async claimJob(staleBefore: Date): Promise<Job | undefined> {
+    return await db.transaction(async (tx) => {
+      const [job] = await tx
+        .select()
+        .from(jobs)
+        .where(
+          or(
+            and(eq(jobs.status, "queued"), lte(jobs.runAt, new Date())),
+            and(eq(jobs.status, "running"), lt(jobs.lockedAt, staleBefore)),
+          ),
+        )
+        .orderBy(asc(jobs.runAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!job) return undefined;
+
+      const [claimed] = await tx
+        .update(jobs)
+        .set({ status: "running", lockedAt: new Date(), attempts: job.attempts + 1 })
+        .where(eq(jobs.id, job.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job> {
+    const [job] = await db.update(jobs).set(updates).where(eq(jobs.id, id)).returning();
+    return job;
+  }
+
+  async getJobs(status: JobStatus | undefined, limit: number): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(status ? eq(jobs.status, status) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit);
+  }
+
+  async getJobCounts(): Promise<Record<JobStatus, number>> {
+    const rows = await db
+      .select({ status: jobs.status, count: sql<number>`count(*)::int` })
+      .from(jobs)
+      .groupBy(jobs.status);
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0 };
+    for (const row of rows) counts[row.status] = row.count;
+    return counts;
+  }
+
+  async deleteCompletedJobs(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobs)
+      .where(and(eq(jobs.status, "completed"), lt(jobs.completedAt, before)))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+
+  async createDeadLetterJob(entry: InsertDeadLetterJob): Promise<DeadLetterJob> {
+    const [created] = await db.insert(deadLetterJobs).values(entry).returning();
+    return created;
+  }
+
+  async getDeadLetterJobs(limit: number): Promise<DeadLetterJob[]> {
+    return await db.select().from(deadLetterJobs).orderBy(desc(deadLetterJobs.failedAt)).limit(limit);
+  }
+
+  async getDeadLetterJob(id: string): Promise<DeadLetterJob | undefined> {
+    const [entry] = await db.select().from(deadLetterJobs).where(eq(deadLetterJobs.id, id));
+    return entry;
+  }
+
+  async deleteDeadLetterJob(id: string): Promise<void> {
+    await db.delete(deadLetterJobs).where(eq(deadLetterJobs.id, id));
+  }
+
   // Product approval operations
   async getPendingProducts(): Promise<Product[]> {
     const result = await db
@@ -1156,6 +3250,11 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getReview(id: string): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
   async getProductReviews(productId: string): Promise<Review[]> {
     return await db
       .select()
@@ -1199,39 +3298,136 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(inventoryLogs.createdAt));
   }
 
-  async updateProductStock(productId: string, quantityChange: number, reason: string, orderId?: string): Promise<void> {
-    // Get current product stock
-    const [product] = await db
-      .select({ stock: products.stock })
-      .from(products)
-      .where(eq(products.id, productId));
-    
-    if (!product) throw new Error("Product not found");
-    
-    const previousQuantity = product.stock;
-    const newQuantity = previousQuantity + quantityChange;
-    
-    // Update product stock
-    await db
-      .update(products)
-      .set({ 
-        stock: newQuantity,
-        updatedAt: new Date()
+  // Units that left through orders since the date, per product, net of stock
+  // put back by cancellations and returns on those orders
+  async getSellerUnitsSold(sellerId: string, since: Date): Promise<{ productId: string; unitsSold: number }[]> {
+    return await db
+      .select({
+        productId: inventoryLogs.productId,
+        unitsSold: sql<number>`(-SUM(${inventoryLogs.quantityChange}))::int`,
       })
-      .where(eq(products.id, productId));
-    
-    // Log the inventory change
-    await this.logInventoryChange({
-      productId,
-      changeType: quantityChange > 0 ? 'restock' : 'sale',
-      quantityChange,
-      previousQuantity,
-      newQuantity,
-      reason,
-      orderId
+      .from(inventoryLogs)
+      .innerJoin(products, eq(products.id, inventoryLogs.productId))
+      .where(and(eq(products.sellerId, sellerId), isNotNull(inventoryLogs.orderId), gte(inventoryLogs.createdAt, since)))
+      .groupBy(inventoryLogs.productId);
+  }
+
+  async updateProductStock(
+    productId: string,
+    quantityChange: number,
+    reason: string,
+    orderId?: string,
+    changeType?: string,
+    variantId?: string,
+  ): Promise<void> {
+    const crossed = await db.transaction(async (tx) => {
+      return await applyStockChange(tx, productId, quantityChange, reason, orderId, changeType, variantId);
+    });
+    if (crossed) {
+      await queueLowStockAlerts([productId]);
+    }
+  }
+
+  // Device unit operations
+  async getDeviceUnits(productId: string, status?: DeviceUnit["status"]): Promise<DeviceUnit[]> {
+    const conditions = [eq(deviceUnits.productId, productId)];
+    if (status) {
+      conditions.push(eq(deviceUnits.status, status));
+    }
+    return await db
+      .select()
+      .from(deviceUnits)
+      .where(and(...conditions))
+      .orderBy(asc(deviceUnits.createdAt));
+  }
+
+  async getDeviceUnit(id: string): Promise<DeviceUnit | undefined> {
+    const [unit] = await db.select().from(deviceUnits).where(eq(deviceUnits.id, id));
+    return unit;
+  }
+
+  // Matches either IMEI or the serial number, ignoring spacing and case
+  async findDeviceUnit(identifier: string): Promise<DeviceUnit | undefined> {
+    const imei = identifier.replace(/[\s-]/g, "");
+    const [unit] = await db
+      .select()
+      .from(deviceUnits)
+      .where(
+        or(
+          eq(deviceUnits.imei1, imei),
+          eq(deviceUnits.imei2, imei),
+          sql`UPPER(${deviceUnits.serialNumber}) = ${identifier.trim().toUpperCase()}`,
+        ),
+      )
+      .limit(1);
+    return unit;
+  }
+
+  // New units go into stock along with the product's (or their variant's) stock count
+  async addDeviceUnits(productId: string, units: InsertDeviceUnit[]): Promise<DeviceUnit[]> {
+    return await db.transaction(async (tx) => {
+      const byVariant = new Map<string | undefined, number>();
+      for (const unit of units) {
+        const variantId = unit.variantId ?? undefined;
+        byVariant.set(variantId, (byVariant.get(variantId) ?? 0) + 1);
+      }
+      for (const [variantId, count] of Array.from(byVariant.entries())) {
+        await applyStockChange(tx, productId, count, "Serialized units added", undefined, "restock", variantId);
+      }
+      return await tx
+        .insert(deviceUnits)
+        .values(units.map((unit) => ({ ...unit, productId })))
+        .returning();
     });
   }
 
+  // Only units still in stock can be removed; sold units stay for the order's record
+  async deleteDeviceUnit(id: string): Promise<boolean> {
+    const removed = await db.transaction(async (tx) => {
+      const [unit] = await tx
+        .delete(deviceUnits)
+        .where(and(eq(deviceUnits.id, id), eq(deviceUnits.status, "in_stock")))
+        .returning();
+      if (!unit) {
+        return null;
+      }
+      const crossed = await applyStockChange(tx, unit.productId, -1, `Unit ${unit.imei1} removed`, undefined, "adjustment", unit.variantId ?? undefined);
+      return { productId: unit.productId, crossed };
+    });
+    if (removed?.crossed) {
+      await queueLowStockAlerts([removed.productId]);
+    }
+    return !!removed;
+  }
+
+  // Put an order's units (or the given ones) back in stock. The order's items
+  // keep the units they sold, so lookups still find the sale.
+  async releaseDeviceUnits(orderId: string, unitIds?: string[]): Promise<void> {
+    const conditions = [eq(deviceUnits.orderId, orderId)];
+    if (unitIds) {
+      if (unitIds.length === 0) return;
+      conditions.push(inArray(deviceUnits.id, unitIds));
+    }
+    await db
+      .update(deviceUnits)
+      .set({ status: "in_stock", orderId: null, soldAt: null, updatedAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  // Every seller order that has sold the unit, newest first
+  async getDeviceUnitOrders(unitId: string): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          sql`${orders.items} @> ${JSON.stringify([{ units: [{ id: unitId }] }])}::jsonb`,
+          isNotNull(orders.sellerId),
+        ),
+      )
+      .orderBy(desc(orders.createdAt));
+  }
+
   // Chat operations
   async getMessageHistory(userId: string, otherUserId: string): Promise<Message[]> {
     return await db
@@ -0,0 +1,50 @@
+import type { OrderItem, TaxRate } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface TaxSummary {
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// The rate in force for a category at a given time: the category's own rate
+// when it has one, otherwise the standard rate. No rate at all means no tax.
+export function findTaxRate(rates: TaxRate[], category: string | undefined, at: Date): TaxRate | undefined {
+  const inForce = rates
+    .filter((rate) => rate.effectiveFrom <= at)
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime());
+  const key = category?.toLowerCase();
+  return (key ? inForce.find((rate) => rate.category?.toLowerCase() === key) : undefined)
+    ?? inForce.find((rate) => rate.category === null);
+}
+
+// Tax each line after discounts. Tax-inclusive prices already contain the tax,
+// so it is split out of the line total; otherwise it is added on top.
+export function applyTax(items: OrderItem[], rates: TaxRate[], at: Date = new Date()): OrderItem[] {
+  return items.map((item) => {
+    const taxRate = findTaxRate(rates, item.category, at);
+    if (!taxRate) {
+      return item;
+    }
+    const rate = parseFloat(taxRate.rate);
+    if (taxRate.pricesIncludeTax) {
+      const tax = roundAmount(item.total - item.total / (1 + rate / 100));
+      return { ...item, taxRate: rate, tax, taxIncluded: true };
+    }
+    const tax = roundAmount((item.total * rate) / 100);
+    return { ...item, taxRate: rate, tax, total: roundAmount(item.total + tax) };
+  });
+}
+
+export function summarizeTax(items: OrderItem[]): TaxSummary {
+  const gross = roundAmount(items.reduce((sum, item) => sum + item.total, 0));
+  const tax = roundAmount(items.reduce((sum, item) => sum + (item.tax ?? 0), 0));
+  return { net: roundAmount(gross - tax), tax, gross };
+}
+
+// Online checkout and POS both price orders through here
+export async function taxOrderItems(items: OrderItem[], at: Date = new Date()): Promise<OrderItem[]> {
+  return applyTax(items, await storage.getTaxRates(), at);
+}
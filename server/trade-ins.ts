@@ -0,0 +1,250 @@
+import { randomUUID } from "crypto";
+import type { InsertTradeIn, Product, TradeIn, TradeInAnswers, TradeInDevice, TradeInPrice } from "@shared/schema";
+import { storage } from "./storage";
+import { addDeviceUnits } from "./device-units";
+import { recordAdjustment } from "./ledger";
+import { TradeInError } from "./errors";
+
+type Condition = Product["condition"];
+
+// One seller's offer for a device
+export interface TradeInOffer {
+  sellerId: string;
+  businessName: string;
+  condition: Condition;
+  amount: number;
+}
+
+export interface TradeInInspection {
+  condition?: Condition;
+  amount?: number;
+  note?: string | null;
+}
+
+const deviceName = (device: Pick<TradeIn, "brand" | "model" | "storage">) =>
+  [device.brand, device.model, device.storage].filter(Boolean).join(" ");
+
+// Grade a device from the customer's answers. A phone that does not power on
+// cannot be quoted, and a traded-in phone is never graded as new.
+export function gradeTradeIn(answers: TradeInAnswers): Condition | null {
+  if (!answers.powersOn) return null;
+  const battery = answers.batteryHealth ?? 100;
+  if (answers.screen === "cracked" || answers.body === "dented" || !answers.allFunctionsWork || battery < 80) {
+    return "fair";
+  }
+  if (answers.screen === "scratched" || answers.body === "scratched" || battery < 90) {
+    return "good";
+  }
+  return "like_new";
+}
+
+// The grid row that prices a device: the one for its storage size, else the
+// seller's row for every storage size
+function findPrice(prices: TradeInPrice[], condition: Condition, storageSize?: string | null): TradeInPrice | undefined {
+  const matching = prices.filter((price) => price.condition === condition);
+  const size = storageSize?.toLowerCase();
+  return (
+    (size ? matching.find((price) => price.storage?.toLowerCase() === size) : undefined) ??
+    matching.find((price) => price.storage === null)
+  );
+}
+
+// Quote a device against every approved seller's pricing grid, best offer first
+export async function quoteTradeIn(device: TradeInDevice): Promise<TradeInOffer[]> {
+  const condition = gradeTradeIn(device.answers);
+  if (!condition) return [];
+
+  const prices = await storage.getTradeInPrices({ brand: device.brand, model: device.model });
+  const offers: TradeInOffer[] = [];
+  for (const sellerId of Array.from(new Set(prices.map((price) => price.sellerId)))) {
+    const price = findPrice(
+      prices.filter((row) => row.sellerId === sellerId),
+      condition,
+      device.storage,
+    );
+    if (!price) continue;
+    const seller = await storage.getSeller(sellerId);
+    if (seller?.status !== "approved") continue;
+    offers.push({ sellerId, businessName: seller.businessName, condition, amount: parseFloat(price.price) });
+  }
+  return offers.sort((a, b) => b.amount - a.amount);
+}
+
+// Open a trade-in at the chosen seller's current quote. The amount is always
+// quoted again here rather than taken from the client.
+export async function submitTradeIn(customerId: string, input: InsertTradeIn): Promise<TradeIn> {
+  const offer = (await quoteTradeIn(input)).find((candidate) => candidate.sellerId === input.sellerId);
+  if (!offer) {
+    throw new TradeInError("This seller does not buy this device in its condition");
+  }
+
+  const tradeIn = await storage.createTradeIn({
+    customerId,
+    sellerId: input.sellerId,
+    brand: input.brand,
+    model: input.model,
+    storage: input.storage ?? null,
+    imei: input.imei ?? null,
+    answers: input.answers,
+    condition: offer.condition,
+    photos: input.photos,
+    quotedAmount: offer.amount.toFixed(2),
+    creditMethod: input.creditMethod,
+  });
+
+  await storage.createNotification({
+    type: "trade_in_submitted",
+    title: "New Trade-in",
+    message: `A customer wants to trade in a ${deviceName(tradeIn)} quoted at ${tradeIn.quotedAmount}.`,
+    relatedId: tradeIn.id,
+    sellerId: tradeIn.sellerId,
+    metadata: { tradeInId: tradeIn.id, quotedAmount: tradeIn.quotedAmount },
+  });
+  return tradeIn;
+}
+
+// Accept a trade-in after inspecting the device. A different grade is priced
+// from the seller's grid unless the inspector names an amount. The customer is
+// then paid in store credit, charged to the seller, or given a single-use code
+// for the seller's products.
+export async function acceptTradeIn(
+  tradeIn: TradeIn,
+  inspectedBy: string,
+  inspection: TradeInInspection = {},
+): Promise<TradeIn> {
+  const condition = inspection.condition ?? tradeIn.condition;
+  let amount = inspection.amount;
+  if (amount === undefined) {
+    if (condition === tradeIn.condition) {
+      amount = parseFloat(tradeIn.quotedAmount);
+    } else {
+      const prices = await storage.getTradeInPrices({ sellerId: tradeIn.sellerId, brand: tradeIn.brand, model: tradeIn.model });
+      const price = findPrice(prices, condition, tradeIn.storage);
+      if (!price) {
+        throw new TradeInError(`No trade-in price is set for this device in ${condition} condition`);
+      }
+      amount = parseFloat(price.price);
+    }
+  }
+  if (!(amount > 0)) {
+    throw new TradeInError("The offered amount must be more than zero");
+  }
+
+  const accepted = await storage.resolveTradeIn(tradeIn.id, {
+    status: "accepted",
+    condition,
+    offeredAmount: amount.toFixed(2),
+    inspectionNote: inspection.note ?? null,
+    inspectedBy,
+    inspectedAt: new Date(),
+  });
+  if (!accepted) {
+    throw new TradeInError("This trade-in has already been resolved");
+  }
+
+  const description = `Trade-in of ${deviceName(accepted)}`;
+  let message: string;
+  if (accepted.creditMethod === "store_credit") {
+    await storage.creditStoreCredit(accepted.customerId, amount, { type: "trade_in", description, tradeInId: accepted.id });
+    await recordAdjustment(accepted.sellerId, -amount, `${description} (#${accepted.id.slice(-8)})`, inspectedBy);
+    message = `Your ${deviceName(accepted)} was accepted and ${accepted.offeredAmount} was added to your store credit.`;
+  } else {
+    const promotion = await storage.createPromotion({
+      code: `TRADE-${randomUUID().slice(0, 8).toUpperCase()}`,
+      description,
+      discountType: "fixed",
+      value: accepted.offeredAmount!,
+      scope: "all",
+      scopeValues: [],
+      usageLimit: 1,
+      perUserLimit: 1,
+      stackableWithLoyalty: true,
+      isActive: true,
+      sellerId: accepted.sellerId,
+      createdBy: inspectedBy,
+    });
+    await storage.updateTradeIn(accepted.id, { promotionId: promotion.id });
+    accepted.promotionId = promotion.id;
+    message = `Your ${deviceName(accepted)} was accepted. Use code ${promotion.code} for ${accepted.offeredAmount} off your next order from this seller.`;
+  }
+
+  await storage.createNotification({
+    type: "trade_in_accepted",
+    title: "Trade-in Accepted",
+    message,
+    relatedId: accepted.id,
+    userId: accepted.customerId,
+    metadata: { tradeInId: accepted.id, offeredAmount: accepted.offeredAmount, creditMethod: accepted.creditMethod },
+  });
+  return accepted;
+}
+
+export async function rejectTradeIn(tradeIn: TradeIn, inspectedBy: string, note: string | null): Promise<TradeIn> {
+  const rejected = await storage.resolveTradeIn(tradeIn.id, {
+    status: "rejected",
+    inspectionNote: note,
+    inspectedBy,
+    inspectedAt: new Date(),
+  });
+  if (!rejected) {
+    throw new TradeInError("This trade-in has already been resolved");
+  }
+
+  await storage.createNotification({
+    type: "trade_in_rejected",
+    title: "Trade-in Rejected",
+    message: `Your ${deviceName(rejected)} trade-in was not accepted.${note ? ` ${note}` : ""}`,
+    relatedId: rejected.id,
+    userId: rejected.customerId,
+    metadata: { tradeInId: rejected.id },
+  });
+  return rejected;
+}
+
+export async function cancelTradeIn(tradeIn: TradeIn): Promise<TradeIn> {
+  const cancelled = await storage.resolveTradeIn(tradeIn.id, { status: "cancelled" });
+  if (!cancelled) {
+    throw new TradeInError("Only a trade-in awaiting inspection can be cancelled");
+  }
+  return cancelled;
+}
+
+// Put an accepted device up for sale as a used product. It goes through product
+// approval like any other listing; a device with an IMEI is registered as a unit.
+export async function listTradeIn(
+  tradeIn: TradeIn,
+  listing: { price: string; category: string; description?: string | null },
+): Promise<Product> {
+  if (tradeIn.status !== "accepted") {
+    throw new TradeInError("Only an accepted trade-in can be listed");
+  }
+  if (tradeIn.productId) {
+    throw new TradeInError("This trade-in is already listed");
+  }
+
+  const product = await storage.createProduct({
+    sellerId: tradeIn.sellerId,
+    name: deviceName(tradeIn),
+    description: listing.description ?? null,
+    brand: tradeIn.brand,
+    category: listing.category,
+    price: listing.price,
+    stock: tradeIn.imei ? 0 : 1,
+    condition: tradeIn.condition,
+    status: "pending",
+    imageUrl: tradeIn.photos[0] ?? null,
+  });
+  if (tradeIn.imei) {
+    await addDeviceUnits(product.id, [{ imei1: tradeIn.imei, storage: tradeIn.storage }]);
+  }
+  await storage.updateTradeIn(tradeIn.id, { productId: product.id });
+
+  await storage.createNotification({
+    type: "product_pending",
+    title: "New Product Pending Approval",
+    message: `A traded-in ${product.name} has been submitted for approval.`,
+    relatedId: product.id,
+    metadata: { sellerId: tradeIn.sellerId, productName: product.name, tradeInId: tradeIn.id },
+  });
+  return product;
+}
@@ -0,0 +1,107 @@
+import type {
+  InsertProductVariant,
+  Product,
+  ProductOption,
+  ProductOptionInput,
+  ProductVariant,
+  ProductVariantUpdate,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { ProductVariantError } from "./errors";
+
+type OptionValues = Record<string, string>;
+
+// "Black / 128GB"
+export function variantLabel(options: OptionValues): string {
+  return Object.values(options).join(" / ");
+}
+
+function sameOptions(a: OptionValues, b: OptionValues): boolean {
+  const names = Object.keys(a);
+  return names.length === Object.keys(b).length && names.every((name) => a[name] === b[name]);
+}
+
+// A variant takes exactly one of the listed values for each of the product's options
+function assertOptionValues(options: OptionValues, productOptions: Pick<ProductOption, "name" | "values">[]) {
+  if (productOptions.length === 0) {
+    throw new ProductVariantError("Add the product's options, such as Color or Storage, before its variants");
+  }
+  for (const option of productOptions) {
+    const value = options[option.name];
+    if (!value) {
+      throw new ProductVariantError(`Choose a ${option.name}`);
+    }
+    if (!option.values.includes(value)) {
+      throw new ProductVariantError(`${value} is not one of the ${option.name} options`);
+    }
+  }
+  const unknown = Object.keys(options).find((name) => !productOptions.some((option) => option.name === name));
+  if (unknown) {
+    throw new ProductVariantError(`${unknown} is not an option of this product`);
+  }
+}
+
+// Replace the product's option types, as long as every variant still fits them
+export async function setProductOptions(product: Product, options: ProductOptionInput[]): Promise<ProductOption[]> {
+  for (const variant of await storage.getProductVariants(product.id)) {
+    try {
+      assertOptionValues(variant.options, options);
+    } catch {
+      throw new ProductVariantError(
+        `The ${variantLabel(variant.options)} variant no longer fits these options; change or remove it first`,
+      );
+    }
+  }
+  return await storage.setProductOptions(product.id, options);
+}
+
+// Add a variant for a combination not yet sold. Stock held by the listing itself
+// cannot be told apart by variant, so a product is split into variants from zero.
+export async function createProductVariant(product: Product, input: InsertProductVariant): Promise<ProductVariant> {
+  const [options, variants] = await Promise.all([
+    storage.getProductOptions(product.id),
+    storage.getProductVariants(product.id),
+  ]);
+  assertOptionValues(input.options, options);
+  if (variants.some((variant) => sameOptions(variant.options, input.options))) {
+    throw new ProductVariantError(`${variantLabel(input.options)} is already a variant of ${product.name}`);
+  }
+  if (variants.length === 0 && product.stock > 0) {
+    throw new ProductVariantError(`Bring the stock of ${product.name} to 0 before splitting it into variants`);
+  }
+  return await storage.createProductVariant(product.id, input);
+}
+
+export async function updateProductVariant(
+  product: Product,
+  variant: ProductVariant,
+  updates: ProductVariantUpdate,
+): Promise<ProductVariant> {
+  if (updates.options) {
+    const [options, variants] = await Promise.all([
+      storage.getProductOptions(product.id),
+      storage.getProductVariants(product.id),
+    ]);
+    assertOptionValues(updates.options, options);
+    if (variants.some((other) => other.id !== variant.id && sameOptions(other.options, updates.options!))) {
+      throw new ProductVariantError(`${variantLabel(updates.options)} is already a variant of ${product.name}`);
+    }
+  }
+  return await storage.updateProductVariant(variant.id, updates);
+}
+
+// The variant a cart line or sale is for. A product listed with variants is
+// bought as one of its active variants, and any other product without one.
+export async function resolveVariant(product: Product, variantId?: string | null): Promise<ProductVariant | undefined> {
+  if (variantId) {
+    const variant = await storage.getProductVariant(variantId);
+    if (!variant || variant.productId !== product.id || !variant.isActive) {
+      throw new ProductVariantError(`That option of ${product.name} is not available`);
+    }
+    return variant;
+  }
+  if ((await storage.getProductVariants(product.id)).length > 0) {
+    throw new ProductVariantError(`Choose the options of ${product.name}`);
+  }
+  return undefined;
+}
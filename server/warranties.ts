@@ -0,0 +1,283 @@
+import type {
+  InsertWarranty,
+  InsertWarrantyClaim,
+  Order,
+  OrderItem,
+  Payment,
+  ShippingAddress,
+  Warranty,
+  WarrantyClaim,
+  WarrantyClaimResolution,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { refundPayment } from "./payments";
+import { recordRefund } from "./ledger";
+import { WarrantyError } from "./errors";
+
+const orderRef = (orderId: string) => `#${orderId.slice(-8)}`;
+
+export function warrantyExpiry(startsAt: Date, months: number): Date {
+  const expiresAt = new Date(startsAt);
+  expiresAt.setMonth(expiresAt.getMonth() + months);
+  return expiresAt;
+}
+
+// Register a warranty for each item sold with one, on the terms recorded on the
+// order line when it was sold. Walk-in POS sales are registered without a
+// customer. Multi-vendor checkouts register per sub-order. Safe to call twice.
+export async function registerWarranties(order: Order): Promise<Warranty[]> {
+  const subOrders = await storage.getSubOrders(order.id);
+  const registered: Warranty[] = [];
+
+  for (const sellerOrder of subOrders.length > 0 ? subOrders : [order]) {
+    if (!sellerOrder.sellerId) continue;
+    const existing = await storage.getWarranties({ orderId: sellerOrder.id });
+    if (existing.length > 0) {
+      registered.push(...existing);
+      continue;
+    }
+
+    const startsAt = new Date();
+    const rows: InsertWarranty[] = [];
+    for (const item of sellerOrder.items as OrderItem[]) {
+      // A replacement stays covered by the warranty it was sent under
+      if (!item.warranty || item.warranty.months <= 0 || item.replacesWarrantyId) continue;
+      for (let index = 0; index < item.quantity; index++) {
+        const unit = item.units?.[index];
+        rows.push({
+          orderId: sellerOrder.id,
+          productId: item.productId,
+          sellerId: sellerOrder.sellerId,
+          customerId: sellerOrder.isPosOrder ? null : sellerOrder.customerId,
+          productName: item.name,
+          unitId: unit?.id ?? null,
+          imei: unit?.imei1 ?? null,
+          provider: item.warranty.provider,
+          months: item.warranty.months,
+          startsAt,
+          expiresAt: warrantyExpiry(startsAt, item.warranty.months),
+        });
+      }
+    }
+    registered.push(...(await storage.createWarranties(rows)));
+  }
+  return registered;
+}
+
+// File a claim against a warranty that is still in force, with at most one
+// claim open at a time
+export async function fileWarrantyClaim(
+  warranty: Warranty,
+  filedBy: string,
+  input: InsertWarrantyClaim,
+): Promise<WarrantyClaim> {
+  if (warranty.voidedAt) {
+    throw new WarrantyError("This item was refunded and is no longer under warranty");
+  }
+  if (warranty.expiresAt.getTime() < Date.now()) {
+    throw new WarrantyError(`This warranty expired on ${warranty.expiresAt.toLocaleDateString()}`);
+  }
+  const open = await storage.getWarrantyClaims({ warrantyId: warranty.id, status: "submitted" });
+  if (open.length > 0) {
+    throw new WarrantyError("A claim for this item is already open");
+  }
+
+  const claim = await storage.createWarrantyClaim({
+    warrantyId: warranty.id,
+    orderId: warranty.orderId,
+    sellerId: warranty.sellerId,
+    customerId: warranty.customerId,
+    description: input.description,
+    photos: input.photos,
+    filedBy,
+  });
+
+  await storage.createNotification({
+    type: "warranty_claim",
+    title: "New Warranty Claim",
+    message: `A warranty claim was filed for ${warranty.productName} from order ${orderRef(warranty.orderId)}.`,
+    relatedId: claim.id,
+    sellerId: warranty.sellerId,
+    metadata: { claimId: claim.id, warrantyId: warranty.id, orderId: warranty.orderId },
+  });
+  return claim;
+}
+
+// The line the warranty was registered for; its name tells variants of the product apart
+function warrantyLine(order: Order, warranty: Warranty): OrderItem {
+  const line = (order.items as OrderItem[]).find(
+    (item) => item.productId === warranty.productId && item.name === warranty.productName && !item.replacesWarrantyId,
+  );
+  if (!line) {
+    throw new WarrantyError("The item is no longer on the original order");
+  }
+  return line;
+}
+
+// What the item was paid per unit on the original order, after any discount
+function paidPerUnit(order: Order, warranty: Warranty): number {
+  const line = warrantyLine(order, warranty);
+  return Math.round((line.total / line.quantity) * 100) / 100;
+}
+
+// Book the device in for a free repair, already approved at no charge
+async function openWarrantyRepair(claim: WarrantyClaim, warranty: Warranty, order: Order, resolvedBy: string) {
+  const product = await storage.getProduct(warranty.productId);
+  const customer = warranty.customerId ? await storage.getUser(warranty.customerId) : undefined;
+  const address = order.shippingAddress as ShippingAddress | null;
+  const customerName = address?.fullName ?? ([customer?.firstName, customer?.lastName].filter(Boolean).join(" ") || "Walk-in customer");
+
+  return await storage.createRepairTicket({
+    sellerId: warranty.sellerId,
+    customerId: warranty.customerId,
+    customerName,
+    customerPhone: address?.phone ?? "",
+    brand: product?.brand ?? "",
+    model: warranty.productName,
+    imei: warranty.imei,
+    faultDescription: claim.description,
+    diagnosis: `Warranty repair for order ${orderRef(order.id)}`,
+    quotedAmount: "0.00",
+    status: "approved",
+    receivedBy: resolvedBy,
+  });
+}
+
+// Send a free replacement of the item on a new order tied to the claim. A
+// handset replacement moves the warranty to the new unit.
+async function sendReplacement(warranty: Warranty, order: Order): Promise<Order> {
+  const line = warrantyLine(order, warranty);
+  const { order: replacement } = await storage.placeOrder({
+    customerId: order.customerId,
+    sellerId: warranty.sellerId,
+    parentOrderId: null,
+    total: "0",
+    taxTotal: "0",
+    status: "processing",
+    isPosOrder: order.isPosOrder,
+    shippingAddress: order.shippingAddress as ShippingAddress | null,
+    items: [
+      {
+        productId: line.productId,
+        variantId: line.variantId,
+        options: line.options,
+        name: line.name,
+        category: line.category,
+        brand: line.brand,
+        quantity: 1,
+        price: 0,
+        total: 0,
+        sellerId: line.sellerId,
+        replacesWarrantyId: warranty.id,
+      },
+    ],
+  });
+
+  const unit = (replacement.items as OrderItem[])[0].units?.[0];
+  if (unit) {
+    await storage.updateWarranty(warranty.id, { unitId: unit.id, imei: unit.imei1 });
+  }
+  return replacement;
+}
+
+// Settle a claim with a repair, a replacement or a refund of what was paid for
+// the item on its original order. A refunded item is no longer under warranty.
+export async function resolveWarrantyClaim(
+  claim: WarrantyClaim,
+  resolvedBy: string,
+  resolution: WarrantyClaimResolution,
+): Promise<WarrantyClaim> {
+  const warranty = await storage.getWarranty(claim.warrantyId);
+  const order = await storage.getOrder(claim.orderId);
+  if (!warranty || !order) {
+    throw new WarrantyError("The warranty for this claim no longer exists");
+  }
+
+  // Check everything the outcome needs before closing the claim
+  let refund: { amount: number; payment: Payment } | undefined;
+  if (resolution.outcome === "refund") {
+    const payments = await storage.getPaymentsByOrderId(order.parentOrderId ?? order.id);
+    const payment = payments.find((candidate) => candidate.status === "completed");
+    if (!payment) {
+      throw new WarrantyError("No completed payment to refund for this order");
+    }
+    refund = { amount: paidPerUnit(order, warranty), payment };
+  } else if (resolution.outcome === "replace") {
+    const line = warrantyLine(order, warranty);
+    const product = line.variantId ? await storage.getProductVariant(line.variantId) : await storage.getProduct(warranty.productId);
+    if (!product || product.stock < 1) {
+      throw new WarrantyError(`${warranty.productName} is out of stock; choose another outcome`);
+    }
+  }
+
+  const resolved = await storage.resolveWarrantyClaim(claim.id, {
+    status: "resolved",
+    outcome: resolution.outcome,
+    resolutionNote: resolution.note ?? null,
+    resolvedBy,
+    resolvedAt: new Date(),
+  });
+  if (!resolved) {
+    throw new WarrantyError("This claim has already been resolved");
+  }
+
+  let message: string;
+  let updates: Partial<WarrantyClaim>;
+  if (resolution.outcome === "repair") {
+    const ticket = await openWarrantyRepair(claim, warranty, order, resolvedBy);
+    updates = { repairTicketId: ticket.id };
+    message = `Your ${warranty.productName} will be repaired free of charge under warranty (repair ticket #${ticket.id.slice(-8)}).`;
+  } else if (resolution.outcome === "replace") {
+    const replacement = await sendReplacement(warranty, order);
+    updates = { replacementOrderId: replacement.id };
+    message = `A replacement ${warranty.productName} is on its way on order ${orderRef(replacement.id)}.`;
+  } else {
+    const { amount, payment } = refund!;
+    const description = `Warranty claim ${claim.id}`;
+    await refundPayment(payment, amount, description);
+    await recordRefund(order, amount, description);
+    if (warranty.customerId) {
+      await storage.debitLoyaltyPoints(warranty.customerId, Math.floor(amount), `Warranty refund for order ${orderRef(order.id)}`);
+    }
+    await storage.updateWarranty(warranty.id, { voidedAt: new Date() });
+    updates = { refundAmount: amount.toFixed(2), paymentId: payment.id };
+    message = `${amount.toFixed(2)} was refunded for your ${warranty.productName} under warranty.`;
+  }
+
+  const updated = await storage.updateWarrantyClaim(claim.id, updates);
+  if (warranty.customerId) {
+    await storage.createNotification({
+      type: "warranty_claim_resolved",
+      title: "Warranty Claim Resolved",
+      message,
+      relatedId: claim.id,
+      userId: warranty.customerId,
+      metadata: { claimId: claim.id, outcome: resolution.outcome, orderId: order.id },
+    });
+  }
+  return updated;
+}
+
+export async function rejectWarrantyClaim(claim: WarrantyClaim, resolvedBy: string, note: string | null): Promise<WarrantyClaim> {
+  const rejected = await storage.resolveWarrantyClaim(claim.id, {
+    status: "rejected",
+    resolutionNote: note,
+    resolvedBy,
+    resolvedAt: new Date(),
+  });
+  if (!rejected) {
+    throw new WarrantyError("This claim has already been resolved");
+  }
+
+  if (rejected.customerId) {
+    await storage.createNotification({
+      type: "warranty_claim_rejected",
+      title: "Warranty Claim Rejected",
+      message: `Your warranty claim for order ${orderRef(rejected.orderId)} was not accepted.${note ? ` ${note}` : ""}`,
+      relatedId: rejected.id,
+      userId: rejected.customerId,
+      metadata: { claimId: rejected.id },
+    });
+  }
+  return rejected;
+}
@@ -0,0 +1,66 @@
+import type { Product, WishlistItem } from "@shared/schema";
+import { storage } from "./storage";
+import { defineJob, scheduleJob } from "./jobs";
+
+// Compare each wishlisted product with what was last seen and notify its
+// owner about price drops and restocks. Returns the number of alerts sent.
+export async function evaluateWishlistAlerts(): Promise<number> {
+  let sent = 0;
+  for (const item of await storage.getWatchedWishlistItems()) {
+    try {
+      sent += await evaluateWishlistItem(item);
+    } catch (error) {
+      console.error(`Wishlist alert error for ${item.id}:`, error);
+    }
+  }
+  return sent;
+}
+
+async function evaluateWishlistItem(item: WishlistItem & { product: Product }): Promise<number> {
+  const { product } = item;
+  const updates: Partial<WishlistItem> = {};
+  let sent = 0;
+
+  // Alert below the saved price, then only on further drops
+  const price = parseFloat(product.price);
+  const threshold = Math.min(parseFloat(item.savedPrice), parseFloat(item.lastAlertedPrice ?? item.savedPrice));
+  if (price < threshold) {
+    await storage.createNotification({
+      type: "price_drop",
+      title: "Price Drop",
+      message: `"${product.name}" on your wishlist is now ${product.price}, down from ${item.savedPrice}.`,
+      relatedId: product.id,
+      userId: item.userId,
+      metadata: { productName: product.name, savedPrice: item.savedPrice, price: product.price },
+    });
+    updates.lastAlertedPrice = product.price;
+    sent++;
+  }
+
+  if (item.lastKnownStock === 0 && product.stock > 0) {
+    await storage.createNotification({
+      type: "back_in_stock",
+      title: "Back in Stock",
+      message: `"${product.name}" on your wishlist is back in stock.`,
+      relatedId: product.id,
+      userId: item.userId,
+      metadata: { productName: product.name, stock: product.stock },
+    });
+    sent++;
+  }
+  if (item.lastKnownStock !== product.stock) {
+    updates.lastKnownStock = product.stock;
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await storage.updateWishlistItem(item.id, updates);
+  }
+  return sent;
+}
+
+defineJob("wishlist-alerts", evaluateWishlistAlerts, { maxAttempts: 1 });
+
+// Check wishlists for price drops and restocks in the background
+export function startWishlistAlerts(cron = process.env.WISHLIST_ALERT_CRON || "*/5 * * * *") {
+  scheduleJob("wishlist-alerts", cron);
+}
@@ -10,6 +10,7 @@ import {
   jsonb,
   pgEnum,
   index,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -52,6 +53,7 @@ export const paymentMethodEnum = pgEnum("payment_method", [
   "cash",
   "digital_wallet",
   "bank_transfer",
+  "store_credit",
 ]);
 export const productConditionEnum = pgEnum("product_condition", [
   "new",
@@ -64,6 +66,59 @@ export const productStatusEnum = pgEnum("product_status", [
   "approved",
   "rejected",
 ]);
+export const deviceUnitStatusEnum = pgEnum("device_unit_status", ["in_stock", "sold"]);
+export const tradeInStatusEnum = pgEnum("trade_in_status", ["submitted", "accepted", "rejected", "cancelled"]);
+export const tradeInCreditMethodEnum = pgEnum("trade_in_credit_method", ["store_credit", "order_discount"]);
+export const repairStatusEnum = pgEnum("repair_status", [
+  "received",
+  "diagnosed", // quoted, waiting for the customer's approval
+  "approved",
+  "declined",
+  "in_repair",
+  "ready",
+  "collected",
+  "cancelled",
+]);
+export const warrantyProviderEnum = pgEnum("warranty_provider", ["seller", "manufacturer"]);
+export const warrantyClaimStatusEnum = pgEnum("warranty_claim_status", ["submitted", "resolved", "rejected"]);
+export const warrantyClaimOutcomeEnum = pgEnum("warranty_claim_outcome", ["repair", "replace", "refund"]);
+export const returnStatusEnum = pgEnum("return_status", [
+  "requested",
+  "inspecting",
+  "approved",
+  "rejected",
+]);
+export const shipmentStatusEnum = pgEnum("shipment_status", [
+  "label_created",
+  "picked_up",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+]);
+export const discountTypeEnum = pgEnum("discount_type", ["percentage", "fixed"]);
+export const promotionScopeEnum = pgEnum("promotion_scope", [
+  "all",
+  "category",
+  "brand",
+  "product",
+]);
+export const ledgerAccountEnum = pgEnum("ledger_account", [
+  "clearing", // customer money held by the platform
+  "seller_payable", // what the platform owes each seller
+  "commission_revenue",
+  "adjustments",
+  "payouts_in_transit", // batched for payment, not yet paid out
+]);
+export const ledgerEntryTypeEnum = pgEnum("ledger_entry_type", [
+  "sale",
+  "commission",
+  "refund",
+  "adjustment",
+  "payout",
+]);
+export const payoutBatchStatusEnum = pgEnum("payout_batch_status", ["pending", "paid"]);
+export const productImportStatusEnum = pgEnum("product_import_status", ["pending", "running", "completed", "failed"]);
+export const jobStatusEnum = pgEnum("job_status", ["queued", "running", "completed", "failed"]);
 export const userEventTypeEnum = pgEnum("user_event_type", [
   "view",
   "cart_add",
@@ -82,16 +137,56 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
 
   loyaltyPoints: integer("loyalty_points").notNull().default(0),
+  storeCredit: decimal("store_credit", { precision: 10, scale: 2 }).notNull().default("0"),
 
   // OAuth provider fields
   googleId: varchar("google_id"),
   appleId: varchar("apple_id"),
   isEmailVerified: boolean("is_email_verified").default(false),
+
+  // Where and in which language notifications are sent. Notifications for a
+  // seller's shop use the channel switches and phone number on sellers.
+  phoneNumber: varchar("phone_number"),
+  preferredLanguage: varchar("preferred_language").$type<NotificationLanguage>().notNull().default("en"),
+  emailNotifications: boolean("email_notifications").notNull().default(true),
+  smsNotifications: boolean("sms_notifications").notNull().default(false),
   
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ─── ADDRESSES ──────────────────────────────────────────────────────────────────
+
+export const KUWAIT_GOVERNORATES = [
+  "Capital",
+  "Hawalli",
+  "Farwaniya",
+  "Mubarak Al-Kabeer",
+  "Ahmadi",
+  "Jahra",
+] as const;
+
+// Saved delivery addresses; orders keep a copy in shippingAddress rather than a reference
+export const addresses = pgTable("addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  label: varchar("label"), // e.g. "Home", "Office"
+  fullName: varchar("full_name").notNull(),
+  phone: varchar("phone").notNull(),
+  governorate: varchar("governorate").notNull(),
+  area: varchar("area").notNull(),
+  block: varchar("block").notNull(),
+  street: varchar("street").notNull(),
+  avenue: varchar("avenue"),
+  building: varchar("building").notNull(),
+  floor: varchar("floor"),
+  apartment: varchar("apartment"),
+  paciNumber: varchar("paci_number"), // PACI civil ID address number
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ─── SELLERS ───────────────────────────────────────────────────────────────────
 
 export const sellers = pgTable("sellers", {
@@ -119,6 +214,10 @@ export const sellers = pgTable("sellers", {
   smsNotifications: boolean("sms_notifications").notNull().default(true),
   lowStockAlerts: boolean("low_stock_alerts").notNull().default(true),
 
+  // Where payouts are sent
+  payoutIban: varchar("payout_iban"),
+  payoutAccountName: varchar("payout_account_name"),
+
   // Branding
   businessLogo: varchar("business_logo"),
   businessEmail: varchar("business_email"),
@@ -142,6 +241,10 @@ export const products = pgTable("products", {
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   originalPrice: decimal("original_price", { precision: 10, scale: 2 }),
   stock: integer("stock").notNull().default(0),
+  // The seller is alerted when stock falls below the threshold (0 turns the
+  // alert off), and restock suggestions order at least reorderQuantity
+  reorderThreshold: integer("reorder_threshold").notNull().default(5),
+  reorderQuantity: integer("reorder_quantity").notNull().default(10),
   condition: productConditionEnum("condition").notNull().default("new"),
   status: productStatusEnum("status").notNull().default("pending"),
   imageUrl: varchar("image_url"),
@@ -152,6 +255,36 @@ export const products = pgTable("products", {
   approvedAt: timestamp("approved_at"),
   approvedBy: varchar("approved_by").references(() => users.id),
   rejectionReason: text("rejection_reason"),
+  warrantyMonths: integer("warranty_months").notNull().default(0), // 0 for no warranty
+  warrantyProvider: warrantyProviderEnum("warranty_provider").notNull().default("seller"),
+  specs: jsonb("specs").$type<ProductSpecs>().notNull().default({}), // see productSpecFields
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// ─── PRODUCT VARIANTS ───────────────────────────────────────────────────────────
+
+// The option types a listing is sold in and their values, e.g. Color: Black, Blue
+export const productOptions = pgTable("product_options", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  values: jsonb("values").$type<string[]>().notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One sellable combination of option values. While a product has variants,
+// products.stock is the sum of theirs, products.price the lowest active price
+// and every sale, cart line and stock change names a variant.
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  options: jsonb("options").$type<Record<string, string>>().notNull(), // option name -> value
+  sku: varchar("sku").unique(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  stock: integer("stock").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -161,6 +294,7 @@ export const products = pgTable("products", {
 export const productImages = pgTable("product_images", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: varchar("variant_id").references(() => productVariants.id, { onDelete: "cascade" }), // shown when the variant is picked
   imageUrl: varchar("image_url").notNull(),
   fileName: varchar("file_name").notNull(),
   fileSize: integer("file_size"),
@@ -170,14 +304,60 @@ export const productImages = pgTable("product_images", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// ─── PRODUCT IMPORTS ────────────────────────────────────────────────────────────
+
+// A seller's CSV or XLSX catalog file, applied row by row in the background.
+// A dry run checks every row and reports what it would do without saving.
+export const productImports = pgTable("product_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id, { onDelete: "cascade" }),
+  fileName: varchar("file_name").notNull(),
+  format: varchar("format").$type<ProductSheetFormat>().notNull(),
+  dryRun: boolean("dry_run").notNull().default(false),
+  status: productImportStatusEnum("status").notNull().default("pending"),
+  totalRows: integer("total_rows").notNull().default(0),
+  processedRows: integer("processed_rows").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  errors: jsonb("errors").$type<ProductImportRowError[]>().notNull().default([]),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// ─── DEVICE UNITS ───────────────────────────────────────────────────────────────
+
+// One row per physical handset of a serialized product. While a product has
+// units, products.stock counts the ones in stock and sales claim specific units.
+export const deviceUnits = pgTable("device_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  imei1: varchar("imei1", { length: 15 }).notNull().unique(),
+  imei2: varchar("imei2", { length: 15 }).unique(),
+  serialNumber: varchar("serial_number"),
+  color: varchar("color"),
+  storage: varchar("storage"),
+  status: deviceUnitStatusEnum("status").notNull().default("in_stock"),
+  // The seller order that currently holds the unit; cleared when it comes back
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "set null" }),
+  soldAt: timestamp("sold_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ─── ORDERS ────────────────────────────────────────────────────────────────────
 
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   customerId: varchar("customer_id").notNull().references(() => users.id),
   sellerId: varchar("seller_id").references(() => sellers.id),
-  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  // Set on per-seller sub-orders split out of a multi-vendor checkout
+  parentOrderId: varchar("parent_order_id").references((): AnyPgColumn => orders.id, { onDelete: "cascade" }),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // gross, tax included
+  taxTotal: decimal("tax_total", { precision: 10, scale: 2 }).notNull().default("0"),
   status: orderStatusEnum("status").notNull().default("pending"),
+  cancellationReason: text("cancellation_reason"),
   isPosOrder: boolean("is_pos_order").notNull().default(false),
   shippingAddress: jsonb("shipping_address"),
   items: jsonb("items").notNull(),
@@ -185,17 +365,297 @@ export const orders = pgTable("orders", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ─── ORDER STATUS HISTORY ──────────────────────────────────────────────────────
+
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  fromStatus: orderStatusEnum("from_status"), // null for the entry written at checkout
+  toStatus: orderStatusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }), // null for system changes
+  changedByRole: varchar("changed_by_role").notNull(), // 'customer', 'seller', 'admin', 'system'
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ─── SHIPMENTS ──────────────────────────────────────────────────────────────────
+
+export const shipments = pgTable("shipments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // The seller's order: a sub-order when the checkout was split
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id),
+  carrier: varchar("carrier").notNull(),
+  trackingNumber: varchar("tracking_number").notNull(),
+  status: shipmentStatusEnum("status").notNull().default("label_created"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const shipmentEvents = pgTable("shipment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipmentId: varchar("shipment_id").notNull().references(() => shipments.id, { onDelete: "cascade" }),
+  status: shipmentStatusEnum("status").notNull(),
+  description: text("description"),
+  location: varchar("location"),
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // ─── CART ──────────────────────────────────────────────────────────────────────
 
 export const cart = pgTable("cart", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: varchar("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
   quantity: integer("quantity").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ─── WISHLISTS ──────────────────────────────────────────────────────────────────
+
+export const wishlists = pgTable("wishlists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  savedPrice: decimal("saved_price", { precision: 10, scale: 2 }).notNull(), // price when the item was saved
+  // What the alert job last saw, so each drop or restock is only announced once
+  lastAlertedPrice: decimal("last_alerted_price", { precision: 10, scale: 2 }),
+  lastKnownStock: integer("last_known_stock").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ─── PROMOTIONS ─────────────────────────────────────────────────────────────────
+
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code").unique().notNull(), // stored upper case
+  description: text("description"),
+  sellerId: varchar("seller_id").references(() => sellers.id), // null for platform-wide promotions
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  discountType: discountTypeEnum("discount_type").notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(), // percent or KWD amount
+  minBasket: decimal("min_basket", { precision: 10, scale: 2 }),
+  scope: promotionScopeEnum("scope").notNull().default("all"),
+  scopeValues: jsonb("scope_values").$type<string[]>().notNull().default([]), // categories, brands or product ids
+  usageLimit: integer("usage_limit"), // across all customers; null for unlimited
+  perUserLimit: integer("per_user_limit"),
+  usageCount: integer("usage_count").notNull().default(0),
+  stackableWithLoyalty: boolean("stackable_with_loyalty").notNull().default(true),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promotionId: varchar("promotion_id").notNull().references(() => promotions.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ─── TAX RATES ──────────────────────────────────────────────────────────────────
+
+// Rates are never edited in place: a change is a new row with a later effective date
+export const taxRates = pgTable("tax_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: varchar("category"), // null for the standard rate
+  rate: decimal("rate", { precision: 5, scale: 2 }).notNull(), // percent
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ─── COMMISSIONS & PAYOUTS ──────────────────────────────────────────────────────
+
+// The most specific rate wins: seller + category, seller, category, then the
+// global default (no seller, no category)
+export const commissionRates = pgTable("commission_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").references(() => sellers.id, { onDelete: "cascade" }),
+  category: varchar("category"),
+  rate: decimal("rate", { precision: 5, scale: 2 }).notNull(), // percent of the pre-tax sale
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const payoutBatches = pgTable("payout_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: payoutBatchStatusEnum("status").notNull().default("pending"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  reference: varchar("reference"), // bank transfer reference, set when paid
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const payouts = pgTable("payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").notNull().references(() => payoutBatches.id, { onDelete: "cascade" }),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Double-entry: the rows sharing a transactionId always balance (debits = credits)
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  type: ledgerEntryTypeEnum("type").notNull(),
+  account: ledgerAccountEnum("account").notNull(),
+  sellerId: varchar("seller_id").references(() => sellers.id),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "set null" }),
+  payoutId: varchar("payout_id").references(() => payouts.id, { onDelete: "set null" }),
+  debit: decimal("debit", { precision: 10, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 10, scale: 2 }).notNull().default("0"),
+  description: text("description"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ─── TRADE-INS ──────────────────────────────────────────────────────────────────
+
+// A seller's buy-back price for a model in a given condition. A null storage
+// prices every storage size the seller has no specific row for.
+export const tradeInPrices = pgTable("trade_in_prices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id, { onDelete: "cascade" }),
+  brand: varchar("brand").notNull(),
+  model: varchar("model").notNull(),
+  storage: varchar("storage"),
+  condition: productConditionEnum("condition").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const tradeIns = pgTable("trade_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id),
+  brand: varchar("brand").notNull(),
+  model: varchar("model").notNull(),
+  storage: varchar("storage"),
+  imei: varchar("imei", { length: 15 }),
+  answers: jsonb("answers").$type<TradeInAnswers>().notNull(),
+  condition: productConditionEnum("condition").notNull(), // graded from the answers
+  photos: jsonb("photos").$type<string[]>().notNull().default([]),
+  quotedAmount: decimal("quoted_amount", { precision: 10, scale: 2 }).notNull(),
+  offeredAmount: decimal("offered_amount", { precision: 10, scale: 2 }), // set on inspection
+  creditMethod: tradeInCreditMethodEnum("credit_method").notNull(),
+  status: tradeInStatusEnum("status").notNull().default("submitted"),
+  inspectionNote: text("inspection_note"),
+  inspectedBy: varchar("inspected_by").references(() => users.id, { onDelete: "set null" }),
+  inspectedAt: timestamp("inspected_at"),
+  // The single-use code issued when the credit is taken as an order discount
+  promotionId: varchar("promotion_id").references(() => promotions.id, { onDelete: "set null" }),
+  // The used listing created from the device once accepted
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// ─── REPAIR TICKETS ─────────────────────────────────────────────────────────────
+
+// A device booked in at a seller's repair counter. Walk-in customers are kept by
+// name and phone; customerId links the ticket to an account when they have one.
+export const repairTickets = pgTable("repair_tickets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "set null" }),
+  customerName: varchar("customer_name").notNull(),
+  customerPhone: varchar("customer_phone").notNull(),
+  brand: varchar("brand").notNull(),
+  model: varchar("model").notNull(),
+  imei: varchar("imei", { length: 15 }),
+  faultDescription: text("fault_description").notNull(),
+  diagnosis: text("diagnosis"),
+  quotedAmount: decimal("quoted_amount", { precision: 10, scale: 2 }), // set on diagnosis, parts included
+  status: repairStatusEnum("status").notNull().default("received"),
+  // The POS order that billed the repair at pickup
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "set null" }),
+  receivedBy: varchar("received_by").references(() => users.id, { onDelete: "set null" }),
+  collectedAt: timestamp("collected_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Parts taken out of the seller's inventory for a repair
+export const repairParts = pgTable("repair_parts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticket_id").notNull().references(() => repairTickets.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id), // for parts stocked in variants
+  name: varchar("name").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const repairTicketHistory = pgTable("repair_ticket_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticket_id").notNull().references(() => repairTickets.id, { onDelete: "cascade" }),
+  fromStatus: repairStatusEnum("from_status"), // null for the intake entry
+  toStatus: repairStatusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ─── WARRANTIES ─────────────────────────────────────────────────────────────────
+
+// One row per item sold with a warranty, registered when the seller order is
+// delivered or rung up at the POS. Walk-in POS sales have no customer account.
+export const warranties = pgTable("warranties", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Always the seller's order: a sub-order when the checkout was split
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "set null" }),
+  productName: varchar("product_name").notNull(),
+  // The handset covered, for products tracked by IMEI; moves to the new unit on replacement
+  unitId: varchar("unit_id").references(() => deviceUnits.id, { onDelete: "set null" }),
+  imei: varchar("imei", { length: 15 }),
+  provider: warrantyProviderEnum("provider").notNull(),
+  months: integer("months").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  voidedAt: timestamp("voided_at"), // set when a claim refunds the item
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const warrantyClaims = pgTable("warranty_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  warrantyId: varchar("warranty_id").notNull().references(() => warranties.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }), // the original seller order
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "set null" }),
+  description: text("description").notNull(),
+  photos: jsonb("photos").$type<string[]>().notNull().default([]),
+  status: warrantyClaimStatusEnum("status").notNull().default("submitted"),
+  outcome: warrantyClaimOutcomeEnum("outcome"),
+  resolutionNote: text("resolution_note"),
+  // What the outcome produced: a repair ticket, a free replacement order or a refund
+  repairTicketId: varchar("repair_ticket_id").references(() => repairTickets.id, { onDelete: "set null" }),
+  replacementOrderId: varchar("replacement_order_id").references(() => orders.id, { onDelete: "set null" }),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  filedBy: varchar("filed_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ─── PAYMENTS ──────────────────────────────────────────────────────────────────
 
 export const payments = pgTable("payments", {
@@ -210,6 +670,25 @@ export const payments = pgTable("payments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ─── RETURNS ───────────────────────────────────────────────────────────────────
+
+export const returnRequests = pgTable("return_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Always the seller's order: a sub-order when the checkout was split
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => users.id),
+  sellerId: varchar("seller_id").notNull().references(() => sellers.id),
+  items: jsonb("items").notNull(),
+  reason: text("reason").notNull(),
+  status: returnStatusEnum("status").notNull().default("requested"),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull(),
+  resolutionNote: text("resolution_note"),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ─── LOYALTY TRANSACTIONS ───────────────────────────────────────────────────────
 
 export const loyaltyTransactions = pgTable("loyalty_transactions", {
@@ -221,6 +700,20 @@ export const loyaltyTransactions = pgTable("loyalty_transactions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// ─── STORE CREDIT TRANSACTIONS ───────────────────────────────────────────────────
+
+// Movements on users.storeCredit: positive amounts add credit, negative spend it
+export const storeCreditTransactions = pgTable("store_credit_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  type: varchar("type").notNull(), // 'trade_in', 'payment', 'refund'
+  description: text("description"),
+  tradeInId: varchar("trade_in_id").references(() => tradeIns.id, { onDelete: "set null" }),
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // ─── NOTIFICATIONS ─────────────────────────────────────────────────────────────
 
 export const notifications = pgTable("notifications", {
@@ -231,6 +724,7 @@ export const notifications = pgTable("notifications", {
   isRead: boolean("is_read").notNull().default(false),
   relatedId: varchar("related_id"),
   sellerId: varchar("seller_id").references(() => sellers.id),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // set for customer notifications
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -255,12 +749,49 @@ export const adminSettings = pgTable("admin_settings", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ─── JOBS ───────────────────────────────────────────────────────────────────────
+
+// Work run outside the request by the job worker (server/jobs). A failed run
+// is retried with backoff until maxAttempts; then the job is failed and copied
+// to dead_letter_jobs. dedupeKey keeps a scheduled run from being queued twice.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: jobStatusEnum("status").notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  dedupeKey: varchar("dedupe_key").unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Jobs that used up their attempts, kept until an admin retries or drops them
+export const deadLetterJobs = pgTable("dead_letter_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull(),
+  name: varchar("name").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  attempts: integer("attempts").notNull(),
+  error: text("error").notNull(),
+  failedAt: timestamp("failed_at").defaultNow(),
+});
+
 // ─── RELATIONS ─────────────────────────────────────────────────────────────────
 
 export const usersRelations = relations(users, ({ one, many }) => ({
   seller: one(sellers, { fields: [users.id], references: [sellers.userId] }),
   orders: many(orders),
   cartItems: many(cart),
+  wishlists: many(wishlists),
+  addresses: many(addresses),
+}));
+
+export const addressesRelations = relations(addresses, ({ one }) => ({
+  user: one(users, { fields: [addresses.userId], references: [users.id] }),
 }));
 
 export const sellersRelations = relations(sellers, ({ one, many }) => ({
@@ -273,7 +804,25 @@ export const sellersRelations = relations(sellers, ({ one, many }) => ({
 export const productsRelations = relations(products, ({ one, many }) => ({
   seller: one(sellers, { fields: [products.sellerId], references: [sellers.id] }),
   images: many(productImages),
+  options: many(productOptions),
+  variants: many(productVariants),
+  units: many(deviceUnits),
   cartItems: many(cart),
+  wishlists: many(wishlists),
+}));
+
+export const productImportsRelations = relations(productImports, ({ one }) => ({
+  seller: one(sellers, { fields: [productImports.sellerId], references: [sellers.id] }),
+}));
+
+export const productOptionsRelations = relations(productOptions, ({ one }) => ({
+  product: one(products, { fields: [productOptions.productId], references: [products.id] }),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one, many }) => ({
+  product: one(products, { fields: [productVariants.productId], references: [products.id] }),
+  images: many(productImages),
+  units: many(deviceUnits),
 }));
 
 export const productImagesRelations = relations(productImages, ({ one }) => ({
@@ -281,23 +830,93 @@ export const productImagesRelations = relations(productImages, ({ one }) => ({
     fields: [productImages.productId],
     references: [products.id],
   }),
+  variant: one(productVariants, { fields: [productImages.variantId], references: [productVariants.id] }),
+}));
+
+export const deviceUnitsRelations = relations(deviceUnits, ({ one }) => ({
+  product: one(products, { fields: [deviceUnits.productId], references: [products.id] }),
+  variant: one(productVariants, { fields: [deviceUnits.variantId], references: [productVariants.id] }),
+  order: one(orders, { fields: [deviceUnits.orderId], references: [orders.id] }),
 }));
 
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   customer: one(users, { fields: [orders.customerId], references: [users.id] }),
   seller: one(sellers, { fields: [orders.sellerId], references: [sellers.id] }),
+  parentOrder: one(orders, {
+    fields: [orders.parentOrderId],
+    references: [orders.id],
+    relationName: "subOrders",
+  }),
+  subOrders: many(orders, { relationName: "subOrders" }),
   payments: many(payments),
+  returnRequests: many(returnRequests),
+  statusHistory: many(orderStatusHistory),
+  shipments: many(shipments),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, { fields: [orderStatusHistory.orderId], references: [orders.id] }),
+  changedByUser: one(users, { fields: [orderStatusHistory.changedBy], references: [users.id] }),
+}));
+
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+  order: one(orders, { fields: [shipments.orderId], references: [orders.id] }),
+  seller: one(sellers, { fields: [shipments.sellerId], references: [sellers.id] }),
+  events: many(shipmentEvents),
+}));
+
+export const shipmentEventsRelations = relations(shipmentEvents, ({ one }) => ({
+  shipment: one(shipments, { fields: [shipmentEvents.shipmentId], references: [shipments.id] }),
+}));
+
+export const wishlistsRelations = relations(wishlists, ({ one }) => ({
+  user: one(users, { fields: [wishlists.userId], references: [users.id] }),
+  product: one(products, { fields: [wishlists.productId], references: [products.id] }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  seller: one(sellers, { fields: [promotions.sellerId], references: [sellers.id] }),
+  redemptions: many(promotionRedemptions),
+}));
+
+export const promotionRedemptionsRelations = relations(promotionRedemptions, ({ one }) => ({
+  promotion: one(promotions, { fields: [promotionRedemptions.promotionId], references: [promotions.id] }),
+  order: one(orders, { fields: [promotionRedemptions.orderId], references: [orders.id] }),
+  user: one(users, { fields: [promotionRedemptions.userId], references: [users.id] }),
+}));
+
+export const payoutBatchesRelations = relations(payoutBatches, ({ many }) => ({
+  payouts: many(payouts),
+}));
+
+export const payoutsRelations = relations(payouts, ({ one }) => ({
+  batch: one(payoutBatches, { fields: [payouts.batchId], references: [payoutBatches.id] }),
+  seller: one(sellers, { fields: [payouts.sellerId], references: [sellers.id] }),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  seller: one(sellers, { fields: [ledgerEntries.sellerId], references: [sellers.id] }),
+  order: one(orders, { fields: [ledgerEntries.orderId], references: [orders.id] }),
+  payout: one(payouts, { fields: [ledgerEntries.payoutId], references: [payouts.id] }),
 }));
 
 export const cartRelations = relations(cart, ({ one }) => ({
   user: one(users, { fields: [cart.userId], references: [users.id] }),
   product: one(products, { fields: [cart.productId], references: [products.id] }),
+  variant: one(productVariants, { fields: [cart.variantId], references: [productVariants.id] }),
 }));
 
 export const paymentsRelations = relations(payments, ({ one }) => ({
   order: one(orders, { fields: [payments.orderId], references: [orders.id] }),
 }));
 
+export const returnRequestsRelations = relations(returnRequests, ({ one }) => ({
+  order: one(orders, { fields: [returnRequests.orderId], references: [orders.id] }),
+  customer: one(users, { fields: [returnRequests.customerId], references: [users.id] }),
+  seller: one(sellers, { fields: [returnRequests.sellerId], references: [sellers.id] }),
+  payment: one(payments, { fields: [returnRequests.paymentId], references: [payments.id] }),
+}));
+
 export const userEventsRelations = relations(userEvents, ({ one }) => ({
   user: one(users, { fields: [userEvents.userId], references: [users.id] }),
   product: one(products, { fields: [userEvents.productId], references: [products.id] }),
@@ -307,13 +926,68 @@ export const loyaltyTransactionsRelations = relations(loyaltyTransactions, ({ on
   user: one(users, { fields: [loyaltyTransactions.userId], references: [users.id] }),
 }));
 
+export const tradeInPricesRelations = relations(tradeInPrices, ({ one }) => ({
+  seller: one(sellers, { fields: [tradeInPrices.sellerId], references: [sellers.id] }),
+}));
+
+export const tradeInsRelations = relations(tradeIns, ({ one }) => ({
+  customer: one(users, { fields: [tradeIns.customerId], references: [users.id] }),
+  seller: one(sellers, { fields: [tradeIns.sellerId], references: [sellers.id] }),
+  promotion: one(promotions, { fields: [tradeIns.promotionId], references: [promotions.id] }),
+  product: one(products, { fields: [tradeIns.productId], references: [products.id] }),
+}));
+
+export const storeCreditTransactionsRelations = relations(storeCreditTransactions, ({ one }) => ({
+  user: one(users, { fields: [storeCreditTransactions.userId], references: [users.id] }),
+  tradeIn: one(tradeIns, { fields: [storeCreditTransactions.tradeInId], references: [tradeIns.id] }),
+}));
+
+export const repairTicketsRelations = relations(repairTickets, ({ one, many }) => ({
+  seller: one(sellers, { fields: [repairTickets.sellerId], references: [sellers.id] }),
+  customer: one(users, { fields: [repairTickets.customerId], references: [users.id] }),
+  order: one(orders, { fields: [repairTickets.orderId], references: [orders.id] }),
+  parts: many(repairParts),
+  history: many(repairTicketHistory),
+}));
+
+export const repairPartsRelations = relations(repairParts, ({ one }) => ({
+  ticket: one(repairTickets, { fields: [repairParts.ticketId], references: [repairTickets.id] }),
+  product: one(products, { fields: [repairParts.productId], references: [products.id] }),
+  variant: one(productVariants, { fields: [repairParts.variantId], references: [productVariants.id] }),
+}));
+
+export const repairTicketHistoryRelations = relations(repairTicketHistory, ({ one }) => ({
+  ticket: one(repairTickets, { fields: [repairTicketHistory.ticketId], references: [repairTickets.id] }),
+}));
+
+export const warrantiesRelations = relations(warranties, ({ one, many }) => ({
+  order: one(orders, { fields: [warranties.orderId], references: [orders.id] }),
+  product: one(products, { fields: [warranties.productId], references: [products.id] }),
+  seller: one(sellers, { fields: [warranties.sellerId], references: [sellers.id] }),
+  customer: one(users, { fields: [warranties.customerId], references: [users.id] }),
+  unit: one(deviceUnits, { fields: [warranties.unitId], references: [deviceUnits.id] }),
+  claims: many(warrantyClaims),
+}));
+
+export const warrantyClaimsRelations = relations(warrantyClaims, ({ one }) => ({
+  warranty: one(warranties, { fields: [warrantyClaims.warrantyId], references: [warranties.id] }),
+  order: one(orders, { fields: [warrantyClaims.orderId], references: [orders.id] }),
+  seller: one(sellers, { fields: [warrantyClaims.sellerId], references: [sellers.id] }),
+  customer: one(users, { fields: [warrantyClaims.customerId], references: [users.id] }),
+  repairTicket: one(repairTickets, { fields: [warrantyClaims.repairTicketId], references: [repairTickets.id] }),
+  payment: one(payments, { fields: [warrantyClaims.paymentId], references: [payments.id] }),
+}));
+
 // ─── INSERT SCHEMAS ────────────────────────────────────────────────────────────
 
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  preferredLanguage: z.enum(["en", "ar"]).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   loyaltyPoints: true,
+  storeCredit: true,
 });
 
 export const insertSellerSchema = createInsertSchema(sellers).omit({
@@ -335,6 +1009,8 @@ export const reviews = pgTable("reviews", {
   title: varchar("title"),
   comment: text("comment"),
   isVerifiedPurchase: boolean("is_verified_purchase").default(false),
+  sellerReply: text("seller_reply"), // the product's seller answering the review
+  sellerRepliedAt: timestamp("seller_replied_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -344,7 +1020,8 @@ export const reviews = pgTable("reviews", {
 export const inventoryLogs = pgTable("inventory_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
-  changeType: varchar("change_type").notNull(), // 'sale', 'restock', 'adjustment', 'return'
+  variantId: varchar("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  changeType: varchar("change_type").notNull(), // 'sale', 'restock', 'adjustment', 'return', 'repair'
   quantityChange: integer("quantity_change").notNull(),
   previousQuantity: integer("previous_quantity").notNull(),
   newQuantity: integer("new_quantity").notNull(),
@@ -371,31 +1048,363 @@ export const insertProductSchema = createInsertSchema(products).omit({
   updatedAt: true,
   rating: true,
   reviewCount: true,
+}).extend({
+  warrantyMonths: z.coerce.number().int().min(0).max(120).optional(),
+  reorderThreshold: z.coerce.number().int().min(0).optional(),
+  reorderQuantity: z.coerce.number().int().min(1).optional(),
+  specs: z.record(z.union([z.string().trim().max(100), z.number(), z.boolean()])).optional(),
 });
 
+// The specifications sellers fill in for each category, in the order the
+// compare table lists them. A number spec with filter steps is offered in the
+// marketplace as "at least" each step; a filterable yes/no spec as "has it".
+export interface ProductSpecField {
+  key: string;
+  label: string;
+  type: "number" | "text" | "boolean";
+  unit?: string;
+  filter?: number[] | true;
+}
+
+export const productSpecFields: Record<string, ProductSpecField[]> = {
+  smartphones: [
+    { key: "displaySize", label: "Display size", type: "number", unit: "in" },
+    { key: "refreshRate", label: "Refresh rate", type: "number", unit: "Hz", filter: [90, 120] },
+    { key: "chipset", label: "Chipset", type: "text" },
+    { key: "ram", label: "RAM", type: "number", unit: "GB", filter: [4, 6, 8, 12] },
+    { key: "storage", label: "Storage", type: "number", unit: "GB", filter: [64, 128, 256, 512] },
+    { key: "battery", label: "Battery", type: "number", unit: "mAh", filter: [4000, 5000] },
+    { key: "mainCamera", label: "Main camera", type: "number", unit: "MP", filter: [48, 108] },
+    { key: "frontCamera", label: "Front camera", type: "number", unit: "MP" },
+    { key: "has5g", label: "5G", type: "boolean", filter: true },
+    { key: "dualSim", label: "Dual SIM", type: "boolean", filter: true },
+    { key: "os", label: "Operating system", type: "text" },
+  ],
+  audio: [
+    { key: "formFactor", label: "Type", type: "text" },
+    { key: "wireless", label: "Wireless", type: "boolean", filter: true },
+    { key: "noiseCancelling", label: "Noise cancelling", type: "boolean", filter: true },
+    { key: "batteryLife", label: "Battery life", type: "number", unit: "h", filter: [10, 20, 30] },
+    { key: "waterResistance", label: "Water resistance", type: "text" },
+  ],
+  accessories: [
+    { key: "connector", label: "Connector", type: "text" },
+    { key: "power", label: "Power output", type: "number", unit: "W", filter: [20, 45, 65] },
+    { key: "capacity", label: "Capacity", type: "number", unit: "mAh", filter: [10000, 20000] },
+    { key: "compatibility", label: "Compatible with", type: "text" },
+  ],
+  protection: [
+    { key: "compatibility", label: "Compatible with", type: "text" },
+    { key: "material", label: "Material", type: "text" },
+    { key: "dropProtection", label: "Drop protection", type: "number", unit: "m", filter: [1, 2, 3] },
+    { key: "magsafe", label: "MagSafe", type: "boolean", filter: true },
+  ],
+};
+
+export function findProductSpecField(key: string): ProductSpecField | undefined {
+  return Object.values(productSpecFields).flat().find((field) => field.key === key);
+}
+
 export const insertProductImageSchema = createInsertSchema(productImages).omit({
   id: true,
   createdAt: true,
 });
 
+// Replaces a product's option types. Up to three, e.g. Color, Storage, Model.
+export const productOptionsSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1).max(30),
+      values: z.array(z.string().trim().min(1).max(30)).min(1).max(20),
+    }),
+  )
+  .max(3)
+  .refine((options) => new Set(options.map((option) => option.name.toLowerCase())).size === options.length, {
+    message: "Option names must be different",
+  });
+
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  options: z.record(z.string().trim().min(1)),
+  sku: (schema) => schema.trim().min(1).max(64).nullish(),
+  price: z.coerce.number().positive("Price must be more than zero").transform((price) => price.toFixed(2)),
+  stock: z.coerce.number().int().min(0).optional(),
+}).omit({
+  id: true,
+  productId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Stock moves through inventory changes once the variant exists
+export const updateProductVariantSchema = insertProductVariantSchema.omit({ stock: true }).partial();
+
+// IMEIs are 15 digits, the last a Luhn check digit over the first 14
+function isValidImei(imei: string): boolean {
+  if (!/^\d{15}$/.test(imei)) return false;
+  const sum = imei
+    .split("")
+    .map(Number)
+    .reduce((total, digit, index) => {
+      if (index % 2 === 0) return total + digit;
+      const doubled = digit * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }, 0);
+  return sum % 10 === 0;
+}
+
+const imeiSchema = z
+  .string()
+  .transform((imei) => imei.replace(/[\s-]/g, ""))
+  .pipe(z.string().refine(isValidImei, "Enter a valid 15-digit IMEI"));
+
+export const insertDeviceUnitSchema = createInsertSchema(deviceUnits, {
+  imei1: imeiSchema,
+  imei2: imeiSchema.nullish(),
+  serialNumber: z.string().trim().max(64).nullish(),
+  color: z.string().trim().max(50).nullish(),
+  storage: z.string().trim().max(50).nullish(),
+})
+  .omit({
+    id: true,
+    productId: true,
+    status: true,
+    orderId: true,
+    soldAt: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .refine((unit) => unit.imei1 !== unit.imei2, { message: "IMEI 2 must differ from IMEI 1", path: ["imei2"] });
+
+// A Kuwait delivery address, as saved in the address book and copied onto orders
+export const shippingAddressSchema = z.object({
+  label: z.string().trim().max(50).nullish(),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  phone: z.string().trim().regex(/^(\+965)?[124569]\d{7}$/, "Enter a valid Kuwait phone number"),
+  governorate: z.enum(KUWAIT_GOVERNORATES),
+  area: z.string().trim().min(1, "Area is required"),
+  block: z.string().trim().regex(/^\d{1,3}$/, "Block must be a number"),
+  street: z.string().trim().min(1, "Street is required"),
+  avenue: z.string().trim().nullish(),
+  building: z.string().trim().min(1, "Building is required"),
+  floor: z.string().trim().nullish(),
+  apartment: z.string().trim().nullish(),
+  paciNumber: z.string().trim().regex(/^\d{8}$/, "PACI number must be 8 digits").nullish(),
+});
+
+export const insertAddressSchema = shippingAddressSchema.extend({
+  isDefault: z.boolean().optional(),
+});
+
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShipmentSchema = createInsertSchema(shipments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertShipmentEventSchema = createInsertSchema(shipmentEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertCartSchema = createInsertSchema(cart).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertWishlistSchema = createInsertSchema(wishlists).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  code: (schema) => schema.trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, "Codes may only use letters, numbers, - and _"),
+  value: (schema) => schema.refine((value) => parseFloat(value) > 0, "Discount must be more than zero"),
+  scopeValues: z.array(z.string()).default([]),
+}).omit({
+  id: true,
+  sellerId: true,
+  createdBy: true,
+  usageCount: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+});
+
+export const insertTaxRateSchema = createInsertSchema(taxRates, {
+  category: (schema) => schema.trim().min(1).nullish(),
+  rate: (schema) => schema.refine((rate) => parseFloat(rate) >= 0 && parseFloat(rate) <= 100, "Rate must be between 0 and 100"),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  effectiveFrom: z.coerce.date(),
+});
+
+export const insertCommissionRateSchema = createInsertSchema(commissionRates, {
+  category: (schema) => schema.trim().min(1).nullish(),
+  rate: (schema) => schema.refine((rate) => parseFloat(rate) >= 0 && parseFloat(rate) <= 100, "Rate must be between 0 and 100"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTradeInPriceSchema = createInsertSchema(tradeInPrices, {
+  brand: (schema) => schema.trim().min(1),
+  model: (schema) => schema.trim().min(1),
+  storage: (schema) => schema.trim().min(1).nullish(),
+  price: (schema) => schema.refine((price) => parseFloat(price) > 0, "Price must be more than zero"),
+}).omit({
+  id: true,
+  sellerId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// The customer's answers about the device's state; the condition grade and so
+// the quote follow from these
+export const tradeInAnswersSchema = z.object({
+  powersOn: z.boolean(),
+  screen: z.enum(["flawless", "scratched", "cracked"]),
+  body: z.enum(["flawless", "scratched", "dented"]),
+  allFunctionsWork: z.boolean(),
+  batteryHealth: z.number().int().min(0).max(100).nullish(), // percent, when the phone reports it
+});
+
+export const tradeInDeviceSchema = z.object({
+  brand: z.string().trim().min(1, "Brand is required"),
+  model: z.string().trim().min(1, "Model is required"),
+  storage: z.string().trim().min(1).nullish(),
+  answers: tradeInAnswersSchema,
+});
+
+export const insertTradeInSchema = tradeInDeviceSchema.extend({
+  sellerId: z.string().min(1),
+  imei: imeiSchema.nullish(),
+  photos: z.array(z.string().min(1)).min(1, "Add at least one photo").max(8),
+  creditMethod: z.enum(tradeInCreditMethodEnum.enumValues),
+});
+
+// Device intake at the repair counter. customerEmail links the ticket to the
+// customer's account so they can follow it and approve the quote online.
+export const insertRepairTicketSchema = createInsertSchema(repairTickets, {
+  customerName: (schema) => schema.trim().min(1, "Customer name is required"),
+  customerPhone: (schema) => schema.trim().min(1, "Customer phone is required"),
+  brand: (schema) => schema.trim().min(1, "Brand is required"),
+  model: (schema) => schema.trim().min(1, "Model is required"),
+  faultDescription: (schema) => schema.trim().min(1, "Describe the fault"),
+}).pick({
+  customerName: true,
+  customerPhone: true,
+  brand: true,
+  model: true,
+  faultDescription: true,
+}).extend({
+  imei: imeiSchema.nullish(),
+  customerEmail: z.string().trim().email().nullish(),
+});
+
+export const repairDiagnosisSchema = z.object({
+  diagnosis: z.string().trim().min(1, "Enter the diagnosis"),
+  quotedAmount: z.coerce.number().positive("The quote must be more than zero").transform((amount) => amount.toFixed(2)),
+});
+
+export const insertWarrantyClaimSchema = z.object({
+  description: z.string().trim().min(1, "Describe the fault"),
+  photos: z.array(z.string().min(1)).max(8).default([]),
+});
+
+export const resolveWarrantyClaimSchema = z.object({
+  outcome: z.enum(warrantyClaimOutcomeEnum.enumValues),
+  note: z.string().trim().max(1000).nullish(),
+});
+
+export const payoutAccountSchema = z.object({
+  payoutIban: z
+    .string()
+    .trim()
+    .transform((iban) => iban.replace(/\s+/g, "").toUpperCase())
+    .pipe(z.string().regex(/^KW\d{2}[A-Z]{4}[A-Z0-9]{22}$/, "Enter a valid Kuwaiti IBAN")),
+  payoutAccountName: z.string().trim().min(1, "Account name is required"),
+});
+
+// Query string of GET /api/products/search; blank filters are left out
+const searchFilter = z.preprocess((value) => (value === "" || value === "all" ? undefined : value), z.string().trim().optional());
+const searchPrice = z.preprocess((value) => (value === "" ? undefined : value), z.coerce.number().nonnegative().optional());
+
+export const productSearchSchema = z.object({
+  q: z.string().trim().max(100).default(""),
+  category: searchFilter,
+  brand: searchFilter,
+  condition: z.preprocess((value) => (value === "" || value === "all" ? undefined : value), z.enum(productConditionEnum.enumValues).optional()),
+  minPrice: searchPrice,
+  maxPrice: searchPrice,
+  sort: z.enum(["relevance", "price_asc", "price_desc", "newest", "rating"]).default("relevance"),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+  offset: z.coerce.number().int().min(0).default(0),
+  // ?spec[ram]=8 keeps phones with at least 8 GB of RAM, ?spec[has5g]=true those with 5G
+  spec: z
+    .record(z.string())
+    .optional()
+    .superRefine((spec, ctx) => {
+      for (const [key, value] of Object.entries(spec ?? {})) {
+        const field = findProductSpecField(key);
+        const valid = field?.type === "number" ? value.trim() !== "" && Number.isFinite(Number(value)) : value === "true";
+        if (!field?.filter || !valid) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Cannot filter by ${key}=${value}` });
+        }
+      }
+    }),
+});
+
+// Paging of list endpoints: ?limit= with ?offset= for numbered pages, or
+// ?cursor= (the id of the last item already shown) for infinite scroll.
+// ?sort= takes one of the fields the endpoint can be sorted by.
+// A cursor takes precedence over an offset.
+export function pageQuerySchema<S extends readonly [string, ...string[]]>(sortFields: S) {
+  return z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    offset: z.coerce.number().int().min(0).default(0),
+    cursor: z.string().min(1).optional(),
+    sort: z.enum(sortFields).default(sortFields[0]),
+    order: z.enum(["asc", "desc"]).default("desc"),
+  });
+}
+
+// Fields each paged list can be sorted by, its default first
+export const userSortFields = ["createdAt", "email"] as const;
+export const orderSortFields = ["createdAt", "total", "status"] as const;
+export const productSortFields = ["createdAt", "price", "name", "stock"] as const;
+export const paymentSortFields = ["createdAt", "amount", "status"] as const;
+export const notificationSortFields = ["createdAt"] as const;
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertReturnRequestSchema = createInsertSchema(returnRequests).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertUserEventSchema = createInsertSchema(userEvents).omit({
   id: true,
   createdAt: true,
@@ -417,18 +1426,242 @@ export type InsertSeller = z.infer<typeof insertSellerSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
+// Spec key -> value; numbers are in the unit of their ProductSpecField
+export type ProductSpecs = Record<string, string | number | boolean>;
+
+export interface ProductComparison {
+  products: Product[];
+  fields: ProductSpecField[];
+}
+
+export type ProductOption = typeof productOptions.$inferSelect;
+export type ProductOptionInput = z.infer<typeof productOptionsSchema>[number];
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariantUpdate = z.infer<typeof updateProductVariantSchema>;
+
 export type ProductImage = typeof productImages.$inferSelect;
 export type InsertProductImage = z.infer<typeof insertProductImageSchema>;
 
+export type ProductSheetFormat = "csv" | "xlsx";
+export type ProductImport = typeof productImports.$inferSelect;
+
+// A spreadsheet row that was not imported; row is the line number in the file
+export interface ProductImportRowError {
+  row: number;
+  sku: string | null;
+  messages: string[];
+}
+
+export type DeviceUnit = typeof deviceUnits.$inferSelect;
+export type InsertDeviceUnit = z.infer<typeof insertDeviceUnitSchema>;
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
+// The identifiers of a serialized unit as recorded on the order that sold it
+export type OrderItemUnit = Pick<DeviceUnit, "id" | "imei1" | "imei2" | "serialNumber">;
+
+// Shape of each entry in orders.items
+export interface OrderItem {
+  productId: string;
+  name: string;
+  category?: string;
+  brand?: string;
+  quantity: number;
+  price: number;
+  total: number; // price × quantity, less any discount, tax included
+  sellerId: string;
+  discount?: number;
+  promotionCode?: string;
+  taxRate?: number; // percent
+  tax?: number;
+  taxIncluded?: boolean; // the price already contained the tax
+  variantId?: string; // the variant sold, for products listed with variants
+  options?: Record<string, string>; // the variant's option values when sold
+  units?: OrderItemUnit[]; // serialized products: one per unit sold
+  // Service lines bill a repair at pickup. They carry the ticket id as their
+  // productId and take nothing from stock.
+  repairTicketId?: string;
+  warranty?: { months: number; provider: Warranty["provider"] }; // the product's terms when sold
+  replacesWarrantyId?: string; // a free warranty replacement, still covered by the original warranty
+}
+
+// What POST /api/orders/quote returns: the lines priced as the order would be
+export interface OrderQuote {
+  items: OrderItem[];
+  subtotal: number;
+  discount: number;
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+export type ProductSearch = z.infer<typeof productSearchSchema>;
+
+export interface PageQuery<S extends string = string> {
+  limit: number;
+  offset: number;
+  cursor?: string;
+  sort: S;
+  order: "asc" | "desc";
+}
+
+// One page of a list endpoint; nextCursor is null on the last page
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface SearchFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PriceBucketCount {
+  min: number;
+  max: number | null; // open-ended top bucket
+  count: number;
+}
+
+// What GET /api/products/search returns: ranked listings, counts to narrow
+// them down by, and a corrected query when the one typed looks misspelled
+export interface ProductSearchResult {
+  products: Product[];
+  total: number;
+  facets: {
+    category: SearchFacetCount[];
+    brand: SearchFacetCount[];
+    condition: SearchFacetCount[];
+    price: PriceBucketCount[];
+  };
+  suggestion: string | null;
+}
+
+export interface ProductSuggestion {
+  id: string;
+  name: string;
+  brand: string | null;
+  imageUrl: string | null;
+}
+
+export type OrderStatus = Order["status"];
+
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+
+export type Address = typeof addresses.$inferSelect;
+export type InsertAddress = z.infer<typeof insertAddressSchema>;
+
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
+
+export type Shipment = typeof shipments.$inferSelect;
+export type InsertShipment = z.infer<typeof insertShipmentSchema>;
+export type ShipmentStatus = Shipment["status"];
+
+export type ShipmentEvent = typeof shipmentEvents.$inferSelect;
+export type InsertShipmentEvent = z.infer<typeof insertShipmentEventSchema>;
+
 export type CartItem = typeof cart.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartSchema>;
 
+export type WishlistItem = typeof wishlists.$inferSelect;
+export type InsertWishlistItem = z.infer<typeof insertWishlistSchema>;
+
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+
+export type TaxRate = typeof taxRates.$inferSelect;
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+
+export type CommissionRate = typeof commissionRates.$inferSelect;
+export type InsertCommissionRate = z.infer<typeof insertCommissionRateSchema>;
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+export type LedgerAccount = LedgerEntry["account"];
+
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type Payout = typeof payouts.$inferSelect;
+export type PayoutAccount = z.infer<typeof payoutAccountSchema>;
+
+export type RepairTicket = typeof repairTickets.$inferSelect;
+export type InsertRepairTicket = z.infer<typeof insertRepairTicketSchema>;
+export type RepairDiagnosis = z.infer<typeof repairDiagnosisSchema>;
+export type RepairPart = typeof repairParts.$inferSelect;
+export type RepairTicketHistory = typeof repairTicketHistory.$inferSelect;
+
+export type Warranty = typeof warranties.$inferSelect;
+export type InsertWarranty = typeof warranties.$inferInsert;
+export type WarrantyClaim = typeof warrantyClaims.$inferSelect;
+export type InsertWarrantyClaim = z.infer<typeof insertWarrantyClaimSchema>;
+export type WarrantyClaimResolution = z.infer<typeof resolveWarrantyClaimSchema>;
+
+export type TradeInPrice = typeof tradeInPrices.$inferSelect;
+export type InsertTradeInPrice = z.infer<typeof insertTradeInPriceSchema>;
+export type TradeIn = typeof tradeIns.$inferSelect;
+export type InsertTradeIn = z.infer<typeof insertTradeInSchema>;
+export type TradeInAnswers = z.infer<typeof tradeInAnswersSchema>;
+export type TradeInDevice = z.infer<typeof tradeInDeviceSchema>;
+export type StoreCreditTransaction = typeof storeCreditTransactions.$inferSelect;
+
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 
+export type Notification = typeof notifications.$inferSelect;
+
+export type NotificationLanguage = "en" | "ar";
+
+export const notificationPreferencesSchema = z
+  .object({
+    emailNotifications: z.boolean(),
+    smsNotifications: z.boolean(),
+    phoneNumber: z.string().trim().regex(/^\+?[0-9 ]{7,20}$/, "Enter a valid phone number").nullable(),
+    preferredLanguage: z.enum(["en", "ar"]),
+  })
+  .refine((preferences) => !preferences.smsNotifications || preferences.phoneNumber, {
+    message: "Add a phone number to receive text messages",
+    path: ["phoneNumber"],
+  });
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+// A product's stock against its recent sales, from the restock report
+export interface RestockSuggestion {
+  productId: string;
+  name: string;
+  sku: string | null;
+  stock: number;
+  reorderThreshold: number;
+  reorderQuantity: number;
+  unitsSold: number;
+  dailySales: number;
+  // null when nothing sold in the period
+  daysOfStockLeft: number | null;
+  suggestedQuantity: number;
+}
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type JobStatus = Job["status"];
+export type DeadLetterJob = typeof deadLetterJobs.$inferSelect;
+export type InsertDeadLetterJob = typeof deadLetterJobs.$inferInsert;
+
+// The admin view of the job queue
+export interface JobOverview {
+  backend: string;
+  mode: "inline" | "queue";
+  counts: Record<JobStatus, number>;
+  jobs: Job[];
+  schedules: { name: string; cron: string }[];
+}
+
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+
 export type UserEvent = typeof userEvents.$inferSelect;
 export type InsertUserEvent = z.infer<typeof insertUserEventSchema>;
 
@@ -438,9 +1671,16 @@ export type InsertLoyaltyTransaction = z.infer<typeof insertLoyaltyTransactionSc
 export type Review = typeof reviews.$inferSelect;
 export const insertReviewSchema = createInsertSchema(reviews).omit({
   id: true,
+  sellerReply: true,
+  sellerRepliedAt: true,
   createdAt: true,
   updatedAt: true,
 });
+// What a reviewer may change; the seller's reply has its own endpoint
+export const updateReviewSchema = insertReviewSchema.pick({ rating: true, title: true, comment: true }).partial();
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1, "Write a reply").max(2000),
+});
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 
 export type InventoryLog = typeof inventoryLogs.$inferSelect;
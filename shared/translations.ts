@@ -109,6 +109,10 @@ export const translations = {
   "continue_shopping": "متابعة التسوق",
   "empty_cart": "السلة فارغة",
   "cart_items": "عناصر السلة",
+  "apply_coupon": "تطبيق القسيمة",
+  "coupon_code": "رمز القسيمة",
+  "net_amount": "المبلغ قبل الضريبة",
+  "tax_included": "شامل الضريبة",
 
   // Orders
   "orders": "الطلبات",
@@ -279,6 +283,18 @@ export const translations = {
   "process_sale": "معالجة البيع",
   "current_sale": "البيع الحالي",
   "scan_or_search": "امسح أو ابحث عن المنتج",
+  "imei": "رقم IMEI",
+  "serial_number": "الرقم التسلسلي",
+  "unit_not_available": "هذا الجهاز غير متوفر للبيع",
+  "repairs_ready": "إصلاحات جاهزة للاستلام",
+  "repair_service": "خدمة إصلاح",
+  "add_to_sale": "إضافة إلى البيع",
+  "warranty": "الضمان",
+  "months": "أشهر",
+  "seller_warranty": "ضمان البائع",
+  "manufacturer_warranty": "ضمان الشركة المصنعة",
+  "valid_until": "ساري حتى",
+  "choose_options": "اختر الخيارات",
   "customer_details": "تفاصيل العميل",
   "optional": "اختياري",
   "only": "فقط",
@@ -297,6 +313,10 @@ export const translations = {
   "try_adjusting_filters": "جرب تعديل المرشحات لرؤية نتائج أكثر",
   "clear_filters": "مسح المرشحات",
   "apply_filters": "تطبيق المرشحات",
+  "did_you_mean": "هل تقصد",
+  "compare": "قارن",
+  "compare_products": "مقارنة المنتجات",
+  "specifications": "المواصفات",
   "search_placeholder": "ابحث عن المنتجات...",
   "file_too_large": "الملف كبير جداً. الحد الأقصى",
   "invalid_file_type": "نوع ملف غير صالح. يرجى اختيار ملف صالح.",
@@ -330,6 +350,8 @@ export const translations = {
   "receive_order_email_updates": "استقبال تحديثات الطلبات عبر البريد الإلكتروني",
   "receive_order_sms_updates": "استقبال تحديثات الطلبات عبر الرسائل النصية",
   "get_notified_low_stock": "الحصول على تنبيهات عند انخفاض المخزون",
+  "notification_language": "لغة الإشعارات",
+  "notification_language_help": "اللغة المستخدمة في رسائل البريد الإلكتروني والرسائل النصية",
   "enabled": "مفعل",
   "disabled": "غير مفعل",
   "payment_settings": "إعدادات الدفع",
@@ -557,6 +579,8 @@ const englishTranslations: Record<string, string> = {
   "delivery_date": "Delivery Date",
   "subtotal": "Subtotal",
   "tax": "Tax",
+  "net_amount": "Net Amount",
+  "tax_included": "Tax included",
   "shipping": "Shipping",
   "discount": "Discount",
   "total": "Total",
@@ -716,6 +740,17 @@ const englishTranslations: Record<string, string> = {
   "process_sale": "Process Sale",
   "current_sale": "Current Sale",
   "scan_or_search": "Scan or search for product",
+  "imei": "IMEI",
+  "serial_number": "Serial No.",
+  "unit_not_available": "This handset is not available for sale",
+  "repairs_ready": "Repairs Ready for Pickup",
+  "repair_service": "Repair service",
+  "add_to_sale": "Add to Sale",
+  "months": "months",
+  "seller_warranty": "seller",
+  "manufacturer_warranty": "manufacturer",
+  "valid_until": "valid until",
+  "choose_options": "Choose Options",
   "customer_details": "Customer Details",
   "optional": "Optional",
   "only": "Only",
@@ -723,6 +758,9 @@ const englishTranslations: Record<string, string> = {
   "add_items_to_cart": "Add items to cart before processing payment",
   "no_products_found": "No Products Found",
   "no_products_available": "No Products Available",
+  "did_you_mean": "Did you mean",
+  "compare": "Compare",
+  "compare_products": "Compare Products",
   "clear_cart": "Clear Cart",
   "customer_name": "Customer Name",
   "customer_phone": "Customer Phone",
@@ -753,6 +791,8 @@ const englishTranslations: Record<string, string> = {
   "receive_order_email_updates": "Receive order updates via email",
   "receive_order_sms_updates": "Receive order updates via SMS",
   "get_notified_low_stock": "Get notified when stock is low",
+  "notification_language": "Notification Language",
+  "notification_language_help": "The language of email and SMS messages",
   "enabled": "Enabled",
   "disabled": "Disabled",
   "payment_settings": "Payment Settings",